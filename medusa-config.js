@@ -79,6 +79,12 @@ module.exports = {
     database_type: "sqlite",
     store_cors: STORE_CORS,
     admin_cors: ADMIN_CORS,
+    // How long rental items are kept aside, in minutes: for the carts they
+    // are added to, and for waiting customers once they free up
+    rentals: {
+      hold_ttl_minutes: 15,
+      waitlist_hold_ttl_minutes: 60,
+    },
   },
   featureFlags: {
     tax_inclusive_pricing: true,
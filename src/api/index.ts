@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { getConfigFile } from "medusa-core-utils"
 import { ConfigModule } from "@medusajs/medusa/dist/types/global"
-import errorHandler from "@medusajs/medusa/dist/api/middlewares/error-handler"
+import errorHandler from "./middlewares/error-handler"
 import { featureFlagRouter } from "@medusajs/medusa/dist/loaders/feature-flags"
 //import bodyParser from 'body-parser';
 
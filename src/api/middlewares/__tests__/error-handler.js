@@ -0,0 +1,65 @@
+import { MedusaError } from "medusa-core-utils"
+import errorHandler, { RentalErrorTypes } from "../error-handler"
+
+const response = () => {
+  const res = {}
+  res.status = jest.fn(() => res)
+  res.json = jest.fn(() => res)
+  return res
+}
+
+const request = {
+  scope: { resolve: () => ({ error: jest.fn() }) },
+}
+
+describe("errorHandler", () => {
+  it("answers forbidden errors with a 403", () => {
+    const res = response()
+
+    errorHandler()(
+      new MedusaError(RentalErrorTypes.FORBIDDEN, "Not allowed"),
+      request,
+      res,
+      jest.fn()
+    )
+
+    expect(res.status).toHaveBeenCalledWith(403)
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Not allowed" })
+    )
+  })
+
+  it("keeps the message of conflicts", () => {
+    const res = response()
+
+    errorHandler()(
+      new MedusaError(
+        MedusaError.Types.CONFLICT,
+        "Variant with id: variant_1 has 0 item(s) available"
+      ),
+      request,
+      res,
+      jest.fn()
+    )
+
+    expect(res.status).toHaveBeenCalledWith(409)
+    expect(res.json).toHaveBeenCalledWith({
+      code: "invalid_state_error",
+      type: MedusaError.Types.CONFLICT,
+      message: "Variant with id: variant_1 has 0 item(s) available",
+    })
+  })
+
+  it("leaves other errors to the core error handler", () => {
+    const res = response()
+
+    errorHandler()(
+      new MedusaError(MedusaError.Types.NOT_FOUND, "Booking not found"),
+      request,
+      res,
+      jest.fn()
+    )
+
+    expect(res.status).toHaveBeenCalledWith(404)
+  })
+})
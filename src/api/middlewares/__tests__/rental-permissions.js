@@ -0,0 +1,108 @@
+import {
+  RentalRole,
+  validateRentalPermission,
+  validateRentalRoleChange,
+} from "../rental-permissions"
+import { RentalErrorTypes } from "../error-handler"
+
+const request = (method, path, metadata, body) => ({
+  method,
+  path,
+  body,
+  user: { userId: "usr_1" },
+  scope: {
+    resolve: () => ({
+      retrieve: jest.fn(() => Promise.resolve({ id: "usr_1", metadata })),
+    }),
+  },
+})
+
+describe("validateRentalPermission", () => {
+  const allowed = async (role, method, path) => {
+    const next = jest.fn()
+
+    await validateRentalPermission(
+      request(method, path, role ? { rental_role: role } : {}),
+      {},
+      next
+    )
+
+    expect(next).toHaveBeenCalledTimes(1)
+    const [error] = next.mock.calls[0]
+    if (error) {
+      expect(error.type).toEqual(RentalErrorTypes.FORBIDDEN)
+    }
+
+    return !error
+  }
+
+  it.each([
+    [RentalRole.ADMIN, "GET", "/rentals", true],
+    [RentalRole.ADMIN, "POST", "/bookings/rbook_1/cancel", true],
+    [RentalRole.CATALOG_EDITOR, "POST", "/rental-tags/ptag_1", true],
+    [RentalRole.CATALOG_EDITOR, "GET", "/bookings", false],
+    [RentalRole.CATALOG_EDITOR, "POST", "/rental-damage-claims", false],
+    [RentalRole.BOOKING_AGENT, "GET", "/rentals", true],
+    [RentalRole.BOOKING_AGENT, "POST", "/rentals/rent_1", false],
+    [RentalRole.BOOKING_AGENT, "POST", "/bookings/rbook_1/check-in", true],
+    [RentalRole.AUDITOR, "GET", "/rental-damage-claims", true],
+    [RentalRole.AUDITOR, "DELETE", "/rental-blackouts/rbo_1", false],
+    [undefined, "GET", "/rentals", false],
+  ])("%s may %s %s: %s", async (role, method, path, expected) => {
+    expect(await allowed(role, method, path)).toEqual(expected)
+  })
+
+  it("leaves other admin routes alone", async () => {
+    expect(await allowed(undefined, "GET", "/products")).toEqual(true)
+  })
+
+  it("treats an unknown rental role as no access", async () => {
+    expect(await allowed("owner", "GET", "/rentals")).toEqual(false)
+  })
+})
+
+describe("validateRentalRoleChange", () => {
+  it("lets rental admins set rental roles", async () => {
+    const next = jest.fn()
+
+    const body = { metadata: { rental_role: RentalRole.AUDITOR } }
+    const caller = { rental_role: RentalRole.ADMIN }
+
+    await validateRentalRoleChange(
+      request("POST", "/users/usr_2", caller, body),
+      {},
+      next
+    )
+
+    expect(next).toHaveBeenCalledWith()
+  })
+
+  it("keeps other users from giving themselves a rental role", async () => {
+    const next = jest.fn()
+
+    const body = { metadata: { rental_role: RentalRole.ADMIN } }
+    const caller = { rental_role: RentalRole.AUDITOR }
+
+    await validateRentalRoleChange(
+      request("POST", "/users/usr_1", caller, body),
+      {},
+      next
+    )
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({ type: RentalErrorTypes.FORBIDDEN })
+    )
+  })
+
+  it("leaves updates without a rental role alone", async () => {
+    const next = jest.fn()
+
+    await validateRentalRoleChange(
+      request("POST", "/users/usr_1", {}, { first_name: "Jane" }),
+      {},
+      next
+    )
+
+    expect(next).toHaveBeenCalledWith()
+  })
+})
@@ -0,0 +1,34 @@
+import { NextFunction, Request, Response, Router } from "express"
+
+import MiddlewareService from "@medusajs/medusa/dist/services/middleware"
+
+/**
+ * The middleware runs the middleware registered with the middlewareService to
+ * run before or after authentication. The core admin router adds them to the
+ * app once it is loaded, after the routes of the project, so they would not
+ * run for the rental routes otherwise. They are added to a router of their
+ * own on the first request, since the container is only available then.
+ *
+ * @param stage - whether to run the middleware registered to run before or
+ * after authentication
+ * @return the middleware
+ */
+export default (stage: "pre" | "post") => {
+  let router: Router | undefined
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!router) {
+      const middlewareService: MiddlewareService =
+        req.scope.resolve("middlewareService")
+
+      router = Router()
+      if (stage === "pre") {
+        middlewareService.usePreAuthentication(router)
+      } else {
+        middlewareService.usePostAuthentication(router)
+      }
+    }
+
+    router(req, res, next)
+  }
+}
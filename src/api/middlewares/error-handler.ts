@@ -0,0 +1,43 @@
+import { NextFunction, Request, Response } from "express"
+import { MedusaError } from "medusa-core-utils"
+import coreErrorHandler from "@medusajs/medusa/dist/api/middlewares/error-handler"
+
+export const RentalErrorTypes = {
+  /**
+   * The logged in user is not allowed to access the route.
+   */
+  FORBIDDEN: "forbidden",
+}
+
+/**
+ * The error handler answers the errors the logged in user is not allowed
+ * past with a 403, and leaves the others to the core error handler. The core
+ * error handler replaces the message of conflicts with a generic one about
+ * retrying; the rental conflicts, e.g. a variant that is no longer available
+ * for a period, keep their own message so the client can tell why.
+ */
+export default () => {
+  const handleCoreError = coreErrorHandler()
+
+  return (err, req: Request, res: Response, next: NextFunction): void => {
+    if (err?.type === RentalErrorTypes.FORBIDDEN) {
+      res.status(403).json({
+        code: err.code,
+        type: err.type,
+        message: err.message,
+      })
+      return
+    }
+
+    if (err?.type === MedusaError.Types.CONFLICT) {
+      res.status(409).json({
+        code: err.code ?? "invalid_state_error",
+        type: err.type,
+        message: err.message,
+      })
+      return
+    }
+
+    handleCoreError(err, req, res, next)
+  }
+}
@@ -0,0 +1,58 @@
+import { NextFunction, Request, Response } from "express"
+
+import PublishableApiKeyService from "@medusajs/medusa/dist/services/publishable-api-key"
+import RentalCollectionService from "../../../services/rental-collection"
+
+/**
+ * The middleware check if requested rental collection, by id or handle, has a rental assigned to a SC associated with PK in the header.
+ *
+ * @param req - request object
+ * @param res - response object
+ * @param next - next middleware call
+ */
+async function validateRentalCollectionSalesChannelAssociation(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const pubKey = req.get("x-publishable-api-key")
+
+  if (pubKey) {
+    const rentalCollectionService: RentalCollectionService = req.scope.resolve(
+      "rentalCollectionService"
+    )
+    const publishableKeyService: PublishableApiKeyService = req.scope.resolve(
+      "publishableApiKeyService"
+    )
+
+    try {
+      const { sales_channel_id: salesChannelIds } =
+        await publishableKeyService.getResourceScopes(pubKey)
+
+      const { id } = req.params.handle
+        ? await rentalCollectionService.retrieveByHandle(req.params.handle, {
+            select: ["id"],
+          })
+        : req.params
+
+      if (
+        salesChannelIds.length &&
+        !(await rentalCollectionService.isCollectionInSalesChannels(
+          id,
+          salesChannelIds
+        ))
+      ) {
+        req.errors = req.errors ?? []
+        req.errors.push(
+          `Rental collection ${req.params.handle ?? id} is not associated with sales channels defined by the Publishable API Key passed in the header of the request.`
+        )
+      }
+    } catch (error) {
+      return next(error)
+    }
+  }
+
+  next()
+}
+
+export { validateRentalCollectionSalesChannelAssociation }
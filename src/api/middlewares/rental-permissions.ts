@@ -0,0 +1,195 @@
+import { NextFunction, Request, Response } from "express"
+import { MedusaError } from "medusa-core-utils"
+import { RentalErrorTypes } from "./error-handler"
+
+import { User } from "@medusajs/medusa"
+import UserService from "@medusajs/medusa/dist/services/user"
+import authenticate from "@medusajs/medusa/dist/api/middlewares/authenticate"
+
+export enum RentalRole {
+  ADMIN = "admin",
+  CATALOG_EDITOR = "catalog_editor",
+  BOOKING_AGENT = "booking_agent",
+  AUDITOR = "auditor",
+}
+
+export type RentalRolePermissions = {
+  read: string[]
+  write: string[]
+}
+
+const catalogRoutes = [
+  "rentals",
+  "rental-blackouts",
+  "rental-cancellation-policies",
+  "rental-collections",
+  "rental-price-rules",
+  "rental-tags",
+  "rental-types",
+]
+
+const bookingRoutes = ["bookings", "rental-damage-claims"]
+
+const rentalRoutes = [...catalogRoutes, ...bookingRoutes]
+
+/**
+ * The paths of the rental admin routes, relative to `/admin`.
+ */
+export const rentalAdminPaths = rentalRoutes.map((resource) => `/${resource}`)
+
+/**
+ * The admin routes, by the first segment of their path, that each rental role
+ * can read and write. GET requests read, all others write.
+ */
+export const rentalRolePermissions: Record<RentalRole, RentalRolePermissions> =
+  {
+    [RentalRole.ADMIN]: { read: rentalRoutes, write: rentalRoutes },
+    [RentalRole.CATALOG_EDITOR]: { read: catalogRoutes, write: catalogRoutes },
+    [RentalRole.BOOKING_AGENT]: { read: rentalRoutes, write: bookingRoutes },
+    [RentalRole.AUDITOR]: { read: rentalRoutes, write: [] },
+  }
+
+/**
+ * Retrieves the rental role of the logged in user, set in
+ * `metadata.rental_role`.
+ *
+ * @param req - request object
+ * @return the id and rental role of the user, if any
+ */
+async function retrieveRentalRole(
+  req: Request
+): Promise<{ userId: string; role: RentalRole | undefined }> {
+  const userService: UserService = req.scope.resolve("userService")
+
+  const user = await userService.retrieve(
+    req.user?.userId ?? (req.user as User).id,
+    { select: ["id", "metadata"] }
+  )
+
+  return {
+    userId: user.id,
+    role: user.metadata?.rental_role as RentalRole | undefined,
+  }
+}
+
+/**
+ * The middleware checks if the rental role of the logged in user, set in `metadata.rental_role`, grants access to the requested rental admin route. Users without a rental role have no access; other admin routes are left alone.
+ *
+ * @param req - request object
+ * @param res - response object
+ * @param next - next middleware call
+ */
+async function validateRentalPermission(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const [resource] = req.path.split("/").filter(Boolean)
+
+  if (!rentalRoutes.includes(resource)) {
+    return next()
+  }
+
+  try {
+    const { userId, role } = await retrieveRentalRole(req)
+    const permissions = role ? rentalRolePermissions[role] : undefined
+
+    const routes = ["GET", "HEAD", "OPTIONS"].includes(req.method)
+      ? permissions?.read
+      : permissions?.write
+
+    if (!routes?.includes(resource)) {
+      throw new MedusaError(
+        RentalErrorTypes.FORBIDDEN,
+        role
+          ? `User with id: ${userId} and rental role: ${role} is not allowed to ${req.method} /admin${req.path}`
+          : `User with id: ${userId} has no rental role`
+      )
+    }
+  } catch (error) {
+    return next(error)
+  }
+
+  next()
+}
+
+/**
+ * Whether a request sets `metadata.rental_role`.
+ *
+ * @param req - request object
+ * @return whether the request sets a rental role
+ */
+function setsRentalRole(req: Request): boolean {
+  const metadata = req.body?.metadata
+
+  return !!metadata && typeof metadata === "object" && "rental_role" in metadata
+}
+
+/**
+ * The middleware authenticates the requests to the core user routes that set `metadata.rental_role`, so that the rental role of the logged in user can be checked. The others, e.g. to reset a password, are left to the core user routes.
+ *
+ * @param req - request object
+ * @param res - response object
+ * @param next - next middleware call
+ */
+function authenticateRentalRoleChange(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  if (!setsRentalRole(req)) {
+    return next()
+  }
+
+  return authenticate()(req, res, next)
+}
+
+/**
+ * The middleware keeps the core user routes from setting `metadata.rental_role`, unless the logged in user is a rental admin, so that users cannot grant themselves a rental role.
+ *
+ * @param req - request object
+ * @param res - response object
+ * @param next - next middleware call
+ */
+async function validateRentalRoleChange(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  if (!setsRentalRole(req)) {
+    return next()
+  }
+
+  try {
+    const { userId, role } = await retrieveRentalRole(req)
+
+    if (role !== RentalRole.ADMIN) {
+      throw new MedusaError(
+        RentalErrorTypes.FORBIDDEN,
+        `User with id: ${userId} is not allowed to set rental roles`
+      )
+    }
+
+    const rentalRole = req.body.metadata.rental_role
+    if (
+      rentalRole !== null &&
+      rentalRole !== "" &&
+      !Object.values(RentalRole).includes(rentalRole)
+    ) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Rental role must be one of ${Object.values(RentalRole).join(", ")}`
+      )
+    }
+  } catch (error) {
+    return next(error)
+  }
+
+  next()
+}
+
+export {
+  authenticateRentalRoleChange,
+  validateRentalPermission,
+  validateRentalRoleChange,
+}
@@ -0,0 +1,141 @@
+import express from "express"
+import http from "http"
+import admin from ".."
+import errorHandler from "../../../middlewares/error-handler"
+
+jest.mock("@medusajs/medusa/dist/api/middlewares/authenticate", () => ({
+  __esModule: true,
+  default: () => (req, res, next) => {
+    const userId = req.get("authorization")
+    if (!userId) {
+      return res.sendStatus(401)
+    }
+
+    req.user = { userId }
+    next()
+  },
+}))
+
+const users = {
+  usr_admin: { id: "usr_admin", metadata: { rental_role: "admin" } },
+  usr_auditor: { id: "usr_auditor", metadata: { rental_role: "auditor" } },
+  usr_none: { id: "usr_none", metadata: {} },
+}
+
+const container = {
+  userService: {
+    retrieve: (id) => Promise.resolve(users[id]),
+  },
+  middlewareService: {
+    usePreAuthentication: (router) =>
+      router.use((req, res, next) => {
+        res.set("x-pre-authentication", "true")
+        next()
+      }),
+    usePostAuthentication: (router) =>
+      router.use((req, res, next) => {
+        res.set("x-post-authentication", req.user?.userId)
+        next()
+      }),
+  },
+}
+
+describe("admin router", () => {
+  let server
+  let baseUrl
+
+  beforeAll(async () => {
+    const app = express()
+
+    app.use((req, res, next) => {
+      req.scope = { resolve: (name) => container[name] }
+      next()
+    })
+    admin(app, { admin_cors: "" }, { isFeatureEnabled: () => false })
+
+    // Stands in for the core admin router, which Medusa loads afterwards
+    app.use("/admin", (req, res) => res.json({ core: req.path }))
+    app.use(errorHandler())
+
+    await new Promise((resolve) => {
+      server = app.listen(0, resolve)
+    })
+    baseUrl = `http://127.0.0.1:${server.address().port}/admin`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve())
+  })
+
+  const request = (method, path, { userId, body } = {}) =>
+    new Promise((resolve, reject) => {
+      const req = http.request(
+        `${baseUrl}${path}`,
+        {
+          method,
+          headers: {
+            "content-type": "application/json",
+            ...(userId ? { authorization: userId } : {}),
+          },
+        },
+        (res) => {
+          let data = ""
+          res.on("data", (chunk) => (data += chunk))
+          res.on("end", () =>
+            resolve({
+              status: res.statusCode,
+              headers: res.headers,
+              json: () => JSON.parse(data),
+            })
+          )
+        }
+      )
+      req.on("error", reject)
+      req.end(body && JSON.stringify(body))
+    })
+
+  it("leaves the core routes to the core admin router", async () => {
+    for (const [method, path, body] of [
+      ["POST", "/auth", { email: "jane@medusa.test", password: "secret" }],
+      ["POST", "/users/reset-password", { token: "token", password: "new" }],
+      ["POST", "/invites/accept", { token: "token" }],
+      ["GET", "/products"],
+    ]) {
+      const res = await request(method, path, { body })
+
+      expect(res.status).toEqual(200)
+      expect(res.json()).toEqual({ core: path })
+    }
+  })
+
+  it("authenticates the rental routes", async () => {
+    const res = await request("GET", "/rentals")
+
+    expect(res.status).toEqual(401)
+  })
+
+  it("runs the registered middleware around the authentication of rental routes", async () => {
+    const res = await request("GET", "/rental-tags", { userId: "usr_none" })
+
+    expect(res.status).toEqual(403)
+    expect(res.headers["x-pre-authentication"]).toEqual("true")
+    expect(res.headers["x-post-authentication"]).toEqual("usr_none")
+  })
+
+  it("keeps users from setting rental roles through the core user routes", async () => {
+    const body = { metadata: { rental_role: "admin" } }
+    const status = async (path, userId) =>
+      (await request("POST", path, { userId, body })).status
+
+    expect(await status("/users/usr_auditor")).toEqual(401)
+    expect(await status("/users/usr_auditor", "usr_auditor")).toEqual(403)
+    expect(await status("/users", "usr_auditor")).toEqual(403)
+
+    const res = await request("POST", "/users/usr_auditor", {
+      userId: "usr_admin",
+      body,
+    })
+    expect(res.status).toEqual(200)
+    expect(res.json()).toEqual({ core: "/users/usr_auditor" })
+  })
+})
@@ -0,0 +1,64 @@
+import { defaultAdminBookingFields, defaultAdminBookingRelations } from "."
+import RentalBookingService from "../../../../services/rental-booking"
+
+/**
+ * @oas [post] /bookings/{id}/cancel
+ * operationId: "PostBookingsBookingCancel"
+ * summary: "Cancel a Booking"
+ * description: "Cancels a Rental Booking that has not been handed over yet. The refund is computed from the cancellation policy of the booked Rental, or of its Rental Type or Rental Collection, applied to the amount paid for the booking with its Order and extensions, and recorded on the booking. A held deposit is released in full."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Booking.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/bookings/{id}/cancel' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Booking
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             booking:
+ *               $ref: "#/components/schemas/RentalBooking"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const rentalBookingService: RentalBookingService = req.scope.resolve(
+    "rentalBookingService"
+  )
+
+  // Not wrapped in a transaction: the deposit of the booking is released
+  // through the payment provider once the cancellation is saved
+  await rentalBookingService.cancel(id)
+
+  const booking = await rentalBookingService.retrieve(id, {
+    select: defaultAdminBookingFields,
+    relations: defaultAdminBookingRelations,
+  })
+
+  res.status(200).json({ booking })
+}
+
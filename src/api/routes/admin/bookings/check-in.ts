@@ -0,0 +1,133 @@
+import { IsArray, IsBoolean, IsOptional, ValidateNested } from "class-validator"
+import { defaultAdminBookingFields, defaultAdminBookingRelations } from "."
+import { AdminPostBookingsBookingCheckOutReq } from "./check-out"
+import { AdminPostBookingsBookingDepositDeductionsReq } from "./create-deposit-deduction"
+import RentalBookingService from "../../../../services/rental-booking"
+import { Type } from "class-transformer"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /bookings/{id}/check-in
+ * operationId: "PostBookingsBookingCheckIn"
+ * summary: "Check in a Booking"
+ * description: "Takes the items of an active Rental Booking back from the customer. The inspections of the items are recorded, the booking is returned and its units are available again, or in maintenance if found damaged. Units out of service stay out of service. The late fees owed are recorded on the booking but not charged, so include them in the deductions to take them from the deposit. The deposit of the booking is released after the given deductions, unless `release_deposit` is false. It stays held while the booking has damage claims to settle or items returned damaged, and is released once its claims are settled. Items returned before the end of the booking free their units right away, and the refund of the unused days, prorated from the amount paid for the booking, is recorded if the Rental prorates early returns."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Booking.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostBookingsBookingCheckInReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/bookings/{id}/check-in' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "inspections": [{
+ *               "unit_id": "{unit_id}",
+ *               "condition": "fair",
+ *               "meter_readings": { "odometer": 12410 },
+ *               "notes": "Scratch on the left door"
+ *           }],
+ *           "deposit_deductions": [{ "amount": 2500, "reason": "Scratch on the left door" }]
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Booking
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             booking:
+ *               $ref: "#/components/schemas/RentalBooking"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostBookingsBookingCheckInReq,
+    req.body
+  )
+
+  const rentalBookingService: RentalBookingService = req.scope.resolve(
+    "rentalBookingService"
+  )
+
+  const userId = req.user?.userId ?? req.user?.id ?? null
+  const { deposit_deductions, ...rest } = validated
+
+  // Not wrapped in a transaction: the deposit of the booking is released
+  // through the payment provider once the check-in is saved
+  await rentalBookingService.checkIn(id, {
+    ...rest,
+    inspected_by: userId,
+    deposit_deductions: deposit_deductions?.map((deduction) => ({
+      ...deduction,
+      created_by: userId,
+    })),
+  })
+
+  const booking = await rentalBookingService.retrieve(id, {
+    select: defaultAdminBookingFields,
+    relations: defaultAdminBookingRelations,
+  })
+
+  res.status(200).json({ booking })
+}
+
+/**
+ * @schema AdminPostBookingsBookingCheckInReq
+ * type: object
+ * properties:
+ *   inspected_at:
+ *     description: The date at which the items were returned. Defaults to now.
+ *     type: string
+ *     format: date-time
+ *   inspections:
+ *     description: The inspections of the items returned.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/AdminRentalInspectionReq"
+ *   release_deposit:
+ *     description: Whether to release the deposit of the booking.
+ *     type: boolean
+ *     default: true
+ *   deposit_deductions:
+ *     description: Deductions to record on the deposit of the booking.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/AdminPostBookingsBookingDepositDeductionsReq"
+ */
+export class AdminPostBookingsBookingCheckInReq extends AdminPostBookingsBookingCheckOutReq {
+  @IsBoolean()
+  @IsOptional()
+  release_deposit?: boolean
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => AdminPostBookingsBookingDepositDeductionsReq)
+  deposit_deductions?: AdminPostBookingsBookingDepositDeductionsReq[]
+}
@@ -0,0 +1,145 @@
+import { IsArray, IsDate, IsOptional, ValidateNested } from "class-validator"
+import { defaultAdminBookingFields, defaultAdminBookingRelations } from "."
+import RentalBookingService from "../../../../services/rental-booking"
+import { RentalInspectionReq } from "../../../../types/rental-inspection"
+import { EntityManager } from "typeorm"
+import { Type } from "class-transformer"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /bookings/{id}/check-out
+ * operationId: "PostBookingsBookingCheckOut"
+ * summary: "Check out a Booking"
+ * description: "Hands the items of a confirmed Rental Booking over to the customer. The inspections of the items are recorded, the booking becomes active and its units rented."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Booking.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostBookingsBookingCheckOutReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/bookings/{id}/check-out' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "inspections": [{
+ *               "unit_id": "{unit_id}",
+ *               "condition": "good",
+ *               "meter_readings": { "odometer": 12040 }
+ *           }]
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Booking
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             booking:
+ *               $ref: "#/components/schemas/RentalBooking"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostBookingsBookingCheckOutReq,
+    req.body
+  )
+
+  const rentalBookingService: RentalBookingService = req.scope.resolve(
+    "rentalBookingService"
+  )
+
+  const userId = req.user?.userId ?? req.user?.id ?? null
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalBookingService
+      .withTransaction(transactionManager)
+      .checkOut(id, { ...validated, inspected_by: userId })
+  })
+
+  const booking = await rentalBookingService.retrieve(id, {
+    select: defaultAdminBookingFields,
+    relations: defaultAdminBookingRelations,
+  })
+
+  res.status(200).json({ booking })
+}
+
+/**
+ * @schema AdminRentalInspectionReq
+ * type: object
+ * properties:
+ *   unit_id:
+ *     description: The ID of the Rental Unit inspected, if the inspection is about a single unit of the booking.
+ *     type: string
+ *   condition:
+ *     description: The condition the items were found in.
+ *     type: string
+ *     enum: [new, good, fair, poor, damaged]
+ *   images:
+ *     description: The urls of photos taken during the inspection.
+ *     type: array
+ *     items:
+ *       type: string
+ *   meter_readings:
+ *     description: The readings of the items' meters, by meter name.
+ *     type: object
+ *   notes:
+ *     description: Notes taken during the inspection.
+ *     type: string
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+
+/**
+ * @schema AdminPostBookingsBookingCheckOutReq
+ * type: object
+ * properties:
+ *   inspected_at:
+ *     description: The date at which the items were handed over. Defaults to now.
+ *     type: string
+ *     format: date-time
+ *   inspections:
+ *     description: The inspections of the items handed over.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/AdminRentalInspectionReq"
+ */
+export class AdminPostBookingsBookingCheckOutReq {
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  inspected_at?: Date
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => RentalInspectionReq)
+  inspections?: RentalInspectionReq[]
+}
@@ -0,0 +1,126 @@
+import { IsInt, IsObject, IsOptional, IsString, Min } from "class-validator"
+import { defaultAdminBookingFields, defaultAdminBookingRelations } from "."
+import RentalBookingService from "../../../../services/rental-booking"
+import RentalDepositService from "../../../../services/rental-deposit"
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /bookings/{id}/deposit/deductions
+ * operationId: "PostBookingsBookingDepositDeductions"
+ * summary: "Deduct from a Deposit"
+ * description: "Records a deduction from the deposit of a Rental Booking. The deduction is kept when the deposit is released."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Booking.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostBookingsBookingDepositDeductionsReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/bookings/{id}/deposit/deductions' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "amount": 2500,
+ *           "reason": "Scratched frame"
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Booking
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             booking:
+ *               $ref: "#/components/schemas/RentalBooking"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostBookingsBookingDepositDeductionsReq,
+    req.body
+  )
+
+  const rentalBookingService: RentalBookingService = req.scope.resolve(
+    "rentalBookingService"
+  )
+  const rentalDepositService: RentalDepositService = req.scope.resolve(
+    "rentalDepositService"
+  )
+
+  const userId = req.user?.userId ?? req.user?.id ?? null
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    const depositService = rentalDepositService.withTransaction(
+      transactionManager
+    )
+
+    const deposit = await depositService.retrieveByBooking(id)
+    return await depositService.deduct(deposit.id, {
+      ...validated,
+      created_by: userId,
+    })
+  })
+
+  const booking = await rentalBookingService.retrieve(id, {
+    select: defaultAdminBookingFields,
+    relations: defaultAdminBookingRelations,
+  })
+
+  res.status(200).json({ booking })
+}
+
+/**
+ * @schema AdminPostBookingsBookingDepositDeductionsReq
+ * type: object
+ * required:
+ *   - amount
+ *   - reason
+ * properties:
+ *   amount:
+ *     description: The amount to deduct from the deposit.
+ *     type: integer
+ *   reason:
+ *     description: Why the amount is deducted.
+ *     type: string
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostBookingsBookingDepositDeductionsReq {
+  @IsInt()
+  @Min(1)
+  amount: number
+
+  @IsString()
+  reason: string
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
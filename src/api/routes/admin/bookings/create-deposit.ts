@@ -0,0 +1,114 @@
+import { IsBoolean, IsOptional, IsString } from "class-validator"
+import { defaultAdminBookingFields, defaultAdminBookingRelations } from "."
+import RentalBookingService from "../../../../services/rental-booking"
+import RentalDepositService from "../../../../services/rental-deposit"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /bookings/{id}/deposit
+ * operationId: "PostBookingsBookingDeposit"
+ * summary: "Take a Deposit"
+ * description: "Authorizes the deposit of a Rental Booking through a payment provider, and captures it if requested. The deposit is the deposit amount of the booked variant in the region, for each item booked."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Booking.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostBookingsBookingDepositReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/bookings/{id}/deposit' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "region_id": "{region_id}"
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Booking
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             booking:
+ *               $ref: "#/components/schemas/RentalBooking"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostBookingsBookingDepositReq,
+    req.body
+  )
+
+  const rentalBookingService: RentalBookingService = req.scope.resolve(
+    "rentalBookingService"
+  )
+  const rentalDepositService: RentalDepositService = req.scope.resolve(
+    "rentalDepositService"
+  )
+
+  // Not wrapped in a transaction: the service calls the payment provider
+  // outside of its own transactions and voids the payment on failure
+  await rentalDepositService.take(id, validated)
+
+  const booking = await rentalBookingService.retrieve(id, {
+    select: defaultAdminBookingFields,
+    relations: defaultAdminBookingRelations,
+  })
+
+  res.status(200).json({ booking })
+}
+
+/**
+ * @schema AdminPostBookingsBookingDepositReq
+ * type: object
+ * required:
+ *   - region_id
+ * properties:
+ *   region_id:
+ *     description: The ID of the Region whose deposit amounts apply.
+ *     type: string
+ *   provider_id:
+ *     description: The ID of the payment provider to take the deposit through.
+ *     type: string
+ *     default: manual
+ *   capture:
+ *     description: Whether to capture the deposit right away instead of only authorizing it.
+ *     type: boolean
+ *     default: false
+ */
+export class AdminPostBookingsBookingDepositReq {
+  @IsString()
+  region_id: string
+
+  @IsString()
+  @IsOptional()
+  provider_id?: string
+
+  @IsBoolean()
+  @IsOptional()
+  capture?: boolean
+}
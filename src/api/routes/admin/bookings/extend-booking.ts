@@ -0,0 +1,180 @@
+import { IsBoolean, IsDate, IsOptional, IsString } from "class-validator"
+import { defaultAdminBookingFields, defaultAdminBookingRelations } from "."
+import RentalBookingExtensionService from "../../../../services/rental-booking-extension"
+import RentalBookingService from "../../../../services/rental-booking"
+import { Type } from "class-transformer"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /bookings/{id}/extend
+ * operationId: "PostBookingsBookingExtend"
+ * summary: "Extend a Booking"
+ * description: "Quotes moving the end of a Rental Booking later, or extends it when confirmed. The extra time must be available, buffers and other bookings included, and the difference in price is charged through a payment provider. With `override`, the availability and duration rules are not checked."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Booking.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostBookingsBookingExtendReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/bookings/{id}/extend' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "end_at": "2023-01-10T10:00:00Z",
+ *           "region_id": "{region_id}",
+ *           "confirm": true
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Booking
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             extension_quote:
+ *               type: object
+ *               description: The quote of the extension. Returned when the extension is not confirmed.
+ *               properties:
+ *                 booking_id:
+ *                   type: string
+ *                 previous_end_at:
+ *                   type: string
+ *                   format: date-time
+ *                 end_at:
+ *                   type: string
+ *                   format: date-time
+ *                 region_id:
+ *                   type: string
+ *                 currency_code:
+ *                   type: string
+ *                 previous_total:
+ *                   type: integer
+ *                   description: The total of the current period.
+ *                 total:
+ *                   type: integer
+ *                   description: The total of the extended period.
+ *                 amount:
+ *                   type: integer
+ *                   description: The difference charged for the extension.
+ *                 quote:
+ *                   type: object
+ *                   description: The quote of the extended period, as returned by the store quote endpoint of Rentals.
+ *             booking:
+ *               description: The extended booking. Returned when the extension is confirmed.
+ *               $ref: "#/components/schemas/RentalBooking"
+ *             extension:
+ *               description: The extension. Returned when the extension is confirmed.
+ *               $ref: "#/components/schemas/RentalBookingExtension"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostBookingsBookingExtendReq,
+    req.body
+  )
+
+  const rentalBookingService: RentalBookingService = req.scope.resolve(
+    "rentalBookingService"
+  )
+  const rentalBookingExtensionService: RentalBookingExtensionService =
+    req.scope.resolve("rentalBookingExtensionService")
+
+  const { confirm, ...data } = validated
+
+  if (!confirm) {
+    const extension_quote = await rentalBookingExtensionService.quote(id, data)
+
+    res.status(200).json({ extension_quote })
+    return
+  }
+
+  const userId = req.user?.userId ?? req.user?.id ?? null
+
+  // Not wrapped in a transaction: the service charges the extension through
+  // the payment provider before extending the booking, and refunds it on
+  // failure
+  const extension = await rentalBookingExtensionService.create(id, {
+    ...data,
+    created_by: userId,
+  })
+
+  const booking = await rentalBookingService.retrieve(id, {
+    select: defaultAdminBookingFields,
+    relations: defaultAdminBookingRelations,
+  })
+
+  res.status(200).json({ booking, extension })
+}
+
+/**
+ * @schema AdminPostBookingsBookingExtendReq
+ * type: object
+ * required:
+ *   - end_at
+ *   - region_id
+ * properties:
+ *   end_at:
+ *     description: The new end of the booking.
+ *     type: string
+ *     format: date-time
+ *   region_id:
+ *     description: The ID of the Region to price the extension in.
+ *     type: string
+ *   confirm:
+ *     description: Whether to extend the booking and charge the difference, instead of only quoting it.
+ *     type: boolean
+ *     default: false
+ *   override:
+ *     description: Whether to extend the booking without checking its availability and duration rules.
+ *     type: boolean
+ *     default: false
+ *   provider_id:
+ *     description: The ID of the payment provider to charge the difference through.
+ *     type: string
+ *     default: manual
+ */
+export class AdminPostBookingsBookingExtendReq {
+  @IsDate()
+  @Type(() => Date)
+  end_at: Date
+
+  @IsString()
+  region_id: string
+
+  @IsBoolean()
+  @IsOptional()
+  confirm?: boolean
+
+  @IsBoolean()
+  @IsOptional()
+  override?: boolean
+
+  @IsString()
+  @IsOptional()
+  provider_id?: string
+}
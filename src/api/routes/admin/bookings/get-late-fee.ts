@@ -0,0 +1,77 @@
+import { IsDate, IsOptional } from "class-validator"
+import RentalBookingService from "../../../../services/rental-booking"
+import { Type } from "class-transformer"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [get] /bookings/{id}/late-fee
+ * operationId: "GetBookingsBookingLateFee"
+ * summary: "Get the Late Fee of a Booking"
+ * description: "Computes the late fees owed for a Rental Booking at a point in time. Fees stop accruing once the items of the booking are returned. Late fees are recorded on the booking but not charged: take them from the deposit with a deduction at check-in, or bill them to the customer otherwise."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Booking.
+ *   - (query) at {string} The point in time to compute the fees at, as an ISO 8601 date. Defaults to now.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/bookings/{id}/late-fee' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Booking
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             late_fee:
+ *               type: integer
+ *               description: The late fees owed.
+ *             at:
+ *               type: string
+ *               format: date-time
+ *               description: The point in time the fees were computed at.
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminGetBookingsBookingLateFeeParams,
+    req.query
+  )
+
+  const rentalBookingService: RentalBookingService = req.scope.resolve(
+    "rentalBookingService"
+  )
+
+  const at = validated.at ?? new Date()
+  const lateFee = await rentalBookingService.getLateFee(id, at)
+
+  res.status(200).json({ late_fee: lateFee, at })
+}
+
+export class AdminGetBookingsBookingLateFeeParams {
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  at?: Date
+}
@@ -0,0 +1,133 @@
+import { Router } from "express"
+import "reflect-metadata"
+import { RentalBooking, RentalBookingExtension } from "../../../../models"
+import { FindParams, PaginatedResponse } from "@medusajs/medusa/dist/types/common"
+import middlewares, { transformQuery } from "@medusajs/medusa/dist/api/middlewares"
+import { AdminGetBookingsParams } from "./list-bookings"
+import { RentalBookingExtensionQuote } from "../../../../types/rental-booking-extension"
+
+const route = Router()
+
+export default (app) => {
+  app.use("/bookings", route)
+
+  route.get(
+    "/",
+    transformQuery(AdminGetBookingsParams, {
+      defaultFields: defaultAdminBookingFields,
+      defaultRelations: defaultAdminBookingRelations,
+      isList: true,
+    }),
+    middlewares.wrap(require("./list-bookings").default)
+  )
+  route.get(
+    "/:id",
+    transformQuery(FindParams, {
+      defaultFields: defaultAdminBookingFields,
+      defaultRelations: defaultAdminBookingRelations,
+      isList: false,
+    }),
+    middlewares.wrap(require("./get-booking").default)
+  )
+  route.get(
+    "/:id/late-fee",
+    middlewares.wrap(require("./get-late-fee").default)
+  )
+  route.post(
+    "/:id/cancel",
+    middlewares.wrap(require("./cancel-booking").default)
+  )
+  route.post(
+    "/:id/check-out",
+    middlewares.wrap(require("./check-out").default)
+  )
+  route.post(
+    "/:id/check-in",
+    middlewares.wrap(require("./check-in").default)
+  )
+  route.post(
+    "/:id/extend",
+    middlewares.wrap(require("./extend-booking").default)
+  )
+  route.post(
+    "/:id/deposit",
+    middlewares.wrap(require("./create-deposit").default)
+  )
+  route.post(
+    "/:id/deposit/deductions",
+    middlewares.wrap(require("./create-deposit-deduction").default)
+  )
+  route.post(
+    "/:id/deposit/release",
+    middlewares.wrap(require("./release-deposit").default)
+  )
+
+  return app
+}
+
+export const defaultAdminBookingFields: (keyof RentalBooking)[] = [
+  "id",
+  "variant_id",
+  "customer_id",
+  "cart_id",
+  "order_id",
+  "line_item_id",
+  "start_at",
+  "end_at",
+  "quantity",
+  "amount_paid",
+  "status",
+  "confirmed_at",
+  "canceled_at",
+  "cancellation_policy_id",
+  "refund_percentage",
+  "refund_amount",
+  "checked_out_at",
+  "checked_in_at",
+  "overdue_at",
+  "late_fee_total",
+  "early_return_refund",
+  "created_at",
+  "updated_at",
+  "metadata",
+]
+export const defaultAdminBookingRelations = [
+  "units",
+  "deposit",
+  "deposit.deductions",
+  "inspections",
+  "inspections.images",
+  "extensions",
+]
+
+export type AdminBookingsListRes = PaginatedResponse & {
+  bookings: RentalBooking[]
+}
+
+export type AdminBookingsRes = {
+  booking: RentalBooking
+}
+
+export type AdminBookingsExtensionQuoteRes = {
+  extension_quote: RentalBookingExtensionQuote
+}
+
+export type AdminBookingsExtensionRes = AdminBookingsRes & {
+  extension: RentalBookingExtension
+}
+
+export type AdminBookingsLateFeeRes = {
+  late_fee: number
+  at: Date
+}
+
+export * from "./cancel-booking"
+export * from "./check-in"
+export * from "./check-out"
+export * from "./create-deposit"
+export * from "./create-deposit-deduction"
+export * from "./extend-booking"
+export * from "./get-booking"
+export * from "./get-late-fee"
+export * from "./list-bookings"
+export * from "./release-deposit"
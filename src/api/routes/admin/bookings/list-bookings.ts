@@ -0,0 +1,180 @@
+import { IsNumber, IsOptional, IsString } from "class-validator"
+import RentalBookingService from "../../../../services/rental-booking"
+import { FilterableRentalBookingProps } from "../../../../types/rental-booking"
+import { Type } from "class-transformer"
+
+/**
+ * @oas [get] /bookings
+ * operationId: "GetBookings"
+ * summary: "List Bookings"
+ * description: "Retrieve a list of Rental Bookings."
+ * x-authenticated: true
+ * parameters:
+ *   - in: query
+ *     name: id
+ *     style: form
+ *     explode: false
+ *     description: Filter by booking IDs.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - in: query
+ *     name: variant_id
+ *     style: form
+ *     explode: false
+ *     description: Filter by the Rental Variants booked.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - (query) customer_id {string} Filter by the Customer who booked.
+ *   - (query) cart_id {string} Filter by the Cart the bookings are held for.
+ *   - (query) order_id {string} Filter by the Order the bookings were placed with.
+ *   - in: query
+ *     name: status
+ *     style: form
+ *     explode: false
+ *     description: Filter by the status of the bookings.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *         enum: [pending, confirmed, active, overdue, returned, canceled]
+ *   - in: query
+ *     name: start_at
+ *     description: Date comparison for when the bookings start.
+ *     schema:
+ *       type: object
+ *       properties:
+ *         lt:
+ *            type: string
+ *            description: filter by dates less than this date
+ *            format: date
+ *         gt:
+ *            type: string
+ *            description: filter by dates greater than this date
+ *            format: date
+ *         lte:
+ *            type: string
+ *            description: filter by dates less than or equal to this date
+ *            format: date
+ *         gte:
+ *            type: string
+ *            description: filter by dates greater than or equal to this date
+ *            format: date
+ *   - in: query
+ *     name: end_at
+ *     description: Date comparison for when the bookings end.
+ *     schema:
+ *       type: object
+ *       properties:
+ *         lt:
+ *            type: string
+ *            description: filter by dates less than this date
+ *            format: date
+ *         gt:
+ *            type: string
+ *            description: filter by dates greater than this date
+ *            format: date
+ *         lte:
+ *            type: string
+ *            description: filter by dates less than or equal to this date
+ *            format: date
+ *         gte:
+ *            type: string
+ *            description: filter by dates greater than or equal to this date
+ *            format: date
+ *   - (query) offset=0 {integer} The number of bookings to skip before the results.
+ *   - (query) limit=20 {integer} Limit the number of bookings returned.
+ *   - (query) order {string} The field to sort the bookings by.
+ *   - (query) expand {string} Comma separated list of relations to include in the results.
+ *   - (query) fields {string} Comma separated list of fields to include in the results.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/bookings' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Booking
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             bookings:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/RentalBooking"
+ *             count:
+ *               type: integer
+ *               description: The total number of items available
+ *             offset:
+ *               type: integer
+ *               description: The number of items skipped before these items
+ *             limit:
+ *               type: integer
+ *               description: The number of items per page
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const rentalBookingService: RentalBookingService = req.scope.resolve(
+    "rentalBookingService"
+  )
+
+  const { skip, take } = req.listConfig
+
+  const [bookings, count] = await rentalBookingService.listAndCount(
+    req.filterableFields,
+    req.listConfig
+  )
+
+  res.status(200).json({
+    bookings,
+    count,
+    offset: skip,
+    limit: take,
+  })
+}
+
+export class AdminGetBookingsParams extends FilterableRentalBookingProps {
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  offset?: number = 0
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number = 20
+
+  @IsString()
+  @IsOptional()
+  expand?: string
+
+  @IsString()
+  @IsOptional()
+  fields?: string
+
+  @IsString()
+  @IsOptional()
+  order?: string
+}
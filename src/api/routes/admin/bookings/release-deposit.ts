@@ -0,0 +1,112 @@
+import { IsArray, IsOptional, ValidateNested } from "class-validator"
+import { defaultAdminBookingFields, defaultAdminBookingRelations } from "."
+import { AdminPostBookingsBookingDepositDeductionsReq } from "./create-deposit-deduction"
+import RentalBookingService from "../../../../services/rental-booking"
+import RentalDepositService from "../../../../services/rental-deposit"
+import { Type } from "class-transformer"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /bookings/{id}/deposit/release
+ * operationId: "PostBookingsBookingDepositRelease"
+ * summary: "Release a Deposit"
+ * description: "Releases the deposit of a Rental Booking, after recording the given deductions. What is left after all deductions is refunded, or stops being held if the deposit was only authorized."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Booking.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostBookingsBookingDepositReleaseReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/bookings/{id}/deposit/release' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "deductions": [{ "amount": 2500, "reason": "Missing lock" }]
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Booking
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             booking:
+ *               $ref: "#/components/schemas/RentalBooking"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostBookingsBookingDepositReleaseReq,
+    req.body
+  )
+
+  const rentalBookingService: RentalBookingService = req.scope.resolve(
+    "rentalBookingService"
+  )
+  const rentalDepositService: RentalDepositService = req.scope.resolve(
+    "rentalDepositService"
+  )
+
+  const userId = req.user?.userId ?? req.user?.id ?? null
+
+  // Not wrapped in a transaction: the service calls the payment provider
+  // once the release is saved and undoes it on failure
+  const deposit = await rentalDepositService.retrieveByBooking(id)
+  await rentalDepositService.release(
+    deposit.id,
+    (validated.deductions ?? []).map((deduction) => ({
+      ...deduction,
+      created_by: userId,
+    }))
+  )
+
+  const booking = await rentalBookingService.retrieve(id, {
+    select: defaultAdminBookingFields,
+    relations: defaultAdminBookingRelations,
+  })
+
+  res.status(200).json({ booking })
+}
+
+/**
+ * @schema AdminPostBookingsBookingDepositReleaseReq
+ * type: object
+ * properties:
+ *   deductions:
+ *     description: Deductions to record before releasing the deposit.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/AdminPostBookingsBookingDepositDeductionsReq"
+ */
+export class AdminPostBookingsBookingDepositReleaseReq {
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => AdminPostBookingsBookingDepositDeductionsReq)
+  deductions?: AdminPostBookingsBookingDepositDeductionsReq[]
+}
@@ -1,12 +1,17 @@
 import cors from "cors"
-import { Router } from "express"
+import { json, Router } from "express"
 import middlewares from "@medusajs/medusa/dist/api/middlewares"
 import analyticsConfigs from "@medusajs/medusa/dist/api/routes/admin/analytics-configs"
 import appRoutes from "@medusajs/medusa/dist/api/routes/admin/apps"
 import authRoutes from "@medusajs/medusa/dist/api/routes/admin/auth"
 import batchRoutes from "@medusajs/medusa/dist/api/routes/admin/batch"
-//import collectionRoutes from "./collections"
+import bookingRoutes from "./bookings"
 //import priceListRoutes from "./price-lists"
+import rentalBlackoutRoutes from "./rental-blackouts"
+import rentalCancellationPolicyRoutes from "./rental-cancellation-policies"
+import rentalCollectionRoutes from "./rental-collections"
+import rentalDamageClaimRoutes from "./rental-damage-claims"
+import rentalPriceRuleRoutes from "./rental-price-rules"
 import rentalTagRoutes from "./rental-tags"
 import rentalTypesRoutes from "./rental-types"
 import rentalRoutes from "./rentals"
@@ -14,6 +19,13 @@ import userRoutes, { unauthenticatedUserRoutes } from "@medusajs/medusa/dist/api
 //import variantRoutes from "./variants"
 import { parseCorsOrigins } from "medusa-core-utils"
 import authenticate from "@medusajs/medusa/dist/api/middlewares/authenticate"
+import authenticationHooks from "../../middlewares/authentication-hooks"
+import {
+  authenticateRentalRoleChange,
+  rentalAdminPaths,
+  validateRentalPermission,
+  validateRentalRoleChange,
+} from "../../middlewares/rental-permissions"
 
 const route = Router()
 
@@ -28,34 +40,41 @@ export default (app : any, projectConfig : any, featureFlagRouter : any) => {
     })
   )
 
-  //route.use(authenticate())
+  // Medusa loads the routes of the project before its own, so the core admin
+  // router serves the other admin routes, with its own authentication
 
-  // Unauthenticated routes
-  //authRoutes(route)
-
-  // reset password
-  //unauthenticatedUserRoutes(route)
-
-  // accept invite
-  //unauthenticatedInviteRoutes(route)
-
- //const middlewareService = container.resolve("middlewareService")
   // Calls all middleware that has been registered to run before authentication.
- // middlewareService.usePreAuthentication(app)
+  route.use(rentalAdminPaths, authenticationHooks("pre"))
 
   // Authenticated routes
-  //route.use(middlewares.authenticate())
+  route.use(rentalAdminPaths, authenticate())
 
   // Calls all middleware that has been registered to run after authentication.
- // middlewareService.usePostAuthentication(app)
-  
+  route.use(rentalAdminPaths, authenticationHooks("post"))
+
+  // Rental routes are limited by the rental role of the user
+  route.use(validateRentalPermission)
+
+  // Only rental admins can give users a rental role with the core user routes
+  route.post(
+    ["/users", "/users/:id"],
+    json(),
+    authenticateRentalRoleChange,
+    validateRentalRoleChange
+  )
 
   //analyticsConfigs(route)
   //appRoutes(route)
   //batchRoutes(route)
+  bookingRoutes(route)
   rentalRoutes(route, featureFlagRouter)
-  //rentalTagRoutes(route)
-  //rentalTypesRoutes(route)
+  rentalBlackoutRoutes(route)
+  rentalCancellationPolicyRoutes(route)
+  rentalCollectionRoutes(route)
+  rentalDamageClaimRoutes(route)
+  rentalPriceRuleRoutes(route)
+  rentalTagRoutes(route)
+  rentalTypesRoutes(route)
   //publishableApiKeyRoutes(route)
   //userRoutes(route)
   //variantRoutes(route)
@@ -0,0 +1,144 @@
+import { IsDate, IsObject, IsOptional, IsString } from "class-validator"
+import {
+  defaultAdminRentalBlackoutFields,
+  defaultAdminRentalBlackoutRelations,
+} from "."
+import RentalBlackoutService from "../../../../services/rental-blackout"
+
+import { Type } from "class-transformer"
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-blackouts
+ * operationId: "PostRentalBlackouts"
+ * summary: "Create a Rental Blackout"
+ * description: "Creates a Rental Blackout. Without a Rental Collection, Rental or Rental Variant, the blackout applies to the whole store."
+ * x-authenticated: true
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalBlackoutsReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-blackouts' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "starts_at": "2023-12-24T00:00:00Z",
+ *           "ends_at": "2023-12-27T00:00:00Z",
+ *           "reason": "Closed for the holidays"
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Blackout
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_blackout:
+ *               $ref: "#/components/schemas/RentalBlackout"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const validated = await validator(AdminPostRentalBlackoutsReq, req.body)
+
+  const rentalBlackoutService: RentalBlackoutService = req.scope.resolve(
+    "rentalBlackoutService"
+  )
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  const created = await manager.transaction(async (transactionManager) => {
+    return await rentalBlackoutService
+      .withTransaction(transactionManager)
+      .create(validated)
+  })
+
+  const blackout = await rentalBlackoutService.retrieve(created.id, {
+    select: defaultAdminRentalBlackoutFields,
+    relations: defaultAdminRentalBlackoutRelations,
+  })
+
+  res.status(200).json({ rental_blackout: blackout })
+}
+
+/**
+ * @schema AdminPostRentalBlackoutsReq
+ * type: object
+ * required:
+ *   - starts_at
+ *   - ends_at
+ * properties:
+ *   starts_at:
+ *     description: The date at which the blackout starts.
+ *     type: string
+ *     format: date-time
+ *   ends_at:
+ *     description: The date at which the blackout ends.
+ *     type: string
+ *     format: date-time
+ *   reason:
+ *     description: Why items cannot be rented during the blackout.
+ *     type: string
+ *   rental_collection_id:
+ *     description: The ID of the Rental Collection to limit the blackout to.
+ *     type: string
+ *   rental_id:
+ *     description: The ID of the Rental to limit the blackout to.
+ *     type: string
+ *   variant_id:
+ *     description: The ID of the Rental Variant to limit the blackout to.
+ *     type: string
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostRentalBlackoutsReq {
+  @IsDate()
+  @Type(() => Date)
+  starts_at: Date
+
+  @IsDate()
+  @Type(() => Date)
+  ends_at: Date
+
+  @IsString()
+  @IsOptional()
+  reason?: string
+
+  @IsString()
+  @IsOptional()
+  rental_collection_id?: string
+
+  @IsString()
+  @IsOptional()
+  rental_id?: string
+
+  @IsString()
+  @IsOptional()
+  variant_id?: string
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
@@ -0,0 +1,74 @@
+import RentalBlackoutService from "../../../../services/rental-blackout"
+import { EntityManager } from "typeorm"
+
+/**
+ * @oas [delete] /rental-blackouts/{id}
+ * operationId: "DeleteRentalBlackoutsBlackout"
+ * summary: "Delete a Rental Blackout"
+ * description: "Deletes a Rental Blackout."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Blackout.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request DELETE 'https://medusa-url.com/admin/rental-blackouts/{id}' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Blackout
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               description: The ID of the deleted Rental Blackout.
+ *             object:
+ *               type: string
+ *               description: The type of the object that was deleted.
+ *               default: rental-blackout
+ *             deleted:
+ *               type: boolean
+ *               description: Whether the Rental Blackout was deleted.
+ *               default: true
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const rentalBlackoutService: RentalBlackoutService = req.scope.resolve(
+    "rentalBlackoutService"
+  )
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalBlackoutService
+      .withTransaction(transactionManager)
+      .delete(id)
+  })
+
+  res.json({
+    id,
+    object: "rental-blackout",
+    deleted: true,
+  })
+}
@@ -0,0 +1,57 @@
+import RentalBlackoutService from "../../../../services/rental-blackout"
+
+/**
+ * @oas [get] /rental-blackouts/{id}
+ * operationId: "GetRentalBlackoutsBlackout"
+ * summary: "Get a Rental Blackout"
+ * description: "Retrieves a Rental Blackout."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Blackout.
+ *   - (query) expand {string} Comma separated list of relations to include in the results.
+ *   - (query) fields {string} Comma separated list of fields to include in the results.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/rental-blackouts/{id}' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Blackout
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_blackout:
+ *               $ref: "#/components/schemas/RentalBlackout"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const rentalBlackoutService: RentalBlackoutService = req.scope.resolve(
+    "rentalBlackoutService"
+  )
+
+  const blackout = await rentalBlackoutService.retrieve(id, req.retrieveConfig)
+
+  res.status(200).json({ rental_blackout: blackout })
+}
@@ -0,0 +1,80 @@
+import { Router } from "express"
+import "reflect-metadata"
+import { RentalBlackout } from "../../../../models"
+import { FindParams, PaginatedResponse } from "@medusajs/medusa/dist/types/common"
+import middlewares, { transformQuery } from "@medusajs/medusa/dist/api/middlewares"
+import { AdminGetRentalBlackoutsParams } from "./list-rental-blackouts"
+
+const route = Router()
+
+export default (app) => {
+  app.use("/rental-blackouts", route)
+
+  route.get(
+    "/",
+    transformQuery(AdminGetRentalBlackoutsParams, {
+      defaultFields: defaultAdminRentalBlackoutFields,
+      defaultRelations: defaultAdminRentalBlackoutRelations,
+      isList: true,
+    }),
+    middlewares.wrap(require("./list-rental-blackouts").default)
+  )
+  route.post(
+    "/",
+    middlewares.wrap(require("./create-rental-blackout").default)
+  )
+  route.get(
+    "/:id",
+    transformQuery(FindParams, {
+      defaultFields: defaultAdminRentalBlackoutFields,
+      defaultRelations: defaultAdminRentalBlackoutRelations,
+      isList: false,
+    }),
+    middlewares.wrap(require("./get-rental-blackout").default)
+  )
+  route.post(
+    "/:id",
+    middlewares.wrap(require("./update-rental-blackout").default)
+  )
+  route.delete(
+    "/:id",
+    middlewares.wrap(require("./delete-rental-blackout").default)
+  )
+
+  return app
+}
+
+export const defaultAdminRentalBlackoutFields: (keyof RentalBlackout)[] = [
+  "id",
+  "starts_at",
+  "ends_at",
+  "reason",
+  "rental_collection_id",
+  "rental_id",
+  "variant_id",
+  "created_at",
+  "updated_at",
+  "deleted_at",
+  "metadata",
+]
+export const defaultAdminRentalBlackoutRelations = []
+
+export type AdminRentalBlackoutsListRes = PaginatedResponse & {
+  rental_blackouts: RentalBlackout[]
+}
+
+export type AdminRentalBlackoutsRes = {
+  rental_blackout: RentalBlackout
+}
+
+export type AdminRentalBlackoutsDeleteRes = {
+  id: string
+  object: "rental-blackout"
+  deleted: boolean
+}
+
+export * from "./create-rental-blackout"
+export * from "./delete-rental-blackout"
+export * from "./get-rental-blackout"
+export * from "./list-rental-blackouts"
+export * from "./update-rental-blackout"
@@ -0,0 +1,177 @@
+import { IsNumber, IsOptional, IsString } from "class-validator"
+import RentalBlackoutService from "../../../../services/rental-blackout"
+import { FilterableRentalBlackoutProps } from "../../../../types/rental-blackout"
+import { Type } from "class-transformer"
+
+/**
+ * @oas [get] /rental-blackouts
+ * operationId: "GetRentalBlackouts"
+ * summary: "List Rental Blackouts"
+ * description: "Retrieve a list of Rental Blackouts."
+ * x-authenticated: true
+ * parameters:
+ *   - (query) q {string} Query used for searching the reason of the blackouts.
+ *   - in: query
+ *     name: rental_collection_id
+ *     style: form
+ *     explode: false
+ *     description: Filter by the Rental Collections the blackouts are limited to.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - in: query
+ *     name: rental_id
+ *     style: form
+ *     explode: false
+ *     description: Filter by the Rentals the blackouts are limited to.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - in: query
+ *     name: variant_id
+ *     style: form
+ *     explode: false
+ *     description: Filter by the Rental Variants the blackouts are limited to.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - in: query
+ *     name: starts_at
+ *     description: Date comparison for when the blackouts start.
+ *     schema:
+ *       type: object
+ *       properties:
+ *         lt:
+ *            type: string
+ *            description: filter by dates less than this date
+ *            format: date
+ *         gt:
+ *            type: string
+ *            description: filter by dates greater than this date
+ *            format: date
+ *         lte:
+ *            type: string
+ *            description: filter by dates less than or equal to this date
+ *            format: date
+ *         gte:
+ *            type: string
+ *            description: filter by dates greater than or equal to this date
+ *            format: date
+ *   - in: query
+ *     name: ends_at
+ *     description: Date comparison for when the blackouts end.
+ *     schema:
+ *       type: object
+ *       properties:
+ *         lt:
+ *            type: string
+ *            description: filter by dates less than this date
+ *            format: date
+ *         gt:
+ *            type: string
+ *            description: filter by dates greater than this date
+ *            format: date
+ *         lte:
+ *            type: string
+ *            description: filter by dates less than or equal to this date
+ *            format: date
+ *         gte:
+ *            type: string
+ *            description: filter by dates greater than or equal to this date
+ *            format: date
+ *   - (query) offset=0 {integer} The number of blackouts to skip before the results.
+ *   - (query) limit=20 {integer} Limit the number of blackouts returned.
+ *   - (query) order {string} The field to sort the blackouts by.
+ *   - (query) expand {string} Comma separated list of relations to include in the results.
+ *   - (query) fields {string} Comma separated list of fields to include in the results.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/rental-blackouts' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Blackout
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_blackouts:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/RentalBlackout"
+ *             count:
+ *               type: integer
+ *               description: The total number of items available
+ *             offset:
+ *               type: integer
+ *               description: The number of items skipped before these items
+ *             limit:
+ *               type: integer
+ *               description: The number of items per page
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const rentalBlackoutService: RentalBlackoutService = req.scope.resolve(
+    "rentalBlackoutService"
+  )
+
+  const { skip, take } = req.listConfig
+
+  const [blackouts, count] = await rentalBlackoutService.listAndCount(
+    req.filterableFields,
+    req.listConfig
+  )
+
+  res.status(200).json({
+    rental_blackouts: blackouts,
+    count,
+    offset: skip,
+    limit: take,
+  })
+}
+
+export class AdminGetRentalBlackoutsParams extends FilterableRentalBlackoutProps {
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  offset?: number = 0
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number = 20
+
+  @IsString()
+  @IsOptional()
+  expand?: string
+
+  @IsString()
+  @IsOptional()
+  fields?: string
+
+  @IsString()
+  @IsOptional()
+  order?: string
+}
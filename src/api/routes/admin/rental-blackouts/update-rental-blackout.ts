@@ -0,0 +1,151 @@
+import { IsDate, IsObject, IsOptional, IsString } from "class-validator"
+import {
+  defaultAdminRentalBlackoutFields,
+  defaultAdminRentalBlackoutRelations,
+} from "."
+import RentalBlackoutService from "../../../../services/rental-blackout"
+
+import { Type } from "class-transformer"
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-blackouts/{id}
+ * operationId: "PostRentalBlackoutsBlackout"
+ * summary: "Update a Rental Blackout"
+ * description: "Updates a Rental Blackout. Set the Rental Collection, Rental or Rental Variant to null to remove the limit."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Blackout.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalBlackoutsBlackoutReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-blackouts/{id}' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "reason": "Inventory count"
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Blackout
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_blackout:
+ *               $ref: "#/components/schemas/RentalBlackout"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostRentalBlackoutsBlackoutReq,
+    req.body
+  )
+
+  const rentalBlackoutService: RentalBlackoutService = req.scope.resolve(
+    "rentalBlackoutService"
+  )
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalBlackoutService
+      .withTransaction(transactionManager)
+      .update(id, validated)
+  })
+
+  const blackout = await rentalBlackoutService.retrieve(id, {
+    select: defaultAdminRentalBlackoutFields,
+    relations: defaultAdminRentalBlackoutRelations,
+  })
+
+  res.status(200).json({ rental_blackout: blackout })
+}
+
+/**
+ * @schema AdminPostRentalBlackoutsBlackoutReq
+ * type: object
+ * properties:
+ *   starts_at:
+ *     description: The date at which the blackout starts.
+ *     type: string
+ *     format: date-time
+ *   ends_at:
+ *     description: The date at which the blackout ends.
+ *     type: string
+ *     format: date-time
+ *   reason:
+ *     description: Why items cannot be rented during the blackout.
+ *     type: string
+ *   rental_collection_id:
+ *     description: The ID of the Rental Collection to limit the blackout to.
+ *     type: string
+ *     nullable: true
+ *   rental_id:
+ *     description: The ID of the Rental to limit the blackout to.
+ *     type: string
+ *     nullable: true
+ *   variant_id:
+ *     description: The ID of the Rental Variant to limit the blackout to.
+ *     type: string
+ *     nullable: true
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostRentalBlackoutsBlackoutReq {
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  starts_at?: Date
+
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  ends_at?: Date
+
+  @IsString()
+  @IsOptional()
+  reason?: string
+
+  @IsString()
+  @IsOptional()
+  rental_collection_id?: string | null
+
+  @IsString()
+  @IsOptional()
+  rental_id?: string | null
+
+  @IsString()
+  @IsOptional()
+  variant_id?: string | null
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
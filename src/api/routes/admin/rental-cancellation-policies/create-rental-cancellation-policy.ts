@@ -0,0 +1,145 @@
+import {
+  IsArray,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator"
+import {
+  defaultAdminRentalCancellationPolicyFields,
+  defaultAdminRentalCancellationPolicyRelations,
+} from "."
+import RentalCancellationPolicyService from "../../../../services/rental-cancellation-policy"
+import { RentalCancellationRuleReq } from "../../../../types/rental-cancellation-policy"
+
+import { Type } from "class-transformer"
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-cancellation-policies
+ * operationId: "PostRentalCancellationPolicies"
+ * summary: "Create a Rental Cancellation Policy"
+ * description: "Creates a Rental Cancellation Policy, e.g. a flexible, moderate or strict refund schedule. Assign it to Rentals, Rental Types or Rental Collections for it to apply."
+ * x-authenticated: true
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalCancellationPoliciesReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-cancellation-policies' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "name": "Moderate",
+ *           "description": "Full refund up to 5 days before the rental starts, half refund up to 24 hours before.",
+ *           "rules": [
+ *               { "min_hours_before": 120, "refund_percentage": 100 },
+ *               { "min_hours_before": 24, "refund_percentage": 50 }
+ *           ]
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Cancellation Policy
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_cancellation_policy:
+ *               $ref: "#/components/schemas/RentalCancellationPolicy"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const validated = await validator(
+    AdminPostRentalCancellationPoliciesReq,
+    req.body
+  )
+
+  const rentalCancellationPolicyService: RentalCancellationPolicyService =
+    req.scope.resolve("rentalCancellationPolicyService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  const created = await manager.transaction(async (transactionManager) => {
+    return await rentalCancellationPolicyService
+      .withTransaction(transactionManager)
+      .create(validated)
+  })
+
+  const policy = await rentalCancellationPolicyService.retrieve(created.id, {
+    select: defaultAdminRentalCancellationPolicyFields,
+    relations: defaultAdminRentalCancellationPolicyRelations,
+  })
+
+  res.status(200).json({ rental_cancellation_policy: policy })
+}
+
+/**
+ * @schema AdminPostRentalCancellationPoliciesReq
+ * type: object
+ * required:
+ *   - name
+ *   - rules
+ * properties:
+ *   name:
+ *     description: The name of the policy.
+ *     type: string
+ *   description:
+ *     description: The text of the policy shown to customers.
+ *     type: string
+ *   rules:
+ *     description: The refund schedule. A cancellation is refunded by the rule with the most hours that are still before the start of the booking, and not at all if none applies.
+ *     type: array
+ *     items:
+ *       type: object
+ *       required:
+ *         - min_hours_before
+ *         - refund_percentage
+ *       properties:
+ *         min_hours_before:
+ *           description: The number of hours before the start of the booking the cancellation must happen at least.
+ *           type: integer
+ *         refund_percentage:
+ *           description: The percentage of the price refunded.
+ *           type: integer
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostRentalCancellationPoliciesReq {
+  @IsString()
+  name: string
+
+  @IsString()
+  @IsOptional()
+  description?: string
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RentalCancellationRuleReq)
+  rules: RentalCancellationRuleReq[]
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
@@ -0,0 +1,73 @@
+import RentalCancellationPolicyService from "../../../../services/rental-cancellation-policy"
+import { EntityManager } from "typeorm"
+
+/**
+ * @oas [delete] /rental-cancellation-policies/{id}
+ * operationId: "DeleteRentalCancellationPoliciesPolicy"
+ * summary: "Delete a Rental Cancellation Policy"
+ * description: "Deletes a Rental Cancellation Policy. Bookings canceled under it keep their refund."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Cancellation Policy.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request DELETE 'https://medusa-url.com/admin/rental-cancellation-policies/{id}' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Cancellation Policy
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               description: The ID of the deleted Rental Cancellation Policy.
+ *             object:
+ *               type: string
+ *               description: The type of the object that was deleted.
+ *               default: rental-cancellation-policy
+ *             deleted:
+ *               type: boolean
+ *               description: Whether the Rental Cancellation Policy was deleted.
+ *               default: true
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const rentalCancellationPolicyService: RentalCancellationPolicyService =
+    req.scope.resolve("rentalCancellationPolicyService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalCancellationPolicyService
+      .withTransaction(transactionManager)
+      .delete(id)
+  })
+
+  res.json({
+    id,
+    object: "rental-cancellation-policy",
+    deleted: true,
+  })
+}
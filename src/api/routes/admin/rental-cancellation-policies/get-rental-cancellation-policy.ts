@@ -0,0 +1,59 @@
+import RentalCancellationPolicyService from "../../../../services/rental-cancellation-policy"
+
+/**
+ * @oas [get] /rental-cancellation-policies/{id}
+ * operationId: "GetRentalCancellationPoliciesPolicy"
+ * summary: "Get a Rental Cancellation Policy"
+ * description: "Retrieves a Rental Cancellation Policy."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Cancellation Policy.
+ *   - (query) expand {string} Comma separated list of relations to include in the results.
+ *   - (query) fields {string} Comma separated list of fields to include in the results.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/rental-cancellation-policies/{id}' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Cancellation Policy
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_cancellation_policy:
+ *               $ref: "#/components/schemas/RentalCancellationPolicy"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const rentalCancellationPolicyService: RentalCancellationPolicyService =
+    req.scope.resolve("rentalCancellationPolicyService")
+
+  const policy = await rentalCancellationPolicyService.retrieve(
+    id,
+    req.retrieveConfig
+  )
+
+  res.status(200).json({ rental_cancellation_policy: policy })
+}
@@ -0,0 +1,78 @@
+import { Router } from "express"
+import "reflect-metadata"
+import { RentalCancellationPolicy } from "../../../../models"
+import { FindParams, PaginatedResponse } from "@medusajs/medusa/dist/types/common"
+import middlewares, { transformQuery } from "@medusajs/medusa/dist/api/middlewares"
+import { AdminGetRentalCancellationPoliciesParams } from "./list-rental-cancellation-policies"
+
+const route = Router()
+
+export default (app) => {
+  app.use("/rental-cancellation-policies", route)
+
+  route.get(
+    "/",
+    transformQuery(AdminGetRentalCancellationPoliciesParams, {
+      defaultFields: defaultAdminRentalCancellationPolicyFields,
+      defaultRelations: defaultAdminRentalCancellationPolicyRelations,
+      isList: true,
+    }),
+    middlewares.wrap(require("./list-rental-cancellation-policies").default)
+  )
+  route.post(
+    "/",
+    middlewares.wrap(require("./create-rental-cancellation-policy").default)
+  )
+  route.get(
+    "/:id",
+    transformQuery(FindParams, {
+      defaultFields: defaultAdminRentalCancellationPolicyFields,
+      defaultRelations: defaultAdminRentalCancellationPolicyRelations,
+      isList: false,
+    }),
+    middlewares.wrap(require("./get-rental-cancellation-policy").default)
+  )
+  route.post(
+    "/:id",
+    middlewares.wrap(require("./update-rental-cancellation-policy").default)
+  )
+  route.delete(
+    "/:id",
+    middlewares.wrap(require("./delete-rental-cancellation-policy").default)
+  )
+
+  return app
+}
+
+export const defaultAdminRentalCancellationPolicyFields: (keyof RentalCancellationPolicy)[] =
+  [
+    "id",
+    "name",
+    "description",
+    "rules",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+    "metadata",
+  ]
+export const defaultAdminRentalCancellationPolicyRelations = []
+
+export type AdminRentalCancellationPoliciesListRes = PaginatedResponse & {
+  rental_cancellation_policies: RentalCancellationPolicy[]
+}
+
+export type AdminRentalCancellationPoliciesRes = {
+  rental_cancellation_policy: RentalCancellationPolicy
+}
+
+export type AdminRentalCancellationPoliciesDeleteRes = {
+  id: string
+  object: "rental-cancellation-policy"
+  deleted: boolean
+}
+
+export * from "./create-rental-cancellation-policy"
+export * from "./delete-rental-cancellation-policy"
+export * from "./get-rental-cancellation-policy"
+export * from "./list-rental-cancellation-policies"
+export * from "./update-rental-cancellation-policy"
@@ -0,0 +1,105 @@
+import { IsNumber, IsOptional, IsString } from "class-validator"
+import RentalCancellationPolicyService from "../../../../services/rental-cancellation-policy"
+import { FilterableRentalCancellationPolicyProps } from "../../../../types/rental-cancellation-policy"
+import { Type } from "class-transformer"
+
+/**
+ * @oas [get] /rental-cancellation-policies
+ * operationId: "GetRentalCancellationPolicies"
+ * summary: "List Rental Cancellation Policies"
+ * description: "Retrieve a list of Rental Cancellation Policies."
+ * x-authenticated: true
+ * parameters:
+ *   - (query) q {string} Query used for searching the name of the policies.
+ *   - (query) offset=0 {integer} The number of policies to skip before the results.
+ *   - (query) limit=20 {integer} Limit the number of policies returned.
+ *   - (query) order {string} The field to sort the policies by.
+ *   - (query) expand {string} Comma separated list of relations to include in the results.
+ *   - (query) fields {string} Comma separated list of fields to include in the results.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/rental-cancellation-policies' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Cancellation Policy
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_cancellation_policies:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/RentalCancellationPolicy"
+ *             count:
+ *               type: integer
+ *               description: The total number of items available
+ *             offset:
+ *               type: integer
+ *               description: The number of items skipped before these items
+ *             limit:
+ *               type: integer
+ *               description: The number of items per page
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const rentalCancellationPolicyService: RentalCancellationPolicyService =
+    req.scope.resolve("rentalCancellationPolicyService")
+
+  const { skip, take } = req.listConfig
+
+  const [policies, count] = await rentalCancellationPolicyService.listAndCount(
+    req.filterableFields,
+    req.listConfig
+  )
+
+  res.status(200).json({
+    rental_cancellation_policies: policies,
+    count,
+    offset: skip,
+    limit: take,
+  })
+}
+
+export class AdminGetRentalCancellationPoliciesParams extends FilterableRentalCancellationPolicyProps {
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  offset?: number = 0
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number = 20
+
+  @IsString()
+  @IsOptional()
+  expand?: string
+
+  @IsString()
+  @IsOptional()
+  fields?: string
+
+  @IsString()
+  @IsOptional()
+  order?: string
+}
@@ -0,0 +1,143 @@
+import {
+  IsArray,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator"
+import {
+  defaultAdminRentalCancellationPolicyFields,
+  defaultAdminRentalCancellationPolicyRelations,
+} from "."
+import RentalCancellationPolicyService from "../../../../services/rental-cancellation-policy"
+import { RentalCancellationRuleReq } from "../../../../types/rental-cancellation-policy"
+
+import { Type } from "class-transformer"
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-cancellation-policies/{id}
+ * operationId: "PostRentalCancellationPoliciesPolicy"
+ * summary: "Update a Rental Cancellation Policy"
+ * description: "Updates a Rental Cancellation Policy. The rules replace the current rules. Bookings canceled before keep their refund."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Cancellation Policy.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalCancellationPoliciesPolicyReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-cancellation-policies/{id}' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "rules": [{ "min_hours_before": 168, "refund_percentage": 50 }]
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Cancellation Policy
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_cancellation_policy:
+ *               $ref: "#/components/schemas/RentalCancellationPolicy"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostRentalCancellationPoliciesPolicyReq,
+    req.body
+  )
+
+  const rentalCancellationPolicyService: RentalCancellationPolicyService =
+    req.scope.resolve("rentalCancellationPolicyService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalCancellationPolicyService
+      .withTransaction(transactionManager)
+      .update(id, validated)
+  })
+
+  const policy = await rentalCancellationPolicyService.retrieve(id, {
+    select: defaultAdminRentalCancellationPolicyFields,
+    relations: defaultAdminRentalCancellationPolicyRelations,
+  })
+
+  res.status(200).json({ rental_cancellation_policy: policy })
+}
+
+/**
+ * @schema AdminPostRentalCancellationPoliciesPolicyReq
+ * type: object
+ * properties:
+ *   name:
+ *     description: The name of the policy.
+ *     type: string
+ *   description:
+ *     description: The text of the policy shown to customers.
+ *     type: string
+ *   rules:
+ *     description: The refund schedule. A cancellation is refunded by the rule with the most hours that are still before the start of the booking, and not at all if none applies.
+ *     type: array
+ *     items:
+ *       type: object
+ *       required:
+ *         - min_hours_before
+ *         - refund_percentage
+ *       properties:
+ *         min_hours_before:
+ *           description: The number of hours before the start of the booking the cancellation must happen at least.
+ *           type: integer
+ *         refund_percentage:
+ *           description: The percentage of the price refunded.
+ *           type: integer
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostRentalCancellationPoliciesPolicyReq {
+  @IsString()
+  @IsOptional()
+  name?: string
+
+  @IsString()
+  @IsOptional()
+  description?: string | null
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RentalCancellationRuleReq)
+  @IsOptional()
+  rules?: RentalCancellationRuleReq[]
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
@@ -0,0 +1,105 @@
+import { ArrayNotEmpty, IsString } from "class-validator"
+import {
+  defaultAdminRentalCollectionFields,
+  defaultAdminRentalCollectionRelations,
+} from "."
+import RentalCollectionService from "../../../../services/rental-collection"
+
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-collections/{id}/rentals
+ * operationId: "PostRentalCollectionsCollectionRentals"
+ * summary: "Add Rentals to a Rental Collection"
+ * description: "Adds a batch of Rentals to a Rental Collection. Rentals already in another collection are moved."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Collection.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalCollectionsCollectionRentalsReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-collections/{id}/rentals' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "rental_ids": ["rent_01G1G5V2MRX2V3PVSR2WXYPFB6"]
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Collection
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_collection:
+ *               $ref: "#/components/schemas/RentalCollection"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostRentalCollectionsCollectionRentalsReq,
+    req.body
+  )
+
+  const rentalCollectionService: RentalCollectionService =
+    req.scope.resolve("rentalCollectionService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalCollectionService
+      .withTransaction(transactionManager)
+      .addRentals(id, validated.rental_ids)
+  })
+
+  const collection = await rentalCollectionService.retrieve(id, {
+    select: defaultAdminRentalCollectionFields,
+    relations: defaultAdminRentalCollectionRelations,
+  })
+
+  res.status(200).json({ rental_collection: collection })
+}
+
+/**
+ * @schema AdminPostRentalCollectionsCollectionRentalsReq
+ * type: object
+ * required:
+ *   - rental_ids
+ * properties:
+ *   rental_ids:
+ *     description: "The IDs of the Rentals to add to the Rental Collection."
+ *     type: array
+ *     items:
+ *       description: "The ID of a Rental to add to the Rental Collection."
+ *       type: string
+ */
+export class AdminPostRentalCollectionsCollectionRentalsReq {
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  rental_ids: string[]
+}
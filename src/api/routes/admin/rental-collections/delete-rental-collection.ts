@@ -0,0 +1,73 @@
+import RentalCollectionService from "../../../../services/rental-collection"
+import { EntityManager } from "typeorm"
+
+/**
+ * @oas [delete] /rental-collections/{id}
+ * operationId: "DeleteRentalCollectionsCollection"
+ * summary: "Delete a Rental Collection"
+ * description: "Deletes a Rental Collection. Its rentals are kept."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Collection.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request DELETE 'https://medusa-url.com/admin/rental-collections/{id}' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Collection
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               description: The ID of the deleted Rental Collection.
+ *             object:
+ *               type: string
+ *               description: The type of the object that was deleted.
+ *               default: rental-collection
+ *             deleted:
+ *               type: boolean
+ *               description: Whether the Rental Collection was deleted.
+ *               default: true
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const rentalCollectionService: RentalCollectionService =
+    req.scope.resolve("rentalCollectionService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalCollectionService
+      .withTransaction(transactionManager)
+      .delete(id)
+  })
+
+  res.json({
+    id,
+    object: "rental-collection",
+    deleted: true,
+  })
+}
@@ -0,0 +1,59 @@
+import RentalCollectionService from "../../../../services/rental-collection"
+
+/**
+ * @oas [get] /rental-collections/{id}
+ * operationId: "GetRentalCollectionsCollection"
+ * summary: "Get a Rental Collection"
+ * description: "Retrieves a Rental Collection."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Collection.
+ *   - (query) expand {string} Comma separated list of relations to include in the result.
+ *   - (query) fields {string} Comma separated list of fields to include in the result.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/rental-collections/{id}' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Collection
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_collection:
+ *               $ref: "#/components/schemas/RentalCollection"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const rentalCollectionService: RentalCollectionService =
+    req.scope.resolve("rentalCollectionService")
+
+  const collection = await rentalCollectionService.retrieve(
+    id,
+    req.retrieveConfig
+  )
+
+  res.status(200).json({ rental_collection: collection })
+}
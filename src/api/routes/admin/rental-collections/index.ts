@@ -0,0 +1,94 @@
+import { Router } from "express"
+import "reflect-metadata"
+import { RentalCollection } from "../../../../models"
+import { FindParams, PaginatedResponse } from "@medusajs/medusa/dist/types/common"
+import middlewares, { transformQuery } from "@medusajs/medusa/dist/api/middlewares"
+import { AdminGetRentalCollectionsParams } from "./list-rental-collections"
+
+const route = Router()
+
+export default (app) => {
+  app.use("/rental-collections", route)
+
+  route.get(
+    "/",
+    transformQuery(AdminGetRentalCollectionsParams, {
+      defaultFields: defaultAdminRentalCollectionFields,
+      defaultRelations: defaultAdminRentalCollectionRelations,
+      isList: true,
+    }),
+    middlewares.wrap(require("./list-rental-collections").default)
+  )
+  route.post(
+    "/",
+    middlewares.wrap(require("./create-rental-collection").default)
+  )
+  route.get(
+    "/:id",
+    transformQuery(FindParams, {
+      defaultFields: defaultAdminRentalCollectionFields,
+      defaultRelations: defaultAdminRentalCollectionRelations,
+      isList: false,
+    }),
+    middlewares.wrap(require("./get-rental-collection").default)
+  )
+  route.post(
+    "/:id",
+    middlewares.wrap(require("./update-rental-collection").default)
+  )
+  route.delete(
+    "/:id",
+    middlewares.wrap(require("./delete-rental-collection").default)
+  )
+
+  route.post(
+    "/:id/rentals",
+    middlewares.wrap(require("./add-rentals").default)
+  )
+  route.delete(
+    "/:id/rentals",
+    middlewares.wrap(require("./remove-rentals").default)
+  )
+
+  return app
+}
+
+export const defaultAdminRentalCollectionFields: (keyof RentalCollection)[] = [
+  "id",
+  "title",
+  "handle",
+  "cancellation_policy_id",
+  "created_at",
+  "updated_at",
+  "deleted_at",
+  "metadata",
+]
+export const defaultAdminRentalCollectionRelations = ["rentals"]
+
+export type AdminRentalCollectionsListRes = PaginatedResponse & {
+  rental_collections: RentalCollection[]
+}
+
+export type AdminRentalCollectionsRes = {
+  rental_collection: RentalCollection
+}
+
+export type AdminRentalCollectionsDeleteRes = {
+  id: string
+  object: "rental-collection"
+  deleted: boolean
+}
+
+export type AdminDeleteRentalCollectionsRentalsRes = {
+  id: string
+  object: "rental-collection"
+  removed_rentals: string[]
+}
+
+export * from "./add-rentals"
+export * from "./create-rental-collection"
+export * from "./delete-rental-collection"
+export * from "./get-rental-collection"
+export * from "./list-rental-collections"
+export * from "./remove-rentals"
+export * from "./update-rental-collection"
@@ -0,0 +1,168 @@
+import { IsNumber, IsOptional, IsString } from "class-validator"
+import RentalCollectionService from "../../../../services/rental-collection"
+import { FilterableRentalCollectionProps } from "../../../../types/rental-collection"
+import { Type } from "class-transformer"
+
+/**
+ * @oas [get] /rental-collections
+ * operationId: "GetRentalCollections"
+ * summary: "List Rental Collections"
+ * description: "Retrieve a list of Rental Collections."
+ * x-authenticated: true
+ * parameters:
+ *   - (query) q {string} Query used for searching the title and handle of the collections.
+ *   - in: query
+ *     name: title
+ *     style: form
+ *     explode: false
+ *     description: The titles of the collections to search for.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - in: query
+ *     name: handle
+ *     style: form
+ *     explode: false
+ *     description: The handles of the collections to search for.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - (query) discount_condition_id {string} The discount condition id on which to filter the collections.
+ *   - in: query
+ *     name: created_at
+ *     description: Date comparison for when resulting collections were created.
+ *     schema:
+ *       type: object
+ *       properties:
+ *         lt:
+ *            type: string
+ *            description: filter by dates less than this date
+ *            format: date
+ *         gt:
+ *            type: string
+ *            description: filter by dates greater than this date
+ *            format: date
+ *         lte:
+ *            type: string
+ *            description: filter by dates less than or equal to this date
+ *            format: date
+ *         gte:
+ *            type: string
+ *            description: filter by dates greater than or equal to this date
+ *            format: date
+ *   - in: query
+ *     name: updated_at
+ *     description: Date comparison for when resulting collections were updated.
+ *     schema:
+ *       type: object
+ *       properties:
+ *         lt:
+ *            type: string
+ *            description: filter by dates less than this date
+ *            format: date
+ *         gt:
+ *            type: string
+ *            description: filter by dates greater than this date
+ *            format: date
+ *         lte:
+ *            type: string
+ *            description: filter by dates less than or equal to this date
+ *            format: date
+ *         gte:
+ *            type: string
+ *            description: filter by dates greater than or equal to this date
+ *            format: date
+ *   - (query) offset=0 {integer} The number of collections to skip before the results.
+ *   - (query) limit=20 {integer} Limit the number of collections returned.
+ *   - (query) order {string} The field to sort the collections by.
+ *   - (query) expand {string} Comma separated list of relations to include in the results.
+ *   - (query) fields {string} Comma separated list of fields to include in the results.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/rental-collections' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Collection
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_collections:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/RentalCollection"
+ *             count:
+ *               type: integer
+ *               description: The total number of items available
+ *             offset:
+ *               type: integer
+ *               description: The number of items skipped before these items
+ *             limit:
+ *               type: integer
+ *               description: The number of items per page
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const rentalCollectionService: RentalCollectionService =
+    req.scope.resolve("rentalCollectionService")
+
+  const { skip, take } = req.listConfig
+
+  const [collections, count] = await rentalCollectionService.listAndCount(
+    req.filterableFields,
+    req.listConfig
+  )
+
+  res.status(200).json({
+    rental_collections: collections,
+    count,
+    offset: skip,
+    limit: take,
+  })
+}
+
+export class AdminGetRentalCollectionsParams extends FilterableRentalCollectionProps {
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  offset?: number = 0
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number = 20
+
+  @IsString()
+  @IsOptional()
+  expand?: string
+
+  @IsString()
+  @IsOptional()
+  fields?: string
+
+  @IsString()
+  @IsOptional()
+  order?: string
+}
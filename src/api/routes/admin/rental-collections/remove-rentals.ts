@@ -0,0 +1,110 @@
+import { ArrayNotEmpty, IsString } from "class-validator"
+import RentalCollectionService from "../../../../services/rental-collection"
+
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [delete] /rental-collections/{id}/rentals
+ * operationId: "DeleteRentalCollectionsCollectionRentals"
+ * summary: "Remove Rentals from a Rental Collection"
+ * description: "Removes a batch of Rentals from a Rental Collection. The Rentals themselves are kept."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Collection.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminDeleteRentalCollectionsCollectionRentalsReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request DELETE 'https://medusa-url.com/admin/rental-collections/{id}/rentals' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "rental_ids": ["rent_01G1G5V2MRX2V3PVSR2WXYPFB6"]
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Collection
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               description: "The ID of the Rental Collection the Rentals were removed from."
+ *             object:
+ *               type: string
+ *               description: "The type of object the Rentals were removed from."
+ *               default: rental-collection
+ *             removed_rentals:
+ *               description: "The IDs of the Rentals removed from the Rental Collection."
+ *               type: array
+ *               items:
+ *                 type: string
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminDeleteRentalCollectionsCollectionRentalsReq,
+    req.body
+  )
+
+  const rentalCollectionService: RentalCollectionService =
+    req.scope.resolve("rentalCollectionService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalCollectionService
+      .withTransaction(transactionManager)
+      .removeRentals(id, validated.rental_ids)
+  })
+
+  res.json({
+    id,
+    object: "rental-collection",
+    removed_rentals: validated.rental_ids,
+  })
+}
+
+/**
+ * @schema AdminDeleteRentalCollectionsCollectionRentalsReq
+ * type: object
+ * required:
+ *   - rental_ids
+ * properties:
+ *   rental_ids:
+ *     description: "The IDs of the Rentals to remove from the Rental Collection."
+ *     type: array
+ *     items:
+ *       description: "The ID of a Rental to remove from the Rental Collection."
+ *       type: string
+ */
+export class AdminDeleteRentalCollectionsCollectionRentalsReq {
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  rental_ids: string[]
+}
@@ -0,0 +1,122 @@
+import { IsObject, IsOptional, IsString } from "class-validator"
+import {
+  defaultAdminRentalCollectionFields,
+  defaultAdminRentalCollectionRelations,
+} from "."
+import RentalCollectionService from "../../../../services/rental-collection"
+
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-collections/{id}
+ * operationId: "PostRentalCollectionsCollection"
+ * summary: "Update a Rental Collection"
+ * description: "Updates a Rental Collection."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Collection.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalCollectionsCollectionReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-collections/{id}' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "title": "Winter Gear"
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Collection
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_collection:
+ *               $ref: "#/components/schemas/RentalCollection"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostRentalCollectionsCollectionReq,
+    req.body
+  )
+
+  const rentalCollectionService: RentalCollectionService =
+    req.scope.resolve("rentalCollectionService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalCollectionService
+      .withTransaction(transactionManager)
+      .update(id, validated)
+  })
+
+  const collection = await rentalCollectionService.retrieve(id, {
+    select: defaultAdminRentalCollectionFields,
+    relations: defaultAdminRentalCollectionRelations,
+  })
+
+  res.status(200).json({ rental_collection: collection })
+}
+
+/**
+ * @schema AdminPostRentalCollectionsCollectionReq
+ * type: object
+ * properties:
+ *   title:
+ *     type: string
+ *     description: The title of the collection.
+ *   handle:
+ *     type: string
+ *     description: An optional handle to be used in slugs.
+ *   cancellation_policy_id:
+ *     type: string
+ *     nullable: true
+ *     description: The ID of the Rental Cancellation Policy that applies to the rentals of the collection. Set to null to remove it.
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostRentalCollectionsCollectionReq {
+  @IsString()
+  @IsOptional()
+  title?: string
+
+  @IsString()
+  @IsOptional()
+  handle?: string
+
+  @IsString()
+  @IsOptional()
+  cancellation_policy_id?: string | null
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
@@ -0,0 +1,174 @@
+import {
+  IsArray,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator"
+import {
+  defaultAdminRentalDamageClaimFields,
+  defaultAdminRentalDamageClaimRelations,
+} from "."
+import RentalDamageClaimService from "../../../../services/rental-damage-claim"
+import { RentalDamageClaimItemReq } from "../../../../types/rental-damage-claim"
+import { Type } from "class-transformer"
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-damage-claims
+ * operationId: "PostRentalDamageClaims"
+ * summary: "Create a Rental Damage Claim"
+ * description: "Opens a Rental Damage Claim for a Rental Booking whose items were handed over. The damaged Rental Unit, given or found by the inspection of the claim, is out of service until it is repaired."
+ * x-authenticated: true
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalDamageClaimsReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-damage-claims' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "booking_id": "{booking_id}",
+ *           "inspection_id": "{inspection_id}",
+ *           "items": [{ "description": "Replacement lens cap", "unit_cost": 2500 }]
+ *       }''
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Damage Claim
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_damage_claim:
+ *               $ref: "#/components/schemas/RentalDamageClaim"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const validated = await validator(
+    AdminPostRentalDamageClaimsReq,
+    req.body
+  )
+
+  const rentalDamageClaimService: RentalDamageClaimService = req.scope.resolve(
+    "rentalDamageClaimService"
+  )
+
+  const userId = req.user?.userId ?? req.user?.id ?? null
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  const created = await manager.transaction(async (transactionManager) => {
+    return await rentalDamageClaimService
+      .withTransaction(transactionManager)
+      .create({ ...validated, created_by: userId })
+  })
+
+  const claim = await rentalDamageClaimService.retrieve(created.id, {
+    select: defaultAdminRentalDamageClaimFields,
+    relations: defaultAdminRentalDamageClaimRelations,
+  })
+
+  res.status(200).json({ rental_damage_claim: claim })
+}
+
+/**
+ * @schema AdminPostRentalDamageClaimsReq
+ * type: object
+ * required:
+ *   - booking_id
+ * properties:
+ *   booking_id:
+ *     description: The ID of the Rental Booking whose items were damaged.
+ *     type: string
+ *   inspection_id:
+ *     description: The ID of the Rental Inspection of the booking that found the damage.
+ *     type: string
+ *   unit_id:
+ *     description: The ID of the damaged Rental Unit. Defaults to the unit of the inspection.
+ *     type: string
+ *   description:
+ *     description: A description of the damage.
+ *     type: string
+ *   items:
+ *     description: The costs of the damage.
+ *     type: array
+ *     items:
+ *       required:
+ *         - description
+ *         - unit_cost
+ *       properties:
+ *         description:
+ *           description: What the cost is for.
+ *           type: string
+ *         quantity:
+ *           description: The number of times the cost is charged.
+ *           type: integer
+ *           default: 1
+ *         unit_cost:
+ *           description: The cost of one of the item.
+ *           type: integer
+ *         metadata:
+ *           description: An optional set of key-value pairs with additional information.
+ *           type: object
+ *   images:
+ *     description: The urls of photos of the damage.
+ *     type: array
+ *     items:
+ *       type: string
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostRentalDamageClaimsReq {
+  @IsString()
+  booking_id: string
+
+  @IsString()
+  @IsOptional()
+  inspection_id?: string
+
+  @IsString()
+  @IsOptional()
+  unit_id?: string
+
+  @IsString()
+  @IsOptional()
+  description?: string
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => RentalDamageClaimItemReq)
+  items?: RentalDamageClaimItemReq[]
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  images?: string[]
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
@@ -0,0 +1,100 @@
+import { IsOptional, IsString } from "class-validator"
+import {
+  defaultAdminRentalDamageClaimFields,
+  defaultAdminRentalDamageClaimRelations,
+} from "."
+import RentalDamageClaimService from "../../../../services/rental-damage-claim"
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-damage-claims/{id}/dispute
+ * operationId: "PostRentalDamageClaimsClaimDispute"
+ * summary: "Dispute a Rental Damage Claim"
+ * description: "Records that the customer disputes an open Rental Damage Claim."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Damage Claim.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalDamageClaimsClaimDisputeReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-damage-claims/{id}/dispute' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "reason": "The lens was cracked when handed over"
+ *       }''
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Damage Claim
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_damage_claim:
+ *               $ref: "#/components/schemas/RentalDamageClaim"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostRentalDamageClaimsClaimDisputeReq,
+    req.body
+  )
+
+  const rentalDamageClaimService: RentalDamageClaimService = req.scope.resolve(
+    "rentalDamageClaimService"
+  )
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalDamageClaimService
+      .withTransaction(transactionManager)
+      .dispute(id, validated.reason)
+  })
+
+  const claim = await rentalDamageClaimService.retrieve(id, {
+    select: defaultAdminRentalDamageClaimFields,
+    relations: defaultAdminRentalDamageClaimRelations,
+  })
+
+  res.status(200).json({ rental_damage_claim: claim })
+}
+
+/**
+ * @schema AdminPostRentalDamageClaimsClaimDisputeReq
+ * type: object
+ * properties:
+ *   reason:
+ *     description: Why the customer disputes the claim.
+ *     type: string
+ */
+export class AdminPostRentalDamageClaimsClaimDisputeReq {
+  @IsString()
+  @IsOptional()
+  reason?: string
+}
@@ -0,0 +1,57 @@
+import RentalDamageClaimService from "../../../../services/rental-damage-claim"
+
+/**
+ * @oas [get] /rental-damage-claims/{id}
+ * operationId: "GetRentalDamageClaimsClaim"
+ * summary: "Get a Rental Damage Claim"
+ * description: "Retrieves a Rental Damage Claim."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Damage Claim.
+ *   - (query) expand {string} Comma separated list of relations to include in the results.
+ *   - (query) fields {string} Comma separated list of fields to include in the results.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/rental-damage-claims/{id}' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Damage Claim
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_damage_claim:
+ *               $ref: "#/components/schemas/RentalDamageClaim"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const rentalDamageClaimService: RentalDamageClaimService = req.scope.resolve(
+    "rentalDamageClaimService"
+  )
+
+  const claim = await rentalDamageClaimService.retrieve(id, req.retrieveConfig)
+
+  res.status(200).json({ rental_damage_claim: claim })
+}
@@ -0,0 +1,93 @@
+import { Router } from "express"
+import "reflect-metadata"
+import { RentalDamageClaim } from "../../../../models"
+import { FindParams, PaginatedResponse } from "@medusajs/medusa/dist/types/common"
+import middlewares, { transformQuery } from "@medusajs/medusa/dist/api/middlewares"
+import { AdminGetRentalDamageClaimsParams } from "./list-rental-damage-claims"
+
+const route = Router()
+
+export default (app) => {
+  app.use("/rental-damage-claims", route)
+
+  route.get(
+    "/",
+    transformQuery(AdminGetRentalDamageClaimsParams, {
+      defaultFields: defaultAdminRentalDamageClaimFields,
+      defaultRelations: defaultAdminRentalDamageClaimRelations,
+      isList: true,
+    }),
+    middlewares.wrap(require("./list-rental-damage-claims").default)
+  )
+  route.post(
+    "/",
+    middlewares.wrap(require("./create-rental-damage-claim").default)
+  )
+  route.get(
+    "/:id",
+    transformQuery(FindParams, {
+      defaultFields: defaultAdminRentalDamageClaimFields,
+      defaultRelations: defaultAdminRentalDamageClaimRelations,
+      isList: false,
+    }),
+    middlewares.wrap(require("./get-rental-damage-claim").default)
+  )
+  route.post(
+    "/:id",
+    middlewares.wrap(require("./update-rental-damage-claim").default)
+  )
+  route.post(
+    "/:id/dispute",
+    middlewares.wrap(require("./dispute-rental-damage-claim").default)
+  )
+  route.post(
+    "/:id/settle",
+    middlewares.wrap(require("./settle-rental-damage-claim").default)
+  )
+  route.post(
+    "/:id/repair",
+    middlewares.wrap(require("./repair-rental-damage-claim").default)
+  )
+
+  return app
+}
+
+export const defaultAdminRentalDamageClaimFields: (keyof RentalDamageClaim)[] =
+  [
+    "id",
+    "booking_id",
+    "inspection_id",
+    "unit_id",
+    "status",
+    "description",
+    "total",
+    "amount_deducted",
+    "amount_billed",
+    "payment_collection_id",
+    "dispute_reason",
+    "disputed_at",
+    "settled_at",
+    "repaired_at",
+    "created_by",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+    "metadata",
+  ]
+export const defaultAdminRentalDamageClaimRelations = ["items", "images"]
+
+export type AdminRentalDamageClaimsListRes = PaginatedResponse & {
+  rental_damage_claims: RentalDamageClaim[]
+}
+
+export type AdminRentalDamageClaimsRes = {
+  rental_damage_claim: RentalDamageClaim
+}
+
+export * from "./create-rental-damage-claim"
+export * from "./dispute-rental-damage-claim"
+export * from "./get-rental-damage-claim"
+export * from "./list-rental-damage-claims"
+export * from "./repair-rental-damage-claim"
+export * from "./settle-rental-damage-claim"
+export * from "./update-rental-damage-claim"
@@ -0,0 +1,133 @@
+import { IsNumber, IsOptional, IsString } from "class-validator"
+import RentalDamageClaimService from "../../../../services/rental-damage-claim"
+import { FilterableRentalDamageClaimProps } from "../../../../types/rental-damage-claim"
+import { Type } from "class-transformer"
+
+/**
+ * @oas [get] /rental-damage-claims
+ * operationId: "GetRentalDamageClaims"
+ * summary: "List Rental Damage Claims"
+ * description: "Retrieve a list of Rental Damage Claims."
+ * x-authenticated: true
+ * parameters:
+ *   - in: query
+ *     name: booking_id
+ *     style: form
+ *     explode: false
+ *     description: Filter by the Rental Bookings the claims are for.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - in: query
+ *     name: unit_id
+ *     style: form
+ *     explode: false
+ *     description: Filter by the damaged Rental Units.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - in: query
+ *     name: status
+ *     style: form
+ *     explode: false
+ *     description: Filter by the status of the claims.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *         enum: [open, disputed, settled]
+ *   - (query) offset=0 {integer} The number of claims to skip before the results.
+ *   - (query) limit=20 {integer} Limit the number of claims returned.
+ *   - (query) order {string} The field to sort the claims by.
+ *   - (query) expand {string} Comma separated list of relations to include in the results.
+ *   - (query) fields {string} Comma separated list of fields to include in the results.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/rental-damage-claims' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Damage Claim
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_damage_claims:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/RentalDamageClaim"
+ *             count:
+ *               type: integer
+ *               description: The total number of items available
+ *             offset:
+ *               type: integer
+ *               description: The number of items skipped before these items
+ *             limit:
+ *               type: integer
+ *               description: The number of items per page
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const rentalDamageClaimService: RentalDamageClaimService = req.scope.resolve(
+    "rentalDamageClaimService"
+  )
+
+  const { skip, take } = req.listConfig
+
+  const [claims, count] = await rentalDamageClaimService.listAndCount(
+    req.filterableFields,
+    req.listConfig
+  )
+
+  res.status(200).json({
+    rental_damage_claims: claims,
+    count,
+    offset: skip,
+    limit: take,
+  })
+}
+
+export class AdminGetRentalDamageClaimsParams extends FilterableRentalDamageClaimProps {
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  offset?: number = 0
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number = 20
+
+  @IsString()
+  @IsOptional()
+  expand?: string
+
+  @IsString()
+  @IsOptional()
+  fields?: string
+
+  @IsString()
+  @IsOptional()
+  order?: string
+}
@@ -0,0 +1,103 @@
+import { IsEnum, IsOptional } from "class-validator"
+import {
+  defaultAdminRentalDamageClaimFields,
+  defaultAdminRentalDamageClaimRelations,
+} from "."
+import RentalDamageClaimService from "../../../../services/rental-damage-claim"
+import { RentalUnitCondition } from "../../../../models"
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-damage-claims/{id}/repair
+ * operationId: "PostRentalDamageClaimsClaimRepair"
+ * summary: "Repair the Unit of a Rental Damage Claim"
+ * description: "Puts the damaged Rental Unit of a Rental Damage Claim back in service once it is repaired."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Damage Claim.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalDamageClaimsClaimRepairReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-damage-claims/{id}/repair' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "condition": "good"
+ *       }''
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Damage Claim
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_damage_claim:
+ *               $ref: "#/components/schemas/RentalDamageClaim"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostRentalDamageClaimsClaimRepairReq,
+    req.body
+  )
+
+  const rentalDamageClaimService: RentalDamageClaimService = req.scope.resolve(
+    "rentalDamageClaimService"
+  )
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalDamageClaimService
+      .withTransaction(transactionManager)
+      .markRepaired(id, validated.condition)
+  })
+
+  const claim = await rentalDamageClaimService.retrieve(id, {
+    select: defaultAdminRentalDamageClaimFields,
+    relations: defaultAdminRentalDamageClaimRelations,
+  })
+
+  res.status(200).json({ rental_damage_claim: claim })
+}
+
+/**
+ * @schema AdminPostRentalDamageClaimsClaimRepairReq
+ * type: object
+ * properties:
+ *   condition:
+ *     description: The condition of the repaired unit.
+ *     type: string
+ *     enum: [new, good, fair, poor]
+ *     default: good
+ */
+export class AdminPostRentalDamageClaimsClaimRepairReq {
+  @IsEnum(RentalUnitCondition)
+  @IsOptional()
+  condition?: RentalUnitCondition
+}
@@ -0,0 +1,102 @@
+import { IsBoolean, IsOptional } from "class-validator"
+import {
+  defaultAdminRentalDamageClaimFields,
+  defaultAdminRentalDamageClaimRelations,
+} from "."
+import RentalDamageClaimService from "../../../../services/rental-damage-claim"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-damage-claims/{id}/settle
+ * operationId: "PostRentalDamageClaimsClaimSettle"
+ * summary: "Settle a Rental Damage Claim"
+ * description: "Settles a Rental Damage Claim. Its total is deducted from the deposit of the booking as far as the deposit goes, unless `charge_deposit` is false, and the rest is billed to the customer through a Payment Collection they pay through the store. The deposit of a returned booking is released once its claims are all settled."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Damage Claim.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalDamageClaimsClaimSettleReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-damage-claims/{id}/settle' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "charge_deposit": true
+ *       }''
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Damage Claim
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_damage_claim:
+ *               $ref: "#/components/schemas/RentalDamageClaim"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostRentalDamageClaimsClaimSettleReq,
+    req.body
+  )
+
+  const rentalDamageClaimService: RentalDamageClaimService = req.scope.resolve(
+    "rentalDamageClaimService"
+  )
+
+  const userId = req.user?.userId ?? req.user?.id ?? null
+
+  // Not wrapped in a transaction: the deposit of the booking may be released
+  // through the payment provider once the settlement is saved
+  await rentalDamageClaimService.settle(id, {
+    ...validated,
+    settled_by: userId,
+  })
+
+  const claim = await rentalDamageClaimService.retrieve(id, {
+    select: defaultAdminRentalDamageClaimFields,
+    relations: defaultAdminRentalDamageClaimRelations,
+  })
+
+  res.status(200).json({ rental_damage_claim: claim })
+}
+
+/**
+ * @schema AdminPostRentalDamageClaimsClaimSettleReq
+ * type: object
+ * properties:
+ *   charge_deposit:
+ *     description: Whether to take the charges from the deposit of the booking before billing the rest to the customer.
+ *     type: boolean
+ *     default: true
+ */
+export class AdminPostRentalDamageClaimsClaimSettleReq {
+  @IsBoolean()
+  @IsOptional()
+  charge_deposit?: boolean
+}
@@ -0,0 +1,152 @@
+import {
+  IsArray,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator"
+import {
+  defaultAdminRentalDamageClaimFields,
+  defaultAdminRentalDamageClaimRelations,
+} from "."
+import RentalDamageClaimService from "../../../../services/rental-damage-claim"
+import { RentalDamageClaimItemReq } from "../../../../types/rental-damage-claim"
+import { Type } from "class-transformer"
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-damage-claims/{id}
+ * operationId: "PostRentalDamageClaimsClaim"
+ * summary: "Update a Rental Damage Claim"
+ * description: "Updates a Rental Damage Claim that is not settled. The given items and images replace the existing ones."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Damage Claim.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalDamageClaimsClaimReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-damage-claims/{id}' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "description": "Cracked lens"
+ *       }''
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Damage Claim
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_damage_claim:
+ *               $ref: "#/components/schemas/RentalDamageClaim"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostRentalDamageClaimsClaimReq,
+    req.body
+  )
+
+  const rentalDamageClaimService: RentalDamageClaimService = req.scope.resolve(
+    "rentalDamageClaimService"
+  )
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalDamageClaimService
+      .withTransaction(transactionManager)
+      .update(id, validated)
+  })
+
+  const claim = await rentalDamageClaimService.retrieve(id, {
+    select: defaultAdminRentalDamageClaimFields,
+    relations: defaultAdminRentalDamageClaimRelations,
+  })
+
+  res.status(200).json({ rental_damage_claim: claim })
+}
+
+/**
+ * @schema AdminPostRentalDamageClaimsClaimReq
+ * type: object
+ * properties:
+ *   description:
+ *     description: A description of the damage.
+ *     type: string
+ *   items:
+ *     description: The costs of the damage.
+ *     type: array
+ *     items:
+ *       required:
+ *         - description
+ *         - unit_cost
+ *       properties:
+ *         description:
+ *           description: What the cost is for.
+ *           type: string
+ *         quantity:
+ *           description: The number of times the cost is charged.
+ *           type: integer
+ *           default: 1
+ *         unit_cost:
+ *           description: The cost of one of the item.
+ *           type: integer
+ *         metadata:
+ *           description: An optional set of key-value pairs with additional information.
+ *           type: object
+ *   images:
+ *     description: The urls of photos of the damage.
+ *     type: array
+ *     items:
+ *       type: string
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostRentalDamageClaimsClaimReq {
+  @IsString()
+  @IsOptional()
+  description?: string
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => RentalDamageClaimItemReq)
+  items?: RentalDamageClaimItemReq[]
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  images?: string[]
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
@@ -0,0 +1,204 @@
+import {
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from "class-validator"
+import {
+  defaultAdminRentalPriceRuleFields,
+  defaultAdminRentalPriceRuleRelations,
+} from "."
+import RentalPriceRuleService from "../../../../services/rental-price-rule"
+import { RentalPriceRuleAdjustmentType } from "../../../../models"
+
+import { Type } from "class-transformer"
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-price-rules
+ * operationId: "PostRentalPriceRules"
+ * summary: "Create a Rental Price Rule"
+ * description: "Creates a Rental Price Rule. Without a Rental Collection, Rental Type, Rental or Rental Variant, the rule applies to the whole store."
+ * x-authenticated: true
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalPriceRulesReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-price-rules' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "name": "Weekend",
+ *           "adjustment_type": "percentage",
+ *           "value": 20,
+ *           "weekdays": [0, 6]
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Price Rule
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_price_rule:
+ *               $ref: "#/components/schemas/RentalPriceRule"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const validated = await validator(AdminPostRentalPriceRulesReq, req.body)
+
+  const rentalPriceRuleService: RentalPriceRuleService = req.scope.resolve(
+    "rentalPriceRuleService"
+  )
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  const created = await manager.transaction(async (transactionManager) => {
+    return await rentalPriceRuleService
+      .withTransaction(transactionManager)
+      .create(validated)
+  })
+
+  const rule = await rentalPriceRuleService.retrieve(created.id, {
+    select: defaultAdminRentalPriceRuleFields,
+    relations: defaultAdminRentalPriceRuleRelations,
+  })
+
+  res.status(200).json({ rental_price_rule: rule })
+}
+
+/**
+ * @schema AdminPostRentalPriceRulesReq
+ * type: object
+ * required:
+ *   - name
+ *   - adjustment_type
+ *   - value
+ * properties:
+ *   name:
+ *     description: The name of the rule, shown on quotes.
+ *     type: string
+ *   adjustment_type:
+ *     description: How the rule adjusts the price.
+ *     type: string
+ *     enum: [percentage, fixed, override]
+ *   value:
+ *     description: The percentage, or the amount per day, of the adjustment.
+ *     type: integer
+ *   currency_code:
+ *     description: The currency of the amount. Required for fixed and override rules.
+ *     type: string
+ *   starts_at:
+ *     description: The date at which the rule starts to apply.
+ *     type: string
+ *     format: date-time
+ *   ends_at:
+ *     description: The date at which the rule stops to apply.
+ *     type: string
+ *     format: date-time
+ *   weekdays:
+ *     description: The days of the week the rule applies to, from 0 for Sunday to 6 for Saturday.
+ *     type: array
+ *     items:
+ *       type: integer
+ *   priority:
+ *     description: Only the matching rule with the highest priority applies to a day.
+ *     type: integer
+ *   rental_collection_id:
+ *     description: The ID of the Rental Collection to limit the rule to.
+ *     type: string
+ *   rental_type_id:
+ *     description: The ID of the Rental Type to limit the rule to.
+ *     type: string
+ *   rental_id:
+ *     description: The ID of the Rental to limit the rule to.
+ *     type: string
+ *   variant_id:
+ *     description: The ID of the Rental Variant to limit the rule to.
+ *     type: string
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostRentalPriceRulesReq {
+  @IsString()
+  name: string
+
+  @IsEnum(RentalPriceRuleAdjustmentType)
+  adjustment_type: RentalPriceRuleAdjustmentType
+
+  @IsInt()
+  value: number
+
+  @IsString()
+  @IsOptional()
+  currency_code?: string
+
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  starts_at?: Date
+
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  ends_at?: Date
+
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  @IsOptional()
+  weekdays?: number[]
+
+  @IsInt()
+  @IsOptional()
+  priority?: number
+
+  @IsString()
+  @IsOptional()
+  rental_collection_id?: string
+
+  @IsString()
+  @IsOptional()
+  rental_type_id?: string
+
+  @IsString()
+  @IsOptional()
+  rental_id?: string
+
+  @IsString()
+  @IsOptional()
+  variant_id?: string
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
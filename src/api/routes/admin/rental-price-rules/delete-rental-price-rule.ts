@@ -0,0 +1,74 @@
+import RentalPriceRuleService from "../../../../services/rental-price-rule"
+import { EntityManager } from "typeorm"
+
+/**
+ * @oas [delete] /rental-price-rules/{id}
+ * operationId: "DeleteRentalPriceRulesRule"
+ * summary: "Delete a Rental Price Rule"
+ * description: "Deletes a Rental Price Rule."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Price Rule.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request DELETE 'https://medusa-url.com/admin/rental-price-rules/{id}' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Price Rule
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               description: The ID of the deleted Rental Price Rule.
+ *             object:
+ *               type: string
+ *               description: The type of the object that was deleted.
+ *               default: rental-price-rule
+ *             deleted:
+ *               type: boolean
+ *               description: Whether the Rental Price Rule was deleted.
+ *               default: true
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const rentalPriceRuleService: RentalPriceRuleService = req.scope.resolve(
+    "rentalPriceRuleService"
+  )
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalPriceRuleService
+      .withTransaction(transactionManager)
+      .delete(id)
+  })
+
+  res.json({
+    id,
+    object: "rental-price-rule",
+    deleted: true,
+  })
+}
@@ -0,0 +1,57 @@
+import RentalPriceRuleService from "../../../../services/rental-price-rule"
+
+/**
+ * @oas [get] /rental-price-rules/{id}
+ * operationId: "GetRentalPriceRulesRule"
+ * summary: "Get a Rental Price Rule"
+ * description: "Retrieves a Rental Price Rule."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Price Rule.
+ *   - (query) expand {string} Comma separated list of relations to include in the results.
+ *   - (query) fields {string} Comma separated list of fields to include in the results.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/rental-price-rules/{id}' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Price Rule
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_price_rule:
+ *               $ref: "#/components/schemas/RentalPriceRule"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const rentalPriceRuleService: RentalPriceRuleService = req.scope.resolve(
+    "rentalPriceRuleService"
+  )
+
+  const rule = await rentalPriceRuleService.retrieve(id, req.retrieveConfig)
+
+  res.status(200).json({ rental_price_rule: rule })
+}
@@ -0,0 +1,96 @@
+import { Router } from "express"
+import "reflect-metadata"
+import { RentalPriceRule } from "../../../../models"
+import { RentalQuote } from "../../../../types/rental-quote"
+import { FindParams, PaginatedResponse } from "@medusajs/medusa/dist/types/common"
+import middlewares, { transformQuery } from "@medusajs/medusa/dist/api/middlewares"
+import { AdminGetRentalPriceRulesParams } from "./list-rental-price-rules"
+
+const route = Router()
+
+export default (app) => {
+  app.use("/rental-price-rules", route)
+
+  route.get(
+    "/",
+    transformQuery(AdminGetRentalPriceRulesParams, {
+      defaultFields: defaultAdminRentalPriceRuleFields,
+      defaultRelations: defaultAdminRentalPriceRuleRelations,
+      isList: true,
+    }),
+    middlewares.wrap(require("./list-rental-price-rules").default)
+  )
+  route.post(
+    "/",
+    middlewares.wrap(require("./create-rental-price-rule").default)
+  )
+  route.post(
+    "/preview",
+    middlewares.wrap(require("./preview-rental-price-rules").default)
+  )
+  route.get(
+    "/:id",
+    transformQuery(FindParams, {
+      defaultFields: defaultAdminRentalPriceRuleFields,
+      defaultRelations: defaultAdminRentalPriceRuleRelations,
+      isList: false,
+    }),
+    middlewares.wrap(require("./get-rental-price-rule").default)
+  )
+  route.post(
+    "/:id",
+    middlewares.wrap(require("./update-rental-price-rule").default)
+  )
+  route.delete(
+    "/:id",
+    middlewares.wrap(require("./delete-rental-price-rule").default)
+  )
+
+  return app
+}
+
+export const defaultAdminRentalPriceRuleFields: (keyof RentalPriceRule)[] = [
+  "id",
+  "name",
+  "adjustment_type",
+  "value",
+  "currency_code",
+  "starts_at",
+  "ends_at",
+  "weekdays",
+  "priority",
+  "rental_collection_id",
+  "rental_type_id",
+  "rental_id",
+  "variant_id",
+  "created_at",
+  "updated_at",
+  "deleted_at",
+  "metadata",
+]
+export const defaultAdminRentalPriceRuleRelations = []
+
+export type AdminRentalPriceRulesListRes = PaginatedResponse & {
+  rental_price_rules: RentalPriceRule[]
+}
+
+export type AdminRentalPriceRulesRes = {
+  rental_price_rule: RentalPriceRule
+}
+
+export type AdminRentalPriceRulesPreviewRes = {
+  quote: RentalQuote
+}
+
+export type AdminRentalPriceRulesDeleteRes = {
+  id: string
+  object: "rental-price-rule"
+  deleted: boolean
+}
+
+export * from "./create-rental-price-rule"
+export * from "./delete-rental-price-rule"
+export * from "./get-rental-price-rule"
+export * from "./list-rental-price-rules"
+export * from "./preview-rental-price-rules"
+export * from "./update-rental-price-rule"
@@ -0,0 +1,152 @@
+import { IsNumber, IsOptional, IsString } from "class-validator"
+import RentalPriceRuleService from "../../../../services/rental-price-rule"
+import { FilterableRentalPriceRuleProps } from "../../../../types/rental-price-rule"
+import { Type } from "class-transformer"
+
+/**
+ * @oas [get] /rental-price-rules
+ * operationId: "GetRentalPriceRules"
+ * summary: "List Rental Price Rules"
+ * description: "Retrieve a list of Rental Price Rules."
+ * x-authenticated: true
+ * parameters:
+ *   - (query) q {string} Query used for searching the name of the rules.
+ *   - in: query
+ *     name: adjustment_type
+ *     style: form
+ *     explode: false
+ *     description: Filter by the adjustment types of the rules.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *         enum: [percentage, fixed, override]
+ *   - in: query
+ *     name: rental_collection_id
+ *     style: form
+ *     explode: false
+ *     description: Filter by the Rental Collections the rules are limited to.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - in: query
+ *     name: rental_type_id
+ *     style: form
+ *     explode: false
+ *     description: Filter by the Rental Types the rules are limited to.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - in: query
+ *     name: rental_id
+ *     style: form
+ *     explode: false
+ *     description: Filter by the Rentals the rules are limited to.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - in: query
+ *     name: variant_id
+ *     style: form
+ *     explode: false
+ *     description: Filter by the Rental Variants the rules are limited to.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - (query) offset=0 {integer} The number of rules to skip before the results.
+ *   - (query) limit=20 {integer} Limit the number of rules returned.
+ *   - (query) order {string} The field to sort the rules by.
+ *   - (query) expand {string} Comma separated list of relations to include in the results.
+ *   - (query) fields {string} Comma separated list of fields to include in the results.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/rental-price-rules' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Price Rule
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_price_rules:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/RentalPriceRule"
+ *             count:
+ *               type: integer
+ *               description: The total number of items available
+ *             offset:
+ *               type: integer
+ *               description: The number of items skipped before these items
+ *             limit:
+ *               type: integer
+ *               description: The number of items per page
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const rentalPriceRuleService: RentalPriceRuleService = req.scope.resolve(
+    "rentalPriceRuleService"
+  )
+
+  const { skip, take } = req.listConfig
+
+  const [rules, count] = await rentalPriceRuleService.listAndCount(
+    req.filterableFields,
+    req.listConfig
+  )
+
+  res.status(200).json({
+    rental_price_rules: rules,
+    count,
+    offset: skip,
+    limit: take,
+  })
+}
+
+export class AdminGetRentalPriceRulesParams extends FilterableRentalPriceRuleProps {
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  offset?: number = 0
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number = 20
+
+  @IsString()
+  @IsOptional()
+  expand?: string
+
+  @IsString()
+  @IsOptional()
+  fields?: string
+
+  @IsString()
+  @IsOptional()
+  order?: string
+}
@@ -0,0 +1,129 @@
+import { IsDate, IsInt, IsOptional, IsString, Min } from "class-validator"
+import RentalQuoteService from "../../../../services/rental-quote"
+import { Type } from "class-transformer"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-price-rules/preview
+ * operationId: "PostRentalPriceRulesPreview"
+ * summary: "Preview Rental Price Rules"
+ * description: "Quotes a Rental Variant for a sample period, to preview how the Rental Price Rules adjust its price. Each rule that applies is an adjustment line of the quote."
+ * x-authenticated: true
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalPriceRulesPreviewReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-price-rules/preview' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "variant_id": "{variant_id}",
+ *           "region_id": "{region_id}",
+ *           "start_at": "2023-07-01T00:00:00Z",
+ *           "end_at": "2023-07-08T00:00:00Z"
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Price Rule
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             quote:
+ *               type: object
+ *               description: The quote, as returned by the store quote endpoint of Rentals.
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const validated = await validator(
+    AdminPostRentalPriceRulesPreviewReq,
+    req.body
+  )
+
+  const rentalQuoteService: RentalQuoteService = req.scope.resolve(
+    "rentalQuoteService"
+  )
+
+  const quote = await rentalQuoteService.quote(
+    validated.variant_id,
+    validated.start_at,
+    validated.end_at,
+    {
+      region_id: validated.region_id,
+      quantity: validated.quantity,
+    }
+  )
+
+  res.status(200).json({ quote })
+}
+
+/**
+ * @schema AdminPostRentalPriceRulesPreviewReq
+ * type: object
+ * required:
+ *   - variant_id
+ *   - region_id
+ *   - start_at
+ *   - end_at
+ * properties:
+ *   variant_id:
+ *     description: The ID of the Rental Variant to quote.
+ *     type: string
+ *   region_id:
+ *     description: The ID of the Region to quote in.
+ *     type: string
+ *   start_at:
+ *     description: The start of the sample period.
+ *     type: string
+ *     format: date-time
+ *   end_at:
+ *     description: The end of the sample period.
+ *     type: string
+ *     format: date-time
+ *   quantity:
+ *     description: The quantity to quote.
+ *     type: integer
+ *     default: 1
+ */
+export class AdminPostRentalPriceRulesPreviewReq {
+  @IsString()
+  variant_id: string
+
+  @IsString()
+  region_id: string
+
+  @IsDate()
+  @Type(() => Date)
+  start_at: Date
+
+  @IsDate()
+  @Type(() => Date)
+  end_at: Date
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  quantity?: number
+}
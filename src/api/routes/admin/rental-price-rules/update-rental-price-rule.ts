@@ -0,0 +1,215 @@
+import {
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from "class-validator"
+import {
+  defaultAdminRentalPriceRuleFields,
+  defaultAdminRentalPriceRuleRelations,
+} from "."
+import RentalPriceRuleService from "../../../../services/rental-price-rule"
+import { RentalPriceRuleAdjustmentType } from "../../../../models"
+
+import { Type } from "class-transformer"
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-price-rules/{id}
+ * operationId: "PostRentalPriceRulesRule"
+ * summary: "Update a Rental Price Rule"
+ * description: "Updates a Rental Price Rule. Set the dates, weekdays, Rental Collection, Rental Type, Rental or Rental Variant to null to remove the limit."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Price Rule.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalPriceRulesRuleReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-price-rules/{id}' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "value": 30
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Price Rule
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_price_rule:
+ *               $ref: "#/components/schemas/RentalPriceRule"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    AdminPostRentalPriceRulesRuleReq,
+    req.body
+  )
+
+  const rentalPriceRuleService: RentalPriceRuleService = req.scope.resolve(
+    "rentalPriceRuleService"
+  )
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalPriceRuleService
+      .withTransaction(transactionManager)
+      .update(id, validated)
+  })
+
+  const rule = await rentalPriceRuleService.retrieve(id, {
+    select: defaultAdminRentalPriceRuleFields,
+    relations: defaultAdminRentalPriceRuleRelations,
+  })
+
+  res.status(200).json({ rental_price_rule: rule })
+}
+
+/**
+ * @schema AdminPostRentalPriceRulesRuleReq
+ * type: object
+ * properties:
+ *   name:
+ *     description: The name of the rule, shown on quotes.
+ *     type: string
+ *   adjustment_type:
+ *     description: How the rule adjusts the price.
+ *     type: string
+ *     enum: [percentage, fixed, override]
+ *   value:
+ *     description: The percentage, or the amount per day, of the adjustment.
+ *     type: integer
+ *   currency_code:
+ *     description: The currency of the amount. Required for fixed and override rules.
+ *     type: string
+ *     nullable: true
+ *   starts_at:
+ *     description: The date at which the rule starts to apply.
+ *     type: string
+ *     format: date-time
+ *     nullable: true
+ *   ends_at:
+ *     description: The date at which the rule stops to apply.
+ *     type: string
+ *     format: date-time
+ *     nullable: true
+ *   weekdays:
+ *     description: The days of the week the rule applies to, from 0 for Sunday to 6 for Saturday.
+ *     type: array
+ *     items:
+ *       type: integer
+ *     nullable: true
+ *   priority:
+ *     description: Only the matching rule with the highest priority applies to a day.
+ *     type: integer
+ *   rental_collection_id:
+ *     description: The ID of the Rental Collection to limit the rule to.
+ *     type: string
+ *     nullable: true
+ *   rental_type_id:
+ *     description: The ID of the Rental Type to limit the rule to.
+ *     type: string
+ *     nullable: true
+ *   rental_id:
+ *     description: The ID of the Rental to limit the rule to.
+ *     type: string
+ *     nullable: true
+ *   variant_id:
+ *     description: The ID of the Rental Variant to limit the rule to.
+ *     type: string
+ *     nullable: true
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostRentalPriceRulesRuleReq {
+  @IsString()
+  @IsOptional()
+  name?: string
+
+  @IsEnum(RentalPriceRuleAdjustmentType)
+  @IsOptional()
+  adjustment_type?: RentalPriceRuleAdjustmentType
+
+  @IsInt()
+  @IsOptional()
+  value?: number
+
+  @IsString()
+  @IsOptional()
+  currency_code?: string | null
+
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  starts_at?: Date | null
+
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  ends_at?: Date | null
+
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  @IsOptional()
+  weekdays?: number[] | null
+
+  @IsInt()
+  @IsOptional()
+  priority?: number
+
+  @IsString()
+  @IsOptional()
+  rental_collection_id?: string | null
+
+  @IsString()
+  @IsOptional()
+  rental_type_id?: string | null
+
+  @IsString()
+  @IsOptional()
+  rental_id?: string | null
+
+  @IsString()
+  @IsOptional()
+  variant_id?: string | null
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
@@ -0,0 +1,100 @@
+import { IsObject, IsOptional, IsString } from "class-validator"
+import {
+  defaultAdminRentalTagsFields,
+  defaultAdminRentalTagsRelations,
+} from "."
+import RentalTagService from "../../../../services/rental-tag"
+
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-tags
+ * operationId: "PostRentalTags"
+ * summary: "Create a Rental Tag"
+ * description: "Creates a Rental Tag. Tag values are unique."
+ * x-authenticated: true
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalTagsReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-tags' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "value": "Waterproof"
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Tag
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_tag:
+ *               $ref: "#/components/schemas/RentalTag"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const validated = await validator(AdminPostRentalTagsReq, req.body)
+
+  const tagService: RentalTagService = req.scope.resolve("rentalTagService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  const created = await manager.transaction(async (transactionManager) => {
+    return await tagService
+      .withTransaction(transactionManager)
+      .create(validated)
+  })
+
+  const tag = await tagService.retrieve(created.id, {
+    select: defaultAdminRentalTagsFields,
+    relations: defaultAdminRentalTagsRelations,
+  })
+
+  res.status(200).json({ rental_tag: tag })
+}
+
+/**
+ * @schema AdminPostRentalTagsReq
+ * type: object
+ * required:
+ *   - value
+ * properties:
+ *   value:
+ *     type: string
+ *     description: The value of the tag.
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostRentalTagsReq {
+  @IsString()
+  value: string
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
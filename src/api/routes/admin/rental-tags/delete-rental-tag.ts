@@ -0,0 +1,70 @@
+import RentalTagService from "../../../../services/rental-tag"
+import { EntityManager } from "typeorm"
+
+/**
+ * @oas [delete] /rental-tags/{id}
+ * operationId: "DeleteRentalTagsTag"
+ * summary: "Delete a Rental Tag"
+ * description: "Deletes a Rental Tag and takes it off the Rentals tagged with it."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Tag.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request DELETE 'https://medusa-url.com/admin/rental-tags/{id}' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Tag
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               description: The ID of the deleted Rental Tag.
+ *             object:
+ *               type: string
+ *               description: The type of the object that was deleted.
+ *               default: rental-tag
+ *             deleted:
+ *               type: boolean
+ *               description: Whether the Rental Tag was deleted.
+ *               default: true
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const tagService: RentalTagService = req.scope.resolve("rentalTagService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await tagService.withTransaction(transactionManager).delete(id)
+  })
+
+  res.json({
+    id,
+    object: "rental-tag",
+    deleted: true,
+  })
+}
@@ -0,0 +1,55 @@
+import RentalTagService from "../../../../services/rental-tag"
+
+/**
+ * @oas [get] /rental-tags/{id}
+ * operationId: "GetRentalTagsTag"
+ * summary: "Get a Rental Tag"
+ * description: "Retrieves a Rental Tag."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Tag.
+ *   - (query) expand {string} Comma separated list of relations to include in the result.
+ *   - (query) fields {string} Comma separated list of fields to include in the result.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/rental-tags/{id}' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Tag
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_tag:
+ *               $ref: "#/components/schemas/RentalTag"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const tagService: RentalTagService = req.scope.resolve("rentalTagService")
+
+  const tag = await tagService.retrieve(id, req.retrieveConfig)
+
+  res.status(200).json({ rental_tag: tag })
+}
@@ -1,6 +1,6 @@
 import { Router } from "express"
 import { RentalTag } from "../../../../models"
-import { PaginatedResponse } from "@medusajs/medusa/dist/types/common"
+import { FindParams, PaginatedResponse } from "@medusajs/medusa/dist/types/common"
 import middlewares, { transformQuery } from "@medusajs/medusa/dist/api/middlewares"
 import "reflect-metadata"
 import { AdminGetRentalTagsParams } from "./list-rental-tags"
@@ -19,24 +19,55 @@ export default (app) => {
     }),
     middlewares.wrap(require("./list-rental-tags").default)
   )
+  route.post("/", middlewares.wrap(require("./create-rental-tag").default))
+  route.get(
+    "/:id",
+    transformQuery(FindParams, {
+      defaultFields: defaultAdminRentalTagsFields,
+      defaultRelations: defaultAdminRentalTagsRelations,
+      isList: false,
+    }),
+    middlewares.wrap(require("./get-rental-tag").default)
+  )
+  route.post("/:id", middlewares.wrap(require("./update-rental-tag").default))
+  route.delete(
+    "/:id",
+    middlewares.wrap(require("./delete-rental-tag").default)
+  )
+  route.post(
+    "/:id/merge",
+    middlewares.wrap(require("./merge-rental-tag").default)
+  )
 
   return app
 }
 
-export const defaultAdminRentalTagsFields = [
+export const defaultAdminRentalTagsFields: (keyof RentalTag)[] = [
   "id",
   "value",
   "created_at",
   "updated_at",
+  "metadata",
 ]
 export const defaultAdminRentalTagsRelations = []
 
 export type AdminRentalTagsListRes = PaginatedResponse & {
-  rental_tags: RentalTag[]
+  rental_tags: (RentalTag & { usage_count: number })[]
 }
 
 export type AdminRentalTagsRes = {
   rental_tag: RentalTag
 }
 
+export type AdminRentalTagsDeleteRes = {
+  id: string
+  object: "rental-tag"
+  deleted: boolean
+}
+
+export * from "./create-rental-tag"
+export * from "./delete-rental-tag"
+export * from "./get-rental-tag"
 export * from "./list-rental-tags"
+export * from "./merge-rental-tag"
+export * from "./update-rental-tag"
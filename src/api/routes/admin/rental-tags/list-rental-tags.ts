@@ -13,7 +13,7 @@ import { Request, Response } from "express"
  * @oas [get] /rental-tags
  * operationId: "GetRentalTags"
  * summary: "List Rental Tags"
- * description: "Retrieve a list of Rental Tags."
+ * description: "Retrieve a list of Rental Tags, with the number of rentals using each."
  * x-authenticated: true
  * parameters:
  *   - (query) limit=10 {integer} The number of tags to return.
@@ -113,7 +113,15 @@ import { Request, Response } from "express"
  *          type: object
  *          properties:
  *            rental_tags:
- *              $ref: "#/components/schemas/RentalTag"
+ *              type: array
+ *              items:
+ *                allOf:
+ *                  - $ref: "#/components/schemas/RentalTag"
+ *                  - type: object
+ *                    properties:
+ *                      usage_count:
+ *                        type: integer
+ *                        description: The number of rentals with the tag
  *            count:
  *              type: integer
  *              description: The total number of items available
@@ -146,8 +154,13 @@ export default async (req: Request, res: Response) => {
     listConfig
   )
 
+  const usage = await tagService.countUsage(tags.map(({ id }) => id))
+
   res.status(200).json({
-    rental_tags: tags,
+    rental_tags: tags.map((tag) => ({
+      ...tag,
+      usage_count: usage.get(tag.id) ?? 0,
+    })),
     count,
     offset: skip,
     limit: take,
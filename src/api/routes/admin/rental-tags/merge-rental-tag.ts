@@ -0,0 +1,97 @@
+import { IsString } from "class-validator"
+import {
+  defaultAdminRentalTagsFields,
+  defaultAdminRentalTagsRelations,
+} from "."
+import RentalTagService from "../../../../services/rental-tag"
+
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-tags/{id}/merge
+ * operationId: "PostRentalTagsTagMerge"
+ * summary: "Merge a Rental Tag"
+ * description: "Folds a Rental Tag into another one. The Rentals tagged with it are tagged with the other tag instead, and the merged tag is deleted."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Tag to merge.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalTagsTagMergeReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-tags/{id}/merge' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "target_tag_id": "ptag_01G8K2MTMG9168F2B70S1TAVK3"
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Tag
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_tag:
+ *               $ref: "#/components/schemas/RentalTag"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(AdminPostRentalTagsTagMergeReq, req.body)
+
+  const tagService: RentalTagService = req.scope.resolve("rentalTagService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  const target = await manager.transaction(async (transactionManager) => {
+    return await tagService
+      .withTransaction(transactionManager)
+      .merge(id, validated.target_tag_id)
+  })
+
+  const tag = await tagService.retrieve(target.id, {
+    select: defaultAdminRentalTagsFields,
+    relations: defaultAdminRentalTagsRelations,
+  })
+
+  res.status(200).json({ rental_tag: tag })
+}
+
+/**
+ * @schema AdminPostRentalTagsTagMergeReq
+ * type: object
+ * required:
+ *   - target_tag_id
+ * properties:
+ *   target_tag_id:
+ *     type: string
+ *     description: The ID of the Rental Tag to merge the tag into.
+ */
+export class AdminPostRentalTagsTagMergeReq {
+  @IsString()
+  target_tag_id: string
+}
@@ -0,0 +1,103 @@
+import { IsObject, IsOptional, IsString } from "class-validator"
+import {
+  defaultAdminRentalTagsFields,
+  defaultAdminRentalTagsRelations,
+} from "."
+import RentalTagService from "../../../../services/rental-tag"
+
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-tags/{id}
+ * operationId: "PostRentalTagsTag"
+ * summary: "Update a Rental Tag"
+ * description: "Updates a Rental Tag. To rename a tag to the value of another one, merge it into the other one instead."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Tag.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalTagsTagReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-tags/{id}' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "value": "Water resistant"
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Tag
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_tag:
+ *               $ref: "#/components/schemas/RentalTag"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(AdminPostRentalTagsTagReq, req.body)
+
+  const tagService: RentalTagService = req.scope.resolve("rentalTagService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await tagService
+      .withTransaction(transactionManager)
+      .update(id, validated)
+  })
+
+  const tag = await tagService.retrieve(id, {
+    select: defaultAdminRentalTagsFields,
+    relations: defaultAdminRentalTagsRelations,
+  })
+
+  res.status(200).json({ rental_tag: tag })
+}
+
+/**
+ * @schema AdminPostRentalTagsTagReq
+ * type: object
+ * properties:
+ *   value:
+ *     type: string
+ *     description: The value of the tag.
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostRentalTagsTagReq {
+  @IsString()
+  @IsOptional()
+  value?: string
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
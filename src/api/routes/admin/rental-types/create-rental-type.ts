@@ -0,0 +1,156 @@
+import {
+  IsEnum,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Min,
+} from "class-validator"
+import {
+  defaultAdminRentalTypeFields,
+  defaultAdminRentalTypeRelations,
+} from "."
+import { RentalLateFeeUnit } from "../../../../models"
+import RentalTypeService from "../../../../services/rental-type"
+
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rental-types
+ * operationId: "PostRentalTypes"
+ * summary: "Create a Rental Type"
+ * description: "Creates a Rental Type. Type values are unique."
+ * x-authenticated: true
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalTypesReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rental-types' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "value": "Kayaks",
+ *           "buffer_after": 60
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Type
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_type:
+ *               $ref: "#/components/schemas/RentalType"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const validated = await validator(AdminPostRentalTypesReq, req.body)
+
+  const typeService: RentalTypeService = req.scope.resolve("rentalTypeService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  const created = await manager.transaction(async (transactionManager) => {
+    return await typeService
+      .withTransaction(transactionManager)
+      .create(validated)
+  })
+
+  const type = await typeService.retrieve(created.id, {
+    select: defaultAdminRentalTypeFields,
+    relations: defaultAdminRentalTypeRelations,
+  })
+
+  res.status(200).json({ rental_type: type })
+}
+
+/**
+ * @schema AdminPostRentalTypesReq
+ * type: object
+ * required:
+ *   - value
+ * properties:
+ *   value:
+ *     type: string
+ *     description: The value of the type.
+ *   buffer_before:
+ *     description: The number of minutes before each booking of the type's Rentals during which the booked items are held.
+ *     type: integer
+ *   buffer_after:
+ *     description: The number of minutes after each booking of the type's Rentals during which the returned items are held.
+ *     type: integer
+ *   late_fee_unit:
+ *     description: Whether late fees of the type's Rentals are charged per started hour or day past the end of a booking.
+ *     type: string
+ *     enum: [hour, day]
+ *   late_fee_amount:
+ *     description: The late fee charged for each item, per late fee unit.
+ *     type: integer
+ *   late_fee_grace_period:
+ *     description: The number of minutes past the end of a booking before late fees are charged.
+ *     type: integer
+ *   cancellation_policy_id:
+ *     description: The ID of the Rental Cancellation Policy of the bookings of the type's Rentals.
+ *     type: string
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostRentalTypesReq {
+  @IsString()
+  value: string
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  buffer_before?: number | null
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  buffer_after?: number | null
+
+  @IsEnum(RentalLateFeeUnit)
+  @IsOptional()
+  late_fee_unit?: RentalLateFeeUnit | null
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  late_fee_amount?: number | null
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  late_fee_grace_period?: number | null
+
+  @IsString()
+  @IsOptional()
+  cancellation_policy_id?: string | null
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
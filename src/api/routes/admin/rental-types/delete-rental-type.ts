@@ -0,0 +1,70 @@
+import RentalTypeService from "../../../../services/rental-type"
+import { EntityManager } from "typeorm"
+
+/**
+ * @oas [delete] /rental-types/{id}
+ * operationId: "DeleteRentalTypesType"
+ * summary: "Delete a Rental Type"
+ * description: "Deletes a Rental Type. The Rentals of the type are left without one."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental Type.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request DELETE 'https://medusa-url.com/admin/rental-types/{id}' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Type
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               description: The ID of the deleted Rental Type.
+ *             object:
+ *               type: string
+ *               description: The type of the object that was deleted.
+ *               default: rental-type
+ *             deleted:
+ *               type: boolean
+ *               description: Whether the Rental Type was deleted.
+ *               default: true
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const typeService: RentalTypeService = req.scope.resolve("rentalTypeService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await typeService.withTransaction(transactionManager).delete(id)
+  })
+
+  res.json({
+    id,
+    object: "rental-type",
+    deleted: true,
+  })
+}
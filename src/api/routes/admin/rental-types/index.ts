@@ -1,6 +1,6 @@
 import { Router } from "express"
 import { RentalType } from "../../../../models"
-import { PaginatedResponse } from "@medusajs/medusa/dist/types/common"
+import { FindParams, PaginatedResponse } from "@medusajs/medusa/dist/types/common"
 import middlewares, { transformQuery } from "@medusajs/medusa/dist/api/middlewares"
 import "reflect-metadata"
 import { AdminGetRentalTypesParams } from "./list-rental-types"
@@ -19,24 +19,59 @@ export default (app) => {
     }),
     middlewares.wrap(require("./list-rental-types").default)
   )
+  route.post("/", middlewares.wrap(require("./create-rental-type").default))
+  route.get(
+    "/:id",
+    transformQuery(FindParams, {
+      defaultFields: defaultAdminRentalTypeFields,
+      defaultRelations: defaultAdminRentalTypeRelations,
+      isList: false,
+    }),
+    middlewares.wrap(require("./get-rental-type").default)
+  )
+  route.post(
+    "/:id",
+    middlewares.wrap(require("./update-rental-type").default)
+  )
+  route.delete(
+    "/:id",
+    middlewares.wrap(require("./delete-rental-type").default)
+  )
 
   return app
 }
 
-export const defaultAdminRentalTypeFields = [
+export const defaultAdminRentalTypeFields: (keyof RentalType)[] = [
   "id",
   "value",
+  "buffer_before",
+  "buffer_after",
+  "late_fee_unit",
+  "late_fee_amount",
+  "late_fee_grace_period",
+  "cancellation_policy_id",
   "created_at",
   "updated_at",
+  "metadata",
 ]
 export const defaultAdminRentalTypeRelations = []
 
 export type AdminRentalTypesListRes = PaginatedResponse & {
-  rental_types: RentalType[]
+  rental_types: (RentalType & { usage_count: number })[]
 }
 
 export type AdminRentalTypesRes = {
   rental_type: RentalType
 }
 
+export type AdminRentalTypesDeleteRes = {
+  id: string
+  object: "rental-type"
+  deleted: boolean
+}
+
+export * from "./create-rental-type"
+export * from "./delete-rental-type"
+export * from "./get-rental-type"
 export * from "./list-rental-types"
+export * from "./update-rental-type"
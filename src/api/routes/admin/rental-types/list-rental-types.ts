@@ -12,7 +12,7 @@ import RentalTypeService from "../../../../services/rental-type"
  * @oas [get] /rental-types
  * operationId: "GetRentalTypes"
  * summary: "List Rental Types"
- * description: "Retrieve a list of Rental Types."
+ * description: "Retrieve a list of Rental Types, with the number of rentals using each."
  * x-authenticated: true
  * parameters:
  *   - (query) limit=20 {integer} The number of types to return.
@@ -112,7 +112,15 @@ import RentalTypeService from "../../../../services/rental-type"
  *          type: object
  *          properties:
  *            rental_types:
- *              $ref: "#/components/schemas/RentalType"
+ *              type: array
+ *              items:
+ *                allOf:
+ *                  - $ref: "#/components/schemas/RentalType"
+ *                  - type: object
+ *                    properties:
+ *                      usage_count:
+ *                        type: integer
+ *                        description: The number of rentals with the type
  *            count:
  *              type: integer
  *              description: The total number of items available
@@ -147,8 +155,13 @@ export default async (req, res) => {
     listConfig
   )
 
+  const usage = await typeService.countUsage(types.map(({ id }) => id))
+
   res.status(200).json({
-    rental_types: types,
+    rental_types: types.map((type) => ({
+      ...type,
+      usage_count: usage.get(type.id) ?? 0,
+    })),
     count,
     offset: skip,
     limit: take,
@@ -1,5 +1,4 @@
 import RentalService from "../../../../services/rental"
-import { PricingService } from "@medusajs/medusa/dist/services"
 import { defaultAdminRentalFields, defaultAdminRentalRelations } from "."
 
 import { IsString } from "class-validator"
@@ -78,7 +77,6 @@ export default async (req, res) => {
   )
 
   const rentalService: RentalService = req.scope.resolve("rentalService")
-  const pricingService: PricingService = req.scope.resolve("pricingService")
 
   const manager: EntityManager = req.scope.resolve("manager")
   await manager.transaction(async (transactionManager) => {
@@ -87,13 +85,11 @@ export default async (req, res) => {
       .addOption(id, validated.title)
   })
 
-  const rawRental = await rentalService.retrieve(id, {
+  const rental = await rentalService.retrieve(id, {
     select: defaultAdminRentalFields,
     relations: defaultAdminRentalRelations,
   })
 
-  const [rental] = await pricingService.setProductPrices([rawRental])
-
   res.json({ rental })
 }
 
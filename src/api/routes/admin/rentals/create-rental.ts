@@ -2,16 +2,18 @@ import {
   IsArray,
   IsBoolean,
   IsEnum,
+  IsInt,
   IsNumber,
   IsObject,
   IsOptional,
   IsString,
+  Min,
   ValidateNested,
 } from "class-validator"
 import { defaultAdminRentalFields, defaultAdminRentalRelations } from "."
 import RentalVariantService from "../../../../services/rental-variant"
 import RentalService from "../../../../services/rental"
-import { PricingService, ShippingProfileService } from "@medusajs/medusa/dist/services"
+import { ShippingProfileService } from "@medusajs/medusa/dist/services"
 import {
   RentalSalesChannelReq,
   RentalTagReq,
@@ -21,11 +23,16 @@ import {
   CreateRentalVariantInput,
   RentalVariantPricesCreateReq,
 } from "../../../../types/rental-variant"
+import { RentalDepositAmountReq } from "../../../../types/rental-deposit"
 
 import { Type } from "class-transformer"
 import { EntityManager } from "typeorm"
 import SalesChannelFeatureFlag from "@medusajs/medusa/dist/loaders/feature-flags/sales-channels"
-import { RentalStatus } from "../../../../models"
+import {
+  RentalDurationUnit,
+  RentalLateFeeUnit,
+  RentalStatus,
+} from "../../../../models"
 import { FeatureFlagDecorators } from "@medusajs/medusa/dist/utils/feature-flag-decorators"
 import { validator } from "@medusajs/medusa/dist/utils/validator"
 
@@ -96,7 +103,6 @@ export default async (req, res) => {
   const validated = await validator(AdminPostRentalsReq, req.body)
 
   const rentalService: RentalService = req.scope.resolve("rentalService")
-  const pricingService: PricingService = req.scope.resolve("pricingService")
   const rentalVariantService: RentalVariantService = req.scope.resolve(
     "rentalVariantService"
   )
@@ -161,13 +167,11 @@ export default async (req, res) => {
     return newRental
   })
 
-  const rawRental = await rentalService.retrieve(newRental.id, {
+  const rental = await rentalService.retrieve(newRental.id, {
     select: defaultAdminRentalFields,
     relations: defaultAdminRentalRelations,
   })
 
-  const [rental] = await pricingService.setProductPrices([rawRental])
-
   res.json({ rental })
 }
 
@@ -464,6 +468,55 @@ class RentalVariantReq {
  *   material:
  *     description: The material composition of the Rental.
  *     type: string
+ *   buffer_before:
+ *     description: The number of minutes before each booking during which the booked items are held, e.g. to prepare them. Overrides the buffer of the Rental Type.
+ *     type: integer
+ *   buffer_after:
+ *     description: The number of minutes after each booking during which the returned items are held, e.g. for cleaning or inspection. Overrides the buffer of the Rental Type.
+ *     type: integer
+ *   duration_unit:
+ *     description: The unit that bookings of the Rental are counted in. Bookings must last a whole number of units.
+ *     type: string
+ *     enum: [hour, day, week]
+ *   min_duration:
+ *     description: The minimum number of duration units a booking lasts.
+ *     type: integer
+ *   max_duration:
+ *     description: The maximum number of duration units a booking lasts.
+ *     type: integer
+ *   late_fee_unit:
+ *     description: Whether late fees are charged per started hour or day past the end of a booking. Overrides the late fee unit of the Rental Type.
+ *     type: string
+ *     enum: [hour, day]
+ *   late_fee_amount:
+ *     description: The late fee charged for each item, per late fee unit.
+ *     type: integer
+ *   late_fee_grace_period:
+ *     description: The number of minutes past the end of a booking before late fees are charged.
+ *     type: integer
+ *   prorate_early_returns:
+ *     description: Whether the unused days of bookings returned early are refunded, in proportion to the price of the booked period.
+ *     type: boolean
+ *   cancellation_policy_id:
+ *     description: The ID of the Rental Cancellation Policy of the Rental's bookings. Overrides the policy of the Rental Type and the Rental Collection.
+ *     type: string
+ *   deposit_amount:
+ *     description: The refundable deposit held for each item booked.
+ *     type: integer
+ *   deposit_amounts:
+ *     description: The deposits in specific Regions, which override the deposit amount. Replaces the existing deposit amounts of Regions.
+ *     type: array
+ *     items:
+ *       required:
+ *         - region_id
+ *         - amount
+ *       properties:
+ *         region_id:
+ *           description: The ID of the Region.
+ *           type: string
+ *         amount:
+ *           description: The deposit in the currency of the Region.
+ *           type: integer
  *   metadata:
  *     description: An optional set of key-value pairs with additional information.
  *     type: object
@@ -569,6 +622,63 @@ export class AdminPostRentalsReq {
   @IsOptional()
   material?: string
 
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  buffer_before?: number
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  buffer_after?: number
+
+  @IsEnum(RentalDurationUnit)
+  @IsOptional()
+  duration_unit?: RentalDurationUnit
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  min_duration?: number
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  max_duration?: number
+
+  @IsEnum(RentalLateFeeUnit)
+  @IsOptional()
+  late_fee_unit?: RentalLateFeeUnit
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  late_fee_amount?: number
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  late_fee_grace_period?: number
+
+  @IsBoolean()
+  @IsOptional()
+  prorate_early_returns?: boolean
+
+  @IsString()
+  @IsOptional()
+  cancellation_policy_id?: string
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  deposit_amount?: number
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => RentalDepositAmountReq)
+  deposit_amounts?: RentalDepositAmountReq[]
+
   @IsObject()
   @IsOptional()
   metadata?: Record<string, unknown>
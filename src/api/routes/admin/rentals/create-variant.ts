@@ -1,15 +1,19 @@
 import {
   IsArray,
   IsBoolean,
+  IsEnum,
+  IsInt,
   IsNumber,
   IsObject,
   IsOptional,
   IsString,
+  Min,
   ValidateNested,
 } from "class-validator"
 import { defaultAdminRentalFields, defaultAdminRentalRelations } from "."
 import RentalService from "../../../../services/rental"
 import RentalVariantService from "../../../../services/rental-variant"
+import { RentalDurationUnit } from "../../../../models"
 
 import { Type } from "class-transformer"
 import { EntityManager } from "typeorm"
@@ -17,6 +21,7 @@ import {
   CreateRentalVariantInput,
   RentalVariantPricesCreateReq,
 } from "../../../../types/rental-variant"
+import { RentalDepositAmountReq } from "../../../../types/rental-deposit"
 import { validator } from "@medusajs/medusa/dist/utils/validator"
 
 /**
@@ -173,6 +178,33 @@ class RentalVariantOptionReq {
  *     description: The amount of stock kept for the Rental Variant.
  *     type: integer
  *     default: 0
+ *   duration_unit:
+ *     description: The unit that bookings of the Rental Variant are counted in. Overrides the unit of the Rental.
+ *     type: string
+ *     enum: [hour, day, week]
+ *   min_duration:
+ *     description: The minimum number of duration units a booking lasts. Overrides the value of the Rental.
+ *     type: integer
+ *   max_duration:
+ *     description: The maximum number of duration units a booking lasts. Overrides the value of the Rental.
+ *     type: integer
+ *   deposit_amount:
+ *     description: The refundable deposit held for each item booked. Overrides the deposit amount of the Rental.
+ *     type: integer
+ *   deposit_amounts:
+ *     description: The deposits in specific Regions, which override the deposit amount. Replaces the existing deposit amounts of Regions.
+ *     type: array
+ *     items:
+ *       required:
+ *         - region_id
+ *         - amount
+ *       properties:
+ *         region_id:
+ *           description: The ID of the Region.
+ *           type: string
+ *         amount:
+ *           description: The deposit in the currency of the Region.
+ *           type: integer
  *   allow_backorder:
  *     description: Whether the Rental Variant can be purchased when out of stock.
  *     type: boolean
@@ -230,6 +262,10 @@ class RentalVariantOptionReq {
  *         max_quantity:
  *           description: The maximum quantity for which the price will be used.
  *           type: integer
+ *         duration_unit:
+ *           description: The rental duration the amount is charged for. Prices without a duration unit are charged once per booking.
+ *           type: string
+ *           enum: [hour, day, week, month]
  *   options:
  *     type: array
  *     items:
@@ -272,6 +308,31 @@ export class AdminPostRentalsRentalVariantsReq {
   @IsOptional()
   inventory_quantity?: number = 0
 
+  @IsEnum(RentalDurationUnit)
+  @IsOptional()
+  duration_unit?: RentalDurationUnit
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  min_duration?: number
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  max_duration?: number
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  deposit_amount?: number
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => RentalDepositAmountReq)
+  deposit_amounts?: RentalDepositAmountReq[]
+
   @IsBoolean()
   @IsOptional()
   allow_backorder?: boolean
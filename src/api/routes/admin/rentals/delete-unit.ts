@@ -0,0 +1,93 @@
+import { MedusaError } from "medusa-core-utils"
+import RentalUnitService from "../../../../services/rental-unit"
+import RentalVariantService from "../../../../services/rental-variant"
+
+import { EntityManager } from "typeorm"
+
+/**
+ * @oas [delete] /rentals/{id}/variants/{variant_id}/units/{unit_id}
+ * operationId: "DeleteRentalsRentalVariantsVariantUnitsUnit"
+ * summary: "Delete a Rental Unit"
+ * description: "Deletes a Rental Unit. The Rental Variant's inventory quantity is updated to the number of its available and rented units."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental.
+ *   - (path) variant_id=* {string} The ID of the Rental Variant.
+ *   - (path) unit_id=* {string} The ID of the Rental Unit.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request DELETE 'https://medusa-url.com/admin/rentals/{id}/variants/{variant_id}/units/{unit_id}' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               description: The ID of the deleted Rental Unit.
+ *             object:
+ *               type: string
+ *               description: The type of the object that was deleted.
+ *               default: rental-unit
+ *             deleted:
+ *               type: boolean
+ *               description: Whether or not the items were deleted.
+ *               default: true
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id, variant_id, unit_id } = req.params
+
+  const rentalVariantService: RentalVariantService = req.scope.resolve(
+    "rentalVariantService"
+  )
+  const rentalUnitService: RentalUnitService =
+    req.scope.resolve("rentalUnitService")
+
+  const variant = await rentalVariantService.retrieve(variant_id, {
+    select: ["id", "rental_id"],
+  })
+  const unit = await rentalUnitService.retrieve(unit_id, {
+    select: ["id", "variant_id"],
+  })
+
+  if (variant.rental_id !== id || unit.variant_id !== variant_id) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Rental unit with id: ${unit_id} was not found for variant ${variant_id}`
+    )
+  }
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    await rentalUnitService.withTransaction(transactionManager).delete(unit_id)
+  })
+
+  res.json({
+    id: unit_id,
+    object: "rental-unit",
+    deleted: true,
+  })
+}
@@ -1,6 +1,5 @@
 import RentalService from "../../../../services/rental"
 import RentalVariantService from "../../../../services/rental-variant"
-import { PricingService } from "@medusajs/medusa/dist/services"
 import { defaultAdminRentalFields, defaultAdminRentalRelations } from "."
 
 import { EntityManager } from "typeorm"
@@ -76,7 +75,6 @@ export default async (req, res) => {
     "rentalVariantService"
   )
   const rentalService: RentalService = req.scope.resolve("rentalService")
-  const pricingService: PricingService = req.scope.resolve("pricingService")
 
   const manager: EntityManager = req.scope.resolve("manager")
   await manager.transaction(async (transactionManager) => {
@@ -85,13 +83,11 @@ export default async (req, res) => {
       .delete(variant_id)
   })
 
-  const data = await rentalService.retrieve(id, {
+  const rental = await rentalService.retrieve(id, {
     select: defaultAdminRentalFields,
     relations: defaultAdminRentalRelations,
   })
 
-  const [rental] = await pricingService.setRentalPrices([data])
-
   res.json({
     variant_id,
     object: "rental-variant",
@@ -1,5 +1,4 @@
 import RentalService from "../../../../services/rental"
-import { PricingService } from "@medusajs/medusa/dist/services"
 
 /**
  * @oas [get] /rentals/{id}
@@ -57,11 +56,8 @@ export default async (req, res) => {
   const { id } = req.params
 
   const rentalService: RentalService = req.scope.resolve("rentalService")
-  const pricingService: PricingService = req.scope.resolve("pricingService")
 
-  const rawRental = await rentalService.retrieve(id, req.retrieveConfig)
-
-  const [rental] = await pricingService.setProductPrices([rawRental])
+  const rental = await rentalService.retrieve(id, req.retrieveConfig)
 
   res.json({ rental })
 }
@@ -1,6 +1,12 @@
 import { Router } from "express"
 import "reflect-metadata"
-import { Rental, RentalTag, RentalType } from "../../../../models"
+import {
+  Rental,
+  RentalTag,
+  RentalType,
+  RentalUnit,
+  RentalWaitlistEntry,
+} from "../../../../models"
 import { FindParams, PaginatedResponse } from "@medusajs/medusa/dist/types/common"
 import { PricedProduct } from "@medusajs/medusa/dist/types/pricing"
 import { FlagRouter } from "@medusajs/medusa/dist/utils/flag-router"
@@ -48,6 +54,30 @@ export default (app, featureFlagRouter: FlagRouter) => {
     middlewares.wrap(require("./update-variant").default)
   )
 
+  route.get(
+    "/:id/variants/:variant_id/units",
+    middlewares.normalizeQuery(),
+    middlewares.wrap(require("./list-units").default)
+  )
+  route.post(
+    "/:id/variants/:variant_id/units",
+    middlewares.wrap(require("./create-unit").default)
+  )
+  route.post(
+    "/:id/variants/:variant_id/units/:unit_id",
+    middlewares.wrap(require("./update-unit").default)
+  )
+  route.delete(
+    "/:id/variants/:variant_id/units/:unit_id",
+    middlewares.wrap(require("./delete-unit").default)
+  )
+
+  route.get(
+    "/:id/waitlist",
+    middlewares.normalizeQuery(),
+    middlewares.wrap(require("./list-waitlist").default)
+  )
+
   route.post(
     "/:id/options/:option_id",
     middlewares.wrap(require("./update-option").default)
@@ -116,6 +146,8 @@ export const defaultAdminRentalFields: (keyof Rental)[] = [
   "profile_id",
   "collection_id",
   "type_id",
+  "cancellation_policy_id",
+  "prorate_early_returns",
   "weight",
   "length",
   "height",
@@ -146,6 +178,12 @@ export type AdminRentalsDeleteVariantRes = {
   rental: Rental
 }
 
+export type AdminRentalsDeleteUnitRes = {
+  id: string
+  object: "rental-unit"
+  deleted: boolean
+}
+
 export type AdminRentalsDeleteRes = {
   id: string
   object: "rental"
@@ -168,18 +206,35 @@ export type AdminRentalsRes = {
   rental: Rental
 }
 
+export type AdminRentalsUnitsListRes = PaginatedResponse & {
+  units: RentalUnit[]
+}
+
+export type AdminRentalsUnitsRes = {
+  unit: RentalUnit
+}
+
+export type AdminRentalsWaitlistListRes = PaginatedResponse & {
+  waitlist_entries: RentalWaitlistEntry[]
+}
+
 export * from "./add-option"
 export * from "./create-rental"
+export * from "./create-unit"
 export * from "./create-variant"
 export * from "./delete-option"
 export * from "./delete-rental"
+export * from "./delete-unit"
 export * from "./delete-variant"
 export * from "./get-rental"
 export * from "./list-rentals"
 export * from "./list-tag-usage-count"
 export * from "./list-types"
+export * from "./list-units"
 export * from "./list-variants"
+export * from "./list-waitlist"
 export * from "./set-metadata"
 export * from "./update-option"
 export * from "./update-rental"
+export * from "./update-unit"
 export * from "./update-variant"
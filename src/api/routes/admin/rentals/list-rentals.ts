@@ -1,10 +1,7 @@
 import { IsNumber, IsOptional, IsString } from "class-validator"
 import RentalService from "../../../../services/rental"
-import { PricingService } from "@medusajs/medusa/dist/services"
 
 import { Type } from "class-transformer"
-import { Rental } from "../../../../models"
-import { PricedProduct } from "@medusajs/medusa/dist/types/pricing"
 import { FilterableRentalProps } from "../../../../types/rental"
 
 /**
@@ -216,24 +213,14 @@ import { FilterableRentalProps } from "../../../../types/rental"
  */
 export default async (req, res) => {
   const rentalService: RentalService = req.scope.resolve("rentalService")
-  const pricingService: PricingService = req.scope.resolve("pricingService")
 
-  const { skip, take, relations } = req.listConfig
+  const { skip, take } = req.listConfig
 
-  const [rawRentals, count] = await rentalService.listAndCount(
+  const [rentals, count] = await rentalService.listAndCount(
     req.filterableFields,
     req.listConfig
   )
 
-  let rentals: (Rental | PricedProduct)[] = rawRentals
-
-  const includesPricing = ["variants", "variants.prices"].every((relation) =>
-    relations?.includes(relation)
-  )
-  if (includesPricing) {
-    rentals = await pricingService.setProductPrices(rawRentals)
-  }
-
   res.json({
     rentals,
     count,
@@ -0,0 +1,146 @@
+import { IsNumber, IsOptional, IsString } from "class-validator"
+import { MedusaError } from "medusa-core-utils"
+
+import RentalUnitService from "../../../../services/rental-unit"
+import RentalVariantService from "../../../../services/rental-variant"
+import { FilterableRentalUnitProps } from "../../../../types/rental-unit"
+import { Type } from "class-transformer"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [get] /rentals/{id}/variants/{variant_id}/units
+ * operationId: "GetRentalsRentalVariantsVariantUnits"
+ * summary: "List a Rental Variant's Units"
+ * description: "Retrieves a list of the Rental Units of a Rental Variant."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental.
+ *   - (path) variant_id=* {string} The ID of the Rental Variant.
+ *   - (query) serial_number {string} Serial number to search for.
+ *   - (query) location {string} Location to search for.
+ *   - in: query
+ *     name: status
+ *     style: form
+ *     explode: false
+ *     description: Status to search for.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *         enum: [available, rented, maintenance, out_of_service, retired]
+ *   - in: query
+ *     name: condition
+ *     style: form
+ *     explode: false
+ *     description: Condition to search for.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *         enum: [new, good, fair, poor, damaged]
+ *   - (query) expand {string} Comma separated string of the relations to include.
+ *   - (query) offset=0 {integer} How many items to skip before the results.
+ *   - (query) limit=50 {integer} Limit the number of items returned.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/rentals/{id}/variants/{variant_id}/units' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             units:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/RentalUnit"
+ *             count:
+ *               type: integer
+ *               description: The total number of items available
+ *             offset:
+ *               type: integer
+ *               description: The number of items skipped before these items
+ *             limit:
+ *               type: integer
+ *               description: The number of items per page
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id, variant_id } = req.params
+
+  const { expand, offset, limit, ...filterableFields } = await validator(
+    AdminGetRentalsVariantsUnitsParams,
+    req.query
+  )
+
+  const rentalVariantService: RentalVariantService = req.scope.resolve(
+    "rentalVariantService"
+  )
+  const rentalUnitService: RentalUnitService =
+    req.scope.resolve("rentalUnitService")
+
+  const variant = await rentalVariantService.retrieve(variant_id, {
+    select: ["id", "rental_id"],
+  })
+
+  if (variant.rental_id !== id) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Variant with id: ${variant_id} was not found for rental ${id}`
+    )
+  }
+
+  const [units, count] = await rentalUnitService.listAndCount(
+    { ...filterableFields, variant_id },
+    {
+      relations: expand ? expand.split(",") : [],
+      skip: offset,
+      take: limit,
+      order: { serial_number: "ASC" },
+    }
+  )
+
+  res.json({
+    units,
+    count,
+    offset,
+    limit,
+  })
+}
+
+export class AdminGetRentalsVariantsUnitsParams extends FilterableRentalUnitProps {
+  @IsString()
+  @IsOptional()
+  expand?: string
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  offset?: number = 0
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number = 50
+}
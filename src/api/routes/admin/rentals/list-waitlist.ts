@@ -0,0 +1,136 @@
+import { IsNumber, IsOptional, IsString } from "class-validator"
+
+import RentalVariantService from "../../../../services/rental-variant"
+import RentalWaitlistService from "../../../../services/rental-waitlist"
+import { FilterableRentalWaitlistEntryProps } from "../../../../types/rental-waitlist-entry"
+import { Type } from "class-transformer"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [get] /rentals/{id}/waitlist
+ * operationId: "GetRentalsRentalWaitlist"
+ * summary: "List a Rental's Waitlist"
+ * description: "Retrieves the Rental Waitlist Entries of the Variants of a Rental, in the order the customers joined."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental.
+ *   - in: query
+ *     name: variant_id
+ *     style: form
+ *     explode: false
+ *     description: Filter by the Rental Variants waited for.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - (query) customer_id {string} Filter by the Customer waiting.
+ *   - in: query
+ *     name: status
+ *     style: form
+ *     explode: false
+ *     description: Filter by the status of the entries.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *         enum: [waiting, notified, expired, left]
+ *   - (query) expand {string} Comma separated string of the relations to include.
+ *   - (query) offset=0 {integer} How many items to skip before the results.
+ *   - (query) limit=50 {integer} Limit the number of items returned.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/admin/rentals/{id}/waitlist' \
+ *       --header 'Authorization: Bearer {api_token}'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             waitlist_entries:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/RentalWaitlistEntry"
+ *             count:
+ *               type: integer
+ *               description: The total number of items available
+ *             offset:
+ *               type: integer
+ *               description: The number of items skipped before these items
+ *             limit:
+ *               type: integer
+ *               description: The number of items per page
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const { expand, offset, limit, variant_id, ...filterableFields } =
+    await validator(AdminGetRentalsWaitlistParams, req.query)
+
+  const rentalVariantService: RentalVariantService = req.scope.resolve(
+    "rentalVariantService"
+  )
+  const rentalWaitlistService: RentalWaitlistService = req.scope.resolve(
+    "rentalWaitlistService"
+  )
+
+  const variants = await rentalVariantService.list(
+    { rental_id: id },
+    { select: ["id"] }
+  )
+
+  const requested = variant_id ? [variant_id].flat() : undefined
+  const variantIds = variants
+    .map((variant) => variant.id)
+    .filter((variantId) => !requested || requested.includes(variantId))
+
+  const [waitlist_entries, count] = await rentalWaitlistService.listAndCount(
+    { ...filterableFields, variant_id: variantIds },
+    {
+      relations: expand ? expand.split(",") : [],
+      skip: offset,
+      take: limit,
+      order: { created_at: "ASC" },
+    }
+  )
+
+  res.json({
+    waitlist_entries,
+    count,
+    offset,
+    limit,
+  })
+}
+
+export class AdminGetRentalsWaitlistParams extends FilterableRentalWaitlistEntryProps {
+  @IsString()
+  @IsOptional()
+  expand?: string
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  offset?: number = 0
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number = 50
+}
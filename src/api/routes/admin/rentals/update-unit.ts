@@ -0,0 +1,159 @@
+import {
+  IsDate,
+  IsEnum,
+  IsObject,
+  IsOptional,
+  IsString,
+} from "class-validator"
+import { MedusaError } from "medusa-core-utils"
+import { RentalUnitCondition, RentalUnitStatus } from "../../../../models"
+import RentalUnitService from "../../../../services/rental-unit"
+import RentalVariantService from "../../../../services/rental-variant"
+
+import { Type } from "class-transformer"
+import { EntityManager } from "typeorm"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rentals/{id}/variants/{variant_id}/units/{unit_id}
+ * operationId: "PostRentalsRentalVariantsVariantUnitsUnit"
+ * summary: "Update a Rental Unit"
+ * description: "Updates a Rental Unit. The Rental Variant's inventory quantity is updated to the number of its available and rented units."
+ * x-authenticated: true
+ * parameters:
+ *   - (path) id=* {string} The ID of the Rental.
+ *   - (path) variant_id=* {string} The ID of the Rental Variant.
+ *   - (path) unit_id=* {string} The ID of the Rental Unit.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/AdminPostRentalsRentalVariantsVariantUnitsUnitReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/admin/rentals/{id}/variants/{variant_id}/units/{unit_id}' \
+ *       --header 'Authorization: Bearer {api_token}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "status": "maintenance"
+ *       }'
+ * security:
+ *   - api_token: []
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             unit:
+ *               $ref: "#/components/schemas/RentalUnit"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id, variant_id, unit_id } = req.params
+
+  const validated = await validator(
+    AdminPostRentalsRentalVariantsVariantUnitsUnitReq,
+    req.body
+  )
+
+  const rentalVariantService: RentalVariantService = req.scope.resolve(
+    "rentalVariantService"
+  )
+  const rentalUnitService: RentalUnitService =
+    req.scope.resolve("rentalUnitService")
+
+  const variant = await rentalVariantService.retrieve(variant_id, {
+    select: ["id", "rental_id"],
+  })
+  const existing = await rentalUnitService.retrieve(unit_id, {
+    select: ["id", "variant_id"],
+  })
+
+  if (variant.rental_id !== id || existing.variant_id !== variant_id) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Rental unit with id: ${unit_id} was not found for variant ${variant_id}`
+    )
+  }
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  const unit = await manager.transaction(async (transactionManager) => {
+    return await rentalUnitService
+      .withTransaction(transactionManager)
+      .update(unit_id, validated)
+  })
+
+  res.status(200).json({ unit })
+}
+
+/**
+ * @schema AdminPostRentalsRentalVariantsVariantUnitsUnitReq
+ * type: object
+ * properties:
+ *   serial_number:
+ *     description: The serial number of the physical item.
+ *     type: string
+ *   condition:
+ *     description: The physical condition of the item.
+ *     type: string
+ *     enum: [new, good, fair, poor, damaged]
+ *   status:
+ *     description: The status of the item.
+ *     type: string
+ *     enum: [available, rented, maintenance, out_of_service, retired]
+ *   location:
+ *     description: Where the item is kept.
+ *     type: string
+ *   acquired_at:
+ *     description: The date at which the item was acquired.
+ *     type: string
+ *     format: date-time
+ *   metadata:
+ *     description: An optional set of key-value pairs with additional information.
+ *     type: object
+ */
+export class AdminPostRentalsRentalVariantsVariantUnitsUnitReq {
+  @IsString()
+  @IsOptional()
+  serial_number?: string
+
+  @IsEnum(RentalUnitCondition)
+  @IsOptional()
+  condition?: RentalUnitCondition
+
+  @IsEnum(RentalUnitStatus)
+  @IsOptional()
+  status?: RentalUnitStatus
+
+  @IsString()
+  @IsOptional()
+  location?: string
+
+  @IsDate()
+  @IsOptional()
+  @Type(() => Date)
+  acquired_at?: Date
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
@@ -1,23 +1,27 @@
 import {
   IsArray,
   IsBoolean,
+  IsEnum,
+  IsInt,
   IsNumber,
   IsObject,
   IsOptional,
   IsString,
+  Min,
   ValidateNested,
 } from "class-validator"
 import { defaultAdminRentalFields, defaultAdminRentalRelations } from "."
 
 import RentalService from "../../../../services/rental"
 import RentalVariantService from "../../../../services/rental-variant"
+import { RentalDurationUnit } from "../../../../models"
 
-import { PricingService } from "@medusajs/medusa/dist/services"
 
 import { Type } from "class-transformer"
 import { EntityManager } from "typeorm"
 import { PriceSelectionParams } from "@medusajs/medusa/dist/types/price-selection"
 import { RentalVariantPricesUpdateReq } from "../../../../types/rental-variant"
+import { RentalDepositAmountReq } from "../../../../types/rental-deposit"
 import { validator } from "@medusajs/medusa/dist/utils/validator"
 
 /**
@@ -114,7 +118,6 @@ export default async (req, res) => {
   const validatedQueryParams = await validator(PriceSelectionParams, req.query)
 
   const rentalService: RentalService = req.scope.resolve("rentalService")
-  const pricingService: PricingService = req.scope.resolve("pricingService")
   const rentalVariantService: RentalVariantService = req.scope.resolve(
     "rentalVariantService"
   )
@@ -129,14 +132,12 @@ export default async (req, res) => {
       })
   })
 
-  const rawRental = await rentalService.retrieve(id, {
+  const rental = await rentalService.retrieve(id, {
     select: defaultAdminRentalFields,
     relations: defaultAdminRentalRelations,
     ...validatedQueryParams,
   })
 
-  const [rental] = await pricingService.setProductPrices([rawRental])
-
   res.json({ rental })
 }
 
@@ -175,6 +176,36 @@ class RentalVariantOptionReq {
  *   inventory_quantity:
  *     description: The amount of stock kept for the Rental Variant.
  *     type: integer
+ *   duration_unit:
+ *     description: The unit that bookings of the Rental Variant are counted in. Overrides the unit of the Rental. Set to null to use the value of the Rental.
+ *     type: string
+ *     enum: [hour, day, week]
+ *     nullable: true
+ *   min_duration:
+ *     description: The minimum number of duration units a booking lasts. Overrides the value of the Rental. Set to null to use the value of the Rental.
+ *     type: integer
+ *     nullable: true
+ *   max_duration:
+ *     description: The maximum number of duration units a booking lasts. Overrides the value of the Rental. Set to null to use the value of the Rental.
+ *     type: integer
+ *     nullable: true
+ *   deposit_amount:
+ *     description: The refundable deposit held for each item booked. Overrides the deposit amount of the Rental.
+ *     type: integer
+ *   deposit_amounts:
+ *     description: The deposits in specific Regions, which override the deposit amount. Replaces the existing deposit amounts of Regions.
+ *     type: array
+ *     items:
+ *       required:
+ *         - region_id
+ *         - amount
+ *       properties:
+ *         region_id:
+ *           description: The ID of the Region.
+ *           type: string
+ *         amount:
+ *           description: The deposit in the currency of the Region.
+ *           type: integer
  *   allow_backorder:
  *     description: Whether the Rental Variant can be purchased when out of stock.
  *     type: boolean
@@ -232,6 +263,10 @@ class RentalVariantOptionReq {
  *         max_quantity:
  *           description: The maximum quantity for which the price will be used.
  *           type: integer
+ *         duration_unit:
+ *           description: The rental duration the amount is charged for. Prices without a duration unit are charged once per booking.
+ *           type: string
+ *           enum: [hour, day, week, month]
  *   options:
  *     type: array
  *     items:
@@ -275,6 +310,31 @@ export class AdminPostRentalsRentalVariantsVariantReq {
   @IsOptional()
   inventory_quantity?: number
 
+  @IsEnum(RentalDurationUnit)
+  @IsOptional()
+  duration_unit?: RentalDurationUnit | null
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  min_duration?: number | null
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  max_duration?: number | null
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  deposit_amount?: number
+
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => RentalDepositAmountReq)
+  deposit_amounts?: RentalDepositAmountReq[]
+
   @IsBoolean()
   @IsOptional()
   allow_backorder?: boolean
@@ -2,11 +2,7 @@ import { IsInt, IsOptional, IsString } from "class-validator"
 
 import { Type } from "class-transformer"
 import { omit } from "lodash"
-import {
-  CartService,
-  PricingService,
-  RegionService,
-} from "@medusajs/medusa/dist/services"
+import { CartService, RegionService } from "@medusajs/medusa/dist/services"
 import RentalVariantService from "../../../../services/rental-variant"
 import { NumericalComparisonOperator } from "@medusajs/medusa/dist/types/common"
 import { AdminPriceSelectionParams } from "@medusajs/medusa/dist/types/price-selection"
@@ -124,7 +120,6 @@ export default async (req, res) => {
     "rentalVariantService"
   )
 
-  const pricingService: PricingService = req.scope.resolve("pricingService")
   const cartService: CartService = req.scope.resolve("cartService")
   const regionService: RegionService = req.scope.resolve("regionService")
 
@@ -154,8 +149,7 @@ export default async (req, res) => {
     currencyCode = region.currency_code
   }
 
-  const variants = await pricingService.setProductPrices(rawVariants, {
-    cart_id: req.validatedQuery.cart_id,
+  const variants = await variantService.setPrices(rawVariants, {
     region_id: regionId,
     currency_code: currencyCode,
     customer_id: req.validatedQuery.customer_id,
@@ -0,0 +1,161 @@
+import { IsBoolean, IsDate, IsOptional, IsString } from "class-validator"
+import { MedusaError } from "medusa-core-utils"
+import { defaultStoreBookingFields, defaultStoreBookingRelations } from "."
+import RentalBookingExtensionService from "../../../../services/rental-booking-extension"
+import RentalBookingService from "../../../../services/rental-booking"
+import { Type } from "class-transformer"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /bookings/{id}/extend
+ * operationId: PostBookingsBookingExtend
+ * summary: Extend a Booking
+ * description: "Quotes keeping the items of a Rental Booking of the logged in customer longer, or extends the booking when confirmed. The extra time must be available, buffers and other bookings included, and the difference in price is charged through the payment provider the order of the booking was paid with. Bookings of orders paid through the manual provider cannot be extended by their customer."
+ * parameters:
+ *   - (path) id=* {string} The id of the Rental Booking.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/StorePostBookingsBookingExtendReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/store/bookings/{id}/extend' \
+ *       --header 'Cookie: connect.sid={sid}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "end_at": "2023-01-10T10:00:00Z",
+ *           "region_id": "{region_id}"
+ *       }'
+ * security:
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Booking
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             extension_quote:
+ *               type: object
+ *               description: The quote of the extension, as returned by the admin extend endpoint of Rental Bookings. Returned when the extension is not confirmed.
+ *             booking:
+ *               description: The extended booking. Returned when the extension is confirmed.
+ *               $ref: "#/components/schemas/RentalBooking"
+ *             extension:
+ *               description: The extension. Returned when the extension is confirmed.
+ *               $ref: "#/components/schemas/RentalBookingExtension"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    StorePostBookingsBookingExtendReq,
+    req.body
+  )
+
+  const rentalBookingService: RentalBookingService = req.scope.resolve(
+    "rentalBookingService"
+  )
+  const rentalBookingExtensionService: RentalBookingExtensionService =
+    req.scope.resolve("rentalBookingExtensionService")
+
+  const customerId = req.user?.customer_id
+
+  const { customer_id, order } = await rentalBookingService.retrieve(id, {
+    select: ["id", "customer_id", "order_id"],
+    relations: ["order", "order.payments"],
+  })
+
+  if (!customerId || customer_id !== customerId) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Rental booking with id: ${id} was not found`
+    )
+  }
+
+  const { confirm, ...data } = validated
+
+  if (!confirm) {
+    const extension_quote = await rentalBookingExtensionService.quote(id, data)
+
+    res.json({ extension_quote })
+    return
+  }
+
+  // The manual provider records payments without taking them, so customers
+  // only extend bookings whose order they paid through another provider
+  const providerId = order?.payments?.[0]?.provider_id
+  if (
+    !providerId ||
+    providerId === RentalBookingExtensionService.DefaultProviderId
+  ) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_ALLOWED,
+      `Rental booking with id: ${id} cannot be extended online, as its order was not paid through a payment provider`
+    )
+  }
+
+  // Not wrapped in a transaction: the service charges the extension through
+  // the payment provider before extending the booking, and refunds it on
+  // failure
+  const extension = await rentalBookingExtensionService.create(id, {
+    ...data,
+    provider_id: providerId,
+    created_by: customerId,
+  })
+
+  const booking = await rentalBookingService.retrieve(id, {
+    select: defaultStoreBookingFields,
+    relations: defaultStoreBookingRelations,
+  })
+
+  res.json({ booking, extension })
+}
+
+/**
+ * @schema StorePostBookingsBookingExtendReq
+ * type: object
+ * required:
+ *   - end_at
+ *   - region_id
+ * properties:
+ *   end_at:
+ *     type: string
+ *     format: date-time
+ *     description: The new end of the booking.
+ *   region_id:
+ *     type: string
+ *     description: The id of the Region to price the extension in.
+ *   confirm:
+ *     type: boolean
+ *     description: Whether to extend the booking and charge the difference, instead of only quoting it.
+ *     default: false
+ */
+export class StorePostBookingsBookingExtendReq {
+  @IsDate()
+  @Type(() => Date)
+  end_at: Date
+
+  @IsString()
+  region_id: string
+
+  @IsBoolean()
+  @IsOptional()
+  confirm?: boolean
+}
@@ -0,0 +1,56 @@
+import { Router } from "express"
+import "reflect-metadata"
+
+import { RentalBooking, RentalBookingExtension } from "../../../../models"
+import middlewares from "@medusajs/medusa/dist/api/middlewares"
+import { RentalBookingExtensionQuote } from "../../../../types/rental-booking-extension"
+
+const route = Router()
+
+export default (app) => {
+  app.use("/bookings", route)
+
+  route.post(
+    "/:id/extend",
+    middlewares.wrap(require("./extend-booking").default)
+  )
+
+  return app
+}
+
+export const defaultStoreBookingFields: (keyof RentalBooking)[] = [
+  "id",
+  "variant_id",
+  "customer_id",
+  "cart_id",
+  "order_id",
+  "start_at",
+  "end_at",
+  "quantity",
+  "status",
+  "confirmed_at",
+  "canceled_at",
+  "refund_percentage",
+  "refund_amount",
+  "checked_out_at",
+  "checked_in_at",
+  "late_fee_total",
+  "early_return_refund",
+  "created_at",
+  "updated_at",
+]
+export const defaultStoreBookingRelations = ["extensions"]
+
+export * from "./extend-booking"
+
+export type StoreBookingsRes = {
+  booking: RentalBooking
+}
+
+export type StoreBookingsExtensionQuoteRes = {
+  extension_quote: RentalBookingExtensionQuote
+}
+
+export type StoreBookingsExtensionRes = StoreBookingsRes & {
+  extension: RentalBookingExtension
+}
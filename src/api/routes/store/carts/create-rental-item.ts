@@ -0,0 +1,147 @@
+import {
+  IsDate,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Min,
+} from "class-validator"
+import {
+  defaultStoreCartFields,
+  defaultStoreCartRelations,
+} from "@medusajs/medusa/dist/api/routes/store/carts"
+import { CartService } from "@medusajs/medusa/dist/services"
+import RentalCartService from "../../../../services/rental-cart"
+import { EntityManager } from "typeorm"
+import { Type } from "class-transformer"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /carts/{id}/rental-items
+ * operationId: PostCartsCartRentalItems
+ * summary: Add a Rental Item
+ * description: "Adds a Rental Variant booked for a period to a Cart. The items are held with a Rental Hold for the number of minutes set by `projectConfig.rentals.hold_ttl_minutes` in the config, 15 by default, and booked when the order is placed. The Line Item is priced by the rental quote of the period in the Cart's region."
+ * parameters:
+ *   - (path) id=* {string} The id of the Cart to add the Rental Item to.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/StorePostCartsCartRentalItemsReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/store/carts/{id}/rental-items' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "variant_id": "{variant_id}",
+ *           "start_at": "2023-01-01T10:00:00Z",
+ *           "end_at": "2023-01-03T10:00:00Z",
+ *           "quantity": 1
+ *       }'
+ * tags:
+ *   - Cart
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             cart:
+ *               $ref: "#/components/schemas/Cart"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    StorePostCartsCartRentalItemsReq,
+    req.body
+  )
+
+  const cartService: CartService = req.scope.resolve("cartService")
+  const rentalCartService: RentalCartService =
+    req.scope.resolve("rentalCartService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalCartService
+      .withTransaction(transactionManager)
+      .addItem(id, validated)
+  })
+
+  const cart = await cartService.retrieveWithTotals(id, {
+    select: defaultStoreCartFields,
+    relations: defaultStoreCartRelations,
+  })
+
+  res.json({ cart })
+}
+
+/**
+ * @schema StorePostCartsCartRentalItemsReq
+ * type: object
+ * required:
+ *   - variant_id
+ *   - start_at
+ *   - end_at
+ * properties:
+ *   variant_id:
+ *     type: string
+ *     description: The id of the Rental Variant to book.
+ *   start_at:
+ *     type: string
+ *     format: date-time
+ *     description: The start of the booking.
+ *   end_at:
+ *     type: string
+ *     format: date-time
+ *     description: The end of the booking.
+ *   quantity:
+ *     type: integer
+ *     description: The number of items to book.
+ *     default: 1
+ *   hold_id:
+ *     type: string
+ *     description: The id of a Rental Hold the customer was given, e.g. from a waitlist, to add to the Cart instead of holding the items anew. It must be for the same Rental Variant, period and quantity.
+ *   metadata:
+ *     type: object
+ *     description: An optional set of key-value pairs with additional information for the Line Item.
+ */
+export class StorePostCartsCartRentalItemsReq {
+  @IsString()
+  variant_id: string
+
+  @IsDate()
+  @Type(() => Date)
+  start_at: Date
+
+  @IsDate()
+  @Type(() => Date)
+  end_at: Date
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  quantity?: number
+
+  @IsString()
+  @IsOptional()
+  hold_id?: string
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
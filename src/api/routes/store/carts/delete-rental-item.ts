@@ -0,0 +1,61 @@
+import {
+  defaultStoreCartFields,
+  defaultStoreCartRelations,
+} from "@medusajs/medusa/dist/api/routes/store/carts"
+import { CartService } from "@medusajs/medusa/dist/services"
+import RentalCartService from "../../../../services/rental-cart"
+import { EntityManager } from "typeorm"
+
+/**
+ * @oas [delete] /carts/{id}/rental-items/{line_id}
+ * operationId: DeleteCartsCartRentalItemsItem
+ * summary: Delete a Rental Item
+ * description: "Removes a Rental Item from a Cart and releases the Rental Hold of its items."
+ * parameters:
+ *   - (path) id=* {string} The id of the Cart.
+ *   - (path) line_id=* {string} The id of the Line Item.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request DELETE 'https://medusa-url.com/store/carts/{id}/rental-items/{line_id}'
+ * tags:
+ *   - Cart
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             cart:
+ *               $ref: "#/components/schemas/Cart"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id, line_id } = req.params
+
+  const cartService: CartService = req.scope.resolve("cartService")
+  const rentalCartService: RentalCartService =
+    req.scope.resolve("rentalCartService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalCartService
+      .withTransaction(transactionManager)
+      .removeItem(id, line_id)
+  })
+
+  const cart = await cartService.retrieveWithTotals(id, {
+    select: defaultStoreCartFields,
+    relations: defaultStoreCartRelations,
+  })
+
+  res.json({ cart })
+}
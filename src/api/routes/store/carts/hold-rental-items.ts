@@ -0,0 +1,66 @@
+import {
+  defaultStoreCartFields,
+  defaultStoreCartRelations,
+} from "@medusajs/medusa/dist/api/routes/store/carts"
+import { CartService } from "@medusajs/medusa/dist/services"
+import RentalCartService from "../../../../services/rental-cart"
+import { EntityManager } from "typeorm"
+
+/**
+ * @oas [post] /carts/{id}/rental-holds
+ * operationId: PostCartsCartRentalHolds
+ * summary: Hold the Rental Items
+ * description: "Holds the items of every Rental Item of a Cart for the number of minutes set by `projectConfig.rentals.hold_ttl_minutes` in the config, 15 by default, from now, e.g. when the customer starts checking out, so nobody else can book them meanwhile. Holds still in place are renewed, and items whose hold expired are held again if they are still available."
+ * parameters:
+ *   - (path) id=* {string} The id of the Cart.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/store/carts/{id}/rental-holds'
+ * tags:
+ *   - Cart
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             cart:
+ *               $ref: "#/components/schemas/Cart"
+ *             holds:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/RentalHold"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const cartService: CartService = req.scope.resolve("cartService")
+  const rentalCartService: RentalCartService =
+    req.scope.resolve("rentalCartService")
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  const holds = await manager.transaction(async (transactionManager) => {
+    return await rentalCartService
+      .withTransaction(transactionManager)
+      .holdItems(id)
+  })
+
+  const cart = await cartService.retrieveWithTotals(id, {
+    select: defaultStoreCartFields,
+    relations: defaultStoreCartRelations,
+  })
+
+  res.json({ cart, holds })
+}
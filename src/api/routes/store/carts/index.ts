@@ -0,0 +1,39 @@
+import { Router } from "express"
+import "reflect-metadata"
+
+import { Cart } from "@medusajs/medusa/dist/models"
+import { RentalHold } from "../../../../models"
+import middlewares from "@medusajs/medusa/dist/api/middlewares"
+
+const route = Router()
+
+export default (app) => {
+  app.use("/carts", route)
+
+  route.post(
+    "/:id/rental-items",
+    middlewares.wrap(require("./create-rental-item").default)
+  )
+  route.post(
+    "/:id/rental-holds",
+    middlewares.wrap(require("./hold-rental-items").default)
+  )
+  route.delete(
+    "/:id/rental-items/:line_id",
+    middlewares.wrap(require("./delete-rental-item").default)
+  )
+
+  return app
+}
+
+export * from "./create-rental-item"
+export * from "./delete-rental-item"
+export * from "./hold-rental-items"
+
+export type StoreCartsRentalItemRes = {
+  cart: Omit<Cart, "refundable_amount" | "refunded_total">
+}
+
+export type StoreCartsRentalHoldsRes = StoreCartsRentalItemRes & {
+  holds: RentalHold[]
+}
@@ -3,7 +3,13 @@ import { Router } from "express"
 import { parseCorsOrigins } from "medusa-core-utils"
 import authenticate from "@medusajs/medusa/dist/api/middlewares/authenticate-customer"
 
+import BookingRoutes from "./bookings"
+import CartRoutes from "./carts"
+import RentalCollectionRoutes from "./rental-collections"
+import RentalTagRoutes from "./rental-tags"
+import RentalTypeRoutes from "./rental-types"
 import RentalRoutes from "./rentals"
+import WaitlistRoutes from "./waitlist"
 
 const route = Router()
 
@@ -21,6 +27,12 @@ export default (app : any, projectConfig : any, featureFlagRouter : any) => {
   route.use(authenticate())
 
   RentalRoutes(route, featureFlagRouter)
+  RentalCollectionRoutes(route, featureFlagRouter)
+  RentalTypeRoutes(route, featureFlagRouter)
+  RentalTagRoutes(route, featureFlagRouter)
+  BookingRoutes(route)
+  CartRoutes(route)
+  WaitlistRoutes(route)
 }
 
 
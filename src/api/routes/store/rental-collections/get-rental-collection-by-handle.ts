@@ -0,0 +1,49 @@
+import RentalCollectionService from "../../../../services/rental-collection"
+
+/**
+ * @oas [get] /rental-collections/handle/{handle}
+ * operationId: GetRentalCollectionsHandle
+ * summary: Get a Rental Collection by Handle
+ * description: "Retrieves a Rental Collection by its handle, e.g. to render a collection page."
+ * parameters:
+ *   - (path) handle=* {string} The handle of the Rental Collection.
+ *   - (query) expand {string} (Comma separated) Which fields should be expanded in the collection.
+ *   - (query) fields {string} (Comma separated) Which fields should be included in the collection.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/store/rental-collections/handle/{handle}'
+ * tags:
+ *   - Rental Collection
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_collection:
+ *               $ref: "#/components/schemas/RentalCollection"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { handle } = req.params
+
+  const rentalCollectionService: RentalCollectionService = req.scope.resolve(
+    "rentalCollectionService"
+  )
+
+  const collection = await rentalCollectionService.retrieveByHandle(
+    handle,
+    req.retrieveConfig
+  )
+
+  res.status(200).json({ rental_collection: collection })
+}
@@ -0,0 +1,49 @@
+import RentalCollectionService from "../../../../services/rental-collection"
+
+/**
+ * @oas [get] /rental-collections/{id}
+ * operationId: GetRentalCollectionsCollection
+ * summary: Get a Rental Collection
+ * description: "Retrieves a Rental Collection."
+ * parameters:
+ *   - (path) id=* {string} The id of the Rental Collection.
+ *   - (query) expand {string} (Comma separated) Which fields should be expanded in the collection.
+ *   - (query) fields {string} (Comma separated) Which fields should be included in the collection.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/store/rental-collections/{id}'
+ * tags:
+ *   - Rental Collection
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_collection:
+ *               $ref: "#/components/schemas/RentalCollection"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const rentalCollectionService: RentalCollectionService = req.scope.resolve(
+    "rentalCollectionService"
+  )
+
+  const collection = await rentalCollectionService.retrieve(
+    id,
+    req.retrieveConfig
+  )
+
+  res.status(200).json({ rental_collection: collection })
+}
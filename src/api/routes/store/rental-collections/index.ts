@@ -0,0 +1,83 @@
+import { RequestHandler, Router } from "express"
+import "reflect-metadata"
+
+import { RentalCollection } from "../../../../models"
+import middlewares, { transformQuery } from "@medusajs/medusa/dist/api/middlewares"
+import { FlagRouter } from "@medusajs/medusa/dist/utils/flag-router"
+import { FindParams, PaginatedResponse } from "@medusajs/medusa/dist/types/common"
+import { extendRequestParams } from "@medusajs/medusa/dist/api/middlewares/publishable-api-key/extend-request-params"
+import PublishableAPIKeysFeatureFlag from "@medusajs/medusa/dist/loaders/feature-flags/publishable-api-keys"
+import { validateRentalCollectionSalesChannelAssociation } from "../../../middlewares/publishable-api-key/validate-rental-collection-sales-channel-association"
+import { validateSalesChannelParam } from "@medusajs/medusa/dist/api/middlewares/publishable-api-key/validate-sales-channel-param"
+import { StoreGetRentalCollectionsParams } from "./list-rental-collections"
+
+const route = Router()
+
+export default (app, featureFlagRouter: FlagRouter) => {
+  app.use("/rental-collections", route)
+
+  if (featureFlagRouter.isFeatureEnabled(PublishableAPIKeysFeatureFlag.key)) {
+    route.use(
+      "/",
+      extendRequestParams as unknown as RequestHandler,
+      validateSalesChannelParam as unknown as RequestHandler
+    )
+    route.get(
+      "/handle/:handle",
+      validateRentalCollectionSalesChannelAssociation
+    )
+    route.get("/:id", validateRentalCollectionSalesChannelAssociation)
+  }
+
+  route.get(
+    "/",
+    transformQuery(StoreGetRentalCollectionsParams, {
+      defaultFields: defaultStoreRentalCollectionFields,
+      defaultRelations: defaultStoreRentalCollectionRelations,
+      isList: true,
+    }),
+    middlewares.wrap(require("./list-rental-collections").default)
+  )
+  route.get(
+    "/handle/:handle",
+    transformQuery(FindParams, {
+      defaultFields: defaultStoreRentalCollectionFields,
+      defaultRelations: defaultStoreRentalCollectionRelations,
+      isList: false,
+    }),
+    middlewares.wrap(require("./get-rental-collection-by-handle").default)
+  )
+  route.get(
+    "/:id",
+    transformQuery(FindParams, {
+      defaultFields: defaultStoreRentalCollectionFields,
+      defaultRelations: defaultStoreRentalCollectionRelations,
+      isList: false,
+    }),
+    middlewares.wrap(require("./get-rental-collection").default)
+  )
+
+  return app
+}
+
+export const defaultStoreRentalCollectionFields: (keyof RentalCollection)[] = [
+  "id",
+  "title",
+  "handle",
+  "created_at",
+  "updated_at",
+  "metadata",
+]
+export const defaultStoreRentalCollectionRelations = []
+
+export * from "./get-rental-collection"
+export * from "./get-rental-collection-by-handle"
+export * from "./list-rental-collections"
+
+export type StoreRentalCollectionsRes = {
+  rental_collection: RentalCollection
+}
+
+export type StoreRentalCollectionsListRes = PaginatedResponse & {
+  rental_collections: RentalCollection[]
+}
@@ -0,0 +1,178 @@
+import { IsNumber, IsOptional, IsString, ValidateNested } from "class-validator"
+import RentalCollectionService from "../../../../services/rental-collection"
+import { DateComparisonOperator } from "@medusajs/medusa/dist/types/common"
+import { FlagRouter } from "@medusajs/medusa/dist/utils/flag-router"
+import PublishableAPIKeysFeatureFlag from "@medusajs/medusa/dist/loaders/feature-flags/publishable-api-keys"
+import { IsType } from "@medusajs/medusa/dist/utils/validators/is-type"
+import { Type } from "class-transformer"
+
+/**
+ * @oas [get] /rental-collections
+ * operationId: GetRentalCollections
+ * summary: List Rental Collections
+ * description: "Retrieves a list of Rental Collections. With a Publishable API Key, only the collections with a published rental in its sales channels are listed."
+ * parameters:
+ *   - (query) q {string} Query used for searching the title and handle of the collections.
+ *   - in: query
+ *     name: handle
+ *     style: form
+ *     explode: false
+ *     description: The handles of the collections to search for.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - in: query
+ *     name: created_at
+ *     description: Date comparison for when resulting collections were created.
+ *     schema:
+ *       type: object
+ *       properties:
+ *         lt:
+ *            type: string
+ *            description: filter by dates less than this date
+ *            format: date
+ *         gt:
+ *            type: string
+ *            description: filter by dates greater than this date
+ *            format: date
+ *         lte:
+ *            type: string
+ *            description: filter by dates less than or equal to this date
+ *            format: date
+ *         gte:
+ *            type: string
+ *            description: filter by dates greater than or equal to this date
+ *            format: date
+ *   - in: query
+ *     name: updated_at
+ *     description: Date comparison for when resulting collections were updated.
+ *     schema:
+ *       type: object
+ *       properties:
+ *         lt:
+ *            type: string
+ *            description: filter by dates less than this date
+ *            format: date
+ *         gt:
+ *            type: string
+ *            description: filter by dates greater than this date
+ *            format: date
+ *         lte:
+ *            type: string
+ *            description: filter by dates less than or equal to this date
+ *            format: date
+ *         gte:
+ *            type: string
+ *            description: filter by dates greater than or equal to this date
+ *            format: date
+ *   - (query) offset=0 {integer} How many collections to skip in the result.
+ *   - (query) limit=10 {integer} Limit the number of collections returned.
+ *   - (query) order {string} The field used to order the collections.
+ *   - (query) expand {string} (Comma separated) Which fields should be expanded in each collection of the result.
+ *   - (query) fields {string} (Comma separated) Which fields should be included in each collection of the result.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/store/rental-collections'
+ * tags:
+ *   - Rental Collection
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_collections:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/RentalCollection"
+ *             count:
+ *               type: integer
+ *               description: The total number of items available
+ *             offset:
+ *               type: integer
+ *               description: The number of items skipped before these items
+ *             limit:
+ *               type: integer
+ *               description: The number of items per page
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const rentalCollectionService: RentalCollectionService = req.scope.resolve(
+    "rentalCollectionService"
+  )
+
+  const { filterableFields, listConfig } = req
+  const { skip, take } = listConfig
+
+  const featureFlagRouter: FlagRouter = req.scope.resolve("featureFlagRouter")
+  if (featureFlagRouter.isFeatureEnabled(PublishableAPIKeysFeatureFlag.key)) {
+    if (req.publishableApiKeyScopes?.sales_channel_id.length) {
+      filterableFields.sales_channel_id =
+        req.publishableApiKeyScopes.sales_channel_id
+    }
+  }
+
+  const [collections, count] = await rentalCollectionService.listAndCount(
+    filterableFields,
+    listConfig
+  )
+
+  res.status(200).json({
+    rental_collections: collections,
+    count,
+    offset: skip,
+    limit: take,
+  })
+}
+
+export class StoreGetRentalCollectionsParams {
+  @IsString()
+  @IsOptional()
+  q?: string
+
+  @IsOptional()
+  @IsType([String, [String]])
+  handle?: string | string[]
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  created_at?: DateComparisonOperator
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  updated_at?: DateComparisonOperator
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  offset?: number = 0
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number = 10
+
+  @IsString()
+  @IsOptional()
+  order?: string
+
+  @IsString()
+  @IsOptional()
+  expand?: string
+
+  @IsString()
+  @IsOptional()
+  fields?: string
+}
@@ -0,0 +1,51 @@
+import { RequestHandler, Router } from "express"
+import "reflect-metadata"
+
+import { RentalTag } from "../../../../models"
+import middlewares, { transformQuery } from "@medusajs/medusa/dist/api/middlewares"
+import { FlagRouter } from "@medusajs/medusa/dist/utils/flag-router"
+import { PaginatedResponse } from "@medusajs/medusa/dist/types/common"
+import { extendRequestParams } from "@medusajs/medusa/dist/api/middlewares/publishable-api-key/extend-request-params"
+import PublishableAPIKeysFeatureFlag from "@medusajs/medusa/dist/loaders/feature-flags/publishable-api-keys"
+import { validateSalesChannelParam } from "@medusajs/medusa/dist/api/middlewares/publishable-api-key/validate-sales-channel-param"
+import { StoreGetRentalTagsParams } from "./list-rental-tags"
+
+const route = Router()
+
+export default (app, featureFlagRouter: FlagRouter) => {
+  app.use("/rental-tags", route)
+
+  if (featureFlagRouter.isFeatureEnabled(PublishableAPIKeysFeatureFlag.key)) {
+    route.use(
+      "/",
+      extendRequestParams as unknown as RequestHandler,
+      validateSalesChannelParam as unknown as RequestHandler
+    )
+  }
+
+  route.get(
+    "/",
+    transformQuery(StoreGetRentalTagsParams, {
+      defaultFields: defaultStoreRentalTagFields,
+      defaultRelations: defaultStoreRentalTagRelations,
+      isList: true,
+    }),
+    middlewares.wrap(require("./list-rental-tags").default)
+  )
+
+  return app
+}
+
+export const defaultStoreRentalTagFields: (keyof RentalTag)[] = [
+  "id",
+  "value",
+  "created_at",
+  "updated_at",
+]
+export const defaultStoreRentalTagRelations = []
+
+export * from "./list-rental-tags"
+
+export type StoreRentalTagsListRes = PaginatedResponse & {
+  rental_tags: RentalTag[]
+}
@@ -0,0 +1,170 @@
+import { IsNumber, IsOptional, IsString, ValidateNested } from "class-validator"
+import RentalTagService from "../../../../services/rental-tag"
+import { DateComparisonOperator } from "@medusajs/medusa/dist/types/common"
+import { FlagRouter } from "@medusajs/medusa/dist/utils/flag-router"
+import PublishableAPIKeysFeatureFlag from "@medusajs/medusa/dist/loaders/feature-flags/publishable-api-keys"
+import { IsType } from "@medusajs/medusa/dist/utils/validators/is-type"
+import { Type } from "class-transformer"
+
+/**
+ * @oas [get] /rental-tags
+ * operationId: GetRentalTags
+ * summary: List Rental Tags
+ * description: "Retrieves a list of Rental Tags. With a Publishable API Key, only the tags of a published rental in its sales channels are listed."
+ * parameters:
+ *   - (query) q {string} Query used for searching the values of the tags.
+ *   - in: query
+ *     name: value
+ *     style: form
+ *     explode: false
+ *     description: The tag values to search for.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *   - in: query
+ *     name: created_at
+ *     description: Date comparison for when resulting tags were created.
+ *     schema:
+ *       type: object
+ *       properties:
+ *         lt:
+ *            type: string
+ *            description: filter by dates less than this date
+ *            format: date
+ *         gt:
+ *            type: string
+ *            description: filter by dates greater than this date
+ *            format: date
+ *         lte:
+ *            type: string
+ *            description: filter by dates less than or equal to this date
+ *            format: date
+ *         gte:
+ *            type: string
+ *            description: filter by dates greater than or equal to this date
+ *            format: date
+ *   - in: query
+ *     name: updated_at
+ *     description: Date comparison for when resulting tags were updated.
+ *     schema:
+ *       type: object
+ *       properties:
+ *         lt:
+ *            type: string
+ *            description: filter by dates less than this date
+ *            format: date
+ *         gt:
+ *            type: string
+ *            description: filter by dates greater than this date
+ *            format: date
+ *         lte:
+ *            type: string
+ *            description: filter by dates less than or equal to this date
+ *            format: date
+ *         gte:
+ *            type: string
+ *            description: filter by dates greater than or equal to this date
+ *            format: date
+ *   - (query) offset=0 {integer} How many tags to skip in the result.
+ *   - (query) limit=20 {integer} Limit the number of tags returned.
+ *   - (query) order {string} The field used to order the tags.
+ *   - (query) fields {string} (Comma separated) Which fields should be included in each tag of the result.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/store/rental-tags'
+ * tags:
+ *   - Rental Tag
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             rental_tags:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/RentalTag"
+ *             count:
+ *               type: integer
+ *               description: The total number of items available
+ *             offset:
+ *               type: integer
+ *               description: The number of items skipped before these items
+ *             limit:
+ *               type: integer
+ *               description: The number of items per page
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const rentalTagService: RentalTagService =
+    req.scope.resolve("rentalTagService")
+
+  const { filterableFields, listConfig } = req
+  const { skip, take } = listConfig
+
+  const featureFlagRouter: FlagRouter = req.scope.resolve("featureFlagRouter")
+  if (featureFlagRouter.isFeatureEnabled(PublishableAPIKeysFeatureFlag.key)) {
+    if (req.publishableApiKeyScopes?.sales_channel_id.length) {
+      filterableFields.sales_channel_id =
+        req.publishableApiKeyScopes.sales_channel_id
+    }
+  }
+
+  const [tags, count] = await rentalTagService.listAndCount(
+    filterableFields,
+    listConfig
+  )
+
+  res.status(200).json({
+    rental_tags: tags,
+    count,
+    offset: skip,
+    limit: take,
+  })
+}
+
+export class StoreGetRentalTagsParams {
+  @IsString()
+  @IsOptional()
+  q?: string
+
+  @IsOptional()
+  @IsType([String, [String]])
+  value?: string | string[]
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  created_at?: DateComparisonOperator
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  updated_at?: DateComparisonOperator
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  offset?: number = 0
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number = 20
+
+  @IsString()
+  @IsOptional()
+  order?: string
+
+  @IsString()
+  @IsOptional()
+  fields?: string
+}
@@ -0,0 +1,51 @@
+import { RequestHandler, Router } from "express"
+import "reflect-metadata"
+
+import { RentalType } from "../../../../models"
+import middlewares, { transformQuery } from "@medusajs/medusa/dist/api/middlewares"
+import { FlagRouter } from "@medusajs/medusa/dist/utils/flag-router"
+import { PaginatedResponse } from "@medusajs/medusa/dist/types/common"
+import { extendRequestParams } from "@medusajs/medusa/dist/api/middlewares/publishable-api-key/extend-request-params"
+import PublishableAPIKeysFeatureFlag from "@medusajs/medusa/dist/loaders/feature-flags/publishable-api-keys"
+import { validateSalesChannelParam } from "@medusajs/medusa/dist/api/middlewares/publishable-api-key/validate-sales-channel-param"
+import { StoreGetRentalTypesParams } from "./list-rental-types"
+
+const route = Router()
+
+export default (app, featureFlagRouter: FlagRouter) => {
+  app.use("/rental-types", route)
+
+  if (featureFlagRouter.isFeatureEnabled(PublishableAPIKeysFeatureFlag.key)) {
+    route.use(
+      "/",
+      extendRequestParams as unknown as RequestHandler,
+      validateSalesChannelParam as unknown as RequestHandler
+    )
+  }
+
+  route.get(
+    "/",
+    transformQuery(StoreGetRentalTypesParams, {
+      defaultFields: defaultStoreRentalTypeFields,
+      defaultRelations: defaultStoreRentalTypeRelations,
+      isList: true,
+    }),
+    middlewares.wrap(require("./list-rental-types").default)
+  )
+
+  return app
+}
+
+export const defaultStoreRentalTypeFields: (keyof RentalType)[] = [
+  "id",
+  "value",
+  "created_at",
+  "updated_at",
+]
+export const defaultStoreRentalTypeRelations = []
+
+export * from "./list-rental-types"
+
+export type StoreRentalTypesListRes = PaginatedResponse & {
+  rental_types: RentalType[]
+}
@@ -0,0 +1,195 @@
+import { IsDate, IsInt, IsOptional, IsString, Min } from "class-validator"
+import { MedusaError } from "medusa-core-utils"
+import { Type } from "class-transformer"
+import RentalQuoteService from "../../../../services/rental-quote"
+import RentalVariantService from "../../../../services/rental-variant"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /rentals/{id}/quote
+ * operationId: PostRentalsRentalQuote
+ * summary: Quote a Rental
+ * description: "Computes the price of renting a quantity of a Rental Variant for a period, line by line: the duration prices, the price rules of the period, the discounts that apply to the logged in customer, the taxes of the region and the refundable deposit."
+ * parameters:
+ *   - (path) id=* {string} The id of the Rental.
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/StorePostRentalsRentalQuoteReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/store/rentals/{id}/quote' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "variant_id": "{variant_id}",
+ *           "region_id": "{region_id}",
+ *           "start_at": "2023-01-01T10:00:00Z",
+ *           "end_at": "2023-01-08T10:00:00Z",
+ *           "quantity": 1
+ *       }'
+ * tags:
+ *   - Rental
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             quote:
+ *               type: object
+ *               properties:
+ *                 variant_id:
+ *                   type: string
+ *                 start_at:
+ *                   type: string
+ *                   format: date-time
+ *                 end_at:
+ *                   type: string
+ *                   format: date-time
+ *                 region_id:
+ *                   type: string
+ *                 currency_code:
+ *                   type: string
+ *                 quantity:
+ *                   type: integer
+ *                 lines:
+ *                   type: array
+ *                   description: The lines of the quote. Amounts are for the whole quantity and discounts are negative.
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       type:
+ *                         type: string
+ *                         enum: [base, adjustment, discount, tax, deposit]
+ *                       label:
+ *                         type: string
+ *                         description: The duration unit of base lines, the name of the price rule of adjustment lines, the price type of discount lines and the name of the tax rate of tax lines.
+ *                       duration_unit:
+ *                         type: string
+ *                         enum: [hour, day, week, month]
+ *                       count:
+ *                         type: integer
+ *                         description: The number of duration units charged by a base line.
+ *                       unit_price:
+ *                         type: integer
+ *                       rate:
+ *                         type: number
+ *                         description: The percentage of a discount or tax line.
+ *                       rule_id:
+ *                         type: string
+ *                         description: The id of the price rule of an adjustment line.
+ *                       amount:
+ *                         type: integer
+ *                 subtotal:
+ *                   type: integer
+ *                   description: The total of the base and adjustment lines.
+ *                 discount_total:
+ *                   type: integer
+ *                 tax_total:
+ *                   type: integer
+ *                 deposit_total:
+ *                   type: integer
+ *                   description: The refundable deposit held for the rental. It is not part of the total.
+ *                 total:
+ *                   type: integer
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(StorePostRentalsRentalQuoteReq, req.body)
+
+  const rentalVariantService: RentalVariantService = req.scope.resolve(
+    "rentalVariantService"
+  )
+  const rentalQuoteService: RentalQuoteService = req.scope.resolve(
+    "rentalQuoteService"
+  )
+
+  const variant = await rentalVariantService.retrieve(validated.variant_id, {
+    select: ["id", "rental_id"],
+  })
+
+  if (variant.rental_id !== id) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Variant with id: ${validated.variant_id} was not found for rental ${id}`
+    )
+  }
+
+  const quote = await rentalQuoteService.quote(
+    variant.id,
+    validated.start_at,
+    validated.end_at,
+    {
+      region_id: validated.region_id,
+      customer_id: req.user?.customer_id,
+      quantity: validated.quantity,
+    }
+  )
+
+  res.json({ quote })
+}
+
+/**
+ * @schema StorePostRentalsRentalQuoteReq
+ * type: object
+ * required:
+ *   - variant_id
+ *   - region_id
+ *   - start_at
+ *   - end_at
+ * properties:
+ *   variant_id:
+ *     type: string
+ *     description: The id of the Rental Variant to quote.
+ *   region_id:
+ *     type: string
+ *     description: The id of the Region to quote in.
+ *   start_at:
+ *     type: string
+ *     format: date-time
+ *     description: The start of the rental period.
+ *   end_at:
+ *     type: string
+ *     format: date-time
+ *     description: The end of the rental period.
+ *   quantity:
+ *     type: integer
+ *     description: The quantity to rent.
+ *     default: 1
+ */
+export class StorePostRentalsRentalQuoteReq {
+  @IsString()
+  variant_id: string
+
+  @IsString()
+  region_id: string
+
+  @IsDate()
+  @Type(() => Date)
+  start_at: Date
+
+  @IsDate()
+  @Type(() => Date)
+  end_at: Date
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  quantity?: number
+}
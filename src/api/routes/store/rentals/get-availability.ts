@@ -0,0 +1,160 @@
+import { IsDate, IsEnum, IsOptional, IsString } from "class-validator"
+import { MedusaError } from "medusa-core-utils"
+import { Type } from "class-transformer"
+import RentalVariantService from "../../../../services/rental-variant"
+import { RentalAvailabilityGranularity } from "../../../../types/rental-variant"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [get] /rentals/{id}/availability
+ * operationId: GetRentalsRentalAvailability
+ * summary: Get a Rental Variant's availability
+ * description: "Retrieves the quantity of a Rental Variant that can be booked over a period, per day or per hour, and whether a booking of the whole period would respect the Rental Variant's duration rules."
+ * parameters:
+ *   - (path) id=* {string} The id of the Rental.
+ *   - (query) variant_id=* {string} The id of the Rental Variant.
+ *   - (query) from=* {string} The start of the period, as an ISO 8601 date.
+ *   - (query) to=* {string} The end of the period, as an ISO 8601 date.
+ *   - in: query
+ *     name: granularity
+ *     description: The length of each slot in the result.
+ *     schema:
+ *       type: string
+ *       enum: [day, hour]
+ *       default: day
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/store/rentals/{id}/availability?variant_id={variant_id}&from=2023-01-01&to=2023-01-08'
+ * tags:
+ *   - Rental
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             availability:
+ *               type: object
+ *               properties:
+ *                 variant_id:
+ *                   type: string
+ *                   description: The id of the Rental Variant.
+ *                 from:
+ *                   type: string
+ *                   format: date-time
+ *                 to:
+ *                   type: string
+ *                   format: date-time
+ *                 granularity:
+ *                   type: string
+ *                   enum: [day, hour]
+ *                 inventory_quantity:
+ *                   type: integer
+ *                   description: The stock of the Rental Variant.
+ *                 buffer:
+ *                   type: object
+ *                   description: The minutes held before and after each booking. Slots are only available if the buffers around a booking of the slot are free as well.
+ *                   properties:
+ *                     before:
+ *                       type: integer
+ *                     after:
+ *                       type: integer
+ *                 duration_rules:
+ *                   type: object
+ *                   description: The durations the Rental Variant can be booked for.
+ *                   properties:
+ *                     duration_unit:
+ *                       type: string
+ *                       enum: [hour, day, week]
+ *                     min_duration:
+ *                       type: integer
+ *                     max_duration:
+ *                       type: integer
+ *                 duration_error:
+ *                   type: string
+ *                   description: Why a booking from `from` to `to` would break the duration rules. Null if it would not.
+ *                 slots:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       from:
+ *                         type: string
+ *                         format: date-time
+ *                       to:
+ *                         type: string
+ *                         format: date-time
+ *                       available_quantity:
+ *                         type: integer
+ *                         description: The quantity that can be booked for the whole slot.
+ *                       blacked_out:
+ *                         type: boolean
+ *                         description: Whether the slot overlaps with a blackout, during which nothing can be booked.
+ *                       blackout_reason:
+ *                         type: string
+ *                         description: The reason of the blackout, if any.
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "409":
+ *     $ref: "#/components/responses/invalid_state_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const validated = await validator(
+    StoreGetRentalsRentalAvailabilityParams,
+    req.query
+  )
+
+  const rentalVariantService: RentalVariantService = req.scope.resolve(
+    "rentalVariantService"
+  )
+
+  const variant = await rentalVariantService.retrieve(validated.variant_id, {
+    select: ["id", "rental_id"],
+  })
+
+  if (variant.rental_id !== id) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Variant with id: ${validated.variant_id} was not found for rental ${id}`
+    )
+  }
+
+  const availability = await rentalVariantService.getAvailability(
+    variant.id,
+    validated.from,
+    validated.to,
+    validated.granularity
+  )
+
+  res.json({ availability })
+}
+
+export class StoreGetRentalsRentalAvailabilityParams {
+  @IsString()
+  variant_id: string
+
+  @IsDate()
+  @Type(() => Date)
+  from: Date
+
+  @IsDate()
+  @Type(() => Date)
+  to: Date
+
+  @IsOptional()
+  @IsEnum(RentalAvailabilityGranularity)
+  granularity?: RentalAvailabilityGranularity =
+    RentalAvailabilityGranularity.DAY
+}
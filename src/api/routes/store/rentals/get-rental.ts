@@ -1,10 +1,8 @@
 import { defaultStoreRentalsRelations } from "."
-import {
-  CartService,
-  PricingService,
-  RegionService,
-} from "@medusajs/medusa/dist/services"
+import { CartService, RegionService } from "@medusajs/medusa/dist/services"
+import RentalCancellationPolicyService from "../../../../services/rental-cancellation-policy"
 import RentalService from "../../../../services/rental"
+import RentalVariantService from "../../../../services/rental-variant"
 import { PriceSelectionParams } from "@medusajs/medusa/dist/types/price-selection"
 import { validator } from "@medusajs/medusa/dist/utils/validator"
 
@@ -12,7 +10,7 @@ import { validator } from "@medusajs/medusa/dist/utils/validator"
  * @oas [get] /rentals/{id}
  * operationId: GetRentalsRental
  * summary: Get a Rental
- * description: "Retrieves a Rental."
+ * description: "Retrieves a Rental, with the cancellation policy that applies to its bookings."
  * parameters:
  *   - (path) id=* {string} The id of the Rental.
  *   - (query) cart_id {string} The ID of the customer's cart.
@@ -56,6 +54,9 @@ import { validator } from "@medusajs/medusa/dist/utils/validator"
  *                 - $ref: "#/components/schemas/Rental"
  *                 - type: object
  *                   properties:
+ *                     cancellation_policy:
+ *                       description: The cancellation policy of the Rental, or else of its Rental Type or Rental Collection.
+ *                       $ref: "#/components/schemas/RentalCancellationPolicy"
  *                     variants:
  *                       type: array
  *                       items:
@@ -81,10 +82,14 @@ export default async (req, res) => {
   const customer_id = req.user?.customer_id
 
   const rentalService: RentalService = req.scope.resolve("rentalService")
-  const pricingService: PricingService = req.scope.resolve("pricingService")
+  const rentalVariantService: RentalVariantService = req.scope.resolve(
+    "rentalVariantService"
+  )
   const cartService: CartService = req.scope.resolve("cartService")
   const regionService: RegionService = req.scope.resolve("regionService")
-  const rawRental = await rentalService.retrieve(id, {
+  const rentalCancellationPolicyService: RentalCancellationPolicyService =
+    req.scope.resolve("rentalCancellationPolicyService")
+  const rental = await rentalService.retrieve(id, {
     relations: defaultStoreRentalsRelations,
   })
 
@@ -101,13 +106,15 @@ export default async (req, res) => {
     currencyCode = region.currency_code
   }
 
-  const [rental] = await pricingService.setProductPrices([rawRental], {
-    cart_id: validated.cart_id,
+  await rentalVariantService.setPrices(rental.variants, {
     customer_id: customer_id,
     region_id: regionId,
     currency_code: currencyCode,
     include_discount_prices: true,
   })
 
-  res.json({ rental })
+  const cancellation_policy =
+    await rentalCancellationPolicyService.retrieveForRental(rental.id)
+
+  res.json({ rental: { ...rental, cancellation_policy } })
 }
@@ -10,6 +10,8 @@ import PublishableAPIKeysFeatureFlag from "@medusajs/medusa/dist/loaders/feature
 import { validateRentalSalesChannelAssociation } from "../../../middlewares/publishable-api-key/validate-rental-sales-channel-association"
 import { validateSalesChannelParam } from "@medusajs/medusa/dist/api/middlewares/publishable-api-key/validate-sales-channel-param"
 import { StoreGetRentalsParams } from "./list-rentals"
+import { RentalVariantAvailability } from "../../../../types/rental-variant"
+import { RentalQuote } from "../../../../types/rental-quote"
 
 const route = Router()
 
@@ -34,6 +36,14 @@ export default (app, featureFlagRouter: FlagRouter) => {
     middlewares.wrap(require("./list-rentals").default)
   )
   route.get("/:id", middlewares.wrap(require("./get-rental").default))
+  route.get(
+    "/:id/availability",
+    middlewares.wrap(require("./get-availability").default)
+  )
+  route.post(
+    "/:id/quote",
+    middlewares.wrap(require("./create-quote").default)
+  )
   route.post("/search", middlewares.wrap(require("./search").default))
 
   return app
@@ -51,6 +61,8 @@ export const defaultStoreRentalsRelations = [
   "type",
 ]
 
+export * from "./create-quote"
+export * from "./get-availability"
 export * from "./list-rentals"
 export * from "./search"
 
@@ -58,6 +70,14 @@ export type StoreRentalsRes = {
   rental: Rental
 }
 
+export type StoreRentalsAvailabilityRes = {
+  availability: RentalVariantAvailability
+}
+
+export type StoreRentalsQuoteRes = {
+  quote: RentalQuote
+}
+
 export type StorePostSearchRes = {
   hits: unknown[]
   [k: string]: unknown
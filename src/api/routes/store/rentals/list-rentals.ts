@@ -8,12 +8,12 @@ import {
   ValidateNested,
 } from "class-validator"
 import RentalService from "../../../../services/rental"
+import RentalVariantService from "../../../../services/rental-variant"
 import {
   CartService,
   RegionService,
 } from "@medusajs/medusa"
 import SalesChannelFeatureFlag from "@medusajs/medusa/dist/loaders/feature-flags/sales-channels"
-import { PricingService } from "@medusajs/medusa/dist/services"
 import { DateComparisonOperator } from "@medusajs/medusa/dist/types/common"
 import { PriceSelectionParams } from "@medusajs/medusa/dist/types/price-selection"
 import { FeatureFlagDecorators } from "@medusajs/medusa/dist/utils/feature-flag-decorators"
@@ -188,7 +188,9 @@ import PublishableAPIKeysFeatureFlag from "@medusajs/medusa/dist/loaders/feature
  */
 export default async (req, res) => {
   const rentalService: RentalService = req.scope.resolve("rentalService")
-  const pricingService: PricingService = req.scope.resolve("pricingService")
+  const rentalVariantService: RentalVariantService = req.scope.resolve(
+    "rentalVariantService"
+  )
   const cartService: CartService = req.scope.resolve("cartService")
   const regionService: RegionService = req.scope.resolve("regionService")
 
@@ -215,7 +217,7 @@ export default async (req, res) => {
     }
   }
 
-  const [rawRentals, count] = await rentalService.listAndCount(
+  const [rentals, count] = await rentalService.listAndCount(
     filterableFields,
     listConfig
   )
@@ -231,13 +233,14 @@ export default async (req, res) => {
     currencyCode = region.currency_code
   }
 
-  const rentals = await pricingService.setProductPrices(rawRentals, {
-    cart_id: cart_id,
-    region_id: regionId,
-    currency_code: currencyCode,
-    customer_id: req.user?.customer_id,
-    include_discount_prices: true,
-  })
+  for (const rental of rentals) {
+    await rentalVariantService.setPrices(rental.variants ?? [], {
+      region_id: regionId,
+      currency_code: currencyCode,
+      customer_id: req.user?.customer_id,
+      include_discount_prices: true,
+    })
+  }
 
   res.json({
     rentals,
@@ -0,0 +1,44 @@
+import { Router } from "express"
+import "reflect-metadata"
+
+import { RentalWaitlistEntry } from "../../../../models"
+import middlewares from "@medusajs/medusa/dist/api/middlewares"
+import { PaginatedResponse } from "@medusajs/medusa/dist/types/common"
+
+const route = Router()
+
+export default (app) => {
+  app.use("/waitlist", route)
+
+  route.get("/", middlewares.wrap(require("./list-waitlist").default))
+  route.post("/", middlewares.wrap(require("./join-waitlist").default))
+  route.delete("/:id", middlewares.wrap(require("./leave-waitlist").default))
+
+  return app
+}
+
+export const defaultStoreWaitlistEntryFields: (keyof RentalWaitlistEntry)[] = [
+  "id",
+  "variant_id",
+  "start_at",
+  "end_at",
+  "quantity",
+  "status",
+  "hold_id",
+  "notified_at",
+  "left_at",
+  "created_at",
+  "updated_at",
+]
+
+export * from "./join-waitlist"
+export * from "./leave-waitlist"
+export * from "./list-waitlist"
+
+export type StoreWaitlistRes = {
+  waitlist_entry: RentalWaitlistEntry
+}
+
+export type StoreWaitlistListRes = PaginatedResponse & {
+  waitlist_entries: RentalWaitlistEntry[]
+}
@@ -0,0 +1,140 @@
+import {
+  IsDate,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Min,
+} from "class-validator"
+import { MedusaError } from "medusa-core-utils"
+import { defaultStoreWaitlistEntryFields } from "."
+import RentalWaitlistService from "../../../../services/rental-waitlist"
+import { EntityManager } from "typeorm"
+import { Type } from "class-transformer"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [post] /waitlist
+ * operationId: PostWaitlist
+ * summary: Join a Waitlist
+ * description: "Puts the logged in customer in line for a period a Rental Variant does not have enough items available for. When items free up, waiting customers are given a time-limited Rental Hold on them in the order they joined."
+ * requestBody:
+ *   content:
+ *     application/json:
+ *       schema:
+ *         $ref: "#/components/schemas/StorePostWaitlistReq"
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request POST 'https://medusa-url.com/store/waitlist' \
+ *       --header 'Cookie: connect.sid={sid}' \
+ *       --header 'Content-Type: application/json' \
+ *       --data-raw '{
+ *           "variant_id": "{variant_id}",
+ *           "start_at": "2023-01-01T10:00:00Z",
+ *           "end_at": "2023-01-03T10:00:00Z"
+ *       }'
+ * security:
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Waitlist
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             waitlist_entry:
+ *               $ref: "#/components/schemas/RentalWaitlistEntry"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "422":
+ *     $ref: "#/components/responses/invalid_request_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const validated = await validator(StorePostWaitlistReq, req.body)
+
+  const customerId = req.user?.customer_id
+
+  if (!customerId) {
+    throw new MedusaError(
+      MedusaError.Types.UNAUTHORIZED,
+      `A customer must be logged in to join a waitlist`
+    )
+  }
+
+  const rentalWaitlistService: RentalWaitlistService = req.scope.resolve(
+    "rentalWaitlistService"
+  )
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  const entry = await manager.transaction(async (transactionManager) => {
+    return await rentalWaitlistService
+      .withTransaction(transactionManager)
+      .join({ ...validated, customer_id: customerId })
+  })
+
+  const waitlist_entry = await rentalWaitlistService.retrieve(entry.id, {
+    select: defaultStoreWaitlistEntryFields,
+  })
+
+  res.json({ waitlist_entry })
+}
+
+/**
+ * @schema StorePostWaitlistReq
+ * type: object
+ * required:
+ *   - variant_id
+ *   - start_at
+ *   - end_at
+ * properties:
+ *   variant_id:
+ *     type: string
+ *     description: The id of the Rental Variant to wait for.
+ *   start_at:
+ *     type: string
+ *     format: date-time
+ *     description: The start of the period to wait for.
+ *   end_at:
+ *     type: string
+ *     format: date-time
+ *     description: The end of the period to wait for.
+ *   quantity:
+ *     type: integer
+ *     description: The number of items to wait for.
+ *     default: 1
+ *   metadata:
+ *     type: object
+ *     description: An optional set of key-value pairs with additional information.
+ */
+export class StorePostWaitlistReq {
+  @IsString()
+  variant_id: string
+
+  @IsDate()
+  @Type(() => Date)
+  start_at: Date
+
+  @IsDate()
+  @Type(() => Date)
+  end_at: Date
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  quantity?: number
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
@@ -0,0 +1,72 @@
+import { MedusaError } from "medusa-core-utils"
+import { defaultStoreWaitlistEntryFields } from "."
+import RentalWaitlistService from "../../../../services/rental-waitlist"
+import { EntityManager } from "typeorm"
+
+/**
+ * @oas [delete] /waitlist/{id}
+ * operationId: DeleteWaitlistEntry
+ * summary: Leave a Waitlist
+ * description: "Takes the logged in customer out of a waitlist. The Rental Hold they were given, if any, is released."
+ * parameters:
+ *   - (path) id=* {string} The id of the Rental Waitlist Entry.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request DELETE 'https://medusa-url.com/store/waitlist/{id}' \
+ *       --header 'Cookie: connect.sid={sid}'
+ * security:
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Waitlist
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             waitlist_entry:
+ *               $ref: "#/components/schemas/RentalWaitlistEntry"
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "404":
+ *     $ref: "#/components/responses/not_found_error"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { id } = req.params
+
+  const rentalWaitlistService: RentalWaitlistService = req.scope.resolve(
+    "rentalWaitlistService"
+  )
+
+  const customerId = req.user?.customer_id
+
+  const { customer_id } = await rentalWaitlistService.retrieve(id, {
+    select: ["id", "customer_id"],
+  })
+
+  if (!customerId || customer_id !== customerId) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Rental waitlist entry with id: ${id} was not found`
+    )
+  }
+
+  const manager: EntityManager = req.scope.resolve("manager")
+  await manager.transaction(async (transactionManager) => {
+    return await rentalWaitlistService
+      .withTransaction(transactionManager)
+      .leave(id)
+  })
+
+  const waitlist_entry = await rentalWaitlistService.retrieve(id, {
+    select: defaultStoreWaitlistEntryFields,
+  })
+
+  res.json({ waitlist_entry })
+}
@@ -0,0 +1,113 @@
+import { IsNumber, IsOptional } from "class-validator"
+import { MedusaError } from "medusa-core-utils"
+import { defaultStoreWaitlistEntryFields } from "."
+import RentalWaitlistService from "../../../../services/rental-waitlist"
+import { FilterableRentalWaitlistEntryProps } from "../../../../types/rental-waitlist-entry"
+import { Type } from "class-transformer"
+import { validator } from "@medusajs/medusa/dist/utils/validator"
+
+/**
+ * @oas [get] /waitlist
+ * operationId: GetWaitlist
+ * summary: List Waitlist Entries
+ * description: "Retrieves the Rental Waitlist Entries of the logged in customer, the most recent first."
+ * parameters:
+ *   - (query) variant_id {string} Filter by the Rental Variant waited for.
+ *   - in: query
+ *     name: status
+ *     style: form
+ *     explode: false
+ *     description: Filter by the status of the entries.
+ *     schema:
+ *       type: array
+ *       items:
+ *         type: string
+ *         enum: [waiting, notified, expired, left]
+ *   - (query) offset=0 {integer} How many entries to skip before the results.
+ *   - (query) limit=20 {integer} Limit the number of entries returned.
+ * x-codeSamples:
+ *   - lang: Shell
+ *     label: cURL
+ *     source: |
+ *       curl --location --request GET 'https://medusa-url.com/store/waitlist' \
+ *       --header 'Cookie: connect.sid={sid}'
+ * security:
+ *   - cookie_auth: []
+ * tags:
+ *   - Rental Waitlist
+ * responses:
+ *   200:
+ *     description: OK
+ *     content:
+ *       application/json:
+ *         schema:
+ *           type: object
+ *           properties:
+ *             waitlist_entries:
+ *               type: array
+ *               items:
+ *                 $ref: "#/components/schemas/RentalWaitlistEntry"
+ *             count:
+ *               type: integer
+ *               description: The total number of items available
+ *             offset:
+ *               type: integer
+ *               description: The number of items skipped before these items
+ *             limit:
+ *               type: integer
+ *               description: The number of items per page
+ *   "400":
+ *     $ref: "#/components/responses/400_error"
+ *   "401":
+ *     $ref: "#/components/responses/unauthorized"
+ *   "500":
+ *     $ref: "#/components/responses/500_error"
+ */
+export default async (req, res) => {
+  const { offset, limit, ...filterableFields } = await validator(
+    StoreGetWaitlistParams,
+    req.query
+  )
+
+  const customerId = req.user?.customer_id
+
+  if (!customerId) {
+    throw new MedusaError(
+      MedusaError.Types.UNAUTHORIZED,
+      `A customer must be logged in to list their waitlist entries`
+    )
+  }
+
+  const rentalWaitlistService: RentalWaitlistService = req.scope.resolve(
+    "rentalWaitlistService"
+  )
+
+  const [waitlist_entries, count] = await rentalWaitlistService.listAndCount(
+    { ...filterableFields, customer_id: customerId },
+    {
+      select: defaultStoreWaitlistEntryFields,
+      skip: offset,
+      take: limit,
+      order: { created_at: "DESC" },
+    }
+  )
+
+  res.json({
+    waitlist_entries,
+    count,
+    offset,
+    limit,
+  })
+}
+
+export class StoreGetWaitlistParams extends FilterableRentalWaitlistEntryProps {
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  offset?: number = 0
+
+  @IsNumber()
+  @IsOptional()
+  @Type(() => Number)
+  limit?: number = 20
+}
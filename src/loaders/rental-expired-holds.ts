@@ -0,0 +1,32 @@
+import { MedusaContainer } from "@medusajs/medusa/dist/types/global"
+import JobSchedulerService from "@medusajs/medusa/dist/services/job-scheduler"
+import RentalHoldService from "../services/rental-hold"
+
+/**
+ * How often expired holds are released, as a cron expression.
+ */
+const EXPIRED_HOLDS_SCHEDULE = "* * * * *"
+
+/**
+ * Schedules the job that releases expired holds, making their items
+ * available again.
+ */
+export default async (container: MedusaContainer): Promise<void> => {
+  const jobSchedulerService: JobSchedulerService = container.resolve(
+    "jobSchedulerService"
+  )
+
+  await jobSchedulerService.create(
+    "rental-expired-holds",
+    {},
+    EXPIRED_HOLDS_SCHEDULE,
+    async () => {
+      const rentalHoldService: RentalHoldService = container.resolve(
+        "rentalHoldService"
+      )
+
+      await rentalHoldService.releaseExpired()
+    },
+    { keepExisting: false }
+  )
+}
@@ -0,0 +1,32 @@
+import { MedusaContainer } from "@medusajs/medusa/dist/types/global"
+import JobSchedulerService from "@medusajs/medusa/dist/services/job-scheduler"
+import RentalBookingService from "../services/rental-booking"
+
+/**
+ * How often bookings are checked for late returns, as a cron expression.
+ */
+const OVERDUE_BOOKINGS_SCHEDULE = "*/15 * * * *"
+
+/**
+ * Schedules the job that marks bookings past their end as overdue and
+ * accrues their late fees.
+ */
+export default async (container: MedusaContainer): Promise<void> => {
+  const jobSchedulerService: JobSchedulerService = container.resolve(
+    "jobSchedulerService"
+  )
+
+  await jobSchedulerService.create(
+    "rental-overdue-bookings",
+    {},
+    OVERDUE_BOOKINGS_SCHEDULE,
+    async () => {
+      const rentalBookingService: RentalBookingService = container.resolve(
+        "rentalBookingService"
+      )
+
+      await rentalBookingService.processOverdue()
+    },
+    { keepExisting: false }
+  )
+}
@@ -0,0 +1,793 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumnOptions,
+  TableForeignKeyOptions,
+  TableIndexOptions,
+} from "typeorm"
+
+type ColumnOptions = Omit<Partial<TableColumnOptions>, "name" | "type">
+
+/**
+ * The relations of a join table, as pairs of a column and the table it
+ * references.
+ */
+type JoinTableRelations = [string, string][]
+
+/**
+ * Builds the columns of the rental tables, resolving the Postgres types used
+ * by the models to the ones sqlite supports, like `resolveDbType` does for the
+ * models themselves.
+ */
+function columnBuilder(sqlite: boolean) {
+  const timestamptz = sqlite ? "datetime" : "timestamp with time zone"
+
+  const column = (
+    name: string,
+    type: string,
+    options: ColumnOptions = {}
+  ): TableColumnOptions => ({ isNullable: false, ...options, name, type })
+
+  return {
+    id: (): TableColumnOptions => column("id", "varchar", { isPrimary: true }),
+    varchar: (name: string, options?: ColumnOptions): TableColumnOptions =>
+      column(name, "varchar", options),
+    text: (name: string, options?: ColumnOptions): TableColumnOptions =>
+      column(name, "text", { isNullable: true, ...options }),
+    int: (name: string, options?: ColumnOptions): TableColumnOptions =>
+      column(name, "integer", options),
+    boolean: (name: string, defaultValue: boolean): TableColumnOptions =>
+      column(name, "boolean", { default: defaultValue }),
+    timestamptz: (name: string, options?: ColumnOptions): TableColumnOptions =>
+      column(name, timestamptz, options),
+    jsonb: (name: string, options?: ColumnOptions): TableColumnOptions =>
+      column(name, sqlite ? "text" : "jsonb", { isNullable: true, ...options }),
+    enum: (
+      name: string,
+      values: string[],
+      options?: ColumnOptions
+    ): TableColumnOptions =>
+      sqlite
+        ? column(name, "text", options)
+        : column(name, "enum", { ...options, enum: values }),
+    timestamps: (softDeletable = true): TableColumnOptions[] => [
+      column("created_at", timestamptz, { default: "CURRENT_TIMESTAMP" }),
+      column("updated_at", timestamptz, { default: "CURRENT_TIMESTAMP" }),
+      ...(softDeletable
+        ? [column("deleted_at", timestamptz, { isNullable: true })]
+        : []),
+    ],
+  }
+}
+
+const index = (columnName: string): TableIndexOptions => ({
+  columnNames: [columnName],
+})
+
+/**
+ * Unique among the rows that are not soft deleted, so that a deleted row does
+ * not hold on to its handle, sku or serial number.
+ */
+const uniqueIndex = (columnName: string): TableIndexOptions => ({
+  columnNames: [columnName],
+  isUnique: true,
+  where: "deleted_at IS NULL",
+})
+
+const foreignKey = (
+  columnName: string,
+  referencedTableName: string,
+  onDelete?: string
+): TableForeignKeyOptions => ({
+  columnNames: [columnName],
+  referencedTableName,
+  referencedColumnNames: ["id"],
+  onDelete,
+})
+
+/**
+ * Builds a table that joins two tables, keyed by both of its columns, like
+ * TypeORM does for a `@JoinTable`.
+ */
+function joinTable(
+  name: string,
+  sqlite: boolean,
+  relations: JoinTableRelations,
+  columns: TableColumnOptions[] = []
+): Table {
+  const { varchar } = columnBuilder(sqlite)
+
+  return new Table({
+    name,
+    columns: [
+      ...relations.map(([column]) => varchar(column, { isPrimary: true })),
+      ...columns,
+    ],
+    indices: relations.map(([column]) => index(column)),
+    foreignKeys: relations.map(([column, table]) =>
+      foreignKey(column, table, "CASCADE")
+    ),
+  })
+}
+
+/**
+ * The tables of the rental entities, in the order they can be created in.
+ */
+function rentalTables(sqlite: boolean): Table[] {
+  const {
+    id,
+    varchar,
+    text,
+    int,
+    boolean,
+    timestamptz,
+    jsonb,
+    enum: enumColumn,
+    timestamps,
+  } = columnBuilder(sqlite)
+
+  const durationUnits = ["hour", "day", "week"]
+  const lateFeeUnits = ["hour", "day"]
+  const unitConditions = ["new", "good", "fair", "poor", "damaged"]
+
+  /**
+   * The columns of the tables that link a discount condition or a tax rate to
+   * a rental entity, like the core `discount_condition_*` and `*_tax_rate`
+   * tables.
+   */
+  const linkColumns = (): TableColumnOptions[] => [
+    ...timestamps(false),
+    jsonb("metadata"),
+  ]
+
+  return [
+    new Table({
+      name: "rental_cancellation_policy",
+      columns: [
+        id(),
+        varchar("name"),
+        text("description"),
+        jsonb("rules", { isNullable: false, default: "'[]'" }),
+        jsonb("metadata"),
+        ...timestamps(),
+      ],
+    }),
+    new Table({
+      name: "rental_collection",
+      columns: [
+        id(),
+        varchar("title"),
+        varchar("handle", { isNullable: true }),
+        text("cancellation_policy_id"),
+        jsonb("metadata"),
+        ...timestamps(),
+      ],
+      indices: [uniqueIndex("handle"), index("cancellation_policy_id")],
+      foreignKeys: [
+        foreignKey("cancellation_policy_id", "rental_cancellation_policy"),
+      ],
+    }),
+    new Table({
+      name: "rental_type",
+      columns: [
+        id(),
+        varchar("value"),
+        int("buffer_before", { isNullable: true }),
+        int("buffer_after", { isNullable: true }),
+        enumColumn("late_fee_unit", lateFeeUnits, { isNullable: true }),
+        int("late_fee_amount", { isNullable: true }),
+        int("late_fee_grace_period", { isNullable: true }),
+        text("cancellation_policy_id"),
+        jsonb("metadata"),
+        ...timestamps(),
+      ],
+      indices: [index("cancellation_policy_id")],
+      foreignKeys: [
+        foreignKey("cancellation_policy_id", "rental_cancellation_policy"),
+      ],
+    }),
+    new Table({
+      name: "rental_tag",
+      columns: [id(), varchar("value"), jsonb("metadata"), ...timestamps()],
+    }),
+    new Table({
+      name: "rental",
+      columns: [
+        id(),
+        varchar("title"),
+        text("subtitle"),
+        text("description"),
+        text("handle"),
+        boolean("is_giftcard", false),
+        enumColumn(
+          "status",
+          ["draft", "proposed", "published", "rejected"],
+          { default: "'draft'" }
+        ),
+        text("thumbnail"),
+        varchar("profile_id"),
+        int("weight", { isNullable: true }),
+        int("length", { isNullable: true }),
+        int("height", { isNullable: true }),
+        int("width", { isNullable: true }),
+        text("hs_code"),
+        text("origin_country"),
+        text("mid_code"),
+        text("material"),
+        text("collection_id"),
+        text("type_id"),
+        int("buffer_before", { isNullable: true }),
+        int("buffer_after", { isNullable: true }),
+        enumColumn("duration_unit", durationUnits, { isNullable: true }),
+        int("min_duration", { isNullable: true }),
+        int("max_duration", { isNullable: true }),
+        enumColumn("late_fee_unit", lateFeeUnits, { isNullable: true }),
+        int("late_fee_amount", { isNullable: true }),
+        int("late_fee_grace_period", { isNullable: true }),
+        boolean("prorate_early_returns", false),
+        text("cancellation_policy_id"),
+        int("deposit_amount", { isNullable: true }),
+        boolean("discountable", true),
+        text("external_id"),
+        jsonb("metadata"),
+        ...timestamps(),
+      ],
+      indices: [
+        uniqueIndex("handle"),
+        index("profile_id"),
+        index("cancellation_policy_id"),
+      ],
+      foreignKeys: [
+        foreignKey("collection_id", "rental_collection"),
+        foreignKey("type_id", "rental_type"),
+        foreignKey("cancellation_policy_id", "rental_cancellation_policy"),
+      ],
+    }),
+    joinTable("rental_images", sqlite, [
+      ["rental_id", "rental"],
+      ["image_id", "image"],
+    ]),
+    joinTable("rental_tags", sqlite, [
+      ["rental_id", "rental"],
+      ["rental_tag_id", "rental_tag"],
+    ]),
+    joinTable("rental_sales_channel", sqlite, [
+      ["rental_id", "rental"],
+      ["sales_channel_id", "sales_channel"],
+    ]),
+    joinTable(
+      "rental_tax_rate",
+      sqlite,
+      [
+        ["rental_id", "rental"],
+        ["rate_id", "tax_rate"],
+      ],
+      linkColumns()
+    ),
+    joinTable(
+      "rental_type_tax_rate",
+      sqlite,
+      [
+        ["rental_type_id", "rental_type"],
+        ["rate_id", "tax_rate"],
+      ],
+      linkColumns()
+    ),
+    new Table({
+      name: "rental_variant",
+      columns: [
+        id(),
+        varchar("title"),
+        varchar("rental_id"),
+        varchar("sku", { isNullable: true }),
+        varchar("barcode", { isNullable: true }),
+        varchar("ean", { isNullable: true }),
+        varchar("upc", { isNullable: true }),
+        int("variant_rank", { isNullable: true, default: 0 }),
+        int("inventory_quantity"),
+        boolean("allow_backorder", false),
+        boolean("manage_inventory", true),
+        enumColumn("duration_unit", durationUnits, { isNullable: true }),
+        int("min_duration", { isNullable: true }),
+        int("max_duration", { isNullable: true }),
+        int("deposit_amount", { isNullable: true }),
+        varchar("hs_code", { isNullable: true }),
+        varchar("origin_country", { isNullable: true }),
+        varchar("mid_code", { isNullable: true }),
+        varchar("material", { isNullable: true }),
+        int("weight", { isNullable: true }),
+        int("length", { isNullable: true }),
+        int("height", { isNullable: true }),
+        int("width", { isNullable: true }),
+        jsonb("metadata"),
+        ...timestamps(),
+      ],
+      indices: [
+        index("rental_id"),
+        uniqueIndex("sku"),
+        uniqueIndex("barcode"),
+        uniqueIndex("ean"),
+        uniqueIndex("upc"),
+      ],
+      foreignKeys: [foreignKey("rental_id", "rental")],
+    }),
+    new Table({
+      name: "rental_option",
+      columns: [
+        id(),
+        varchar("title"),
+        varchar("rental_id"),
+        jsonb("metadata"),
+        ...timestamps(),
+      ],
+      foreignKeys: [foreignKey("rental_id", "rental")],
+    }),
+    new Table({
+      name: "rental_option_value",
+      columns: [
+        id(),
+        varchar("value"),
+        varchar("option_id"),
+        varchar("variant_id"),
+        jsonb("metadata"),
+        ...timestamps(),
+      ],
+      indices: [index("option_id"), index("variant_id")],
+      foreignKeys: [
+        foreignKey("option_id", "rental_option"),
+        foreignKey("variant_id", "rental_variant", "CASCADE"),
+      ],
+    }),
+    new Table({
+      name: "rental_deposit_amount",
+      columns: [
+        id(),
+        varchar("region_id"),
+        int("amount"),
+        text("rental_id"),
+        text("variant_id"),
+        ...timestamps(false),
+      ],
+      indices: [index("region_id"), index("rental_id"), index("variant_id")],
+      foreignKeys: [
+        foreignKey("region_id", "region"),
+        foreignKey("rental_id", "rental", "CASCADE"),
+        foreignKey("variant_id", "rental_variant", "CASCADE"),
+      ],
+    }),
+    new Table({
+      name: "rental_money_amount",
+      columns: [
+        id(),
+        varchar("currency_code"),
+        int("amount"),
+        int("min_quantity", { isNullable: true }),
+        int("max_quantity", { isNullable: true }),
+        text("price_list_id"),
+        varchar("variant_id"),
+        text("region_id"),
+        enumColumn("duration_unit", ["hour", "day", "week", "month"], {
+          isNullable: true,
+        }),
+        ...timestamps(),
+      ],
+      indices: [
+        index("currency_code"),
+        index("price_list_id"),
+        index("variant_id"),
+        index("region_id"),
+      ],
+      foreignKeys: [
+        {
+          ...foreignKey("currency_code", "currency"),
+          referencedColumnNames: ["code"],
+        },
+        foreignKey("price_list_id", "price_list", "CASCADE"),
+        foreignKey("variant_id", "rental_variant", "CASCADE"),
+        foreignKey("region_id", "region"),
+      ],
+    }),
+    new Table({
+      name: "rental_blackout",
+      columns: [
+        id(),
+        timestamptz("starts_at"),
+        timestamptz("ends_at"),
+        text("reason"),
+        text("rental_collection_id"),
+        text("rental_id"),
+        text("variant_id"),
+        jsonb("metadata"),
+        ...timestamps(),
+      ],
+      indices: [
+        index("starts_at"),
+        index("ends_at"),
+        index("rental_collection_id"),
+        index("rental_id"),
+        index("variant_id"),
+      ],
+      foreignKeys: [
+        foreignKey("rental_collection_id", "rental_collection"),
+        foreignKey("rental_id", "rental"),
+        foreignKey("variant_id", "rental_variant"),
+      ],
+    }),
+    new Table({
+      name: "rental_price_rule",
+      columns: [
+        id(),
+        varchar("name"),
+        enumColumn("adjustment_type", ["percentage", "fixed", "override"]),
+        int("value"),
+        text("currency_code"),
+        timestamptz("starts_at", { isNullable: true }),
+        timestamptz("ends_at", { isNullable: true }),
+        jsonb("weekdays"),
+        int("priority", { default: 0 }),
+        text("rental_collection_id"),
+        text("rental_type_id"),
+        text("rental_id"),
+        text("variant_id"),
+        jsonb("metadata"),
+        ...timestamps(),
+      ],
+      indices: [
+        index("rental_collection_id"),
+        index("rental_type_id"),
+        index("rental_id"),
+        index("variant_id"),
+      ],
+      foreignKeys: [
+        foreignKey("rental_collection_id", "rental_collection"),
+        foreignKey("rental_type_id", "rental_type"),
+        foreignKey("rental_id", "rental"),
+        foreignKey("variant_id", "rental_variant"),
+      ],
+    }),
+    new Table({
+      name: "rental_unit",
+      columns: [
+        id(),
+        varchar("serial_number"),
+        varchar("variant_id"),
+        enumColumn("condition", unitConditions, { default: "'good'" }),
+        enumColumn(
+          "status",
+          ["available", "rented", "maintenance", "out_of_service", "retired"],
+          { default: "'available'" }
+        ),
+        text("location"),
+        timestamptz("acquired_at", { isNullable: true }),
+        jsonb("metadata"),
+        ...timestamps(),
+      ],
+      indices: [uniqueIndex("serial_number"), index("variant_id")],
+      foreignKeys: [foreignKey("variant_id", "rental_variant")],
+    }),
+    new Table({
+      name: "rental_booking",
+      columns: [
+        id(),
+        varchar("variant_id"),
+        text("customer_id"),
+        text("cart_id"),
+        text("order_id"),
+        text("line_item_id"),
+        timestamptz("start_at"),
+        timestamptz("end_at"),
+        int("quantity", { default: 1 }),
+        int("amount_paid", { isNullable: true }),
+        enumColumn(
+          "status",
+          ["pending", "confirmed", "active", "overdue", "returned", "canceled"],
+          { default: "'pending'" }
+        ),
+        timestamptz("confirmed_at", { isNullable: true }),
+        timestamptz("canceled_at", { isNullable: true }),
+        text("cancellation_policy_id"),
+        int("refund_percentage", { isNullable: true }),
+        int("refund_amount", { isNullable: true }),
+        timestamptz("checked_out_at", { isNullable: true }),
+        timestamptz("checked_in_at", { isNullable: true }),
+        timestamptz("overdue_at", { isNullable: true }),
+        int("late_fee_total", { default: 0 }),
+        int("early_return_refund", { isNullable: true }),
+        jsonb("metadata"),
+        ...timestamps(),
+      ],
+      indices: [
+        index("variant_id"),
+        index("customer_id"),
+        index("cart_id"),
+        index("order_id"),
+        index("line_item_id"),
+        index("start_at"),
+        index("end_at"),
+      ],
+      foreignKeys: [
+        foreignKey("variant_id", "rental_variant"),
+        foreignKey("customer_id", "customer"),
+        foreignKey("cart_id", "cart"),
+        foreignKey("order_id", "order"),
+        foreignKey("line_item_id", "line_item"),
+        foreignKey("cancellation_policy_id", "rental_cancellation_policy"),
+      ],
+    }),
+    joinTable("rental_booking_units", sqlite, [
+      ["rental_booking_id", "rental_booking"],
+      ["rental_unit_id", "rental_unit"],
+    ]),
+    new Table({
+      name: "rental_booking_deposit",
+      columns: [
+        id(),
+        varchar("booking_id"),
+        varchar("region_id"),
+        varchar("currency_code"),
+        int("amount"),
+        int("amount_deducted", { default: 0 }),
+        enumColumn("status", [
+          "authorized",
+          "captured",
+          "released",
+          "partially_released",
+          "forfeited",
+        ]),
+        varchar("provider_id"),
+        varchar("payment_id"),
+        jsonb("data", { isNullable: false, default: "'{}'" }),
+        timestamptz("captured_at", { isNullable: true }),
+        timestamptz("released_at", { isNullable: true }),
+        jsonb("metadata"),
+        ...timestamps(),
+      ],
+      indices: [uniqueIndex("booking_id"), index("payment_id")],
+      foreignKeys: [
+        foreignKey("booking_id", "rental_booking"),
+        foreignKey("payment_id", "payment"),
+      ],
+    }),
+    new Table({
+      name: "rental_deposit_deduction",
+      columns: [
+        id(),
+        varchar("deposit_id"),
+        int("amount"),
+        varchar("reason"),
+        text("created_by"),
+        jsonb("metadata"),
+        ...timestamps(false),
+      ],
+      indices: [index("deposit_id")],
+      foreignKeys: [foreignKey("deposit_id", "rental_booking_deposit")],
+    }),
+    new Table({
+      name: "rental_booking_extension",
+      columns: [
+        id(),
+        varchar("booking_id"),
+        timestamptz("previous_end_at"),
+        timestamptz("end_at"),
+        varchar("region_id"),
+        varchar("currency_code"),
+        int("amount"),
+        text("provider_id"),
+        text("payment_id"),
+        jsonb("data", { isNullable: false, default: "'{}'" }),
+        boolean("override", false),
+        text("created_by"),
+        jsonb("metadata"),
+        ...timestamps(false),
+      ],
+      indices: [index("booking_id"), index("payment_id")],
+      foreignKeys: [
+        foreignKey("booking_id", "rental_booking"),
+        foreignKey("payment_id", "payment"),
+      ],
+    }),
+    new Table({
+      name: "rental_inspection",
+      columns: [
+        id(),
+        enumColumn("type", ["check_out", "check_in"]),
+        varchar("booking_id"),
+        text("unit_id"),
+        timestamptz("inspected_at"),
+        text("inspected_by"),
+        enumColumn("condition", unitConditions, { isNullable: true }),
+        jsonb("meter_readings"),
+        text("notes"),
+        jsonb("metadata"),
+        ...timestamps(false),
+      ],
+      indices: [index("booking_id"), index("unit_id")],
+      foreignKeys: [
+        foreignKey("booking_id", "rental_booking"),
+        foreignKey("unit_id", "rental_unit"),
+      ],
+    }),
+    joinTable("rental_inspection_images", sqlite, [
+      ["rental_inspection_id", "rental_inspection"],
+      ["image_id", "image"],
+    ]),
+    new Table({
+      name: "rental_damage_claim",
+      columns: [
+        id(),
+        varchar("booking_id"),
+        text("inspection_id"),
+        text("unit_id"),
+        enumColumn("status", ["open", "disputed", "settled"], {
+          default: "'open'",
+        }),
+        text("description"),
+        int("total", { default: 0 }),
+        int("amount_deducted", { default: 0 }),
+        int("amount_billed", { default: 0 }),
+        text("payment_collection_id"),
+        text("dispute_reason"),
+        timestamptz("disputed_at", { isNullable: true }),
+        timestamptz("settled_at", { isNullable: true }),
+        timestamptz("repaired_at", { isNullable: true }),
+        text("created_by"),
+        jsonb("metadata"),
+        ...timestamps(),
+      ],
+      indices: [
+        index("booking_id"),
+        index("inspection_id"),
+        index("unit_id"),
+        index("payment_collection_id"),
+      ],
+      foreignKeys: [
+        foreignKey("booking_id", "rental_booking"),
+        foreignKey("inspection_id", "rental_inspection"),
+        foreignKey("unit_id", "rental_unit"),
+        foreignKey("payment_collection_id", "payment_collection"),
+      ],
+    }),
+    new Table({
+      name: "rental_damage_claim_item",
+      columns: [
+        id(),
+        varchar("claim_id"),
+        varchar("description"),
+        int("quantity", { default: 1 }),
+        int("unit_cost"),
+        jsonb("metadata"),
+        ...timestamps(false),
+      ],
+      indices: [index("claim_id")],
+      foreignKeys: [foreignKey("claim_id", "rental_damage_claim", "CASCADE")],
+    }),
+    joinTable("rental_damage_claim_images", sqlite, [
+      ["rental_damage_claim_id", "rental_damage_claim"],
+      ["image_id", "image"],
+    ]),
+    new Table({
+      name: "rental_hold",
+      columns: [
+        id(),
+        varchar("variant_id"),
+        text("cart_id"),
+        text("customer_id"),
+        timestamptz("start_at"),
+        timestamptz("end_at"),
+        int("quantity", { default: 1 }),
+        timestamptz("expires_at"),
+        jsonb("metadata"),
+        ...timestamps(false),
+      ],
+      indices: [
+        index("variant_id"),
+        index("cart_id"),
+        index("customer_id"),
+        index("expires_at"),
+      ],
+      foreignKeys: [
+        foreignKey("variant_id", "rental_variant"),
+        foreignKey("cart_id", "cart"),
+        foreignKey("customer_id", "customer"),
+      ],
+    }),
+    new Table({
+      name: "rental_waitlist_entry",
+      columns: [
+        id(),
+        varchar("variant_id"),
+        varchar("customer_id"),
+        timestamptz("start_at"),
+        timestamptz("end_at"),
+        int("quantity", { default: 1 }),
+        enumColumn("status", ["waiting", "notified", "expired", "left"], {
+          default: "'waiting'",
+        }),
+        text("hold_id"),
+        timestamptz("notified_at", { isNullable: true }),
+        timestamptz("left_at", { isNullable: true }),
+        jsonb("metadata"),
+        ...timestamps(false),
+      ],
+      indices: [index("variant_id"), index("customer_id"), index("hold_id")],
+      foreignKeys: [
+        foreignKey("variant_id", "rental_variant"),
+        foreignKey("customer_id", "customer"),
+      ],
+    }),
+    joinTable(
+      "discount_condition_rental",
+      sqlite,
+      [
+        ["rental_id", "rental"],
+        ["condition_id", "discount_condition"],
+      ],
+      linkColumns()
+    ),
+    joinTable(
+      "discount_condition_rental_collection",
+      sqlite,
+      [
+        ["rental_collection_id", "rental_collection"],
+        ["condition_id", "discount_condition"],
+      ],
+      linkColumns()
+    ),
+    joinTable(
+      "discount_condition_rental_type",
+      sqlite,
+      [
+        ["rental_type_id", "rental_type"],
+        ["condition_id", "discount_condition"],
+      ],
+      linkColumns()
+    ),
+    joinTable(
+      "discount_condition_rental_tag",
+      sqlite,
+      [
+        ["rental_tag_id", "rental_tag"],
+        ["condition_id", "discount_condition"],
+      ],
+      linkColumns()
+    ),
+  ]
+}
+
+export class rentalSchema1675170000000 implements MigrationInterface {
+  name = "rentalSchema1675170000000"
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const sqlite = queryRunner.connection.options.type === "sqlite"
+
+    for (const table of rentalTables(sqlite)) {
+      await queryRunner.createTable(table, true)
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    const sqlite = queryRunner.connection.options.type === "sqlite"
+
+    const tables = rentalTables(sqlite).reverse()
+
+    for (const table of tables) {
+      await queryRunner.dropTable(table.name, true)
+    }
+
+    if (sqlite) {
+      return
+    }
+
+    // Dropping a table leaves the enum types of its columns behind on Postgres
+    for (const table of tables) {
+      for (const column of table.columns) {
+        if (column.type === "enum") {
+          await queryRunner.query(
+            `DROP TYPE IF EXISTS "${table.name}_${column.name}_enum"`
+          )
+        }
+      }
+    }
+  }
+}
@@ -1,9 +1,25 @@
 export * from "./rental"
+export * from "./rental-blackout"
+export * from "./rental-booking"
+export * from "./rental-booking-deposit"
+export * from "./rental-booking-extension"
+export * from "./rental-cancellation-policy"
 export * from "./rental-collection"
+export * from "./rental-damage-claim"
+export * from "./rental-damage-claim-item"
+export * from "./rental-deposit-amount"
+export * from "./rental-deposit-deduction"
+export * from "./rental-duration-unit"
+export * from "./rental-hold"
+export * from "./rental-inspection"
+export * from "./rental-money-amount"
 export * from "./rental-option"
 export * from "./rental-option-value"
+export * from "./rental-price-rule"
 export * from "./rental-tag"
 export * from "./rental-tax-rate"
 export * from "./rental-type"
 export * from "./rental-type-tax-rate"
+export * from "./rental-unit"
 export * from "./rental-variant"
+export * from "./rental-waitlist-entry"
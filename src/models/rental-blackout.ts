@@ -0,0 +1,128 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+} from "typeorm"
+import {
+  DbAwareColumn,
+  resolveDbType,
+} from "@medusajs/medusa/dist/utils/db-aware-column"
+
+import { Rental } from "././rental"
+import { RentalCollection } from "././rental-collection"
+import { RentalVariant } from "././rental-variant"
+import { SoftDeletableEntity } from "@medusajs/medusa"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+@Entity()
+export class RentalBlackout extends SoftDeletableEntity {
+  @Index()
+  @Column({ type: resolveDbType("timestamptz") })
+  starts_at: Date
+
+  @Index()
+  @Column({ type: resolveDbType("timestamptz") })
+  ends_at: Date
+
+  @Column({ type: "text", nullable: true })
+  reason: string | null
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  rental_collection_id: string | null
+
+  @ManyToOne(() => RentalCollection)
+  @JoinColumn({ name: "rental_collection_id" })
+  rental_collection: RentalCollection
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  rental_id: string | null
+
+  @ManyToOne(() => Rental)
+  @JoinColumn({ name: "rental_id" })
+  rental: Rental
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  variant_id: string | null
+
+  @ManyToOne(() => RentalVariant)
+  @JoinColumn({ name: "variant_id" })
+  variant: RentalVariant
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rblk")
+  }
+}
+
+/**
+ * @schema RentalBlackout
+ * title: "Rental Blackout"
+ * description: "A Rental Blackout is a period during which items cannot be rented. It applies to the whole store, unless it is limited to a Rental Collection, a Rental or a Rental Variant."
+ * type: object
+ * required:
+ *   - starts_at
+ *   - ends_at
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental blackout's ID
+ *     example: rblk_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   starts_at:
+ *     description: "The date with timezone at which the blackout starts."
+ *     type: string
+ *     format: date-time
+ *   ends_at:
+ *     description: "The date with timezone at which the blackout ends."
+ *     type: string
+ *     format: date-time
+ *   reason:
+ *     description: "Why items cannot be rented during the blackout. Shown to customers that try to book during it."
+ *     type: string
+ *     example: Closed for the holidays
+ *   rental_collection_id:
+ *     description: "The ID of the Rental Collection that the blackout is limited to."
+ *     type: string
+ *     example: pcol_01F0YESBFAZ0DV6V831JXWH0BG
+ *   rental_collection:
+ *     description: A rental collection object. Available if the relation `rental_collection` is expanded.
+ *     $ref: "#/components/schemas/RentalCollection"
+ *   rental_id:
+ *     description: "The ID of the Rental that the blackout is limited to."
+ *     type: string
+ *     example: rental_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   rental:
+ *     description: A rental object. Available if the relation `rental` is expanded.
+ *     $ref: "#/components/schemas/Rental"
+ *   variant_id:
+ *     description: "The ID of the Rental Variant that the blackout is limited to."
+ *     type: string
+ *     example: variant_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   variant:
+ *     description: A rental variant object. Available if the relation `variant` is expanded.
+ *     $ref: "#/components/schemas/RentalVariant"
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   deleted_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was deleted."
+ *     format: date-time
+ *   metadata:
+ *     type: object
+ *     description: An optional key-value map with additional details
+ *     example: {car: "white"}
+ */
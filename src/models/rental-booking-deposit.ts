@@ -0,0 +1,181 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  OneToOne,
+} from "typeorm"
+import {
+  DbAwareColumn,
+  resolveDbType,
+} from "@medusajs/medusa/dist/utils/db-aware-column"
+
+import { Payment } from "@medusajs/medusa/dist/models/payment"
+import { RentalBooking } from "././rental-booking"
+import { RentalDepositDeduction } from "././rental-deposit-deduction"
+import { SoftDeletableEntity } from "@medusajs/medusa"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+export enum RentalDepositStatus {
+  AUTHORIZED = "authorized",
+  CAPTURED = "captured",
+  RELEASED = "released",
+  PARTIALLY_RELEASED = "partially_released",
+  FORFEITED = "forfeited",
+}
+
+@Entity()
+export class RentalBookingDeposit extends SoftDeletableEntity {
+  @Index({ unique: true, where: "deleted_at IS NULL" })
+  @Column()
+  booking_id: string
+
+  @OneToOne(() => RentalBooking, (booking) => booking.deposit)
+  @JoinColumn({ name: "booking_id" })
+  booking: RentalBooking
+
+  @Column()
+  region_id: string
+
+  @Column()
+  currency_code: string
+
+  @Column({ type: "int" })
+  amount: number
+
+  @Column({ type: "int", default: 0 })
+  amount_deducted: number
+
+  @DbAwareColumn({ type: "enum", enum: RentalDepositStatus })
+  status: RentalDepositStatus
+
+  @Column()
+  provider_id: string
+
+  @Index()
+  @Column()
+  payment_id: string
+
+  @ManyToOne(() => Payment)
+  @JoinColumn({ name: "payment_id" })
+  payment: Payment
+
+  @DbAwareColumn({ type: "jsonb", default: {} })
+  data: Record<string, unknown>
+
+  @OneToMany(() => RentalDepositDeduction, (deduction) => deduction.deposit)
+  deductions: RentalDepositDeduction[]
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  captured_at: Date | null
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  released_at: Date | null
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rdep")
+  }
+}
+
+/**
+ * @schema RentalBookingDeposit
+ * title: "Rental Booking Deposit"
+ * description: "The refundable deposit held for a Rental Booking through a payment provider. It is released at check-in, or once the damage claims of the booking are settled, minus its deductions."
+ * type: object
+ * required:
+ *   - booking_id
+ *   - region_id
+ *   - currency_code
+ *   - amount
+ *   - amount_deducted
+ *   - status
+ *   - provider_id
+ *   - payment_id
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental booking deposit's ID
+ *     example: rdep_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   booking_id:
+ *     description: "The ID of the Rental Booking the deposit is held for."
+ *     type: string
+ *     example: rbook_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   booking:
+ *     description: A rental booking object. Available if the relation `booking` is expanded.
+ *     $ref: "#/components/schemas/RentalBooking"
+ *   region_id:
+ *     description: "The ID of the Region the deposit was taken in."
+ *     type: string
+ *     example: reg_01G1G5V26T9H8Y0M4JNE3YGA4G
+ *   currency_code:
+ *     description: "The 3 character ISO currency code of the deposit."
+ *     type: string
+ *     example: usd
+ *   amount:
+ *     description: "The amount held."
+ *     type: integer
+ *     example: 20000
+ *   amount_deducted:
+ *     description: "The part of the amount that is kept, e.g. for damages."
+ *     type: integer
+ *     example: 0
+ *   status:
+ *     description: "The status of the deposit. `authorized` deposits are held, `captured` deposits are charged, and released deposits are refunded or cancelled minus their deductions."
+ *     type: string
+ *     enum:
+ *       - authorized
+ *       - captured
+ *       - released
+ *       - partially_released
+ *       - forfeited
+ *   provider_id:
+ *     description: "The ID of the payment provider that holds the deposit."
+ *     type: string
+ *     example: manual
+ *   payment_id:
+ *     description: "The ID of the Payment the deposit is held with."
+ *     type: string
+ *     example: pay_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   payment:
+ *     description: A payment object. Available if the relation `payment` is expanded.
+ *     $ref: "#/components/schemas/Payment"
+ *   data:
+ *     description: "The data of the payment provider."
+ *     type: object
+ *   deductions:
+ *     description: The deductions from the deposit. Available if the relation `deductions` is expanded.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/RentalDepositDeduction"
+ *   captured_at:
+ *     description: "The date with timezone at which the deposit was captured."
+ *     type: string
+ *     format: date-time
+ *   released_at:
+ *     description: "The date with timezone at which the deposit was released."
+ *     type: string
+ *     format: date-time
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   deleted_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was deleted."
+ *     format: date-time
+ *   metadata:
+ *     type: object
+ *     description: An optional key-value map with additional details
+ *     example: {car: "white"}
+ */
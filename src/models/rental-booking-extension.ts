@@ -0,0 +1,152 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+} from "typeorm"
+import {
+  DbAwareColumn,
+  resolveDbType,
+} from "@medusajs/medusa/dist/utils/db-aware-column"
+
+import { BaseEntity } from "@medusajs/medusa"
+import { Payment } from "@medusajs/medusa/dist/models/payment"
+import { RentalBooking } from "././rental-booking"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+@Entity()
+export class RentalBookingExtension extends BaseEntity {
+  @Index()
+  @Column()
+  booking_id: string
+
+  @ManyToOne(() => RentalBooking, (booking) => booking.extensions)
+  @JoinColumn({ name: "booking_id" })
+  booking: RentalBooking
+
+  @Column({ type: resolveDbType("timestamptz") })
+  previous_end_at: Date
+
+  @Column({ type: resolveDbType("timestamptz") })
+  end_at: Date
+
+  @Column()
+  region_id: string
+
+  @Column()
+  currency_code: string
+
+  @Column({ type: "int" })
+  amount: number
+
+  @Column({ type: "text", nullable: true })
+  provider_id: string | null
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  payment_id: string | null
+
+  @ManyToOne(() => Payment)
+  @JoinColumn({ name: "payment_id" })
+  payment: Payment | null
+
+  @DbAwareColumn({ type: "jsonb", default: {} })
+  data: Record<string, unknown>
+
+  @Column({ type: "boolean", default: false })
+  override: boolean
+
+  @Column({ type: "text", nullable: true })
+  created_by: string | null
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rbext")
+  }
+}
+
+/**
+ * @schema RentalBookingExtension
+ * title: "Rental Booking Extension"
+ * description: "An extension of the period of a Rental Booking, with the difference in price charged for the extra time."
+ * type: object
+ * required:
+ *   - booking_id
+ *   - previous_end_at
+ *   - end_at
+ *   - region_id
+ *   - currency_code
+ *   - amount
+ *   - override
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental booking extension's ID
+ *     example: rbext_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   booking_id:
+ *     description: "The ID of the extended Rental Booking."
+ *     type: string
+ *     example: rbook_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   booking:
+ *     description: A rental booking object. Available if the relation `booking` is expanded.
+ *     $ref: "#/components/schemas/RentalBooking"
+ *   previous_end_at:
+ *     description: "The end of the booking before the extension."
+ *     type: string
+ *     format: date-time
+ *   end_at:
+ *     description: "The end of the booking after the extension."
+ *     type: string
+ *     format: date-time
+ *   region_id:
+ *     description: "The ID of the Region the extension was priced in."
+ *     type: string
+ *     example: reg_01G1G5V26T9H8Y0M4JNE3YGA4G
+ *   currency_code:
+ *     description: "The 3 character ISO currency code of the amount."
+ *     type: string
+ *     example: usd
+ *   amount:
+ *     description: "The difference in price charged for the extra time."
+ *     type: integer
+ *     example: 3000
+ *   provider_id:
+ *     description: "The ID of the payment provider the amount was charged through. Null if nothing was charged."
+ *     type: string
+ *     example: manual
+ *   payment_id:
+ *     description: "The ID of the Payment the amount was charged with. Null if nothing was charged."
+ *     type: string
+ *     example: pay_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   payment:
+ *     description: A payment object. Available if the relation `payment` is expanded.
+ *     $ref: "#/components/schemas/Payment"
+ *   data:
+ *     description: "The data of the payment provider."
+ *     type: object
+ *   override:
+ *     description: "Whether an admin extended the booking without checking its availability and duration rules."
+ *     type: boolean
+ *     example: false
+ *   created_by:
+ *     description: "The ID of the User or Customer that extended the booking."
+ *     type: string
+ *     example: usr_01G1G5V26F5TB3GPAPNJ8X1S3V
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   metadata:
+ *     type: object
+ *     description: An optional key-value map with additional details
+ *     example: {car: "white"}
+ */
@@ -0,0 +1,332 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  OneToMany,
+  OneToOne,
+} from "typeorm"
+import {
+  DbAwareColumn,
+  resolveDbType,
+} from "@medusajs/medusa/dist/utils/db-aware-column"
+
+import { Cart } from "@medusajs/medusa/dist/models/cart"
+import { Customer } from "@medusajs/medusa/dist/models/customer"
+import { LineItem } from "@medusajs/medusa/dist/models/line-item"
+import { Order } from "@medusajs/medusa/dist/models/order"
+import { RentalBookingDeposit } from "././rental-booking-deposit"
+import { RentalBookingExtension } from "././rental-booking-extension"
+import { RentalCancellationPolicy } from "././rental-cancellation-policy"
+import { RentalDamageClaim } from "././rental-damage-claim"
+import { RentalInspection } from "././rental-inspection"
+import { RentalUnit } from "././rental-unit"
+import { RentalVariant } from "././rental-variant"
+import { SoftDeletableEntity } from "@medusajs/medusa"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+export enum RentalBookingStatus {
+  PENDING = "pending",
+  CONFIRMED = "confirmed",
+  ACTIVE = "active",
+  OVERDUE = "overdue",
+  RETURNED = "returned",
+  CANCELED = "canceled",
+}
+
+@Entity()
+export class RentalBooking extends SoftDeletableEntity {
+  @Index()
+  @Column()
+  variant_id: string
+
+  @ManyToOne(() => RentalVariant)
+  @JoinColumn({ name: "variant_id" })
+  variant: RentalVariant
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  customer_id: string | null
+
+  @ManyToOne(() => Customer)
+  @JoinColumn({ name: "customer_id" })
+  customer: Customer
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  cart_id: string | null
+
+  @ManyToOne(() => Cart)
+  @JoinColumn({ name: "cart_id" })
+  cart: Cart
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  order_id: string | null
+
+  @ManyToOne(() => Order)
+  @JoinColumn({ name: "order_id" })
+  order: Order
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  line_item_id: string | null
+
+  @ManyToOne(() => LineItem)
+  @JoinColumn({ name: "line_item_id" })
+  line_item: LineItem
+
+  @Index()
+  @Column({ type: resolveDbType("timestamptz") })
+  start_at: Date
+
+  @Index()
+  @Column({ type: resolveDbType("timestamptz") })
+  end_at: Date
+
+  @Column({ type: "int", default: 1 })
+  quantity: number
+
+  @Column({ type: "int", nullable: true })
+  amount_paid: number | null
+
+  @ManyToMany(() => RentalUnit)
+  @JoinTable({
+    name: "rental_booking_units",
+    joinColumn: {
+      name: "rental_booking_id",
+      referencedColumnName: "id",
+    },
+    inverseJoinColumn: {
+      name: "rental_unit_id",
+      referencedColumnName: "id",
+    },
+  })
+  units: RentalUnit[]
+
+  @OneToOne(() => RentalBookingDeposit, (deposit) => deposit.booking)
+  deposit: RentalBookingDeposit
+
+  @OneToMany(() => RentalInspection, (inspection) => inspection.booking)
+  inspections: RentalInspection[]
+
+  @OneToMany(() => RentalDamageClaim, (claim) => claim.booking)
+  damage_claims: RentalDamageClaim[]
+
+  @OneToMany(() => RentalBookingExtension, (extension) => extension.booking)
+  extensions: RentalBookingExtension[]
+
+  @DbAwareColumn({
+    type: "enum",
+    enum: RentalBookingStatus,
+    default: RentalBookingStatus.PENDING,
+  })
+  status: RentalBookingStatus
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  confirmed_at: Date | null
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  canceled_at: Date | null
+
+  @Column({ type: "text", nullable: true })
+  cancellation_policy_id: string | null
+
+  @ManyToOne(() => RentalCancellationPolicy)
+  @JoinColumn({ name: "cancellation_policy_id" })
+  cancellation_policy: RentalCancellationPolicy
+
+  @Column({ type: "int", nullable: true })
+  refund_percentage: number | null
+
+  @Column({ type: "int", nullable: true })
+  refund_amount: number | null
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  checked_out_at: Date | null
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  checked_in_at: Date | null
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  overdue_at: Date | null
+
+  @Column({ type: "int", default: 0 })
+  late_fee_total: number
+
+  @Column({ type: "int", nullable: true })
+  early_return_refund: number | null
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rbook")
+  }
+}
+
+/**
+ * @schema RentalBooking
+ * title: "Rental Booking"
+ * description: "A Rental Booking reserves a quantity of a Rental Variant for a period of time."
+ * type: object
+ * required:
+ *   - variant_id
+ *   - start_at
+ *   - end_at
+ *   - quantity
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental booking's ID
+ *     example: rbook_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   variant_id:
+ *     description: "The ID of the Rental Variant that is reserved."
+ *     type: string
+ *     example: variant_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   variant:
+ *     description: A rental variant object. Available if the relation `variant` is expanded.
+ *     $ref: "#/components/schemas/RentalVariant"
+ *   customer_id:
+ *     description: "The ID of the Customer that made the booking."
+ *     type: string
+ *     example: cus_01G2SG30J8C85S4A5CHM2S1NS2
+ *   customer:
+ *     description: A customer object. Available if the relation `customer` is expanded.
+ *     type: object
+ *   cart_id:
+ *     description: "The ID of the Cart the booking is held for, if it was added to a cart."
+ *     type: string
+ *     example: cart_01G8ZH853Y6TFXWPG5EYE81X63
+ *   cart:
+ *     description: A cart object. Available if the relation `cart` is expanded.
+ *     type: object
+ *   order_id:
+ *     description: "The ID of the Order the booking was placed with, if any."
+ *     type: string
+ *     example: order_01G8TJSYT9M6AVS5N4EMNFS1EK
+ *   order:
+ *     description: An order object. Available if the relation `order` is expanded.
+ *     type: object
+ *   line_item_id:
+ *     description: "The ID of the Line Item of the Order the booking was placed with, if any."
+ *     type: string
+ *     example: item_01G8ZC9GWT6B2GP5FSXRXNFNGN
+ *   line_item:
+ *     description: A line item object. Available if the relation `line_item` is expanded.
+ *     type: object
+ *   start_at:
+ *     description: "The date with timezone at which the reservation starts."
+ *     type: string
+ *     format: date-time
+ *   end_at:
+ *     description: "The date with timezone at which the reservation ends."
+ *     type: string
+ *     format: date-time
+ *   quantity:
+ *     description: "The number of items of the Rental Variant that are reserved."
+ *     type: integer
+ *     example: 1
+ *   amount_paid:
+ *     description: "The amount paid for the booked items with the Order, taxes included. Null if the booking was not placed with an order."
+ *     type: integer
+ *     example: 6000
+ *   units:
+ *     description: The Rental Units assigned to the booking, if the Rental Variant tracks its units. Available if the relation `units` is expanded.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/RentalUnit"
+ *   deposit:
+ *     description: The deposit held for the booking, if any. Available if the relation `deposit` is expanded.
+ *     $ref: "#/components/schemas/RentalBookingDeposit"
+ *   inspections:
+ *     description: The inspections made when the items were handed over and returned. Available if the relation `inspections` is expanded.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/RentalInspection"
+ *   damage_claims:
+ *     description: The claims for damage found when the items were returned. Available if the relation `damage_claims` is expanded.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/RentalDamageClaim"
+ *   extensions:
+ *     description: The extensions of the booking's period. Available if the relation `extensions` is expanded.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/RentalBookingExtension"
+ *   status:
+ *     description: The status of the booking
+ *     type: string
+ *     enum:
+ *       - pending
+ *       - confirmed
+ *       - active
+ *       - overdue
+ *       - returned
+ *       - canceled
+ *     default: pending
+ *   confirmed_at:
+ *     description: "The date with timezone at which the booking was confirmed."
+ *     type: string
+ *     format: date-time
+ *   canceled_at:
+ *     description: "The date with timezone at which the booking was canceled."
+ *     type: string
+ *     format: date-time
+ *   cancellation_policy_id:
+ *     description: "The ID of the Rental Cancellation Policy the refund of the canceled booking was computed with."
+ *     type: string
+ *     example: rcpol_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   cancellation_policy:
+ *     description: A rental cancellation policy object. Available if the relation `cancellation_policy` is expanded.
+ *     $ref: "#/components/schemas/RentalCancellationPolicy"
+ *   refund_percentage:
+ *     description: "The percentage of the price refunded when the booking was canceled."
+ *     type: integer
+ *     example: 50
+ *   refund_amount:
+ *     description: "The amount refunded when the booking was canceled, if the amount paid was known."
+ *     type: integer
+ *     example: 3000
+ *   checked_out_at:
+ *     description: "The date with timezone at which the items were handed over to the customer."
+ *     type: string
+ *     format: date-time
+ *   checked_in_at:
+ *     description: "The date with timezone at which the items were returned."
+ *     type: string
+ *     format: date-time
+ *   overdue_at:
+ *     description: "The date with timezone at which the booking was found to be past its end without its items being returned."
+ *     type: string
+ *     format: date-time
+ *   late_fee_total:
+ *     description: "The late fees owed for returning the items late. Refreshed regularly while the booking is overdue, and final once the items are returned. They are not charged automatically."
+ *     type: integer
+ *     default: 0
+ *   early_return_refund:
+ *     description: "The amount refunded for the unused days of a booking returned early. Null if the items were not returned early."
+ *     type: integer
+ *     example: 2000
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   deleted_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was deleted."
+ *     format: date-time
+ *   metadata:
+ *     type: object
+ *     description: An optional key-value map with additional details
+ *     example: {car: "white"}
+ */
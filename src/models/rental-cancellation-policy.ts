@@ -0,0 +1,90 @@
+import { BeforeInsert, Column, Entity } from "typeorm"
+
+import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column"
+import { SoftDeletableEntity } from "@medusajs/medusa"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+/**
+ * The share of the price refunded when a booking is canceled at least a
+ * number of hours before it starts.
+ */
+export type RentalCancellationRule = {
+  min_hours_before: number
+  refund_percentage: number
+}
+
+@Entity()
+export class RentalCancellationPolicy extends SoftDeletableEntity {
+  @Column()
+  name: string
+
+  @Column({ type: "text", nullable: true })
+  description: string | null
+
+  @DbAwareColumn({ type: "jsonb", default: [] })
+  rules: RentalCancellationRule[]
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rcpol")
+  }
+}
+
+/**
+ * @schema RentalCancellationPolicy
+ * title: "Rental Cancellation Policy"
+ * description: "A Rental Cancellation Policy sets how much of the price of a booking is refunded depending on how far in advance it is canceled. It can be assigned to Rentals, Rental Types and Rental Collections."
+ * type: object
+ * required:
+ *   - name
+ *   - rules
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental cancellation policy's ID
+ *     example: rcpol_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   name:
+ *     description: "The name of the policy."
+ *     type: string
+ *     example: Moderate
+ *   description:
+ *     description: "The text of the policy shown to customers."
+ *     type: string
+ *     example: Full refund up to 5 days before the rental starts, half refund up to 24 hours before.
+ *   rules:
+ *     description: "The refund schedule. A cancellation is refunded by the rule with the most hours that are still before the start of the booking, and not at all if none applies."
+ *     type: array
+ *     items:
+ *       type: object
+ *       required:
+ *         - min_hours_before
+ *         - refund_percentage
+ *       properties:
+ *         min_hours_before:
+ *           description: "The number of hours before the start of the booking the cancellation must happen at least."
+ *           type: integer
+ *           example: 120
+ *         refund_percentage:
+ *           description: "The percentage of the price refunded."
+ *           type: integer
+ *           example: 100
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   deleted_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was deleted."
+ *     format: date-time
+ *   metadata:
+ *     type: object
+ *     description: An optional key-value map with additional details
+ *     example: {car: "white"}
+ */
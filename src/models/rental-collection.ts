@@ -1,7 +1,16 @@
-import { BeforeInsert, Column, Entity, Index, OneToMany } from "typeorm"
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+} from "typeorm"
 
 import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column"
 import { Rental } from "././rental"
+import { RentalCancellationPolicy } from "././rental-cancellation-policy"
 import { SoftDeletableEntity } from "@medusajs/medusa"
 import { kebabCase } from "lodash"
 import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
@@ -18,6 +27,14 @@ export class RentalCollection extends SoftDeletableEntity {
   @OneToMany(() => Rental, (rental) => rental.collection)
   rentals: Rental[]
 
+  @Index()
+  @Column({ type: "text", nullable: true })
+  cancellation_policy_id: string | null
+
+  @ManyToOne(() => RentalCancellationPolicy)
+  @JoinColumn({ name: "cancellation_policy_id" })
+  cancellation_policy: RentalCancellationPolicy
+
   @DbAwareColumn({ type: "jsonb", nullable: true })
   metadata: Record<string, unknown>
 
@@ -58,6 +75,13 @@ export class RentalCollection extends SoftDeletableEntity {
  *     items:
  *       type: object
  *       description: A rental collection object.
+ *   cancellation_policy_id:
+ *     description: "The ID of the Rental Cancellation Policy of the bookings of the collection's Rentals."
+ *     type: string
+ *     example: rcpol_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   cancellation_policy:
+ *     description: A rental cancellation policy object. Available if the relation `cancellation_policy` is expanded.
+ *     $ref: "#/components/schemas/RentalCancellationPolicy"
  *   created_at:
  *     type: string
  *     description: "The date with timezone at which the resource was created."
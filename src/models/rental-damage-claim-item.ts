@@ -0,0 +1,91 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+} from "typeorm"
+import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column"
+
+import { BaseEntity } from "@medusajs/medusa"
+import { RentalDamageClaim } from "././rental-damage-claim"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+@Entity()
+export class RentalDamageClaimItem extends BaseEntity {
+  @Index()
+  @Column()
+  claim_id: string
+
+  @ManyToOne(() => RentalDamageClaim, (claim) => claim.items, {
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "claim_id" })
+  claim: RentalDamageClaim
+
+  @Column()
+  description: string
+
+  @Column({ type: "int", default: 1 })
+  quantity: number
+
+  @Column({ type: "int" })
+  unit_cost: number
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rdmgi")
+  }
+}
+
+/**
+ * @schema RentalDamageClaimItem
+ * title: "Rental Damage Claim Item"
+ * description: "A cost of the damage of a Rental Damage Claim, such as a part to replace or the labour to repair it."
+ * type: object
+ * required:
+ *   - claim_id
+ *   - description
+ *   - quantity
+ *   - unit_cost
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental damage claim item's ID
+ *     example: rdmgi_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   claim_id:
+ *     description: "The ID of the Rental Damage Claim the item belongs to."
+ *     type: string
+ *     example: rdmg_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   claim:
+ *     description: A rental damage claim object. Available if the relation `claim` is expanded.
+ *     $ref: "#/components/schemas/RentalDamageClaim"
+ *   description:
+ *     description: "What the cost is for."
+ *     type: string
+ *     example: Replacement lens cap
+ *   quantity:
+ *     description: "The number of times the cost is charged."
+ *     type: integer
+ *     example: 1
+ *   unit_cost:
+ *     description: "The cost of one of the item."
+ *     type: integer
+ *     example: 2500
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   metadata:
+ *     type: object
+ *     description: An optional key-value map with additional details
+ *     example: {car: "white"}
+ */
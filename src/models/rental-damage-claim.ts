@@ -0,0 +1,237 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  OneToMany,
+} from "typeorm"
+import {
+  DbAwareColumn,
+  resolveDbType,
+} from "@medusajs/medusa/dist/utils/db-aware-column"
+
+import { Image } from "@medusajs/medusa/dist/models/image"
+import { PaymentCollection } from "@medusajs/medusa/dist/models/payment-collection"
+import { RentalBooking } from "././rental-booking"
+import { RentalDamageClaimItem } from "././rental-damage-claim-item"
+import { RentalInspection } from "././rental-inspection"
+import { RentalUnit } from "././rental-unit"
+import { SoftDeletableEntity } from "@medusajs/medusa"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+export enum RentalDamageClaimStatus {
+  OPEN = "open",
+  DISPUTED = "disputed",
+  SETTLED = "settled",
+}
+
+@Entity()
+export class RentalDamageClaim extends SoftDeletableEntity {
+  @Index()
+  @Column()
+  booking_id: string
+
+  @ManyToOne(() => RentalBooking, (booking) => booking.damage_claims)
+  @JoinColumn({ name: "booking_id" })
+  booking: RentalBooking
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  inspection_id: string | null
+
+  @ManyToOne(() => RentalInspection)
+  @JoinColumn({ name: "inspection_id" })
+  inspection: RentalInspection | null
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  unit_id: string | null
+
+  @ManyToOne(() => RentalUnit)
+  @JoinColumn({ name: "unit_id" })
+  unit: RentalUnit | null
+
+  @DbAwareColumn({
+    type: "enum",
+    enum: RentalDamageClaimStatus,
+    default: RentalDamageClaimStatus.OPEN,
+  })
+  status: RentalDamageClaimStatus
+
+  @Column({ type: "text", nullable: true })
+  description: string | null
+
+  @OneToMany(() => RentalDamageClaimItem, (item) => item.claim, {
+    cascade: ["insert"],
+  })
+  items: RentalDamageClaimItem[]
+
+  @ManyToMany(() => Image, { cascade: ["insert"] })
+  @JoinTable({
+    name: "rental_damage_claim_images",
+    joinColumn: {
+      name: "rental_damage_claim_id",
+      referencedColumnName: "id",
+    },
+    inverseJoinColumn: {
+      name: "image_id",
+      referencedColumnName: "id",
+    },
+  })
+  images: Image[]
+
+  @Column({ type: "int", default: 0 })
+  total: number
+
+  @Column({ type: "int", default: 0 })
+  amount_deducted: number
+
+  @Column({ type: "int", default: 0 })
+  amount_billed: number
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  payment_collection_id: string | null
+
+  @ManyToOne(() => PaymentCollection)
+  @JoinColumn({ name: "payment_collection_id" })
+  payment_collection: PaymentCollection | null
+
+  @Column({ type: "text", nullable: true })
+  dispute_reason: string | null
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  disputed_at: Date | null
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  settled_at: Date | null
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  repaired_at: Date | null
+
+  @Column({ type: "text", nullable: true })
+  created_by: string | null
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rdmg")
+  }
+}
+
+/**
+ * @schema RentalDamageClaim
+ * title: "Rental Damage Claim"
+ * description: "A Rental Damage Claim charges the customer of a Rental Booking for damage found when its items were returned. The charges are taken from the deposit of the booking or billed to the customer."
+ * type: object
+ * required:
+ *   - booking_id
+ *   - status
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental damage claim's ID
+ *     example: rdmg_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   booking_id:
+ *     description: "The ID of the Rental Booking whose items were damaged."
+ *     type: string
+ *     example: rbook_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   booking:
+ *     description: A rental booking object. Available if the relation `booking` is expanded.
+ *     $ref: "#/components/schemas/RentalBooking"
+ *   inspection_id:
+ *     description: "The ID of the Rental Inspection that found the damage."
+ *     type: string
+ *     example: rinsp_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   inspection:
+ *     description: A rental inspection object. Available if the relation `inspection` is expanded.
+ *     $ref: "#/components/schemas/RentalInspection"
+ *   unit_id:
+ *     description: "The ID of the damaged Rental Unit. The unit is out of service until it is repaired."
+ *     type: string
+ *     example: runit_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   unit:
+ *     description: A rental unit object. Available if the relation `unit` is expanded.
+ *     $ref: "#/components/schemas/RentalUnit"
+ *   status:
+ *     description: The status of the claim
+ *     type: string
+ *     enum:
+ *       - open
+ *       - disputed
+ *       - settled
+ *     default: open
+ *   description:
+ *     description: "A description of the damage."
+ *     type: string
+ *   items:
+ *     description: The costs of the damage. Available if the relation `items` is expanded.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/RentalDamageClaimItem"
+ *   images:
+ *     description: Photos of the damage. Available if the relation `images` is expanded.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/Image"
+ *   total:
+ *     description: "The total cost of the items of the claim."
+ *     type: integer
+ *     example: 7500
+ *   amount_deducted:
+ *     description: "The part of the total taken from the deposit of the booking when the claim was settled."
+ *     type: integer
+ *     example: 5000
+ *   amount_billed:
+ *     description: "The part of the total billed to the customer when the claim was settled."
+ *     type: integer
+ *     example: 2500
+ *   payment_collection_id:
+ *     description: "The ID of the Payment Collection the customer pays the billed amount through."
+ *     type: string
+ *     example: paycol_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   payment_collection:
+ *     description: A payment collection object. Available if the relation `payment_collection` is expanded.
+ *     $ref: "#/components/schemas/PaymentCollection"
+ *   dispute_reason:
+ *     description: "Why the customer disputes the claim."
+ *     type: string
+ *   disputed_at:
+ *     description: "The date with timezone at which the claim was disputed."
+ *     type: string
+ *     format: date-time
+ *   settled_at:
+ *     description: "The date with timezone at which the claim was settled."
+ *     type: string
+ *     format: date-time
+ *   repaired_at:
+ *     description: "The date with timezone at which the damaged unit was repaired."
+ *     type: string
+ *     format: date-time
+ *   created_by:
+ *     description: "The ID of the User that opened the claim."
+ *     type: string
+ *     example: usr_01G1G5V26F5TB3GPAPNJ8X1S3V
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   deleted_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was deleted."
+ *     format: date-time
+ *   metadata:
+ *     type: object
+ *     description: An optional key-value map with additional details
+ *     example: {car: "white"}
+ */
@@ -0,0 +1,101 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+} from "typeorm"
+
+import { BaseEntity } from "@medusajs/medusa"
+import { Region } from "@medusajs/medusa/dist/models/region"
+import { Rental } from "././rental"
+import { RentalVariant } from "././rental-variant"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+@Entity()
+export class RentalDepositAmount extends BaseEntity {
+  @Index()
+  @Column()
+  region_id: string
+
+  @ManyToOne(() => Region)
+  @JoinColumn({ name: "region_id" })
+  region: Region
+
+  @Column({ type: "int" })
+  amount: number
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  rental_id: string | null
+
+  @ManyToOne(() => Rental, (rental) => rental.deposit_amounts, {
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "rental_id" })
+  rental: Rental
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  variant_id: string | null
+
+  @ManyToOne(() => RentalVariant, (variant) => variant.deposit_amounts, {
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "variant_id" })
+  variant: RentalVariant
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rdepa")
+  }
+}
+
+/**
+ * @schema RentalDepositAmount
+ * title: "Rental Deposit Amount"
+ * description: "The deposit of a Rental or a Rental Variant in a Region. Overrides the deposit amount of the Rental or Rental Variant."
+ * type: object
+ * required:
+ *   - region_id
+ *   - amount
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental deposit amount's ID
+ *     example: rdepa_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   region_id:
+ *     description: "The ID of the Region the deposit is taken in."
+ *     type: string
+ *     example: reg_01G1G5V26T9H8Y0M4JNE3YGA4G
+ *   region:
+ *     description: A region object. Available if the relation `region` is expanded.
+ *     type: object
+ *   amount:
+ *     description: "The amount of the deposit, in the currency of the Region."
+ *     type: integer
+ *     example: 20000
+ *   rental_id:
+ *     description: "The ID of the Rental the deposit is for."
+ *     type: string
+ *     example: rental_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   rental:
+ *     description: A rental object. Available if the relation `rental` is expanded.
+ *     $ref: "#/components/schemas/Rental"
+ *   variant_id:
+ *     description: "The ID of the Rental Variant the deposit is for."
+ *     type: string
+ *     example: variant_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   variant:
+ *     description: A rental variant object. Available if the relation `variant` is expanded.
+ *     $ref: "#/components/schemas/RentalVariant"
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ */
@@ -0,0 +1,88 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+} from "typeorm"
+import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column"
+
+import { BaseEntity } from "@medusajs/medusa"
+import { RentalBookingDeposit } from "././rental-booking-deposit"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+@Entity()
+export class RentalDepositDeduction extends BaseEntity {
+  @Index()
+  @Column()
+  deposit_id: string
+
+  @ManyToOne(() => RentalBookingDeposit, (deposit) => deposit.deductions)
+  @JoinColumn({ name: "deposit_id" })
+  deposit: RentalBookingDeposit
+
+  @Column({ type: "int" })
+  amount: number
+
+  @Column()
+  reason: string
+
+  @Column({ type: "text", nullable: true })
+  created_by: string | null
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rdded")
+  }
+}
+
+/**
+ * @schema RentalDepositDeduction
+ * title: "Rental Deposit Deduction"
+ * description: "A part of a Rental Booking Deposit that is kept instead of released, with the reason why. Deductions cannot be changed once recorded."
+ * type: object
+ * required:
+ *   - deposit_id
+ *   - amount
+ *   - reason
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental deposit deduction's ID
+ *     example: rdded_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   deposit_id:
+ *     description: "The ID of the Rental Booking Deposit the amount is deducted from."
+ *     type: string
+ *     example: rdep_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   deposit:
+ *     description: A rental booking deposit object. Available if the relation `deposit` is expanded.
+ *     $ref: "#/components/schemas/RentalBookingDeposit"
+ *   amount:
+ *     description: "The amount deducted."
+ *     type: integer
+ *     example: 5000
+ *   reason:
+ *     description: "Why the amount is deducted."
+ *     type: string
+ *     example: Scratched lens
+ *   created_by:
+ *     description: "The ID of the User that recorded the deduction."
+ *     type: string
+ *     example: usr_01G1G5V26F5TB3GPAPNJ8X1S3V
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   metadata:
+ *     type: object
+ *     description: An optional key-value map with additional details
+ *     example: {car: "white"}
+ */
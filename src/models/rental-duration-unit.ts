@@ -0,0 +1,10 @@
+/**
+ * The units a rental is booked in. Kept apart from the Rental entity, as both
+ * the Rental and the Rental Variant entities need it when they are declared,
+ * and each of the two modules imports the other.
+ */
+export enum RentalDurationUnit {
+  HOUR = "hour",
+  DAY = "day",
+  WEEK = "week",
+}
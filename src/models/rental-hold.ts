@@ -0,0 +1,133 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+} from "typeorm"
+import {
+  DbAwareColumn,
+  resolveDbType,
+} from "@medusajs/medusa/dist/utils/db-aware-column"
+
+import { BaseEntity } from "@medusajs/medusa"
+import { Cart } from "@medusajs/medusa/dist/models/cart"
+import { Customer } from "@medusajs/medusa/dist/models/customer"
+import { RentalVariant } from "././rental-variant"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+@Entity()
+export class RentalHold extends BaseEntity {
+  @Index()
+  @Column()
+  variant_id: string
+
+  @ManyToOne(() => RentalVariant)
+  @JoinColumn({ name: "variant_id" })
+  variant: RentalVariant
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  cart_id: string | null
+
+  @ManyToOne(() => Cart)
+  @JoinColumn({ name: "cart_id" })
+  cart: Cart
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  customer_id: string | null
+
+  @ManyToOne(() => Customer)
+  @JoinColumn({ name: "customer_id" })
+  customer: Customer
+
+  @Column({ type: resolveDbType("timestamptz") })
+  start_at: Date
+
+  @Column({ type: resolveDbType("timestamptz") })
+  end_at: Date
+
+  @Column({ type: "int", default: 1 })
+  quantity: number
+
+  @Index()
+  @Column({ type: resolveDbType("timestamptz") })
+  expires_at: Date
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rhold")
+  }
+}
+
+/**
+ * @schema RentalHold
+ * title: "Rental Hold"
+ * description: "A Rental Hold keeps a quantity of a Rental Variant aside for a period while a customer checks out. Until it expires, the held items are not available to anyone else."
+ * type: object
+ * required:
+ *   - variant_id
+ *   - start_at
+ *   - end_at
+ *   - quantity
+ *   - expires_at
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental hold's ID
+ *     example: rhold_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   variant_id:
+ *     description: "The ID of the Rental Variant that is held."
+ *     type: string
+ *     example: variant_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   variant:
+ *     description: A rental variant object. Available if the relation `variant` is expanded.
+ *     $ref: "#/components/schemas/RentalVariant"
+ *   cart_id:
+ *     description: "The ID of the Cart the items are held for."
+ *     type: string
+ *     example: cart_01G8ZH853Y6TFXWPG5EYE81X63
+ *   cart:
+ *     description: A cart object. Available if the relation `cart` is expanded.
+ *     type: object
+ *   customer_id:
+ *     description: "The ID of the Customer the items are held for, if only they can add them to a cart, e.g. from a waitlist."
+ *     type: string
+ *     example: cus_01G2SG30J8C85S4A5CHM2S1NS2
+ *   customer:
+ *     description: A customer object. Available if the relation `customer` is expanded.
+ *     type: object
+ *   start_at:
+ *     description: "The date with timezone at which the held period starts."
+ *     type: string
+ *     format: date-time
+ *   end_at:
+ *     description: "The date with timezone at which the held period ends."
+ *     type: string
+ *     format: date-time
+ *   quantity:
+ *     description: "The number of items of the Rental Variant that are held."
+ *     type: integer
+ *     example: 1
+ *   expires_at:
+ *     description: "The date with timezone at which the hold expires and its items become available again."
+ *     type: string
+ *     format: date-time
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   metadata:
+ *     type: object
+ *     description: An optional key-value map with additional details
+ *     example: {car: "white"}
+ */
@@ -0,0 +1,161 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+} from "typeorm"
+import {
+  DbAwareColumn,
+  resolveDbType,
+} from "@medusajs/medusa/dist/utils/db-aware-column"
+
+import { BaseEntity } from "@medusajs/medusa"
+import { Image } from "@medusajs/medusa/dist/models/image"
+import { RentalBooking } from "././rental-booking"
+import { RentalUnit, RentalUnitCondition } from "././rental-unit"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+export enum RentalInspectionType {
+  CHECK_OUT = "check_out",
+  CHECK_IN = "check_in",
+}
+
+@Entity()
+export class RentalInspection extends BaseEntity {
+  @DbAwareColumn({ type: "enum", enum: RentalInspectionType })
+  type: RentalInspectionType
+
+  @Index()
+  @Column()
+  booking_id: string
+
+  @ManyToOne(() => RentalBooking, (booking) => booking.inspections)
+  @JoinColumn({ name: "booking_id" })
+  booking: RentalBooking
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  unit_id: string | null
+
+  @ManyToOne(() => RentalUnit)
+  @JoinColumn({ name: "unit_id" })
+  unit: RentalUnit | null
+
+  @Column({ type: resolveDbType("timestamptz") })
+  inspected_at: Date
+
+  @Column({ type: "text", nullable: true })
+  inspected_by: string | null
+
+  @DbAwareColumn({ type: "enum", enum: RentalUnitCondition, nullable: true })
+  condition: RentalUnitCondition | null
+
+  @ManyToMany(() => Image, { cascade: ["insert"] })
+  @JoinTable({
+    name: "rental_inspection_images",
+    joinColumn: {
+      name: "rental_inspection_id",
+      referencedColumnName: "id",
+    },
+    inverseJoinColumn: {
+      name: "image_id",
+      referencedColumnName: "id",
+    },
+  })
+  images: Image[]
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  meter_readings: Record<string, number> | null
+
+  @Column({ type: "text", nullable: true })
+  notes: string | null
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rinsp")
+  }
+}
+
+/**
+ * @schema RentalInspection
+ * title: "Rental Inspection"
+ * description: "A Rental Inspection records the state of a Rental Booking's items when they are handed over to the customer or returned."
+ * type: object
+ * required:
+ *   - type
+ *   - booking_id
+ *   - inspected_at
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental inspection's ID
+ *     example: rinsp_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   type:
+ *     description: "Whether the inspection was made when the items were handed over or returned."
+ *     type: string
+ *     enum:
+ *       - check_out
+ *       - check_in
+ *   booking_id:
+ *     description: "The ID of the Rental Booking that was inspected."
+ *     type: string
+ *     example: rbook_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   booking:
+ *     description: A rental booking object. Available if the relation `booking` is expanded.
+ *     $ref: "#/components/schemas/RentalBooking"
+ *   unit_id:
+ *     description: "The ID of the Rental Unit that was inspected, if the inspection is about a single unit."
+ *     type: string
+ *     example: runit_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   unit:
+ *     description: A rental unit object. Available if the relation `unit` is expanded.
+ *     $ref: "#/components/schemas/RentalUnit"
+ *   inspected_at:
+ *     description: "The date with timezone at which the items were inspected."
+ *     type: string
+ *     format: date-time
+ *   inspected_by:
+ *     description: "The ID of the User that inspected the items."
+ *     type: string
+ *     example: usr_01G1G5V26F5TB3GPAPNJ8X1S3V
+ *   condition:
+ *     description: The condition the items were found in.
+ *     type: string
+ *     enum:
+ *       - new
+ *       - good
+ *       - fair
+ *       - poor
+ *       - damaged
+ *   images:
+ *     description: Photos taken during the inspection. Available if the relation `images` is expanded.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/Image"
+ *   meter_readings:
+ *     description: "The readings of the items' meters, by meter name."
+ *     type: object
+ *     example: {odometer: 12040}
+ *   notes:
+ *     description: "Notes taken during the inspection."
+ *     type: string
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   metadata:
+ *     type: object
+ *     description: An optional key-value map with additional details
+ *     example: {car: "white"}
+ */
@@ -0,0 +1,160 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+} from "typeorm"
+
+import { Currency } from "@medusajs/medusa/dist/models/currency"
+import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column"
+import { PriceList } from "@medusajs/medusa/dist/models/price-list"
+import { Region } from "@medusajs/medusa/dist/models/region"
+import { RentalVariant } from "././rental-variant"
+import { SoftDeletableEntity } from "@medusajs/medusa"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+export enum RentalPriceDurationUnit {
+  HOUR = "hour",
+  DAY = "day",
+  WEEK = "week",
+  MONTH = "month",
+}
+
+@Entity()
+export class RentalMoneyAmount extends SoftDeletableEntity {
+  @Index()
+  @Column()
+  currency_code: string
+
+  @ManyToOne(() => Currency)
+  @JoinColumn({ name: "currency_code", referencedColumnName: "code" })
+  currency: Currency
+
+  @Column({ type: "int" })
+  amount: number
+
+  @Column({ type: "int", nullable: true })
+  min_quantity: number | null
+
+  @Column({ type: "int", nullable: true })
+  max_quantity: number | null
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  price_list_id: string | null
+
+  @ManyToOne(() => PriceList, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "price_list_id" })
+  price_list: PriceList | null
+
+  @Index()
+  @Column()
+  variant_id: string
+
+  @ManyToOne(() => RentalVariant, (variant) => variant.prices, {
+    onDelete: "CASCADE",
+  })
+  @JoinColumn({ name: "variant_id" })
+  variant: RentalVariant
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  region_id: string | null
+
+  @ManyToOne(() => Region)
+  @JoinColumn({ name: "region_id" })
+  region: Region
+
+  @DbAwareColumn({
+    type: "enum",
+    enum: RentalPriceDurationUnit,
+    nullable: true,
+  })
+  duration_unit: RentalPriceDurationUnit | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rma")
+  }
+}
+
+/**
+ * @schema RentalMoneyAmount
+ * title: "Rental Money Amount"
+ * description: "A Rental Money Amount is a price of a Rental Variant in a Currency or, for region-based pricing, in a Region. Prices with a duration unit are charged per duration unit, e.g. per day. A Rental Variant can have one price per duration unit, region and currency. Prices without a duration unit are charged once per booking. Rental prices are kept apart from the Money Amounts of product variants."
+ * type: object
+ * required:
+ *   - currency_code
+ *   - amount
+ *   - variant_id
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental money amount's ID
+ *     example: rma_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   currency_code:
+ *     description: "The 3 character currency code that the price is in."
+ *     type: string
+ *     example: usd
+ *     externalDocs:
+ *       url: https://en.wikipedia.org/wiki/ISO_4217#Active_codes
+ *       description: See a list of codes.
+ *   currency:
+ *     description: Available if the relation `currency` is expanded.
+ *     $ref: "#/components/schemas/Currency"
+ *   amount:
+ *     description: "The amount in the smallest currecny unit (e.g. cents 100 cents to charge $1) that the price is."
+ *     type: integer
+ *     example: 100
+ *   min_quantity:
+ *     description: "The minimum quantity that the price applies to. If this value is not set, the price applies to all quantities."
+ *     type: integer
+ *     example: 1
+ *   max_quantity:
+ *     description: "The maximum quantity that the price applies to. If this value is not set, the price applies to all quantities."
+ *     type: integer
+ *     example: 10
+ *   price_list_id:
+ *     description: "The ID of the Price List the price belongs to, if any."
+ *     type: string
+ *     example: pl_01G8X3CKJXCG5VXVZ87H9KC09W
+ *   price_list:
+ *     description: The details of the price list that the price belongs to. Available if the relation `price_list` is expanded.
+ *     $ref: "#/components/schemas/PriceList"
+ *   variant_id:
+ *     description: "The ID of the Rental Variant the price is for."
+ *     type: string
+ *     example: variant_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   variant:
+ *     description: The details of the rental variant that the price is for. Available if the relation `variant` is expanded.
+ *     $ref: "#/components/schemas/RentalVariant"
+ *   region_id:
+ *     description: "The ID of the Region the price is for, if it is region-based."
+ *     type: string
+ *     example: reg_01G1G5V26T9H8Y0M4JNE3YGA4G
+ *   region:
+ *     description: The details of the region that the price is for. Available if the relation `region` is expanded.
+ *     $ref: "#/components/schemas/Region"
+ *   duration_unit:
+ *     description: "The duration that the amount is charged for."
+ *     type: string
+ *     enum:
+ *       - hour
+ *       - day
+ *       - week
+ *       - month
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   deleted_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was deleted."
+ *     format: date-time
+ */
@@ -0,0 +1,190 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+} from "typeorm"
+import {
+  DbAwareColumn,
+  resolveDbType,
+} from "@medusajs/medusa/dist/utils/db-aware-column"
+
+import { Rental } from "././rental"
+import { RentalCollection } from "././rental-collection"
+import { RentalType } from "././rental-type"
+import { RentalVariant } from "././rental-variant"
+import { SoftDeletableEntity } from "@medusajs/medusa"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+export enum RentalPriceRuleAdjustmentType {
+  PERCENTAGE = "percentage",
+  FIXED = "fixed",
+  OVERRIDE = "override",
+}
+
+@Entity()
+export class RentalPriceRule extends SoftDeletableEntity {
+  @Column()
+  name: string
+
+  @DbAwareColumn({ type: "enum", enum: RentalPriceRuleAdjustmentType })
+  adjustment_type: RentalPriceRuleAdjustmentType
+
+  @Column({ type: "int" })
+  value: number
+
+  @Column({ type: "text", nullable: true })
+  currency_code: string | null
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  starts_at: Date | null
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  ends_at: Date | null
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  weekdays: number[] | null
+
+  @Column({ type: "int", default: 0 })
+  priority: number
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  rental_collection_id: string | null
+
+  @ManyToOne(() => RentalCollection)
+  @JoinColumn({ name: "rental_collection_id" })
+  rental_collection: RentalCollection
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  rental_type_id: string | null
+
+  @ManyToOne(() => RentalType)
+  @JoinColumn({ name: "rental_type_id" })
+  rental_type: RentalType
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  rental_id: string | null
+
+  @ManyToOne(() => Rental)
+  @JoinColumn({ name: "rental_id" })
+  rental: Rental
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  variant_id: string | null
+
+  @ManyToOne(() => RentalVariant)
+  @JoinColumn({ name: "variant_id" })
+  variant: RentalVariant
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rprule")
+  }
+}
+
+/**
+ * @schema RentalPriceRule
+ * title: "Rental Price Rule"
+ * description: "A Rental Price Rule adjusts the price of the days of a rental that fall within its date range and on its weekdays, e.g. to charge more in high season or on weekends. It applies to the whole store, unless it is limited to a Rental Collection, a Rental Type, a Rental or a Rental Variant."
+ * type: object
+ * required:
+ *   - name
+ *   - adjustment_type
+ *   - value
+ *   - priority
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental price rule's ID
+ *     example: rprule_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   name:
+ *     description: "The name of the rule, shown on quotes."
+ *     type: string
+ *     example: Summer season
+ *   adjustment_type:
+ *     description: "How the rule adjusts the price. `percentage` adds `value` percent to the price, `fixed` adds `value` to the price of each day and `override` charges `value` for each day instead of the price."
+ *     type: string
+ *     enum:
+ *       - percentage
+ *       - fixed
+ *       - override
+ *   value:
+ *     description: "The percentage, or the amount per day, of the adjustment. Negative percentages and fixed amounts lower the price."
+ *     type: integer
+ *     example: 20
+ *   currency_code:
+ *     description: "The 3 character ISO currency code of the amount of `fixed` and `override` rules. The rule only applies to quotes in that currency."
+ *     type: string
+ *     example: usd
+ *   starts_at:
+ *     description: "The date with timezone at which the rule starts to apply. If not set, the rule applies from any date."
+ *     type: string
+ *     format: date-time
+ *   ends_at:
+ *     description: "The date with timezone at which the rule stops to apply. If not set, the rule applies until any date."
+ *     type: string
+ *     format: date-time
+ *   weekdays:
+ *     description: "The days of the week, in UTC, that the rule applies to, from 0 for Sunday to 6 for Saturday. If not set, the rule applies to every day."
+ *     type: array
+ *     items:
+ *       type: integer
+ *     example: [0, 6]
+ *   priority:
+ *     description: "Only the matching rule with the highest priority applies to a day."
+ *     type: integer
+ *     default: 0
+ *   rental_collection_id:
+ *     description: "The ID of the Rental Collection that the rule is limited to."
+ *     type: string
+ *     example: pcol_01F0YESBFAZ0DV6V831JXWH0BG
+ *   rental_collection:
+ *     description: A rental collection object. Available if the relation `rental_collection` is expanded.
+ *     $ref: "#/components/schemas/RentalCollection"
+ *   rental_type_id:
+ *     description: "The ID of the Rental Type that the rule is limited to."
+ *     type: string
+ *     example: ptyp_01G8X9A7ESKAJXG2H0E6F1MW7A
+ *   rental_type:
+ *     description: A rental type object. Available if the relation `rental_type` is expanded.
+ *     $ref: "#/components/schemas/RentalType"
+ *   rental_id:
+ *     description: "The ID of the Rental that the rule is limited to."
+ *     type: string
+ *     example: rental_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   rental:
+ *     description: A rental object. Available if the relation `rental` is expanded.
+ *     $ref: "#/components/schemas/Rental"
+ *   variant_id:
+ *     description: "The ID of the Rental Variant that the rule is limited to."
+ *     type: string
+ *     example: variant_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   variant:
+ *     description: A rental variant object. Available if the relation `variant` is expanded.
+ *     $ref: "#/components/schemas/RentalVariant"
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   deleted_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was deleted."
+ *     format: date-time
+ *   metadata:
+ *     type: object
+ *     description: An optional key-value map with additional details
+ *     example: {car: "white"}
+ */
@@ -1,14 +1,50 @@
-import { BeforeInsert, Column, Entity } from "typeorm"
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+} from "typeorm"
 
 import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column"
+import { RentalCancellationPolicy } from "././rental-cancellation-policy"
 import { SoftDeletableEntity } from "@medusajs/medusa"
 import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
 
+export enum RentalLateFeeUnit {
+  HOUR = "hour",
+  DAY = "day",
+}
+
 @Entity()
 export class RentalType extends SoftDeletableEntity {
   @Column()
   value: string
 
+  @Column({ type: "int", nullable: true })
+  buffer_before: number | null
+
+  @Column({ type: "int", nullable: true })
+  buffer_after: number | null
+
+  @DbAwareColumn({ type: "enum", enum: RentalLateFeeUnit, nullable: true })
+  late_fee_unit: RentalLateFeeUnit | null
+
+  @Column({ type: "int", nullable: true })
+  late_fee_amount: number | null
+
+  @Column({ type: "int", nullable: true })
+  late_fee_grace_period: number | null
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  cancellation_policy_id: string | null
+
+  @ManyToOne(() => RentalCancellationPolicy)
+  @JoinColumn({ name: "cancellation_policy_id" })
+  cancellation_policy: RentalCancellationPolicy
+
   @DbAwareColumn({ type: "jsonb", nullable: true })
   metadata: Record<string, unknown>
 
@@ -34,6 +70,35 @@ export class RentalType extends SoftDeletableEntity {
  *     description: "The value that the Rental Type represents."
  *     type: string
  *     example: Clothing
+ *   buffer_before:
+ *     description: "The number of minutes before each booking of the type's Rentals during which the booked items are held."
+ *     type: integer
+ *     example: 60
+ *   buffer_after:
+ *     description: "The number of minutes after each booking of the type's Rentals during which the returned items are held."
+ *     type: integer
+ *     example: 120
+ *   late_fee_unit:
+ *     description: "Whether late fees of the type's Rentals are charged per started hour or day past the end of a booking."
+ *     type: string
+ *     enum:
+ *       - hour
+ *       - day
+ *   late_fee_amount:
+ *     description: "The late fee charged for each item, per late fee unit."
+ *     type: integer
+ *     example: 1500
+ *   late_fee_grace_period:
+ *     description: "The number of minutes past the end of a booking before late fees are charged."
+ *     type: integer
+ *     example: 30
+ *   cancellation_policy_id:
+ *     description: "The ID of the Rental Cancellation Policy of the bookings of the type's Rentals. Overrides the policy of the Rental Collection."
+ *     type: string
+ *     example: rcpol_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   cancellation_policy:
+ *     description: A rental cancellation policy object. Available if the relation `cancellation_policy` is expanded.
+ *     $ref: "#/components/schemas/RentalCancellationPolicy"
  *   created_at:
  *     type: string
  *     description: "The date with timezone at which the resource was created."
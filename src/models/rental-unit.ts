@@ -0,0 +1,145 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+} from "typeorm"
+import {
+  DbAwareColumn,
+  resolveDbType,
+} from "@medusajs/medusa/dist/utils/db-aware-column"
+
+import { RentalVariant } from "././rental-variant"
+import { SoftDeletableEntity } from "@medusajs/medusa"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+export enum RentalUnitStatus {
+  AVAILABLE = "available",
+  RENTED = "rented",
+  MAINTENANCE = "maintenance",
+  OUT_OF_SERVICE = "out_of_service",
+  RETIRED = "retired",
+}
+
+export enum RentalUnitCondition {
+  NEW = "new",
+  GOOD = "good",
+  FAIR = "fair",
+  POOR = "poor",
+  DAMAGED = "damaged",
+}
+
+@Entity()
+export class RentalUnit extends SoftDeletableEntity {
+  @Index({ unique: true, where: "deleted_at IS NULL" })
+  @Column()
+  serial_number: string
+
+  @Index()
+  @Column()
+  variant_id: string
+
+  @ManyToOne(() => RentalVariant, (variant) => variant.units)
+  @JoinColumn({ name: "variant_id" })
+  variant: RentalVariant
+
+  @DbAwareColumn({
+    type: "enum",
+    enum: RentalUnitCondition,
+    default: RentalUnitCondition.GOOD,
+  })
+  condition: RentalUnitCondition
+
+  @DbAwareColumn({
+    type: "enum",
+    enum: RentalUnitStatus,
+    default: RentalUnitStatus.AVAILABLE,
+  })
+  status: RentalUnitStatus
+
+  @Column({ type: "text", nullable: true })
+  location: string | null
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  acquired_at: Date | null
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "runit")
+  }
+}
+
+/**
+ * @schema RentalUnit
+ * title: "Rental Unit"
+ * description: "A Rental Unit is a single physical item of a Rental Variant, identified by its serial number."
+ * type: object
+ * required:
+ *   - serial_number
+ *   - variant_id
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental unit's ID
+ *     example: runit_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   serial_number:
+ *     description: "The serial number of the physical item. Unique among all Rental Units."
+ *     type: string
+ *     example: SN-000123
+ *   variant_id:
+ *     description: "The ID of the Rental Variant that the Rental Unit belongs to."
+ *     type: string
+ *     example: variant_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   variant:
+ *     description: A rental variant object. Available if the relation `variant` is expanded.
+ *     $ref: "#/components/schemas/RentalVariant"
+ *   condition:
+ *     description: The physical condition of the item
+ *     type: string
+ *     enum:
+ *       - new
+ *       - good
+ *       - fair
+ *       - poor
+ *       - damaged
+ *     default: good
+ *   status:
+ *     description: The status of the item. Only available and rented units count towards the Rental Variant's inventory.
+ *     type: string
+ *     enum:
+ *       - available
+ *       - rented
+ *       - maintenance
+ *       - out_of_service
+ *       - retired
+ *     default: available
+ *   location:
+ *     description: "Where the item is kept."
+ *     type: string
+ *     example: Warehouse A, shelf 3
+ *   acquired_at:
+ *     description: "The date with timezone at which the item was acquired."
+ *     type: string
+ *     format: date-time
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   deleted_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was deleted."
+ *     format: date-time
+ *   metadata:
+ *     type: object
+ *     description: An optional key-value map with additional details
+ *     example: {car: "white"}
+ */
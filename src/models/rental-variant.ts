@@ -9,9 +9,12 @@ import {
 } from "typeorm"
 
 import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column"
-import { MoneyAmount } from "@medusajs/medusa/dist/models/money-amount"
 import { Rental } from "././rental"
+import { RentalDepositAmount } from "././rental-deposit-amount"
+import { RentalDurationUnit } from "././rental-duration-unit"
+import { RentalMoneyAmount } from "././rental-money-amount"
 import { RentalOptionValue } from "././rental-option-value"
+import { RentalUnit } from "././rental-unit"
 import { SoftDeletableEntity } from "@medusajs/medusa"
 import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
 
@@ -28,11 +31,11 @@ export class RentalVariant extends SoftDeletableEntity {
   @JoinColumn({ name: "rental_id" })
   rental: Rental
 
-  @OneToMany(() => MoneyAmount, (ma) => ma.variant, {
+  @OneToMany(() => RentalMoneyAmount, (ma) => ma.variant, {
     cascade: true,
     onDelete: "CASCADE",
   })
-  prices: MoneyAmount[]
+  prices: RentalMoneyAmount[]
 
   @Column({ nullable: true })
   @Index({ unique: true, where: "deleted_at IS NULL" })
@@ -62,6 +65,21 @@ export class RentalVariant extends SoftDeletableEntity {
   @Column({ default: true })
   manage_inventory: boolean
 
+  @DbAwareColumn({ type: "enum", enum: RentalDurationUnit, nullable: true })
+  duration_unit: RentalDurationUnit | null
+
+  @Column({ type: "int", nullable: true })
+  min_duration: number | null
+
+  @Column({ type: "int", nullable: true })
+  max_duration: number | null
+
+  @Column({ type: "int", nullable: true })
+  deposit_amount: number | null
+
+  @OneToMany(() => RentalDepositAmount, (amount) => amount.variant)
+  deposit_amounts: RentalDepositAmount[]
+
   @Column({ nullable: true })
   hs_code: string
 
@@ -91,6 +109,9 @@ export class RentalVariant extends SoftDeletableEntity {
   })
   options: RentalOptionValue[]
 
+  @OneToMany(() => RentalUnit, (unit) => unit.variant)
+  units: RentalUnit[]
+
   @DbAwareColumn({ type: "jsonb", nullable: true })
   metadata: Record<string, unknown>
 
@@ -126,10 +147,10 @@ export class RentalVariant extends SoftDeletableEntity {
  *     description: A rental object. Available if the relation `rental` is expanded.
  *     type: object
  *   prices:
- *     description: The Money Amounts defined for the Rental Variant. Each Money Amount represents a price in a given currency or a price in a specific Region. Available if the relation `prices` is expanded.
+ *     description: The Rental Money Amounts defined for the Rental Variant. Each Rental Money Amount represents a price in a given currency or a price in a specific Region, per duration unit. Available if the relation `prices` is expanded.
  *     type: array
  *     items:
- *       $ref: "#/components/schemas/MoneyAmount"
+ *       $ref: "#/components/schemas/RentalMoneyAmount"
  *   sku:
  *     description: "The unique stock keeping unit used to identify the Rental Variant. This will usually be a unqiue identifer for the item that is to be shipped, and can be referenced across multiple systems."
  *     type: string
@@ -154,6 +175,30 @@ export class RentalVariant extends SoftDeletableEntity {
  *     description: "The current quantity of the item that is stocked."
  *     type: integer
  *     example: 100
+ *   duration_unit:
+ *     description: "The unit that bookings of the Rental Variant are counted in. Falls back to the unit of the Rental."
+ *     type: string
+ *     enum:
+ *       - hour
+ *       - day
+ *       - week
+ *   min_duration:
+ *     description: "The minimum number of duration units a booking lasts. Falls back to the minimum of the Rental."
+ *     type: integer
+ *     example: 1
+ *   max_duration:
+ *     description: "The maximum number of duration units a booking lasts. Falls back to the maximum of the Rental."
+ *     type: integer
+ *     example: 14
+ *   deposit_amount:
+ *     description: "The refundable deposit held for each item booked. Falls back to the deposit of the Rental."
+ *     type: integer
+ *     example: 20000
+ *   deposit_amounts:
+ *     description: The deposits of the Rental Variant in specific Regions, which override its deposit amount. Available if the relation `deposit_amounts` is expanded.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/RentalDepositAmount"
  *   allow_backorder:
  *     description: "Whether the Rental Variant should be purchasable when `inventory_quantity` is 0."
  *     type: boolean
@@ -199,6 +244,11 @@ export class RentalVariant extends SoftDeletableEntity {
  *     type: array
  *     items:
  *       $ref: "#/components/schemas/RentalOptionValue"
+ *   units:
+ *     description: The physical items of the Rental Variant. Available if the relation `units` is expanded.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/RentalUnit"
  *   created_at:
  *     type: string
  *     description: "The date with timezone at which the resource was created."
@@ -225,35 +275,8 @@ export class RentalVariant extends SoftDeletableEntity {
  * properties:
  *   original_price:
  *     type: number
- *     description: The original price of the variant without any discounted prices applied.
+ *     description: The price of the variant charged once per booking, without any discounted prices applied.
  *   calculated_price:
  *     type: number
- *     description: The calculated price of the variant. Can be a discounted price.
- *   original_price_incl_tax:
- *     type: number
- *     description: The original price of the variant including taxes.
- *   calculated_price_incl_tax:
- *     type: number
- *     description: The calculated price of the variant including taxes.
- *   original_tax:
- *     type: number
- *     description: The taxes applied on the original price.
- *   calculated_tax:
- *     type: number
- *     description: The taxes applied on the calculated price.
- *   tax_rates:
- *     type: array
- *     description: An array of applied tax rates
- *     items:
- *       type: object
- *       properties:
- *         rate:
- *           type: number
- *           description: The tax rate value
- *         name:
- *           type: string
- *           description: The name of the tax rate
- *         code:
- *           type: string
- *           description: The code of the tax rate
+ *     description: The calculated price of the variant charged once per booking. Can be a discounted price.
  */
@@ -0,0 +1,154 @@
+import {
+  BeforeInsert,
+  Column,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+} from "typeorm"
+import {
+  DbAwareColumn,
+  resolveDbType,
+} from "@medusajs/medusa/dist/utils/db-aware-column"
+
+import { BaseEntity } from "@medusajs/medusa"
+import { Customer } from "@medusajs/medusa/dist/models/customer"
+import { RentalVariant } from "././rental-variant"
+import { generateEntityId } from "@medusajs/medusa/dist/utils/generate-entity-id"
+
+export enum RentalWaitlistEntryStatus {
+  WAITING = "waiting",
+  NOTIFIED = "notified",
+  EXPIRED = "expired",
+  LEFT = "left",
+}
+
+@Entity()
+export class RentalWaitlistEntry extends BaseEntity {
+  @Index()
+  @Column()
+  variant_id: string
+
+  @ManyToOne(() => RentalVariant)
+  @JoinColumn({ name: "variant_id" })
+  variant: RentalVariant
+
+  @Index()
+  @Column()
+  customer_id: string
+
+  @ManyToOne(() => Customer)
+  @JoinColumn({ name: "customer_id" })
+  customer: Customer
+
+  @Column({ type: resolveDbType("timestamptz") })
+  start_at: Date
+
+  @Column({ type: resolveDbType("timestamptz") })
+  end_at: Date
+
+  @Column({ type: "int", default: 1 })
+  quantity: number
+
+  @DbAwareColumn({
+    type: "enum",
+    enum: RentalWaitlistEntryStatus,
+    default: RentalWaitlistEntryStatus.WAITING,
+  })
+  status: RentalWaitlistEntryStatus
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  hold_id: string | null
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  notified_at: Date | null
+
+  @Column({ type: resolveDbType("timestamptz"), nullable: true })
+  left_at: Date | null
+
+  @DbAwareColumn({ type: "jsonb", nullable: true })
+  metadata: Record<string, unknown> | null
+
+  @BeforeInsert()
+  private beforeInsert(): void {
+    this.id = generateEntityId(this.id, "rwait")
+  }
+}
+
+/**
+ * @schema RentalWaitlistEntry
+ * title: "Rental Waitlist Entry"
+ * description: "A Rental Waitlist Entry puts a customer in line for a period a Rental Variant is fully booked for. When enough items free up, customers are given a hold on them in the order they joined."
+ * type: object
+ * required:
+ *   - variant_id
+ *   - customer_id
+ *   - start_at
+ *   - end_at
+ *   - quantity
+ *   - status
+ * properties:
+ *   id:
+ *     type: string
+ *     description: The rental waitlist entry's ID
+ *     example: rwait_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   variant_id:
+ *     description: "The ID of the Rental Variant waited for."
+ *     type: string
+ *     example: variant_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   variant:
+ *     description: A rental variant object. Available if the relation `variant` is expanded.
+ *     $ref: "#/components/schemas/RentalVariant"
+ *   customer_id:
+ *     description: "The ID of the Customer waiting."
+ *     type: string
+ *     example: cus_01G2SG30J8C85S4A5CHM2S1NS2
+ *   customer:
+ *     description: A customer object. Available if the relation `customer` is expanded.
+ *     type: object
+ *   start_at:
+ *     description: "The date with timezone at which the period waited for starts."
+ *     type: string
+ *     format: date-time
+ *   end_at:
+ *     description: "The date with timezone at which the period waited for ends."
+ *     type: string
+ *     format: date-time
+ *   quantity:
+ *     description: "The number of items waited for."
+ *     type: integer
+ *     example: 1
+ *   status:
+ *     description: "The status of the entry: `notified` once the customer has been given a hold on the items, and `expired` if that hold ran out."
+ *     type: string
+ *     enum:
+ *       - waiting
+ *       - notified
+ *       - expired
+ *       - left
+ *   hold_id:
+ *     description: "The ID of the Rental Hold given to the customer when the items freed up. The hold is removed once it expires or is booked."
+ *     type: string
+ *     example: rhold_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   notified_at:
+ *     description: "The date with timezone at which the customer was given a hold."
+ *     type: string
+ *     format: date-time
+ *   left_at:
+ *     description: "The date with timezone at which the customer left the waitlist."
+ *     type: string
+ *     format: date-time
+ *   created_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was created."
+ *     format: date-time
+ *   updated_at:
+ *     type: string
+ *     description: "The date with timezone at which the resource was updated."
+ *     format: date-time
+ *   metadata:
+ *     type: object
+ *     description: An optional key-value map with additional details
+ *     example: {car: "white"}
+ */
@@ -13,10 +13,13 @@ import {
 import { DbAwareColumn } from "@medusajs/medusa/dist/utils/db-aware-column"
 import { FeatureFlagDecorators } from "@medusajs/medusa/dist/utils/feature-flag-decorators"
 import { Image } from "@medusajs/medusa/dist/models/image"
+import { RentalCancellationPolicy } from "././rental-cancellation-policy"
 import { RentalCollection } from "././rental-collection"
+import { RentalDepositAmount } from "././rental-deposit-amount"
+import { RentalDurationUnit } from "././rental-duration-unit"
 import { RentalOption } from "././rental-option"
 import { RentalTag } from "././rental-tag"
-import { RentalType } from "././rental-type"
+import { RentalLateFeeUnit, RentalType } from "././rental-type"
 import { RentalVariant } from "././rental-variant"
 import { SalesChannel } from "@medusajs/medusa/dist/models/sales-channel"
 //import { ShippingProfile } from "@medusajs/medusa/dist/models/shipping-profile"
@@ -123,6 +126,47 @@ export class Rental extends SoftDeletableEntity {
   @JoinColumn({ name: "type_id" })
   type: RentalType
 
+  @Column({ type: "int", nullable: true })
+  buffer_before: number | null
+
+  @Column({ type: "int", nullable: true })
+  buffer_after: number | null
+
+  @DbAwareColumn({ type: "enum", enum: RentalDurationUnit, nullable: true })
+  duration_unit: RentalDurationUnit | null
+
+  @Column({ type: "int", nullable: true })
+  min_duration: number | null
+
+  @Column({ type: "int", nullable: true })
+  max_duration: number | null
+
+  @DbAwareColumn({ type: "enum", enum: RentalLateFeeUnit, nullable: true })
+  late_fee_unit: RentalLateFeeUnit | null
+
+  @Column({ type: "int", nullable: true })
+  late_fee_amount: number | null
+
+  @Column({ type: "int", nullable: true })
+  late_fee_grace_period: number | null
+
+  @Column({ default: false })
+  prorate_early_returns: boolean
+
+  @Index()
+  @Column({ type: "text", nullable: true })
+  cancellation_policy_id: string | null
+
+  @ManyToOne(() => RentalCancellationPolicy)
+  @JoinColumn({ name: "cancellation_policy_id" })
+  cancellation_policy: RentalCancellationPolicy
+
+  @Column({ type: "int", nullable: true })
+  deposit_amount: number | null
+
+  @OneToMany(() => RentalDepositAmount, (amount) => amount.rental)
+  deposit_amounts: RentalDepositAmount[]
+
   @ManyToMany(() => RentalTag)
   @JoinTable({
     name: "rental_tags",
@@ -286,6 +330,63 @@ export class Rental extends SoftDeletableEntity {
  *   type:
  *     description: Available if the relation `type` is expanded.
  *     $ref: "#/components/schemas/RentalType"
+ *   buffer_before:
+ *     description: "The number of minutes before each booking during which the booked items are held. Overrides the buffer of the Rental Type."
+ *     type: integer
+ *     example: 60
+ *   buffer_after:
+ *     description: "The number of minutes after each booking during which the returned items are held, e.g. for cleaning or inspection. Overrides the buffer of the Rental Type."
+ *     type: integer
+ *     example: 120
+ *   duration_unit:
+ *     description: "The unit that bookings of the Rental are counted in. Bookings must last a whole number of units. Rental Variants can override it."
+ *     type: string
+ *     enum:
+ *       - hour
+ *       - day
+ *       - week
+ *   min_duration:
+ *     description: "The minimum number of duration units a booking lasts. Counted in days if no duration unit is set. Rental Variants can override it."
+ *     type: integer
+ *     example: 1
+ *   max_duration:
+ *     description: "The maximum number of duration units a booking lasts. Counted in days if no duration unit is set. Rental Variants can override it."
+ *     type: integer
+ *     example: 14
+ *   late_fee_unit:
+ *     description: "Whether late fees are charged per started hour or day past the end of a booking. Overrides the late fee unit of the Rental Type."
+ *     type: string
+ *     enum:
+ *       - hour
+ *       - day
+ *   late_fee_amount:
+ *     description: "The late fee charged for each item, per late fee unit. Overrides the late fee amount of the Rental Type."
+ *     type: integer
+ *     example: 1500
+ *   late_fee_grace_period:
+ *     description: "The number of minutes past the end of a booking before late fees are charged. Overrides the grace period of the Rental Type."
+ *     type: integer
+ *     example: 30
+ *   prorate_early_returns:
+ *     description: "Whether the unused days of bookings returned early are refunded, in proportion to the price of the booked period."
+ *     type: boolean
+ *     default: false
+ *   cancellation_policy_id:
+ *     description: "The ID of the Rental Cancellation Policy of the Rental's bookings. Overrides the policy of the Rental Type and the Rental Collection."
+ *     type: string
+ *     example: rcpol_01G1G5V2MRX2V3PVSR2WXYPFB6
+ *   cancellation_policy:
+ *     description: A rental cancellation policy object. Available if the relation `cancellation_policy` is expanded.
+ *     $ref: "#/components/schemas/RentalCancellationPolicy"
+ *   deposit_amount:
+ *     description: "The refundable deposit held for each item booked. Rental Variants and the deposit amounts of a Region can override it."
+ *     type: integer
+ *     example: 20000
+ *   deposit_amounts:
+ *     description: The deposits of the Rental in specific Regions. Available if the relation `deposit_amounts` is expanded.
+ *     type: array
+ *     items:
+ *       $ref: "#/components/schemas/RentalDepositAmount"
  *   tags:
  *     description: The Rental Tags assigned to the Rental. Available if the relation `tags` is expanded.
  *     type: array
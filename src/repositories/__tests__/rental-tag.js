@@ -0,0 +1,54 @@
+import { Connection } from "typeorm"
+import { RentalTagRepository } from "../rental-tag"
+
+describe("RentalTagRepository", () => {
+  let queries
+  let rentalTagRepository
+
+  beforeEach(() => {
+    queries = []
+
+    // Builds the queries without a database, recording what would be run
+    const connection = new Connection({ type: "postgres", entities: [] })
+    connection.buildMetadatas()
+    connection.createQueryRunner = () => ({
+      connection,
+      isTransactionActive: false,
+      query: (query, parameters) => {
+        queries.push([query, parameters])
+        return Promise.resolve({ records: [], affected: 0 })
+      },
+      release: () => Promise.resolve(),
+    })
+
+    rentalTagRepository = new RentalTagRepository()
+    rentalTagRepository.manager = connection.manager
+  })
+
+  describe("mergeTags", () => {
+    it("leaves rentals with both tags a single join", async () => {
+      await rentalTagRepository.mergeTags("ptag_2", "ptag_1")
+
+      expect(queries).toEqual([
+        [
+          `DELETE FROM "rental_tags" WHERE rental_tag_id = $1 AND rental_id IN (SELECT rental_id FROM rental_tags WHERE rental_tag_id = $2)`,
+          ["ptag_2", "ptag_1"],
+        ],
+        [
+          `UPDATE "rental_tags" SET "rental_tag_id" = $1 WHERE rental_tag_id = $2`,
+          ["ptag_1", "ptag_2"],
+        ],
+      ])
+    })
+  })
+
+  describe("countUsage", () => {
+    it("binds the tag ids one by one", async () => {
+      await rentalTagRepository.countUsage(["ptag_1", "ptag_2"])
+
+      const [[query, parameters]] = queries
+      expect(query).toContain("WHERE pts.rental_tag_id IN ($1, $2)")
+      expect(parameters).toEqual(["ptag_1", "ptag_2"])
+    })
+  })
+})
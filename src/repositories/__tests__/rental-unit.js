@@ -0,0 +1,76 @@
+import { Connection } from "typeorm"
+import * as coreModels from "@medusajs/medusa/dist/models"
+import * as models from "../../models"
+import { RentalUnitRepository } from "../rental-unit"
+
+describe("RentalUnitRepository", () => {
+  let queries
+  let rentalUnitRepository
+
+  beforeEach(async () => {
+    queries = []
+
+    // Builds the queries without a database, recording what would be run
+    const connection = new Connection({
+      type: "postgres",
+      entities: [...Object.values(coreModels), ...Object.values(models)].filter(
+        (entity) => typeof entity === "function"
+      ),
+    })
+    await connection.buildMetadatas()
+    connection.createQueryRunner = () => ({
+      connection,
+      isTransactionActive: false,
+      query: (query, parameters, structured) => {
+        queries.push([query, parameters])
+        return Promise.resolve(structured ? { records: [] } : [])
+      },
+      release: () => Promise.resolve(),
+    })
+
+    rentalUnitRepository =
+      connection.manager.getCustomRepository(RentalUnitRepository)
+  })
+
+  describe("findAvailable", () => {
+    const from = new Date("2023-01-10T00:00:00.000Z")
+    const to = new Date("2023-01-12T00:00:00.000Z")
+
+    it("holds the units of overdue bookings past their end", async () => {
+      await rentalUnitRepository.findAvailable("variant_1", from, to)
+
+      const [[query, parameters]] = queries
+      expect(query).toContain(
+        `"booking"."start_at" < $8 AND ("booking"."end_at" > $9 OR "booking"."status" = $10)`
+      )
+      expect(parameters.slice(7)).toEqual([to, from, "overdue"])
+    })
+
+    it("only counts the bookings that hold on to their units", async () => {
+      await rentalUnitRepository.findAvailable("variant_1", from, to)
+
+      const [[query, parameters]] = queries
+      expect(query).toContain(`"unit"."status" IN ($2, $3)`)
+      expect(query).toContain(`"booking"."status" IN ($4, $5, $6, $7)`)
+      expect(parameters.slice(0, 7)).toEqual([
+        "variant_1",
+        "available",
+        "rented",
+        "pending",
+        "confirmed",
+        "active",
+        "overdue",
+      ])
+    })
+
+    it("considers the units of the excluded bookings free", async () => {
+      await rentalUnitRepository.findAvailable("variant_1", from, to, [
+        "rbook_1",
+      ])
+
+      const [[query, parameters]] = queries
+      expect(query).toContain(`"booking"."id" NOT IN ($11)`)
+      expect(parameters[10]).toEqual("rbook_1")
+    })
+  })
+})
@@ -0,0 +1,56 @@
+import { Brackets, EntityRepository, Repository } from "typeorm"
+import { RentalBlackout } from "../models/rental-blackout"
+
+export type RentalBlackoutScope = {
+  variant_id: string
+  rental_id: string
+  rental_collection_id?: string | null
+}
+
+@EntityRepository(RentalBlackout)
+export class RentalBlackoutRepository extends Repository<RentalBlackout> {
+  /**
+   * Finds the blackouts that apply to a variant and overlap with the given
+   * period. Store-wide blackouts apply to all variants; other blackouts
+   * apply to the variants of their rental collection, rental or variant.
+   * @param scope - the variant, with its rental and rental collection
+   * @param from - the start of the period
+   * @param to - the end of the period
+   * @return the blackouts, ordered by start
+   */
+  public async findApplicable(
+    scope: RentalBlackoutScope,
+    from: Date,
+    to: Date
+  ): Promise<RentalBlackout[]> {
+    return await this.createQueryBuilder("blackout")
+      .where("blackout.starts_at < :to", { to })
+      .andWhere("blackout.ends_at > :from", { from })
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where(
+            new Brackets((storeWide) => {
+              storeWide
+                .where("blackout.rental_collection_id IS NULL")
+                .andWhere("blackout.rental_id IS NULL")
+                .andWhere("blackout.variant_id IS NULL")
+            })
+          )
+            .orWhere("blackout.variant_id = :variantId", {
+              variantId: scope.variant_id,
+            })
+            .orWhere("blackout.rental_id = :rentalId", {
+              rentalId: scope.rental_id,
+            })
+
+          if (scope.rental_collection_id) {
+            qb.orWhere("blackout.rental_collection_id = :collectionId", {
+              collectionId: scope.rental_collection_id,
+            })
+          }
+        })
+      )
+      .orderBy("blackout.starts_at", "ASC")
+      .getMany()
+  }
+}
@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { RentalBookingDeposit } from "../models/rental-booking-deposit"
+
+@EntityRepository(RentalBookingDeposit)
+export class RentalBookingDepositRepository extends Repository<RentalBookingDeposit> {}
@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { RentalBookingExtension } from "../models/rental-booking-extension"
+
+@EntityRepository(RentalBookingExtension)
+export class RentalBookingExtensionRepository extends Repository<RentalBookingExtension> {}
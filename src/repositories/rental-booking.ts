@@ -0,0 +1,48 @@
+import { Brackets, EntityRepository, Repository } from "typeorm"
+import { RentalBooking, RentalBookingStatus } from "../models/rental-booking"
+
+/**
+ * Bookings in these statuses hold on to the items they reserve.
+ */
+export const blockingRentalBookingStatuses = [
+  RentalBookingStatus.PENDING,
+  RentalBookingStatus.CONFIRMED,
+  RentalBookingStatus.ACTIVE,
+  RentalBookingStatus.OVERDUE,
+]
+
+@EntityRepository(RentalBooking)
+export class RentalBookingRepository extends Repository<RentalBooking> {
+  /**
+   * Finds the bookings of a variant that overlap with the given period.
+   * Overdue bookings overlap with any period after their start, as their
+   * items are held until they are checked in.
+   * @param variantId - the id of the variant the bookings are for
+   * @param from - the start of the period
+   * @param to - the end of the period
+   * @param statuses - the statuses of the bookings to consider
+   * @return the overlapping bookings
+   */
+  public async findOverlapping(
+    variantId: string,
+    from: Date,
+    to: Date,
+    statuses: RentalBookingStatus[] = blockingRentalBookingStatuses
+  ): Promise<RentalBooking[]> {
+    return await this.createQueryBuilder("booking")
+      .where("booking.variant_id = :variantId", { variantId })
+      .andWhere("booking.status IN (:...statuses)", { statuses })
+      .andWhere("booking.start_at < :to", { to })
+      .andWhere(
+        new Brackets((qb) =>
+          qb
+            .where("booking.end_at > :from", { from })
+            .orWhere("booking.status = :overdue", {
+              overdue: RentalBookingStatus.OVERDUE,
+            })
+        )
+      )
+      .orderBy("booking.start_at", "ASC")
+      .getMany()
+  }
+}
@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { RentalCancellationPolicy } from "../models/rental-cancellation-policy"
+
+@EntityRepository(RentalCancellationPolicy)
+export class RentalCancellationPolicyRepository extends Repository<RentalCancellationPolicy> {}
@@ -1,5 +1,5 @@
 import { EntityRepository, Repository } from "typeorm"
-import { RentalCollection } from "../models"
+import { Rental, RentalCollection, RentalStatus } from "../models"
 import { ExtendedFindConfig, Selector } from "@medusajs/medusa/dist/types/common"
 
 @EntityRepository(RentalCollection)
@@ -33,4 +33,25 @@ export class RentalCollectionRepository extends Repository<RentalCollection> {
       )
       .getManyAndCount()
   }
+
+  public async isCollectionInSalesChannels(
+    id: string,
+    salesChannelIds: string[]
+  ): Promise<boolean> {
+    return (
+      (await this.manager
+        .createQueryBuilder(Rental, "rental")
+        .innerJoin(
+          "rental.sales_channels",
+          "sales_channels",
+          "sales_channels.id IN (:...salesChannelIds)",
+          { salesChannelIds }
+        )
+        .where("rental.collection_id = :id", { id })
+        .andWhere("rental.status = :status", {
+          status: RentalStatus.PUBLISHED,
+        })
+        .getCount()) > 0
+    )
+  }
 }
@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { RentalDamageClaimItem } from "../models/rental-damage-claim-item"
+
+@EntityRepository(RentalDamageClaimItem)
+export class RentalDamageClaimItemRepository extends Repository<RentalDamageClaimItem> {}
@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { RentalDamageClaim } from "../models/rental-damage-claim"
+
+@EntityRepository(RentalDamageClaim)
+export class RentalDamageClaimRepository extends Repository<RentalDamageClaim> {}
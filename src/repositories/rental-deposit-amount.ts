@@ -0,0 +1,26 @@
+import { EntityRepository, Repository } from "typeorm"
+import { RentalDepositAmount } from "../models/rental-deposit-amount"
+import {
+  RentalDepositAmountInput,
+  RentalDepositOwner,
+} from "../types/rental-deposit"
+
+@EntityRepository(RentalDepositAmount)
+export class RentalDepositAmountRepository extends Repository<RentalDepositAmount> {
+  /**
+   * Replaces the deposit amounts of a rental or a variant.
+   * @param owner - the rental or variant the amounts are for
+   * @param amounts - the new amounts, one per region
+   * @return the new amounts
+   */
+  public async replaceAmounts(
+    owner: RentalDepositOwner,
+    amounts: RentalDepositAmountInput[]
+  ): Promise<RentalDepositAmount[]> {
+    await this.delete(owner)
+
+    return await this.save(
+      amounts.map((amount) => this.create({ ...amount, ...owner }))
+    )
+  }
+}
@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { RentalDepositDeduction } from "../models/rental-deposit-deduction"
+
+@EntityRepository(RentalDepositDeduction)
+export class RentalDepositDeductionRepository extends Repository<RentalDepositDeduction> {}
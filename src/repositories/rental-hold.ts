@@ -0,0 +1,41 @@
+import { EntityRepository, LessThanOrEqual, Repository } from "typeorm"
+import { RentalHold } from "../models/rental-hold"
+
+@EntityRepository(RentalHold)
+export class RentalHoldRepository extends Repository<RentalHold> {
+  /**
+   * Finds the holds of a variant that overlap with the given period and have
+   * not expired.
+   * @param variantId - the id of the variant the holds are for
+   * @param from - the start of the period
+   * @param to - the end of the period
+   * @param at - the moment the holds must not have expired at
+   * @return the overlapping holds
+   */
+  public async findOverlapping(
+    variantId: string,
+    from: Date,
+    to: Date,
+    at: Date = new Date()
+  ): Promise<RentalHold[]> {
+    return await this.createQueryBuilder("hold")
+      .where("hold.variant_id = :variantId", { variantId })
+      .andWhere("hold.expires_at > :at", { at })
+      .andWhere("hold.start_at < :to", { to })
+      .andWhere("hold.end_at > :from", { from })
+      .orderBy("hold.start_at", "ASC")
+      .getMany()
+  }
+
+  /**
+   * Finds the holds that have expired.
+   * @param at - the moment the holds must have expired at
+   * @return the expired holds
+   */
+  public async findExpired(at: Date = new Date()): Promise<RentalHold[]> {
+    return await this.find({
+      where: { expires_at: LessThanOrEqual(at) },
+      order: { expires_at: "ASC" },
+    })
+  }
+}
@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { RentalInspection } from "../models/rental-inspection"
+
+@EntityRepository(RentalInspection)
+export class RentalInspectionRepository extends Repository<RentalInspection> {}
@@ -0,0 +1,173 @@
+import { Brackets, EntityRepository, IsNull, Repository } from "typeorm"
+import { RentalMoneyAmount } from "../models/rental-money-amount"
+import { RentalVariantPrice } from "../types/rental-variant"
+
+@EntityRepository(RentalMoneyAmount)
+export class RentalMoneyAmountRepository extends Repository<RentalMoneyAmount> {
+  /**
+   * Finds the prices of a variant that are not part of a price list and are
+   * not matched by any of the given prices. A price is matched by its id, or
+   * by its region or currency together with its duration unit.
+   * @param variantId - the id of the variant
+   * @param prices - the prices to keep
+   * @return the prices that are not matched
+   */
+  public async findVariantPricesNotIn(
+    variantId: string,
+    prices: RentalVariantPrice[]
+  ): Promise<RentalMoneyAmount[]> {
+    const existing = await this.find({
+      where: { variant_id: variantId, price_list_id: IsNull() },
+    })
+
+    return existing.filter(
+      (moneyAmount) =>
+        !prices.some((price) => {
+          if (price.id) {
+            return price.id === moneyAmount.id
+          }
+
+          const sameTarget = price.region_id
+            ? price.region_id === moneyAmount.region_id
+            : !moneyAmount.region_id &&
+              price.currency_code?.toLowerCase() === moneyAmount.currency_code
+
+          return (
+            sameTarget &&
+            (price.duration_unit ?? null) === (moneyAmount.duration_unit ?? null)
+          )
+        })
+    )
+  }
+
+  /**
+   * Creates or updates the price of a variant for a currency and duration
+   * unit.
+   * @param variantId - the id of the variant
+   * @param price - the price to set
+   * @return the saved price
+   */
+  public async upsertVariantCurrencyPrice(
+    variantId: string,
+    price: RentalVariantPrice
+  ): Promise<RentalMoneyAmount> {
+    const currencyCode = price.currency_code?.toLowerCase()
+
+    let moneyAmount = await this.findOne({
+      where: {
+        variant_id: variantId,
+        currency_code: currencyCode,
+        region_id: IsNull(),
+        price_list_id: IsNull(),
+        duration_unit: price.duration_unit ?? IsNull(),
+      },
+    })
+
+    if (!moneyAmount) {
+      moneyAmount = this.create({
+        ...price,
+        currency_code: currencyCode,
+        variant_id: variantId,
+      })
+    } else {
+      moneyAmount.amount = price.amount
+    }
+
+    return await this.save(moneyAmount)
+  }
+
+  /**
+   * Finds the prices of a variant that apply to a region or a currency and
+   * are not part of a price list.
+   * @param variantId - the id of the variant
+   * @param currencyCode - the currency of the prices
+   * @param regionId - the id of the region, if any
+   * @return the prices
+   */
+  public async findVariantRegionOrCurrencyPrices(
+    variantId: string,
+    currencyCode: string,
+    regionId?: string
+  ): Promise<RentalMoneyAmount[]> {
+    return await this.createQueryBuilder("ma")
+      .where("ma.variant_id = :variantId", { variantId })
+      .andWhere("ma.price_list_id IS NULL")
+      .andWhere(this.regionOrCurrency(currencyCode, regionId))
+      .getMany()
+  }
+
+  /**
+   * Finds the prices of a variant in the active price lists that apply to a
+   * customer, in a region or a currency. Without a customer, only the price
+   * lists without customer groups apply.
+   * @param variantId - the id of the variant
+   * @param currencyCode - the currency of the prices
+   * @param regionId - the id of the region, if any
+   * @param customerId - the id of the customer, if any
+   * @return the prices, with their price list
+   */
+  public async findVariantPriceListPrices(
+    variantId: string,
+    currencyCode: string,
+    regionId?: string,
+    customerId?: string
+  ): Promise<RentalMoneyAmount[]> {
+    const date = new Date()
+
+    const qb = this.createQueryBuilder("ma")
+      .innerJoinAndSelect("ma.price_list", "price_list")
+      .leftJoin("price_list.customer_groups", "cgroup")
+      .where("ma.variant_id = :variantId", { variantId })
+      .andWhere("price_list.status = :status", { status: "active" })
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where("price_list.starts_at IS NULL").orWhere(
+            "price_list.starts_at <= :date",
+            { date }
+          )
+        })
+      )
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where("price_list.ends_at IS NULL").orWhere(
+            "price_list.ends_at > :date",
+            { date }
+          )
+        })
+      )
+      .andWhere(this.regionOrCurrency(currencyCode, regionId))
+
+    if (customerId) {
+      qb.leftJoin(
+        "customer_group_customers",
+        "cgc",
+        "cgc.customer_group_id = cgroup.id"
+      ).andWhere(
+        "(cgroup.id IS NULL OR cgc.customer_id = :customerId)",
+        { customerId }
+      )
+    } else {
+      qb.andWhere("cgroup.id IS NULL")
+    }
+
+    return await qb.getMany()
+  }
+
+  private regionOrCurrency(currencyCode: string, regionId?: string): Brackets {
+    return new Brackets((qb) => {
+      qb.where(
+        new Brackets((currency) => {
+          currency
+            .where("ma.region_id IS NULL")
+            .andWhere("ma.currency_code = :currencyCode", {
+              currencyCode: currencyCode.toLowerCase(),
+            })
+        })
+      )
+
+      if (regionId) {
+        qb.orWhere("ma.region_id = :regionId", { regionId })
+      }
+    })
+  }
+}
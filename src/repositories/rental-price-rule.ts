@@ -0,0 +1,78 @@
+import { Brackets, EntityRepository, Repository } from "typeorm"
+import { RentalPriceRule } from "../models/rental-price-rule"
+
+export type RentalPriceRuleScope = {
+  variant_id: string
+  rental_id: string
+  rental_type_id?: string | null
+  rental_collection_id?: string | null
+}
+
+@EntityRepository(RentalPriceRule)
+export class RentalPriceRuleRepository extends Repository<RentalPriceRule> {
+  /**
+   * Finds the price rules that apply to a variant and whose date range
+   * overlaps with the given period. Store-wide rules apply to all variants;
+   * other rules apply to the variants of their rental collection, rental
+   * type, rental or variant.
+   * @param scope - the variant, with its rental, rental type and collection
+   * @param from - the start of the period
+   * @param to - the end of the period
+   * @return the rules, by descending priority
+   */
+  public async findApplicable(
+    scope: RentalPriceRuleScope,
+    from: Date,
+    to: Date
+  ): Promise<RentalPriceRule[]> {
+    return await this.createQueryBuilder("rule")
+      .where(
+        new Brackets((qb) => {
+          qb.where("rule.starts_at IS NULL").orWhere("rule.starts_at < :to", {
+            to,
+          })
+        })
+      )
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where("rule.ends_at IS NULL").orWhere("rule.ends_at > :from", {
+            from,
+          })
+        })
+      )
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where(
+            new Brackets((storeWide) => {
+              storeWide
+                .where("rule.rental_collection_id IS NULL")
+                .andWhere("rule.rental_type_id IS NULL")
+                .andWhere("rule.rental_id IS NULL")
+                .andWhere("rule.variant_id IS NULL")
+            })
+          )
+            .orWhere("rule.variant_id = :variantId", {
+              variantId: scope.variant_id,
+            })
+            .orWhere("rule.rental_id = :rentalId", {
+              rentalId: scope.rental_id,
+            })
+
+          if (scope.rental_type_id) {
+            qb.orWhere("rule.rental_type_id = :typeId", {
+              typeId: scope.rental_type_id,
+            })
+          }
+
+          if (scope.rental_collection_id) {
+            qb.orWhere("rule.rental_collection_id = :collectionId", {
+              collectionId: scope.rental_collection_id,
+            })
+          }
+        })
+      )
+      .orderBy("rule.priority", "DESC")
+      .addOrderBy("rule.created_at", "ASC")
+      .getMany()
+  }
+}
@@ -38,6 +38,56 @@ export class RentalTagRepository extends Repository<RentalTag> {
     )
   }
 
+  public async countUsage(tagIds: string[]): Promise<Map<string, number>> {
+    if (!tagIds.length) {
+      return new Map()
+    }
+
+    const counts: { id: string; usage_count: string }[] = await this.manager
+      .createQueryBuilder()
+      .select("pts.rental_tag_id", "id")
+      .addSelect("COUNT(rental.id)", "usage_count")
+      .from("rental_tags", "pts")
+      .innerJoin("rental", "rental", "rental.id = pts.rental_id")
+      .where("pts.rental_tag_id IN (:...tagIds)", { tagIds })
+      .andWhere("rental.deleted_at IS NULL")
+      .groupBy("pts.rental_tag_id")
+      .getRawMany()
+
+    return new Map(counts.map(({ id, usage_count }) => [id, +usage_count]))
+  }
+
+  public async mergeTags(sourceId: string, targetId: string): Promise<void> {
+    // Rentals tagged with both keep a single join, to the target
+    await this.manager
+      .createQueryBuilder()
+      .delete()
+      .from("rental_tags")
+      .where("rental_tag_id = :sourceId", { sourceId })
+      .andWhere(
+        "rental_id IN (SELECT rental_id FROM rental_tags " +
+          "WHERE rental_tag_id = :targetId)",
+        { targetId }
+      )
+      .execute()
+
+    await this.manager
+      .createQueryBuilder()
+      .update("rental_tags")
+      .set({ rental_tag_id: targetId })
+      .where("rental_tag_id = :sourceId", { sourceId })
+      .execute()
+  }
+
+  public async removeFromRentals(tagId: string): Promise<void> {
+    await this.manager
+      .createQueryBuilder()
+      .delete()
+      .from("rental_tags")
+      .where("rental_tag_id = :tagId", { tagId })
+      .execute()
+  }
+
   public async upsertTags(tags: UpsertTagsInput): Promise<RentalTag[]> {
     const tagsValues = tags.map((tag) => tag.value)
     const existingTags = await this.find({
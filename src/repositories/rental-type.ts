@@ -1,4 +1,5 @@
 import { EntityRepository, Repository } from "typeorm"
+import { Rental } from "../models/rental"
 import { RentalType } from "../models/rental-type"
 import { ExtendedFindConfig, Selector } from "@medusajs/medusa/dist/types/common"
 
@@ -27,6 +28,31 @@ export class RentalTypeRepository extends Repository<RentalType> {
     return await this.save(created)
   }
 
+  async countUsage(typeIds: string[]): Promise<Map<string, number>> {
+    if (!typeIds.length) {
+      return new Map()
+    }
+
+    const counts: { id: string; usage_count: string }[] = await this.manager
+      .createQueryBuilder(Rental, "rental")
+      .select("rental.type_id", "id")
+      .addSelect("COUNT(rental.id)", "usage_count")
+      .where("rental.type_id IN (:...typeIds)", { typeIds })
+      .groupBy("rental.type_id")
+      .getRawMany()
+
+    return new Map(counts.map(({ id, usage_count }) => [id, +usage_count]))
+  }
+
+  async removeFromRentals(typeId: string): Promise<void> {
+    await this.manager
+      .createQueryBuilder()
+      .update(Rental)
+      .set({ type_id: null })
+      .where("type_id = :typeId", { typeId })
+      .execute()
+  }
+
   async findAndCountByDiscountConditionId(
     conditionId: string,
     query: ExtendedFindConfig<RentalType, Selector<RentalType>>
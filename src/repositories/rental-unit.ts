@@ -0,0 +1,72 @@
+import { EntityRepository, Repository } from "typeorm"
+import {
+  RentalBooking,
+  RentalBookingStatus,
+} from "../models/rental-booking"
+import { RentalUnit, RentalUnitStatus } from "../models/rental-unit"
+import { blockingRentalBookingStatuses } from "./rental-booking"
+
+/**
+ * Units in these statuses can be booked and count towards the inventory of
+ * their variant.
+ */
+export const activeRentalUnitStatuses = [
+  RentalUnitStatus.AVAILABLE,
+  RentalUnitStatus.RENTED,
+]
+
+@EntityRepository(RentalUnit)
+export class RentalUnitRepository extends Repository<RentalUnit> {
+  /**
+   * Finds the active units of a variant that are not assigned to a booking
+   * overlapping with the given period. The units of overdue bookings are
+   * held until they are checked in.
+   * @param variantId - the id of the variant the units belong to
+   * @param from - the start of the period
+   * @param to - the end of the period
+   * @param excludeBookingIds - bookings whose units should be considered free
+   * @return the free units, ordered by serial number
+   */
+  public async findAvailable(
+    variantId: string,
+    from: Date,
+    to: Date,
+    excludeBookingIds: string[] = []
+  ): Promise<RentalUnit[]> {
+    return await this.createQueryBuilder("unit")
+      .where("unit.variant_id = :variantId", { variantId })
+      .andWhere("unit.status IN (:...unitStatuses)", {
+        unitStatuses: activeRentalUnitStatuses,
+      })
+      .andWhere((qb) => {
+        const assigned = qb
+          .subQuery()
+          .select("booking_unit.rental_unit_id")
+          .from("rental_booking_units", "booking_unit")
+          .innerJoin(
+            RentalBooking,
+            "booking",
+            "booking.id = booking_unit.rental_booking_id"
+          )
+          .where("booking.deleted_at IS NULL")
+          .andWhere("booking.status IN (:...bookingStatuses)")
+          .andWhere("booking.start_at < :to")
+          .andWhere("(booking.end_at > :from OR booking.status = :overdue)")
+
+        if (excludeBookingIds.length) {
+          assigned.andWhere("booking.id NOT IN (:...excludeBookingIds)")
+        }
+
+        return `unit.id NOT IN ${assigned.getQuery()}`
+      })
+      .setParameters({
+        bookingStatuses: blockingRentalBookingStatuses,
+        overdue: RentalBookingStatus.OVERDUE,
+        from,
+        to,
+        excludeBookingIds,
+      })
+      .orderBy("unit.serial_number", "ASC")
+      .getMany()
+  }
+}
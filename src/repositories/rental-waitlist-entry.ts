@@ -0,0 +1,5 @@
+import { EntityRepository, Repository } from "typeorm"
+import { RentalWaitlistEntry } from "../models/rental-waitlist-entry"
+
+@EntityRepository(RentalWaitlistEntry)
+export class RentalWaitlistEntryRepository extends Repository<RentalWaitlistEntry> {}
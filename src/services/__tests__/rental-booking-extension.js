@@ -0,0 +1,277 @@
+import { MockManager, MockRepository } from "medusa-test-utils"
+import RentalBookingExtensionService from "../rental-booking-extension"
+
+const withTransaction = function () {
+  return this
+}
+
+const eventBusService = {
+  emit: jest.fn(),
+  withTransaction,
+}
+
+describe("RentalBookingExtensionService", () => {
+  const start_at = new Date("2023-01-01T00:00:00.000Z")
+  const end_at = new Date("2023-01-03T00:00:00.000Z")
+  const extended_end_at = new Date("2023-01-05T00:00:00.000Z")
+
+  let booking
+  let paymentProviderService
+  let rentalBookingExtensionRepository
+  let rentalBookingService
+  let rentalVariantService
+  let rentalQuoteService
+  let rentalBookingExtensionService
+
+  beforeEach(() => {
+    booking = {
+      id: "rbook_1",
+      variant_id: "variant_1",
+      customer_id: "cus_1",
+      start_at,
+      end_at,
+      quantity: 2,
+      status: "active",
+      customer: { id: "cus_1", email: "renter@example.com" },
+    }
+
+    rentalBookingService = {
+      retrieve: jest.fn(() => Promise.resolve(booking)),
+      extend: jest.fn((id, endAt) =>
+        Promise.resolve({ ...booking, end_at: endAt })
+      ),
+      withTransaction,
+    }
+
+    rentalVariantService = {
+      getAvailableQuantity: jest.fn(() => Promise.resolve(2)),
+      withTransaction,
+    }
+
+    rentalQuoteService = {
+      quote: jest.fn((variantId, from, to, { region_id, quantity }) => {
+        const days = (to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000)
+        return Promise.resolve({
+          region_id,
+          currency_code: "eur",
+          total: days * 1000 * quantity,
+        })
+      }),
+      withTransaction,
+    }
+
+    paymentProviderService = {
+      createSession: jest.fn((input) =>
+        Promise.resolve({ id: "ps_1", provider_id: input.provider_id })
+      ),
+      authorizePayment: jest.fn((session) =>
+        Promise.resolve({ ...session, status: "authorized" })
+      ),
+      deleteSession: jest.fn(() => Promise.resolve()),
+      createPayment: jest.fn(({ amount, provider_id }) =>
+        Promise.resolve({ id: "pay_1", amount, provider_id })
+      ),
+      capturePayment: jest.fn((payment) =>
+        Promise.resolve({ ...payment, data: { captured: true } })
+      ),
+      cancelPayment: jest.fn(() => Promise.resolve()),
+      refundFromPayment: jest.fn(() => Promise.resolve()),
+    }
+
+    rentalBookingExtensionRepository = MockRepository({
+      create: (data) => ({ ...data }),
+      save: (data) => Promise.resolve({ ...data, id: "rbext_1" }),
+    })
+
+    rentalBookingExtensionService = new RentalBookingExtensionService({
+      manager: MockManager,
+      rentalBookingExtensionRepository,
+      rentalBookingService,
+      rentalQuoteService,
+      rentalVariantService,
+      paymentProviderService,
+      eventBusService,
+    })
+
+    jest.clearAllMocks()
+  })
+
+  describe("quote", () => {
+    it("quotes the difference between the two periods", async () => {
+      const quote = await rentalBookingExtensionService.quote("rbook_1", {
+        end_at: extended_end_at,
+        region_id: "reg_1",
+      })
+
+      expect(rentalVariantService.getAvailableQuantity).toHaveBeenCalledWith(
+        "variant_1",
+        end_at,
+        extended_end_at,
+        ["rbook_1"]
+      )
+      expect(rentalQuoteService.quote).toHaveBeenCalledWith(
+        "variant_1",
+        start_at,
+        end_at,
+        {
+          region_id: "reg_1",
+          customer_id: "cus_1",
+          quantity: 2,
+          override: true,
+        }
+      )
+      expect(rentalQuoteService.quote).toHaveBeenCalledWith(
+        "variant_1",
+        start_at,
+        extended_end_at,
+        {
+          region_id: "reg_1",
+          customer_id: "cus_1",
+          quantity: 2,
+          override: undefined,
+        }
+      )
+      expect(quote).toEqual(
+        expect.objectContaining({
+          previous_total: 4000,
+          total: 8000,
+          amount: 4000,
+        })
+      )
+    })
+
+    it("fails when the extra time is not available", async () => {
+      rentalVariantService.getAvailableQuantity.mockImplementation(() =>
+        Promise.resolve(1)
+      )
+
+      await expect(
+        rentalBookingExtensionService.quote("rbook_1", {
+          end_at: extended_end_at,
+          region_id: "reg_1",
+        })
+      ).rejects.toThrow("1 item(s) available")
+    })
+
+    it("skips the availability check when overridden", async () => {
+      rentalVariantService.getAvailableQuantity.mockImplementation(() =>
+        Promise.resolve(0)
+      )
+
+      const quote = await rentalBookingExtensionService.quote("rbook_1", {
+        end_at: extended_end_at,
+        region_id: "reg_1",
+        override: true,
+      })
+
+      expect(rentalVariantService.getAvailableQuantity).not.toHaveBeenCalled()
+      expect(rentalQuoteService.quote).toHaveBeenLastCalledWith(
+        "variant_1",
+        start_at,
+        extended_end_at,
+        expect.objectContaining({ override: true })
+      )
+      expect(quote.amount).toEqual(4000)
+    })
+
+    it("fails when the new end is not after the current end", async () => {
+      await expect(
+        rentalBookingExtensionService.quote("rbook_1", {
+          end_at: start_at,
+          region_id: "reg_1",
+        })
+      ).rejects.toThrow("must be after")
+    })
+
+    it("fails for a returned booking", async () => {
+      booking.status = "returned"
+
+      await expect(
+        rentalBookingExtensionService.quote("rbook_1", {
+          end_at: extended_end_at,
+          region_id: "reg_1",
+        })
+      ).rejects.toThrow("A returned booking cannot be extended")
+    })
+  })
+
+  describe("create", () => {
+    it("extends the booking and charges the difference", async () => {
+      const extension = await rentalBookingExtensionService.create("rbook_1", {
+        end_at: extended_end_at,
+        region_id: "reg_1",
+        created_by: "cus_1",
+      })
+
+      expect(rentalBookingService.extend).toHaveBeenCalledWith(
+        "rbook_1",
+        extended_end_at,
+        undefined
+      )
+      expect(paymentProviderService.createSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          provider_id: "manual",
+          amount: 4000,
+          currency_code: "eur",
+          resource_id: "rbook_1",
+        })
+      )
+      expect(paymentProviderService.capturePayment).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "pay_1", amount: 4000 })
+      )
+      expect(extension).toEqual(
+        expect.objectContaining({
+          booking_id: "rbook_1",
+          previous_end_at: end_at,
+          end_at: extended_end_at,
+          amount: 4000,
+          provider_id: "manual",
+          payment_id: "pay_1",
+          data: { captured: true },
+          override: false,
+          created_by: "cus_1",
+        })
+      )
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalBookingExtensionService.Events.CREATED,
+        expect.objectContaining({ id: "rbext_1", amount: 4000 })
+      )
+    })
+
+    it("fails when the charge is not authorized", async () => {
+      paymentProviderService.authorizePayment.mockImplementation((session) =>
+        Promise.resolve({ ...session, status: "requires_more" })
+      )
+
+      await expect(
+        rentalBookingExtensionService.create("rbook_1", {
+          end_at: extended_end_at,
+          region_id: "reg_1",
+        })
+      ).rejects.toThrow("could not be authorized")
+      expect(paymentProviderService.deleteSession).toHaveBeenCalled()
+      expect(paymentProviderService.capturePayment).not.toHaveBeenCalled()
+      expect(rentalBookingService.extend).not.toHaveBeenCalled()
+    })
+
+    it("refunds the charge when the booking cannot be extended", async () => {
+      rentalBookingService.extend.mockImplementation(() =>
+        Promise.reject(new Error("units reserved by another booking"))
+      )
+
+      await expect(
+        rentalBookingExtensionService.create("rbook_1", {
+          end_at: extended_end_at,
+          region_id: "reg_1",
+        })
+      ).rejects.toThrow("units reserved by another booking")
+      expect(paymentProviderService.refundFromPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "pay_1" }),
+        4000,
+        "other",
+        "Extension of rental booking rbook_1 not recorded"
+      )
+      expect(rentalBookingExtensionRepository.save).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,593 @@
+import { MockManager, MockRepository } from "medusa-test-utils"
+import { MedusaError } from "medusa-core-utils"
+import RentalBookingService from "../rental-booking"
+
+const eventBusService = {
+  emit: jest.fn(),
+  withTransaction: function () {
+    return this
+  },
+}
+
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe("RentalBookingService", () => {
+  describe("create", () => {
+    const start_at = new Date("2023-01-01T00:00:00.000Z")
+    const end_at = new Date("2023-01-03T00:00:00.000Z")
+
+    let bookings
+    let rentalBookingService
+    let rentalBookingRepository
+    let rentalVariantRepository
+    let rentalVariantService
+    let rentalUnitService
+
+    beforeEach(() => {
+      bookings = []
+
+      rentalBookingRepository = MockRepository({
+        create: (data) => ({ ...data }),
+        save: async (booking) => {
+          await wait(10)
+          const saved = { ...booking, id: `rbook_${bookings.length + 1}` }
+          bookings.push(saved)
+          return saved
+        },
+      })
+
+      rentalVariantRepository = MockRepository({
+        findOne: () => Promise.resolve({ id: "variant_1" }),
+      })
+
+      rentalVariantService = {
+        getAvailableQuantity: jest.fn(async (variantId, from, to) => {
+          await wait(10)
+          const reserved = bookings
+            .filter((b) => b.start_at < to && b.end_at > from)
+            .reduce((acc, b) => acc + b.quantity, 0)
+          return Math.max(1 - reserved, 0)
+        }),
+        getBuffer: jest.fn(() => Promise.resolve({ before: 0, after: 0 })),
+        validateDuration: jest.fn(() => Promise.resolve()),
+        validateBlackouts: jest.fn(() => Promise.resolve()),
+        withTransaction: function () {
+          return this
+        },
+      }
+
+      rentalUnitService = {
+        assignUnits: jest.fn(() => Promise.resolve([])),
+        withTransaction: function () {
+          return this
+        },
+      }
+
+      rentalBookingService = new RentalBookingService({
+        manager: MockManager,
+        rentalBookingRepository,
+        rentalVariantRepository,
+        rentalVariantService,
+        rentalUnitService,
+        eventBusService,
+      })
+
+      jest.clearAllMocks()
+    })
+
+    it("creates a booking when the variant is available", async () => {
+      const booking = await rentalBookingService.create({
+        variant_id: "variant_1",
+        start_at,
+        end_at,
+      })
+
+      expect(booking.id).toEqual("rbook_1")
+      expect(rentalVariantService.getAvailableQuantity).toHaveBeenCalledTimes(1)
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalBookingService.Events.CREATED,
+        { id: "rbook_1", variant_id: "variant_1" }
+      )
+    })
+
+    it("writes to the variant row to lock it without row locking", async () => {
+      await rentalBookingService.create({
+        variant_id: "variant_1",
+        start_at,
+        end_at,
+      })
+
+      expect(rentalVariantRepository.update).toHaveBeenCalledWith("variant_1", {
+        variant_rank: expect.any(Function),
+      })
+      const [[, { variant_rank }]] = rentalVariantRepository.update.mock.calls
+      expect(variant_rank()).toEqual("variant_rank")
+    })
+
+    it("locks the variant row on postgres instead of writing to it", async () => {
+      rentalBookingService = new RentalBookingService({
+        manager: {
+          ...MockManager,
+          connection: { options: { type: "postgres" } },
+        },
+        rentalBookingRepository,
+        rentalVariantRepository,
+        rentalVariantService,
+        rentalUnitService,
+        eventBusService,
+      })
+
+      await rentalBookingService.create({
+        variant_id: "variant_1",
+        start_at,
+        end_at,
+      })
+
+      expect(rentalVariantRepository.findOne).toHaveBeenCalledWith({
+        where: { id: "variant_1" },
+        select: ["id"],
+        lock: { mode: "pessimistic_write" },
+      })
+      expect(rentalVariantRepository.update).not.toHaveBeenCalled()
+    })
+
+    it("keeps processes from overbooking through the row lock", async () => {
+      // Holds the variant row from the locking read until the transaction
+      // that took it ends, like Postgres does
+      let locked = Promise.resolve()
+      const manager = {
+        connection: { options: { type: "postgres" } },
+        getCustomRepository: (repo) => repo,
+        async transaction(isolationOrCb, cb) {
+          const work = typeof isolationOrCb === "string" ? cb : isolationOrCb
+
+          let release = () => undefined
+          const lockingRepo = {
+            ...rentalVariantRepository,
+            findOne: async (query) => {
+              if (query.lock) {
+                const previous = locked
+                locked = new Promise((resolve) => (release = resolve))
+                await previous
+              }
+              return await rentalVariantRepository.findOne(query)
+            },
+          }
+
+          try {
+            return await work({
+              ...this,
+              getCustomRepository: (repo) =>
+                repo === rentalVariantRepository ? lockingRepo : repo,
+            })
+          } finally {
+            release()
+          }
+        },
+      }
+
+      // Each process loads the service, and its in-process lock, on its own
+      const services = [0, 1].map(() => {
+        let Service
+        jest.isolateModules(() => {
+          Service = require("../rental-booking").default
+        })
+        return new Service({
+          manager,
+          rentalBookingRepository,
+          rentalVariantRepository,
+          rentalVariantService,
+          rentalUnitService,
+          eventBusService,
+        })
+      })
+
+      const results = await Promise.allSettled(
+        services.map((service) =>
+          service.create({ variant_id: "variant_1", start_at, end_at })
+        )
+      )
+
+      expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1)
+      expect(bookings).toHaveLength(1)
+    })
+
+    it("accepts only one of two concurrent bookings of the last item", async () => {
+      const results = await Promise.allSettled([
+        rentalBookingService.create({
+          variant_id: "variant_1",
+          start_at,
+          end_at,
+        }),
+        rentalBookingService.create({
+          variant_id: "variant_1",
+          start_at: new Date("2023-01-02T00:00:00.000Z"),
+          end_at: new Date("2023-01-04T00:00:00.000Z"),
+        }),
+      ])
+
+      const fulfilled = results.filter((r) => r.status === "fulfilled")
+      const rejected = results.filter((r) => r.status === "rejected")
+
+      expect(fulfilled).toHaveLength(1)
+      expect(rejected).toHaveLength(1)
+      expect(rejected[0].reason.type).toEqual(MedusaError.Types.CONFLICT)
+      expect(bookings).toHaveLength(1)
+    })
+
+    it("accepts concurrent bookings that do not overlap", async () => {
+      const results = await Promise.allSettled([
+        rentalBookingService.create({
+          variant_id: "variant_1",
+          start_at,
+          end_at,
+        }),
+        rentalBookingService.create({
+          variant_id: "variant_1",
+          start_at: end_at,
+          end_at: new Date("2023-01-05T00:00:00.000Z"),
+        }),
+      ])
+
+      expect(results.every((r) => r.status === "fulfilled")).toBe(true)
+      expect(bookings).toHaveLength(2)
+    })
+  })
+
+  describe("checkIn", () => {
+    let rentalBookingService
+    let rentalVariantService
+    let rentalUnitService
+    let rentalDepositService
+    let rentalInspectionService
+    let rentalBookingRepository
+    const booking = {
+      id: "rbook_1",
+      variant_id: "variant_1",
+      status: "active",
+      start_at: new Date("2023-01-01T00:00:00.000Z"),
+      end_at: new Date("2023-01-03T00:00:00.000Z"),
+      quantity: 1,
+      amount_paid: 6000,
+      units: [{ id: "runit_1" }, { id: "runit_2" }],
+      deposit: { id: "rdep_1", status: "authorized", region_id: "reg_1" },
+      damage_claims: [],
+    }
+
+    beforeEach(() => {
+      rentalBookingRepository = MockRepository({
+        findOne: () => Promise.resolve({ ...booking }),
+        save: (booking) => Promise.resolve(booking),
+      })
+
+      rentalVariantService = {
+        getLateFeeSchedule: jest.fn(() =>
+          Promise.resolve({ unit: "day", amount: 1000, grace_period: 60 })
+        ),
+        retrieve: jest.fn(() =>
+          Promise.resolve({
+            id: "variant_1",
+            rental: { id: "rental_1", prorate_early_returns: true },
+          })
+        ),
+        withTransaction: function () {
+          return this
+        },
+      }
+
+      rentalUnitService = {
+        update: jest.fn(() => Promise.resolve()),
+        withTransaction: function () {
+          return this
+        },
+      }
+
+      rentalDepositService = {
+        release: jest.fn(() => Promise.resolve()),
+        deduct: jest.fn(() => Promise.resolve()),
+        withTransaction: function () {
+          return this
+        },
+      }
+
+      rentalInspectionService = {
+        create: jest.fn((data) => Promise.resolve(data)),
+        withTransaction: function () {
+          return this
+        },
+      }
+
+      rentalBookingService = new RentalBookingService({
+        manager: MockManager,
+        rentalBookingRepository,
+        rentalVariantService,
+        rentalUnitService,
+        rentalDepositService,
+        rentalInspectionService,
+        eventBusService,
+      })
+
+      jest.clearAllMocks()
+    })
+
+    it("records the inspections and keeps the deposit for claims", async () => {
+      const deductions = [{ amount: 2500, reason: "Cracked screen" }]
+
+      const booking = await rentalBookingService.checkIn("rbook_1", {
+        inspected_by: "usr_1",
+        inspections: [{ unit_id: "runit_1", condition: "damaged" }],
+        deposit_deductions: deductions,
+      })
+
+      expect(booking.status).toEqual("returned")
+      expect(booking.checked_in_at).toBeInstanceOf(Date)
+      expect(rentalInspectionService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "check_in",
+          booking_id: "rbook_1",
+          unit_id: "runit_1",
+          inspected_by: "usr_1",
+        })
+      )
+      expect(rentalUnitService.update).toHaveBeenCalledWith("runit_1", {
+        condition: "damaged",
+        status: "maintenance",
+      })
+      expect(rentalUnitService.update).toHaveBeenCalledWith("runit_2", {
+        condition: undefined,
+        status: "available",
+      })
+      expect(rentalDepositService.deduct).toHaveBeenCalledWith(
+        "rdep_1",
+        deductions[0]
+      )
+      expect(rentalDepositService.release).not.toHaveBeenCalled()
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalBookingService.Events.CHECKED_IN,
+        { id: "rbook_1", variant_id: "variant_1" }
+      )
+    })
+
+    it("releases the deposit once the check-in is saved", async () => {
+      await rentalBookingService.checkIn("rbook_1")
+
+      expect(rentalDepositService.release).toHaveBeenCalledWith("rdep_1")
+      const [saved] = rentalBookingRepository.save.mock.invocationCallOrder
+      const [released] = rentalDepositService.release.mock.invocationCallOrder
+      expect(released).toBeGreaterThan(saved)
+    })
+
+    it("keeps units out of service and their deposit held", async () => {
+      rentalBookingRepository.findOne.mockImplementation(() =>
+        Promise.resolve({
+          ...booking,
+          units: [{ id: "runit_1", status: "out_of_service" }],
+          damage_claims: [{ id: "rdmg_1", status: "open" }],
+        })
+      )
+
+      await rentalBookingService.checkIn("rbook_1", {
+        inspections: [{ unit_id: "runit_1", condition: "good" }],
+      })
+
+      expect(rentalUnitService.update).toHaveBeenCalledWith("runit_1", {
+        condition: "good",
+        status: undefined,
+      })
+      expect(rentalDepositService.release).not.toHaveBeenCalled()
+    })
+
+    it("settles the late fees at the time of the return", async () => {
+      const onTime = await rentalBookingService.checkIn("rbook_1", {
+        inspected_at: new Date("2023-01-03T00:30:00.000Z"),
+      })
+      expect(onTime.late_fee_total).toEqual(0)
+
+      const late = await rentalBookingService.checkIn("rbook_1", {
+        inspected_at: new Date("2023-01-04T02:00:00.000Z"),
+      })
+      expect(late.late_fee_total).toEqual(2000)
+    })
+
+    it("keeps the deposit held when asked to", async () => {
+      const deduction = { amount: 2500, reason: "Cracked screen" }
+
+      await rentalBookingService.checkIn("rbook_1", {
+        release_deposit: false,
+        deposit_deductions: [deduction],
+      })
+
+      expect(rentalDepositService.release).not.toHaveBeenCalled()
+      expect(rentalDepositService.deduct).toHaveBeenCalledWith(
+        "rdep_1",
+        deduction
+      )
+    })
+
+    it("refunds the unused days of an early return", async () => {
+      const booking = await rentalBookingService.checkIn("rbook_1", {
+        inspected_at: new Date("2023-01-01T12:00:00.000Z"),
+      })
+
+      expect(booking.early_return_refund).toEqual(3000)
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalBookingService.Events.RETURNED_EARLY,
+        expect.objectContaining({ id: "rbook_1", refund_amount: 3000 })
+      )
+    })
+
+    it("refunds nothing when the rental does not prorate", async () => {
+      rentalVariantService.retrieve.mockImplementation(() =>
+        Promise.resolve({
+          id: "variant_1",
+          rental: { id: "rental_1", prorate_early_returns: false },
+        })
+      )
+
+      const booking = await rentalBookingService.checkIn("rbook_1", {
+        inspected_at: new Date("2023-01-01T12:00:00.000Z"),
+      })
+
+      expect(booking.early_return_refund).toEqual(0)
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalBookingService.Events.RETURNED_EARLY,
+        expect.objectContaining({ id: "rbook_1", refund_amount: 0 })
+      )
+    })
+
+    it("rejects inspections of units of another booking", async () => {
+      await expect(
+        rentalBookingService.checkIn("rbook_1", {
+          inspections: [{ unit_id: "runit_3", condition: "good" }],
+        })
+      ).rejects.toThrow("Unit with id: runit_3 is not assigned to booking")
+    })
+  })
+
+  describe("processOverdue", () => {
+    const at = new Date("2023-01-03T05:00:00.000Z")
+
+    let rentalBookingService
+    let rentalBookingRepository
+
+    beforeEach(() => {
+      rentalBookingRepository = MockRepository({
+        find: () =>
+          Promise.resolve([
+            {
+              id: "rbook_1",
+              variant_id: "variant_1",
+              status: "active",
+              end_at: new Date("2023-01-03T00:00:00.000Z"),
+              quantity: 2,
+            },
+            {
+              id: "rbook_2",
+              variant_id: "variant_1",
+              status: "overdue",
+              end_at: new Date("2023-01-02T00:00:00.000Z"),
+              quantity: 1,
+              overdue_at: new Date("2023-01-02T00:15:00.000Z"),
+            },
+          ]),
+        save: (bookings) => Promise.resolve(bookings),
+      })
+
+      const rentalVariantService = {
+        getLateFeeSchedule: jest.fn(() =>
+          Promise.resolve({ unit: "hour", amount: 500, grace_period: 0 })
+        ),
+        withTransaction: function () {
+          return this
+        },
+      }
+
+      rentalBookingService = new RentalBookingService({
+        manager: MockManager,
+        rentalBookingRepository,
+        rentalVariantService,
+        eventBusService,
+      })
+
+      jest.clearAllMocks()
+    })
+
+    it("marks active bookings past their end as overdue", async () => {
+      const overdue = await rentalBookingService.processOverdue(at)
+
+      expect(overdue).toHaveLength(1)
+      expect(overdue[0]).toEqual(
+        expect.objectContaining({
+          id: "rbook_1",
+          status: "overdue",
+          overdue_at: at,
+          late_fee_total: 5000,
+        })
+      )
+      expect(eventBusService.emit).toHaveBeenCalledTimes(1)
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalBookingService.Events.OVERDUE,
+        { id: "rbook_1", variant_id: "variant_1", late_fee_total: 5000 }
+      )
+    })
+
+    it("accrues the late fees of bookings already overdue", async () => {
+      await rentalBookingService.processOverdue(at)
+
+      const [bookings] = rentalBookingRepository.save.mock.calls[0]
+      expect(bookings[1]).toEqual(
+        expect.objectContaining({
+          id: "rbook_2",
+          overdue_at: new Date("2023-01-02T00:15:00.000Z"),
+          late_fee_total: 14500,
+        })
+      )
+    })
+  })
+
+  describe("cancel", () => {
+    let rentalBookingService
+    let rentalCancellationPolicyService
+
+    beforeEach(() => {
+      const rentalBookingRepository = MockRepository({
+        findOne: () =>
+          Promise.resolve({
+            id: "rbook_1",
+            variant_id: "variant_1",
+            status: "confirmed",
+            start_at: new Date("2023-01-10T00:00:00.000Z"),
+            amount_paid: 6000,
+            variant: { id: "variant_1", rental_id: "rental_1" },
+            extensions: [
+              { id: "rext_1", amount: 1500, payment_id: "pay_1" },
+              { id: "rext_2", amount: 0, payment_id: null },
+            ],
+          }),
+        save: (booking) => Promise.resolve(booking),
+      })
+
+      rentalCancellationPolicyService = {
+        retrieveForRental: jest.fn(() => Promise.resolve({ id: "rcp_1" })),
+        computeRefund: jest.fn((policy, startAt, canceledAt, amountPaid) => ({
+          policy_id: policy.id,
+          refund_percentage: 50,
+          refund_amount: amountPaid / 2,
+        })),
+        withTransaction: function () {
+          return this
+        },
+      }
+
+      rentalBookingService = new RentalBookingService({
+        manager: MockManager,
+        rentalBookingRepository,
+        rentalCancellationPolicyService,
+        eventBusService,
+      })
+
+      jest.clearAllMocks()
+    })
+
+    it("refunds from the amount paid for the booking", async () => {
+      const result = await rentalBookingService.cancel("rbook_1")
+
+      expect(
+        rentalCancellationPolicyService.computeRefund
+      ).toHaveBeenCalledWith(
+        { id: "rcp_1" },
+        new Date("2023-01-10T00:00:00.000Z"),
+        expect.any(Date),
+        7500
+      )
+      expect(result).toEqual(
+        expect.objectContaining({
+          status: "canceled",
+          cancellation_policy_id: "rcp_1",
+          refund_percentage: 50,
+          refund_amount: 3750,
+        })
+      )
+    })
+  })
+})
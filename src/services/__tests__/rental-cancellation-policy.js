@@ -0,0 +1,136 @@
+import { MockManager, MockRepository } from "medusa-test-utils"
+import RentalCancellationPolicyService from "../rental-cancellation-policy"
+
+const eventBusService = {
+  emit: jest.fn(),
+  withTransaction: function () {
+    return this
+  },
+}
+
+describe("RentalCancellationPolicyService", () => {
+  const moderate = {
+    id: "rcpol_moderate",
+    rules: [
+      { min_hours_before: 24, refund_percentage: 50 },
+      { min_hours_before: 120, refund_percentage: 100 },
+    ],
+  }
+
+  let rentalRepository
+  let rentalCancellationPolicyService
+
+  beforeEach(() => {
+    rentalRepository = MockRepository({
+      findOne: () =>
+        Promise.resolve({
+          id: "rental_1",
+          cancellation_policy: null,
+          type: { cancellation_policy: null },
+          collection: { cancellation_policy: moderate },
+        }),
+    })
+
+    rentalCancellationPolicyService = new RentalCancellationPolicyService({
+      manager: MockManager,
+      rentalCancellationPolicyRepository: MockRepository({
+        create: (data) => ({ ...data }),
+        save: (data) => Promise.resolve({ ...data, id: "rcpol_1" }),
+      }),
+      rentalRepository,
+      eventBusService,
+    })
+
+    jest.clearAllMocks()
+  })
+
+  describe("computeRefund", () => {
+    const start_at = new Date("2023-01-10T00:00:00.000Z")
+
+    it("refunds by the rule with the most hours still before the start", () => {
+      expect(
+        rentalCancellationPolicyService.computeRefund(
+          moderate,
+          start_at,
+          new Date("2023-01-01T00:00:00.000Z"),
+          6000
+        )
+      ).toEqual({
+        policy_id: "rcpol_moderate",
+        refund_percentage: 100,
+        refund_amount: 6000,
+      })
+
+      expect(
+        rentalCancellationPolicyService.computeRefund(
+          moderate,
+          start_at,
+          new Date("2023-01-08T00:00:00.000Z"),
+          6000
+        )
+      ).toEqual(
+        expect.objectContaining({ refund_percentage: 50, refund_amount: 3000 })
+      )
+    })
+
+    it("refunds nothing when no rule applies", () => {
+      expect(
+        rentalCancellationPolicyService.computeRefund(
+          moderate,
+          start_at,
+          new Date("2023-01-09T12:00:00.000Z"),
+          6000
+        )
+      ).toEqual(
+        expect.objectContaining({ refund_percentage: 0, refund_amount: 0 })
+      )
+    })
+
+    it("refunds in full without a policy", () => {
+      expect(
+        rentalCancellationPolicyService.computeRefund(
+          null,
+          start_at,
+          new Date("2023-01-09T12:00:00.000Z")
+        )
+      ).toEqual({
+        policy_id: null,
+        refund_percentage: 100,
+        refund_amount: null,
+      })
+    })
+  })
+
+  describe("retrieveForRental", () => {
+    it("falls back to the policy of the rental collection", async () => {
+      const policy = await rentalCancellationPolicyService.retrieveForRental(
+        "rental_1"
+      )
+
+      expect(policy).toEqual(moderate)
+    })
+  })
+
+  describe("create", () => {
+    it("fails with two rules for the same number of hours", async () => {
+      await expect(
+        rentalCancellationPolicyService.create({
+          name: "Broken",
+          rules: [
+            { min_hours_before: 24, refund_percentage: 50 },
+            { min_hours_before: 24, refund_percentage: 100 },
+          ],
+        })
+      ).rejects.toThrow("only one rule per number of hours")
+    })
+
+    it("fails with a percentage above 100", async () => {
+      await expect(
+        rentalCancellationPolicyService.create({
+          name: "Generous",
+          rules: [{ min_hours_before: 24, refund_percentage: 150 }],
+        })
+      ).rejects.toThrow("between 0 and 100")
+    })
+  })
+})
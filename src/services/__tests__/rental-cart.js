@@ -0,0 +1,343 @@
+import { MockManager } from "medusa-test-utils"
+import RentalCartService from "../rental-cart"
+
+const withTransaction = function () {
+  return this
+}
+
+const eventBusService = {
+  emit: jest.fn(),
+  withTransaction,
+}
+
+describe("RentalCartService", () => {
+  const start_at = new Date("2023-01-01T00:00:00.000Z")
+  const end_at = new Date("2023-01-03T00:00:00.000Z")
+
+  let cart
+  let holds
+  let cartService
+  let lineItemService
+  let orderService
+  let rentalBookingService
+  let rentalHoldService
+  let rentalQuoteService
+  let rentalCartService
+
+  beforeEach(() => {
+    cart = {
+      id: "cart_1",
+      region_id: "reg_1",
+      customer_id: "cus_1",
+      completed_at: null,
+      items: [
+        {
+          id: "item_1",
+          quantity: 2,
+          metadata: {
+            rental_variant_id: "variant_1",
+            rental_hold_id: "rhold_1",
+            start_at: start_at.toISOString(),
+            end_at: end_at.toISOString(),
+          },
+        },
+        {
+          id: "item_2",
+          quantity: 1,
+          metadata: {
+            rental_variant_id: "variant_2",
+            rental_hold_id: "rhold_2",
+            start_at: start_at.toISOString(),
+            end_at: end_at.toISOString(),
+          },
+        },
+        { id: "item_3", quantity: 1, metadata: {} },
+      ],
+    }
+
+    holds = { rhold_1: { id: "rhold_1" } }
+
+    cartService = {
+      retrieve: jest.fn(() => Promise.resolve(cart)),
+      addLineItem: jest.fn(() => Promise.resolve()),
+      removeLineItem: jest.fn(() => Promise.resolve()),
+      withTransaction,
+    }
+
+    lineItemService = {
+      retrieve: jest.fn(() =>
+        Promise.resolve({
+          id: "item_1",
+          cart_id: "cart_1",
+          metadata: { rental_hold_id: "rhold_1" },
+        })
+      ),
+      update: jest.fn(() => Promise.resolve()),
+      withTransaction,
+    }
+
+    orderService = {
+      retrieveWithTotals: jest.fn(() =>
+        Promise.resolve({
+          id: "order_1",
+          cart_id: "cart_1",
+          customer_id: "cus_1",
+          items: cart.items.map((item) => ({ ...item, total: 6000 })),
+        })
+      ),
+      cancel: jest.fn(() => Promise.resolve()),
+      withTransaction,
+    }
+
+    rentalBookingService = {
+      list: jest.fn(() => Promise.resolve([])),
+      create: jest.fn((data) =>
+        Promise.resolve({ ...data, id: `rbook_${data.variant_id}` })
+      ),
+      withTransaction,
+    }
+
+    rentalHoldService = {
+      list: jest.fn(({ id }) =>
+        Promise.resolve(holds[id] ? [holds[id]] : [])
+      ),
+      create: jest.fn((data) => Promise.resolve({ ...data, id: "rhold_3" })),
+      renew: jest.fn((id) => Promise.resolve({ ...holds[id] })),
+      release: jest.fn(() => Promise.resolve()),
+      withTransaction,
+    }
+
+    rentalQuoteService = {
+      quote: jest.fn(() =>
+        Promise.resolve({
+          subtotal: 6000,
+          discount_total: 1000,
+          tax_total: 1250,
+          total: 6250,
+        })
+      ),
+      withTransaction,
+    }
+
+    const rentalVariantService = {
+      retrieve: jest.fn(() =>
+        Promise.resolve({
+          id: "variant_1",
+          title: "Large",
+          rental: { title: "Kayak", thumbnail: "kayak.png" },
+        })
+      ),
+      withTransaction,
+    }
+
+    rentalCartService = new RentalCartService({
+      manager: MockManager,
+      cartService,
+      lineItemService,
+      orderService,
+      rentalBookingService,
+      rentalHoldService,
+      rentalQuoteService,
+      rentalVariantService,
+      eventBusService,
+    })
+
+    jest.clearAllMocks()
+  })
+
+  describe("addItem", () => {
+    it("holds the items and adds a line priced by the quote", async () => {
+      await rentalCartService.addItem("cart_1", {
+        variant_id: "variant_1",
+        start_at,
+        end_at,
+        quantity: 2,
+      })
+
+      expect(rentalQuoteService.quote).toHaveBeenCalledWith(
+        "variant_1",
+        start_at,
+        end_at,
+        { region_id: "reg_1", customer_id: "cus_1", quantity: 2 }
+      )
+      expect(rentalHoldService.create).toHaveBeenCalledWith({
+        variant_id: "variant_1",
+        cart_id: "cart_1",
+        start_at,
+        end_at,
+        quantity: 2,
+        ttl_minutes: undefined,
+      })
+      expect(cartService.addLineItem).toHaveBeenCalledWith(
+        "cart_1",
+        expect.objectContaining({
+          title: "Kayak",
+          description: "Large",
+          unit_price: 2500,
+          quantity: 2,
+          metadata: expect.objectContaining({
+            rental_variant_id: "variant_1",
+            rental_hold_id: "rhold_3",
+          }),
+        }),
+        { validateSalesChannels: false }
+      )
+    })
+
+    it("fails for a completed cart", async () => {
+      cart.completed_at = new Date()
+
+      await expect(
+        rentalCartService.addItem("cart_1", {
+          variant_id: "variant_1",
+          start_at,
+          end_at,
+        })
+      ).rejects.toThrow("already completed")
+      expect(rentalHoldService.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("removeItem", () => {
+    it("releases the hold and removes the line", async () => {
+      await rentalCartService.removeItem("cart_1", "item_1")
+
+      expect(rentalHoldService.release).toHaveBeenCalledWith("rhold_1")
+      expect(cartService.removeLineItem).toHaveBeenCalledWith(
+        "cart_1",
+        "item_1"
+      )
+    })
+
+    it("fails for a line of another cart", async () => {
+      await expect(
+        rentalCartService.removeItem("cart_2", "item_1")
+      ).rejects.toThrow("was not found in cart cart_2")
+      expect(rentalHoldService.release).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("holdItems", () => {
+    it("renews held items and holds released ones again", async () => {
+      const result = await rentalCartService.holdItems("cart_1", 20)
+
+      expect(rentalHoldService.renew).toHaveBeenCalledTimes(1)
+      expect(rentalHoldService.renew).toHaveBeenCalledWith("rhold_1", 20)
+      expect(rentalHoldService.create).toHaveBeenCalledWith({
+        variant_id: "variant_2",
+        cart_id: "cart_1",
+        start_at,
+        end_at,
+        quantity: 1,
+        ttl_minutes: 20,
+      })
+      expect(lineItemService.update).toHaveBeenCalledWith("item_2", {
+        metadata: expect.objectContaining({ rental_hold_id: "rhold_3" }),
+      })
+      expect(result).toHaveLength(2)
+    })
+  })
+
+  describe("createOrderBookings", () => {
+    it("replaces the holds of the order with confirmed bookings", async () => {
+      const bookings = await rentalCartService.createOrderBookings("order_1")
+
+      expect(rentalHoldService.release).toHaveBeenCalledWith("rhold_1")
+      expect(rentalBookingService.create).toHaveBeenCalledTimes(2)
+      expect(rentalBookingService.create).toHaveBeenCalledWith({
+        variant_id: "variant_1",
+        customer_id: "cus_1",
+        cart_id: "cart_1",
+        order_id: "order_1",
+        line_item_id: "item_1",
+        start_at,
+        end_at,
+        quantity: 2,
+        amount_paid: 6000,
+        status: "confirmed",
+      })
+      expect(bookings).toHaveLength(2)
+    })
+
+    it("leaves an order already booked as it is", async () => {
+      rentalBookingService.list.mockImplementation(() =>
+        Promise.resolve([{ id: "rbook_1" }])
+      )
+
+      const bookings = await rentalCartService.createOrderBookings("order_1")
+
+      expect(rentalBookingService.create).not.toHaveBeenCalled()
+      expect(bookings).toEqual([])
+    })
+  })
+
+  describe("validateHolds", () => {
+    const expires_at = new Date(Date.now() + 60 * 1000)
+
+    beforeEach(() => {
+      holds = {
+        rhold_1: {
+          id: "rhold_1",
+          cart_id: "cart_1",
+          variant_id: "variant_1",
+          quantity: 2,
+          expires_at,
+        },
+        rhold_2: {
+          id: "rhold_2",
+          cart_id: "cart_1",
+          variant_id: "variant_2",
+          quantity: 1,
+          expires_at,
+        },
+      }
+    })
+
+    it("accepts a cart whose rental items are all held", async () => {
+      await expect(
+        rentalCartService.validateHolds("cart_1")
+      ).resolves.toBeUndefined()
+    })
+
+    it("rejects a cart with a released hold", async () => {
+      delete holds.rhold_2
+
+      await expect(rentalCartService.validateHolds("cart_1")).rejects.toThrow(
+        "The items of line item item_2 are no longer held"
+      )
+    })
+
+    it("rejects a cart with an expired hold", async () => {
+      holds.rhold_1.expires_at = new Date(Date.now() - 1000)
+
+      await expect(rentalCartService.validateHolds("cart_1")).rejects.toThrow(
+        "The items of line item item_1 are no longer held"
+      )
+    })
+  })
+
+  describe("cancelUnbookedOrder", () => {
+    it("cancels the order and tells why", async () => {
+      await rentalCartService.cancelUnbookedOrder("order_1", "Sold out")
+
+      expect(orderService.cancel).toHaveBeenCalledWith("order_1")
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalCartService.Events.ORDER_BOOKING_FAILED,
+        { id: "order_1", reason: "Sold out", canceled: true }
+      )
+    })
+
+    it("still tells when the order cannot be canceled", async () => {
+      orderService.cancel.mockImplementation(() =>
+        Promise.reject(new Error("Order with refund(s) cannot be canceled"))
+      )
+
+      await rentalCartService.cancelUnbookedOrder("order_1", "Sold out")
+
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalCartService.Events.ORDER_BOOKING_FAILED,
+        { id: "order_1", reason: "Sold out", canceled: false }
+      )
+    })
+  })
+})
@@ -0,0 +1,243 @@
+import { MockManager, MockRepository } from "medusa-test-utils"
+import RentalCollectionService from "../rental-collection"
+
+const eventBusService = {
+  emit: jest.fn(),
+  withTransaction: function () {
+    return this
+  },
+}
+
+describe("RentalCollectionService", () => {
+  let collection
+  let rentalCollectionRepository
+  let rentalRepository
+  let rentalCollectionService
+
+  beforeEach(() => {
+    collection = {
+      id: "rcol_1",
+      title: "Bikes",
+      handle: "bikes",
+      metadata: { season: "summer" },
+    }
+
+    rentalCollectionRepository = {
+      ...MockRepository({
+        findOne: () => Promise.resolve(collection && { ...collection }),
+        create: (data) => ({ ...data }),
+        save: (data) => Promise.resolve({ id: "rcol_1", ...data }),
+        softRemove: () => Promise.resolve(),
+        findAndCount: () => Promise.resolve([[collection], 1]),
+      }),
+      findAndCountByDiscountConditionId: jest.fn(() =>
+        Promise.resolve([[collection], 1])
+      ),
+      isCollectionInSalesChannels: jest.fn(() => Promise.resolve(true)),
+    }
+
+    rentalRepository = {
+      bulkAddToCollection: jest.fn(() => Promise.resolve([])),
+      bulkRemoveFromCollection: jest.fn(() => Promise.resolve([])),
+    }
+
+    rentalCollectionService = new RentalCollectionService({
+      manager: MockManager,
+      rentalCollectionRepository,
+      rentalRepository,
+      eventBusService,
+    })
+
+    jest.clearAllMocks()
+  })
+
+  describe("retrieve", () => {
+    it("retrieves a collection", async () => {
+      const result = await rentalCollectionService.retrieve("rcol_1")
+
+      expect(rentalCollectionRepository.findOne).toHaveBeenCalledWith({
+        where: { id: "rcol_1" },
+      })
+      expect(result).toEqual(collection)
+    })
+
+    it("fails for an unknown collection", async () => {
+      collection = undefined
+
+      await expect(rentalCollectionService.retrieve("rcol_2")).rejects.toThrow(
+        "Rental collection with id: rcol_2 was not found"
+      )
+    })
+
+    it("fails for an unknown handle", async () => {
+      collection = undefined
+
+      await expect(
+        rentalCollectionService.retrieveByHandle("boats")
+      ).rejects.toThrow("Rental collection with handle: boats was not found")
+    })
+  })
+
+  describe("create", () => {
+    it("creates a collection", async () => {
+      const result = await rentalCollectionService.create({
+        title: "Boats",
+        handle: "boats",
+      })
+
+      expect(rentalCollectionRepository.create).toHaveBeenCalledWith({
+        title: "Boats",
+        handle: "boats",
+      })
+      expect(result).toEqual({ id: "rcol_1", title: "Boats", handle: "boats" })
+    })
+  })
+
+  describe("update", () => {
+    it("updates the fields and merges the metadata", async () => {
+      await rentalCollectionService.update("rcol_1", {
+        title: "E-bikes",
+        metadata: { size: "large" },
+      })
+
+      expect(rentalCollectionRepository.save).toHaveBeenCalledWith({
+        id: "rcol_1",
+        title: "E-bikes",
+        handle: "bikes",
+        metadata: { season: "summer", size: "large" },
+      })
+    })
+
+    it("fails for an unknown collection", async () => {
+      collection = undefined
+
+      await expect(
+        rentalCollectionService.update("rcol_2", { title: "E-bikes" })
+      ).rejects.toThrow("was not found")
+      expect(rentalCollectionRepository.save).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("delete", () => {
+    it("soft deletes a collection", async () => {
+      await rentalCollectionService.delete("rcol_1")
+
+      expect(rentalCollectionRepository.softRemove).toHaveBeenCalledWith(
+        collection
+      )
+    })
+  })
+
+  describe("addRentals", () => {
+    it("adds the rentals and returns the collection with its rentals", async () => {
+      const retrieve = jest.spyOn(rentalCollectionService, "retrieve")
+
+      await rentalCollectionService.addRentals("rcol_1", ["rental_1"])
+
+      expect(rentalRepository.bulkAddToCollection).toHaveBeenCalledWith(
+        ["rental_1"],
+        "rcol_1"
+      )
+      expect(retrieve).toHaveBeenLastCalledWith("rcol_1", {
+        relations: ["rentals"],
+      })
+    })
+
+    it("fails for an unknown collection", async () => {
+      collection = undefined
+
+      await expect(
+        rentalCollectionService.addRentals("rcol_2", ["rental_1"])
+      ).rejects.toThrow("was not found")
+      expect(rentalRepository.bulkAddToCollection).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("removeRentals", () => {
+    it("removes the rentals from the collection", async () => {
+      await rentalCollectionService.removeRentals("rcol_1", ["rental_1"])
+
+      expect(rentalRepository.bulkRemoveFromCollection).toHaveBeenCalledWith(
+        ["rental_1"],
+        "rcol_1"
+      )
+    })
+  })
+
+  describe("listAndCount", () => {
+    it("lists the collections", async () => {
+      const result = await rentalCollectionService.listAndCount(
+        { title: "Bikes" },
+        { skip: 0, take: 10 }
+      )
+
+      expect(rentalCollectionRepository.findAndCount).toHaveBeenCalledWith({
+        where: { title: "Bikes" },
+        skip: 0,
+        take: 10,
+      })
+      expect(result).toEqual([[collection], 1])
+    })
+
+    it("searches the title and handle", async () => {
+      await rentalCollectionService.listAndCount({ q: "bik" })
+
+      const [[query]] = rentalCollectionRepository.findAndCount.mock.calls
+      const qb = {
+        where: jest.fn(),
+        andWhere: jest.fn(),
+      }
+      query.where(qb)
+
+      expect(qb.where).toHaveBeenCalledWith({})
+      expect(qb.andWhere).toHaveBeenCalledTimes(1)
+    })
+
+    it("lists the collections of a discount condition", async () => {
+      await rentalCollectionService.listAndCount({
+        discount_condition_id: "dc_1",
+      })
+
+      expect(
+        rentalCollectionRepository.findAndCountByDiscountConditionId
+      ).toHaveBeenCalledWith("dc_1", { where: {}, skip: 0, take: 20 })
+      expect(rentalCollectionRepository.findAndCount).not.toHaveBeenCalled()
+    })
+
+    it("keeps the collections with a published rental in the sales channels", async () => {
+      await rentalCollectionService.listAndCount({
+        id: ["rcol_1", "rcol_2"],
+        sales_channel_id: ["sc_1"],
+      })
+
+      const [[query]] = rentalCollectionRepository.findAndCount.mock.calls
+      const { _getSql, _objectLiteralParameters } = query.where.id
+
+      expect(_getSql("collection.id")).toEqual(
+        "collection.id IN (:...ids) AND collection.id IN (SELECT r.collection_id " +
+          "FROM rental r INNER JOIN rental_sales_channel rsc ON rsc.rental_id = r.id " +
+          "WHERE r.status = :status AND r.deleted_at IS NULL " +
+          "AND rsc.sales_channel_id IN (:...salesChannelIds))"
+      )
+      expect(_objectLiteralParameters).toEqual({
+        status: "published",
+        salesChannelIds: ["sc_1"],
+        ids: ["rcol_1", "rcol_2"],
+      })
+    })
+  })
+
+  describe("isCollectionInSalesChannels", () => {
+    it("checks the published rentals of the collection", async () => {
+      const result = await rentalCollectionService.isCollectionInSalesChannels(
+        "rcol_1",
+        ["sc_1"]
+      )
+
+      expect(
+        rentalCollectionRepository.isCollectionInSalesChannels
+      ).toHaveBeenCalledWith("rcol_1", ["sc_1"])
+      expect(result).toEqual(true)
+    })
+  })
+})
@@ -0,0 +1,208 @@
+import { MockManager, MockRepository } from "medusa-test-utils"
+import RentalDamageClaimService from "../rental-damage-claim"
+
+const withTransaction = function () {
+  return this
+}
+
+const eventBusService = {
+  emit: jest.fn(),
+  withTransaction,
+}
+
+describe("RentalDamageClaimService", () => {
+  let rentalDamageClaimService
+  let rentalDamageClaimRepository
+  let rentalBookingService
+  let rentalDepositService
+  let rentalUnitService
+  let paymentCollectionService
+
+  beforeEach(() => {
+    rentalDamageClaimRepository = MockRepository({
+      create: (data) => ({ ...data }),
+      findOne: () =>
+        Promise.resolve({
+          id: "rdmg_1",
+          booking_id: "rbook_1",
+          status: "open",
+          total: 7500,
+          created_by: "usr_1",
+        }),
+      save: (claim) => Promise.resolve({ id: "rdmg_1", ...claim }),
+    })
+
+    const rentalDamageClaimItemRepository = MockRepository({
+      create: (data) => ({ ...data }),
+    })
+
+    rentalBookingService = {
+      retrieve: jest.fn(() =>
+        Promise.resolve({
+          id: "rbook_1",
+          status: "returned",
+          units: [{ id: "runit_1" }],
+          deposit: {
+            id: "rdep_1",
+            status: "authorized",
+            region_id: "reg_1",
+            currency_code: "eur",
+            amount: 10000,
+            amount_deducted: 5000,
+          },
+          damage_claims: [{ id: "rdmg_1", status: "open" }],
+        })
+      ),
+      withTransaction,
+    }
+
+    const rentalInspectionService = {
+      retrieve: jest.fn(() =>
+        Promise.resolve({
+          id: "rinsp_1",
+          booking_id: "rbook_1",
+          unit_id: "runit_1",
+        })
+      ),
+      withTransaction,
+    }
+
+    rentalDepositService = {
+      deduct: jest.fn(() => Promise.resolve()),
+      release: jest.fn(() => Promise.resolve()),
+      withTransaction,
+    }
+
+    paymentCollectionService = {
+      create: jest.fn(() => Promise.resolve({ id: "paycol_1" })),
+      withTransaction,
+    }
+
+    rentalUnitService = {
+      update: jest.fn(() => Promise.resolve()),
+      withTransaction,
+    }
+
+    rentalDamageClaimService = new RentalDamageClaimService({
+      manager: MockManager,
+      rentalDamageClaimRepository,
+      rentalDamageClaimItemRepository,
+      rentalBookingService,
+      rentalDepositService,
+      rentalInspectionService,
+      rentalUnitService,
+      paymentCollectionService,
+      eventBusService,
+    })
+
+    jest.clearAllMocks()
+  })
+
+  describe("create", () => {
+    it("puts the unit found damaged out of service", async () => {
+      const claim = await rentalDamageClaimService.create({
+        booking_id: "rbook_1",
+        inspection_id: "rinsp_1",
+        items: [
+          { description: "Lens cap", unit_cost: 2500 },
+          { description: "Cleaning", quantity: 2, unit_cost: 2500 },
+        ],
+      })
+
+      expect(claim).toEqual(
+        expect.objectContaining({
+          status: "open",
+          unit_id: "runit_1",
+          total: 7500,
+        })
+      )
+      expect(rentalUnitService.update).toHaveBeenCalledWith("runit_1", {
+        status: "out_of_service",
+        condition: "damaged",
+      })
+    })
+
+    it("rejects claims for bookings not handed over", async () => {
+      rentalBookingService.retrieve.mockImplementation(() =>
+        Promise.resolve({ id: "rbook_1", status: "confirmed", units: [] })
+      )
+
+      await expect(
+        rentalDamageClaimService.create({ booking_id: "rbook_1" })
+      ).rejects.toThrow("Cannot open a damage claim for a confirmed booking")
+    })
+  })
+
+  describe("settle", () => {
+    it("takes what it can from the deposit and bills the rest", async () => {
+      const claim = await rentalDamageClaimService.settle("rdmg_1")
+
+      expect(rentalDepositService.deduct).toHaveBeenCalledWith("rdep_1", {
+        amount: 5000,
+        reason: "Damage claim rdmg_1",
+        created_by: "usr_1",
+      })
+      expect(paymentCollectionService.create).toHaveBeenCalledWith({
+        region_id: "reg_1",
+        currency_code: "eur",
+        type: "order_edit",
+        amount: 2500,
+        created_by: "usr_1",
+        description: "Damage claim rdmg_1",
+        metadata: {
+          rental_damage_claim_id: "rdmg_1",
+          rental_booking_id: "rbook_1",
+        },
+      })
+      expect(claim).toEqual(
+        expect.objectContaining({
+          status: "settled",
+          amount_deducted: 5000,
+          amount_billed: 2500,
+          payment_collection_id: "paycol_1",
+        })
+      )
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalDamageClaimService.Events.SETTLED,
+        {
+          id: "rdmg_1",
+          booking_id: "rbook_1",
+          amount_deducted: 5000,
+          amount_billed: 2500,
+          payment_collection_id: "paycol_1",
+        }
+      )
+      expect(rentalDepositService.release).toHaveBeenCalledWith("rdep_1")
+    })
+
+    it("keeps the deposit held while other claims are open", async () => {
+      const booking = await rentalBookingService.retrieve()
+      rentalBookingService.retrieve.mockImplementation(() =>
+        Promise.resolve({
+          ...booking,
+          damage_claims: [
+            { id: "rdmg_1", status: "open" },
+            { id: "rdmg_2", status: "disputed" },
+          ],
+        })
+      )
+
+      await rentalDamageClaimService.settle("rdmg_1")
+
+      expect(rentalDepositService.deduct).toHaveBeenCalled()
+      expect(rentalDepositService.release).not.toHaveBeenCalled()
+    })
+
+    it("bills everything when asked not to charge the deposit", async () => {
+      const claim = await rentalDamageClaimService.settle("rdmg_1", {
+        charge_deposit: false,
+      })
+
+      expect(rentalDepositService.deduct).not.toHaveBeenCalled()
+      expect(claim.amount_billed).toEqual(7500)
+      expect(paymentCollectionService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 7500 })
+      )
+    })
+  })
+})
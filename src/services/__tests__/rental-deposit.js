@@ -0,0 +1,222 @@
+import { MockManager, MockRepository } from "medusa-test-utils"
+import RentalDepositService from "../rental-deposit"
+
+const withTransaction = function () {
+  return this
+}
+
+const eventBusService = {
+  emit: jest.fn(),
+  withTransaction,
+}
+
+describe("RentalDepositService", () => {
+  let deposit
+  let payment
+  let paymentProviderService
+  let rentalBookingDepositRepository
+  let rentalDepositService
+
+  beforeEach(() => {
+    deposit = {
+      id: "rdep_1",
+      booking_id: "rbook_1",
+      amount: 5000,
+      amount_deducted: 0,
+      status: "authorized",
+      provider_id: "manual",
+      payment_id: "pay_1",
+      captured_at: null,
+      released_at: null,
+    }
+
+    payment = {
+      id: "pay_1",
+      amount: 5000,
+      amount_refunded: 0,
+      provider_id: "manual",
+      data: { authorized: true },
+      captured_at: null,
+    }
+
+    paymentProviderService = {
+      createSession: jest.fn((input) =>
+        Promise.resolve({ id: "ps_1", provider_id: input.provider_id })
+      ),
+      authorizePayment: jest.fn((session) =>
+        Promise.resolve({ ...session, status: "authorized" })
+      ),
+      deleteSession: jest.fn(() => Promise.resolve()),
+      createPayment: jest.fn(() => Promise.resolve({ ...payment })),
+      retrievePayment: jest.fn(() => Promise.resolve({ ...payment })),
+      capturePayment: jest.fn((payment) =>
+        Promise.resolve({
+          ...payment,
+          data: { captured: true },
+          captured_at: new Date(),
+        })
+      ),
+      cancelPayment: jest.fn((payment) =>
+        Promise.resolve({ ...payment, data: { canceled: true } })
+      ),
+      refundFromPayment: jest.fn(() => Promise.resolve({ id: "ref_1" })),
+    }
+
+    const rentalBookingRepository = MockRepository({
+      findOne: () =>
+        Promise.resolve({
+          id: "rbook_1",
+          variant_id: "variant_1",
+          quantity: 2,
+          status: "confirmed",
+          customer: { id: "cus_1", email: "renter@example.com" },
+        }),
+    })
+
+    rentalBookingDepositRepository = MockRepository({
+      findOne: (query) =>
+        Promise.resolve(query.where.booking_id ? undefined : { ...deposit }),
+      create: (data) => ({ ...data }),
+      save: (data) => Promise.resolve({ id: "rdep_1", ...data }),
+    })
+
+    const rentalVariantRepository = MockRepository({
+      findOne: () =>
+        Promise.resolve({
+          id: "variant_1",
+          rental_id: "rental_1",
+          deposit_amount: 2500,
+        }),
+    })
+
+    const rentalDepositAmountRepository = MockRepository({
+      find: () => Promise.resolve([]),
+    })
+
+    const regionService = {
+      retrieve: jest.fn(() =>
+        Promise.resolve({ id: "reg_1", currency_code: "eur" })
+      ),
+      withTransaction,
+    }
+
+    rentalDepositService = new RentalDepositService({
+      manager: MockManager,
+      rentalBookingDepositRepository,
+      rentalBookingRepository,
+      rentalDepositAmountRepository,
+      rentalDepositDeductionRepository: MockRepository({}),
+      rentalVariantRepository,
+      paymentProviderService,
+      regionService,
+      eventBusService,
+    })
+
+    jest.clearAllMocks()
+  })
+
+  describe("take", () => {
+    it("authorizes a payment session on behalf of the booking", async () => {
+      const result = await rentalDepositService.take("rbook_1", {
+        region_id: "reg_1",
+      })
+
+      expect(paymentProviderService.createSession).toHaveBeenCalledWith(
+        expect.objectContaining({
+          provider_id: "manual",
+          amount: 5000,
+          currency_code: "eur",
+          resource_id: "rbook_1",
+          customer: { id: "cus_1", email: "renter@example.com" },
+        })
+      )
+      expect(paymentProviderService.createPayment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: 5000,
+          payment_session: expect.objectContaining({ id: "ps_1" }),
+        })
+      )
+      expect(result).toEqual(
+        expect.objectContaining({
+          amount: 5000,
+          status: "authorized",
+          payment_id: "pay_1",
+          data: { authorized: true },
+        })
+      )
+    })
+
+    it("fails when the session is not authorized", async () => {
+      paymentProviderService.authorizePayment.mockImplementation((session) =>
+        Promise.resolve({ ...session, status: "requires_more" })
+      )
+
+      await expect(
+        rentalDepositService.take("rbook_1", { region_id: "reg_1" })
+      ).rejects.toThrow("could not be authorized")
+      expect(paymentProviderService.deleteSession).toHaveBeenCalled()
+      expect(paymentProviderService.createPayment).not.toHaveBeenCalled()
+    })
+
+    it("voids the payment when the deposit cannot be saved", async () => {
+      rentalBookingDepositRepository.save.mockImplementation(() =>
+        Promise.reject(new Error("duplicate key"))
+      )
+
+      await expect(
+        rentalDepositService.take("rbook_1", { region_id: "reg_1" })
+      ).rejects.toThrow("duplicate key")
+      expect(paymentProviderService.cancelPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "pay_1" })
+      )
+    })
+  })
+
+  describe("release", () => {
+    it("cancels the payment of a deposit held in full", async () => {
+      const result = await rentalDepositService.release("rdep_1")
+
+      expect(paymentProviderService.cancelPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "pay_1" })
+      )
+      expect(paymentProviderService.refundFromPayment).not.toHaveBeenCalled()
+      expect(result).toEqual(
+        expect.objectContaining({
+          status: "released",
+          data: { canceled: true },
+        })
+      )
+    })
+
+    it("captures the payment and refunds what is not deducted", async () => {
+      deposit.amount_deducted = 2000
+
+      const result = await rentalDepositService.release("rdep_1")
+
+      expect(paymentProviderService.capturePayment).toHaveBeenCalled()
+      expect(paymentProviderService.refundFromPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "pay_1" }),
+        3000,
+        "other",
+        "Release of rental deposit rdep_1"
+      )
+      expect(result.status).toEqual("partially_released")
+      expect(result.captured_at).toBeInstanceOf(Date)
+    })
+
+    it("keeps the deposit held when the provider fails", async () => {
+      paymentProviderService.cancelPayment.mockImplementation(() =>
+        Promise.reject(new Error("provider unavailable"))
+      )
+
+      await expect(rentalDepositService.release("rdep_1")).rejects.toThrow(
+        "provider unavailable"
+      )
+
+      expect(rentalBookingDepositRepository.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: "authorized", released_at: null })
+      )
+      expect(eventBusService.emit).not.toHaveBeenCalled()
+    })
+  })
+})
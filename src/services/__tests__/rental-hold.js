@@ -0,0 +1,171 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { MockManager, MockRepository } from "medusa-test-utils"
+import loadConfig from "@medusajs/medusa/dist/loaders/config"
+import RentalHoldService from "../rental-hold"
+
+const withTransaction = function () {
+  return this
+}
+
+// Loads a config file the way Medusa does, which only keeps some of its keys
+const loadConfigFile = (config) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "medusa-config-"))
+  fs.writeFileSync(
+    path.join(dir, "medusa-config.js"),
+    `module.exports = ${JSON.stringify(config)}`
+  )
+  try {
+    return loadConfig(dir)
+  } finally {
+    fs.rmSync(dir, { recursive: true })
+  }
+}
+
+const eventBusService = {
+  emit: jest.fn(),
+  withTransaction,
+}
+
+describe("RentalHoldService", () => {
+  const start_at = new Date("2023-01-01T00:00:00.000Z")
+  const end_at = new Date("2023-01-03T00:00:00.000Z")
+
+  let rentalHoldRepository
+  let rentalVariantService
+  let rentalHoldService
+
+  beforeEach(() => {
+    rentalHoldRepository = MockRepository({
+      create: (data) => ({ ...data }),
+      save: (data) => Promise.resolve({ ...data, id: "rhold_1" }),
+    })
+
+    rentalVariantService = {
+      validateDuration: jest.fn(() => Promise.resolve()),
+      validateBlackouts: jest.fn(() => Promise.resolve()),
+      getAvailableQuantity: jest.fn(() => Promise.resolve(2)),
+      withTransaction,
+    }
+
+    rentalHoldService = new RentalHoldService({
+      manager: MockManager,
+      rentalHoldRepository,
+      rentalVariantRepository: MockRepository({
+        findOne: () => Promise.resolve({ id: "variant_1" }),
+      }),
+      rentalVariantService,
+      eventBusService,
+    })
+
+    jest.clearAllMocks()
+  })
+
+  describe("create", () => {
+    it("holds the items for the default time to live", async () => {
+      const before = Date.now()
+
+      const hold = await rentalHoldService.create({
+        variant_id: "variant_1",
+        cart_id: "cart_1",
+        start_at,
+        end_at,
+        quantity: 2,
+      })
+
+      expect(hold.expires_at.getTime()).toBeGreaterThanOrEqual(
+        before + 15 * 60 * 1000
+      )
+      expect(rentalVariantService.getAvailableQuantity).toHaveBeenCalledWith(
+        "variant_1",
+        start_at,
+        end_at,
+        [],
+        []
+      )
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalHoldService.Events.CREATED,
+        { id: "rhold_1", variant_id: "variant_1", cart_id: "cart_1" }
+      )
+    })
+
+    it("holds the items for the time to live of the project", async () => {
+      const before = Date.now()
+
+      const hold = await new RentalHoldService({
+        manager: MockManager,
+        rentalHoldRepository,
+        rentalVariantRepository: MockRepository({
+          findOne: () => Promise.resolve({ id: "variant_1" }),
+        }),
+        rentalVariantService,
+        eventBusService,
+        configModule: loadConfigFile({
+          projectConfig: {
+            redis_url: "redis://localhost:6379",
+            jwt_secret: "test",
+            cookie_secret: "test",
+            rentals: { hold_ttl_minutes: 30 },
+          },
+        }),
+      }).create({ variant_id: "variant_1", start_at, end_at })
+
+      expect(hold.expires_at.getTime()).toBeGreaterThanOrEqual(
+        before + 30 * 60 * 1000
+      )
+      expect(hold.expires_at.getTime()).toBeLessThan(before + 31 * 60 * 1000)
+    })
+
+    it("fails when the items are not available", async () => {
+      rentalVariantService.getAvailableQuantity.mockImplementation(() =>
+        Promise.resolve(1)
+      )
+
+      await expect(
+        rentalHoldService.create({
+          variant_id: "variant_1",
+          start_at,
+          end_at,
+          quantity: 2,
+        })
+      ).rejects.toThrow("1 item(s) available")
+      expect(rentalHoldRepository.save).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("releaseExpired", () => {
+    it("releases the expired holds and tells about each", async () => {
+      const expires_at = new Date("2023-01-01T00:00:00.000Z")
+      rentalHoldRepository.findExpired = jest.fn(() =>
+        Promise.resolve([
+          {
+            id: "rhold_1",
+            variant_id: "variant_1",
+            cart_id: "cart_1",
+            expires_at,
+          },
+          { id: "rhold_2", variant_id: "variant_2", cart_id: null, expires_at },
+        ])
+      )
+
+      const holds = await rentalHoldService.releaseExpired()
+
+      expect(rentalHoldRepository.delete).toHaveBeenCalledWith([
+        "rhold_1",
+        "rhold_2",
+      ])
+      expect(holds).toHaveLength(2)
+      expect(eventBusService.emit).toHaveBeenCalledTimes(2)
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalHoldService.Events.EXPIRED,
+        {
+          id: "rhold_1",
+          variant_id: "variant_1",
+          cart_id: "cart_1",
+          expires_at,
+        }
+      )
+    })
+  })
+})
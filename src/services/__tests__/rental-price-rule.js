@@ -0,0 +1,193 @@
+import { MockManager } from "medusa-test-utils"
+import RentalPriceRuleService from "../rental-price-rule"
+import RentalVariantService from "../rental-variant"
+
+const withTransaction = function () {
+  return this
+}
+
+describe("RentalPriceRuleService", () => {
+  describe("getAdjustments", () => {
+    // Friday to Monday
+    const from = new Date("2023-01-06T00:00:00.000Z")
+    const to = new Date("2023-01-09T00:00:00.000Z")
+    const context = { currency_code: "EUR", quantity: 1 }
+
+    const weekend = {
+      id: "rprule_weekend",
+      name: "Weekend",
+      adjustment_type: "percentage",
+      value: 50,
+      weekdays: [0, 6],
+      priority: 10,
+    }
+    const season = {
+      id: "rprule_season",
+      name: "High season",
+      adjustment_type: "fixed",
+      value: 200,
+      currency_code: "eur",
+      starts_at: new Date("2023-01-01T00:00:00.000Z"),
+      ends_at: new Date("2023-02-01T00:00:00.000Z"),
+      priority: 1,
+    }
+
+    let rules
+    let rentalPriceRuleRepository
+    let rentalPriceRuleService
+
+    beforeEach(() => {
+      rules = []
+
+      rentalPriceRuleRepository = {
+        findApplicable: jest.fn(() => Promise.resolve(rules)),
+      }
+
+      const rentalVariantService = {
+        retrieve: jest.fn(() =>
+          Promise.resolve({
+            id: "variant_1",
+            rental_id: "rental_1",
+            rental: { type_id: "rtype_1", collection_id: null },
+          })
+        ),
+        withTransaction,
+      }
+
+      rentalPriceRuleService = new RentalPriceRuleService({
+        manager: MockManager,
+        rentalPriceRuleRepository,
+        rentalVariantService,
+      })
+    })
+
+    it("adjusts each day by the matching rule with the highest priority", async () => {
+      rules = [weekend, season]
+
+      const adjustments = await rentalPriceRuleService.getAdjustments(
+        "variant_1",
+        from,
+        to,
+        3000,
+        context
+      )
+
+      expect(rentalPriceRuleRepository.findApplicable).toHaveBeenCalledWith(
+        {
+          variant_id: "variant_1",
+          rental_id: "rental_1",
+          rental_type_id: "rtype_1",
+          rental_collection_id: null,
+        },
+        from,
+        to
+      )
+      expect(adjustments).toEqual([
+        {
+          rule_id: "rprule_weekend",
+          name: "Weekend",
+          adjustment_type: "percentage",
+          value: 50,
+          amount: 1000,
+        },
+        {
+          rule_id: "rprule_season",
+          name: "High season",
+          adjustment_type: "fixed",
+          value: 200,
+          amount: 200,
+        },
+      ])
+    })
+
+    it("stacks the days a rule applies to into one adjustment", async () => {
+      rules = [season]
+
+      const adjustments = await rentalPriceRuleService.getAdjustments(
+        "variant_1",
+        from,
+        to,
+        3000,
+        { ...context, quantity: 2 }
+      )
+
+      expect(adjustments).toEqual([
+        expect.objectContaining({ rule_id: "rprule_season", amount: 1200 }),
+      ])
+    })
+
+    it("overrides the price of the matching days", async () => {
+      rules = [
+        {
+          ...season,
+          id: "rprule_friday",
+          adjustment_type: "override",
+          value: 800,
+          weekdays: [5],
+        },
+      ]
+
+      const adjustments = await rentalPriceRuleService.getAdjustments(
+        "variant_1",
+        from,
+        to,
+        3000,
+        context
+      )
+
+      expect(adjustments).toEqual([
+        expect.objectContaining({ rule_id: "rprule_friday", amount: -200 }),
+      ])
+    })
+
+    it("adjusts part of a day by its share of the period", async () => {
+      rules = [weekend]
+
+      const adjustments = await rentalPriceRuleService.getAdjustments(
+        "variant_1",
+        new Date("2023-01-06T12:00:00.000Z"),
+        new Date("2023-01-07T12:00:00.000Z"),
+        2000,
+        context
+      )
+
+      expect(adjustments).toEqual([
+        expect.objectContaining({ rule_id: "rprule_weekend", amount: 500 }),
+      ])
+    })
+
+    it("ignores rules in another currency", async () => {
+      rules = [{ ...season, currency_code: "usd" }]
+
+      const adjustments = await rentalPriceRuleService.getAdjustments(
+        "variant_1",
+        from,
+        to,
+        3000,
+        context
+      )
+
+      expect(adjustments).toEqual([])
+    })
+
+    it("rejects periods longer than can be quoted", async () => {
+      const end = new Date(
+        from.getTime() +
+          (RentalVariantService.MaxQuoteHours + 1) * 60 * 60 * 1000
+      )
+
+      await expect(
+        rentalPriceRuleService.getAdjustments(
+          "variant_1",
+          from,
+          end,
+          3000,
+          context
+        )
+      ).rejects.toThrow(
+        `Price rules cannot be applied to periods of more than ${RentalVariantService.MaxQuoteHours} hours`
+      )
+      expect(rentalPriceRuleRepository.findApplicable).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,309 @@
+import { MockManager } from "medusa-test-utils"
+import RentalQuoteService from "../rental-quote"
+
+const withTransaction = function () {
+  return this
+}
+
+describe("RentalQuoteService", () => {
+  describe("quote", () => {
+    const start_at = new Date("2023-01-01T00:00:00.000Z")
+    const end_at = new Date("2023-01-04T00:00:00.000Z")
+
+    let rentalVariantService
+    let rentalPriceRuleService
+    let rentalDepositService
+    let rentalTaxRateService
+    let rentalMoneyAmountRepository
+    let rentalQuoteService
+
+    beforeEach(() => {
+      rentalVariantService = {
+        retrieve: jest.fn(() =>
+          Promise.resolve({ id: "variant_1", rental_id: "rental_1" })
+        ),
+        validateDuration: jest.fn(() => Promise.resolve()),
+        quote: jest.fn((variantId, from, to, { quantity }) =>
+          Promise.resolve({
+            lines: [
+              {
+                duration_unit: "day",
+                count: 3,
+                unit_price: 1000,
+                amount: 3000 * quantity,
+              },
+            ],
+            total: 3000 * quantity,
+          })
+        ),
+        withTransaction,
+      }
+
+      rentalPriceRuleService = {
+        getAdjustments: jest.fn(() => Promise.resolve([])),
+        withTransaction,
+      }
+
+      rentalDepositService = {
+        getAmount: jest.fn(() => Promise.resolve(0)),
+        withTransaction,
+      }
+
+      rentalTaxRateService = {
+        list: jest.fn(() => Promise.resolve([])),
+        withTransaction,
+      }
+
+      rentalMoneyAmountRepository = {
+        findVariantPriceListPrices: jest.fn(() => Promise.resolve([])),
+      }
+
+      const regionService = {
+        retrieve: jest.fn(() =>
+          Promise.resolve({ id: "reg_1", currency_code: "eur", tax_rate: 25 })
+        ),
+        withTransaction,
+      }
+
+      rentalQuoteService = new RentalQuoteService({
+        manager: MockManager,
+        rentalVariantService,
+        rentalPriceRuleService,
+        rentalDepositService,
+        rentalTaxRateService,
+        regionService,
+        rentalMoneyAmountRepository,
+      })
+    })
+
+    it("adds the region's default tax to the duration prices", async () => {
+      const quote = await rentalQuoteService.quote(
+        "variant_1",
+        start_at,
+        end_at,
+        { region_id: "reg_1", quantity: 2 }
+      )
+
+      expect(rentalVariantService.quote).toHaveBeenCalledWith(
+        "variant_1",
+        start_at,
+        end_at,
+        { region_id: "reg_1", quantity: 2 }
+      )
+      expect(quote.lines).toEqual([
+        expect.objectContaining({ type: "base", count: 3, amount: 6000 }),
+        expect.objectContaining({ type: "tax", rate: 25, amount: 1500 }),
+      ])
+      expect(quote).toEqual(
+        expect.objectContaining({
+          subtotal: 6000,
+          discount_total: 0,
+          tax_total: 1500,
+          deposit_total: 0,
+          total: 7500,
+        })
+      )
+    })
+
+    it("discounts the duration prices and taxes the rest", async () => {
+      rentalMoneyAmountRepository.findVariantPriceListPrices.mockImplementation(
+        () =>
+          Promise.resolve([
+            {
+              duration_unit: "day",
+              amount: 800,
+              min_quantity: null,
+              max_quantity: null,
+              price_list: { type: "sale" },
+            },
+          ])
+      )
+      rentalTaxRateService.list.mockImplementation(() =>
+        Promise.resolve([
+          { tax_rate: { region_id: "reg_1", name: "VAT", rate: 10 } },
+          { tax_rate: { region_id: "reg_2", name: "Other", rate: 50 } },
+        ])
+      )
+
+      const quote = await rentalQuoteService.quote(
+        "variant_1",
+        start_at,
+        end_at,
+        { region_id: "reg_1", customer_id: "cus_1" }
+      )
+
+      expect(
+        rentalMoneyAmountRepository.findVariantPriceListPrices
+      ).toHaveBeenCalledWith("variant_1", "eur", "reg_1", "cus_1")
+      expect(quote.lines).toEqual([
+        expect.objectContaining({ type: "base", amount: 3000 }),
+        expect.objectContaining({
+          type: "discount",
+          label: "sale",
+          amount: -600,
+        }),
+        expect.objectContaining({ type: "tax", label: "VAT", amount: 240 }),
+      ])
+      expect(quote.total).toEqual(2640)
+    })
+
+    it("compares each duration price to the price list price of its unit", async () => {
+      rentalVariantService.quote.mockImplementation(() =>
+        Promise.resolve({
+          lines: [
+            { duration_unit: "day", count: 1, unit_price: 100, amount: 100 },
+            { duration_unit: "hour", count: 2, unit_price: 10, amount: 20 },
+          ],
+          total: 120,
+        })
+      )
+      rentalMoneyAmountRepository.findVariantPriceListPrices.mockImplementation(
+        () =>
+          Promise.resolve([
+            {
+              duration_unit: "day",
+              amount: 80,
+              min_quantity: null,
+              max_quantity: null,
+              price_list: { type: "sale" },
+            },
+            {
+              duration_unit: "week",
+              amount: 5,
+              min_quantity: null,
+              max_quantity: null,
+              price_list: { type: "sale" },
+            },
+          ])
+      )
+
+      const quote = await rentalQuoteService.quote(
+        "variant_1",
+        start_at,
+        end_at,
+        { region_id: "reg_1" }
+      )
+
+      expect(quote.lines).toContainEqual(
+        expect.objectContaining({ type: "discount", amount: -20 })
+      )
+      expect(quote.discount_total).toEqual(20)
+      expect(quote.total).toEqual(125)
+    })
+
+    it("does not discount without price list prices", async () => {
+      rentalVariantService.quote.mockImplementation(() =>
+        Promise.resolve({
+          lines: [
+            { duration_unit: "day", count: 1, unit_price: 100, amount: 100 },
+            { duration_unit: "hour", count: 2, unit_price: 10, amount: 20 },
+          ],
+          total: 120,
+        })
+      )
+
+      const quote = await rentalQuoteService.quote(
+        "variant_1",
+        start_at,
+        end_at,
+        { region_id: "reg_1" }
+      )
+
+      expect(quote.lines.some((line) => line.type === "discount")).toBe(false)
+      expect(quote.discount_total).toEqual(0)
+    })
+
+    it("adds the adjustments of price rules to the subtotal", async () => {
+      rentalPriceRuleService.getAdjustments.mockImplementation(() =>
+        Promise.resolve([
+          {
+            rule_id: "rprule_1",
+            name: "Weekend",
+            adjustment_type: "percentage",
+            value: 50,
+            amount: 500,
+          },
+        ])
+      )
+
+      const quote = await rentalQuoteService.quote(
+        "variant_1",
+        start_at,
+        end_at,
+        { region_id: "reg_1" }
+      )
+
+      expect(rentalPriceRuleService.getAdjustments).toHaveBeenCalledWith(
+        "variant_1",
+        start_at,
+        end_at,
+        3000,
+        { currency_code: "eur", quantity: 1 }
+      )
+      expect(quote.lines).toEqual([
+        expect.objectContaining({ type: "base", amount: 3000 }),
+        expect.objectContaining({
+          type: "adjustment",
+          label: "Weekend",
+          amount: 500,
+        }),
+        expect.objectContaining({ type: "tax", amount: 875 }),
+      ])
+      expect(quote.subtotal).toEqual(3500)
+      expect(quote.total).toEqual(4375)
+    })
+
+    it("lists the deposit apart from the total", async () => {
+      rentalDepositService.getAmount.mockImplementation(() =>
+        Promise.resolve(10000)
+      )
+
+      const quote = await rentalQuoteService.quote(
+        "variant_1",
+        start_at,
+        end_at,
+        { region_id: "reg_1", quantity: 2 }
+      )
+
+      expect(rentalDepositService.getAmount).toHaveBeenCalledWith(
+        "variant_1",
+        "reg_1"
+      )
+      expect(quote.lines).toContainEqual(
+        expect.objectContaining({ type: "deposit", amount: 20000 })
+      )
+      expect(quote.deposit_total).toEqual(20000)
+      expect(quote.total).toEqual(7500)
+    })
+
+    it("validates the period against the duration rules", async () => {
+      rentalVariantService.validateDuration.mockImplementation(() =>
+        Promise.reject(new Error("Bookings cannot last more than 2 day(s)"))
+      )
+
+      await expect(
+        rentalQuoteService.quote("variant_1", start_at, end_at, {
+          region_id: "reg_1",
+        })
+      ).rejects.toThrow("more than 2 day(s)")
+      expect(rentalVariantService.validateDuration).toHaveBeenCalledWith(
+        "variant_1",
+        start_at,
+        end_at
+      )
+      expect(rentalVariantService.quote).not.toHaveBeenCalled()
+    })
+
+    it("skips the duration rules when overridden", async () => {
+      const quote = await rentalQuoteService.quote(
+        "variant_1",
+        start_at,
+        end_at,
+        { region_id: "reg_1", override: true }
+      )
+
+      expect(rentalVariantService.validateDuration).not.toHaveBeenCalled()
+      expect(quote.subtotal).toEqual(3000)
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { MockManager, MockRepository } from "medusa-test-utils"
+import RentalTagService from "../rental-tag"
+
+describe("RentalTagService", () => {
+  let tags
+  let rentalTagRepository
+  let rentalTagService
+
+  beforeEach(() => {
+    tags = {
+      ptag_1: { id: "ptag_1", value: "Waterproof" },
+      ptag_2: { id: "ptag_2", value: "Water resistant" },
+    }
+
+    rentalTagRepository = MockRepository({
+      findOne: (query) =>
+        Promise.resolve(
+          Object.values(tags).find(
+            (tag) =>
+              tag.id === query.where.id || tag.value === query.where.value
+          )
+        ),
+      create: (data) => ({ ...data }),
+      save: (data) => Promise.resolve({ id: "ptag_3", ...data }),
+    })
+    rentalTagRepository.mergeTags = jest.fn(() => Promise.resolve())
+    rentalTagRepository.removeFromRentals = jest.fn(() => Promise.resolve())
+
+    rentalTagService = new RentalTagService({
+      manager: MockManager,
+      rentalTagRepository,
+    })
+
+    jest.clearAllMocks()
+  })
+
+  describe("create", () => {
+    it("fails for a value already in use", async () => {
+      await expect(
+        rentalTagService.create({ value: "Waterproof" })
+      ).rejects.toThrow("already exists")
+      expect(rentalTagRepository.save).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("merge", () => {
+    it("rewrites the joins and deletes the merged tag", async () => {
+      const target = await rentalTagService.merge("ptag_2", "ptag_1")
+
+      expect(rentalTagRepository.mergeTags).toHaveBeenCalledWith(
+        "ptag_2",
+        "ptag_1"
+      )
+      expect(rentalTagRepository.softRemove).toHaveBeenCalledWith(
+        tags.ptag_2
+      )
+      expect(target.id).toEqual("ptag_1")
+    })
+
+    it("fails to merge a tag into itself", async () => {
+      await expect(rentalTagService.merge("ptag_1", "ptag_1")).rejects.toThrow(
+        "cannot be merged into itself"
+      )
+      expect(rentalTagRepository.mergeTags).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("delete", () => {
+    it("takes the tag off its rentals", async () => {
+      await rentalTagService.delete("ptag_1")
+
+      expect(rentalTagRepository.removeFromRentals).toHaveBeenCalledWith(
+        "ptag_1"
+      )
+      expect(rentalTagRepository.softRemove).toHaveBeenCalledWith(tags.ptag_1)
+    })
+  })
+
+  describe("listAndCount", () => {
+    it("keeps the ids asked for in the sales channels", async () => {
+      await rentalTagService.listAndCount({
+        id: ["ptag_1"],
+        sales_channel_id: ["sc_1"],
+      })
+
+      const [query] = rentalTagRepository.findAndCount.mock.calls[0]
+      expect(query.where.id.getSql("id")).toMatch(
+        /^id IN \(:\.\.\.ids\) AND /
+      )
+      expect(query.where.id.objectLiteralParameters).toEqual(
+        expect.objectContaining({ ids: ["ptag_1"], salesChannelIds: ["sc_1"] })
+      )
+    })
+  })
+})
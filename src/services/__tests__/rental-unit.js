@@ -0,0 +1,135 @@
+import { MockManager, MockRepository } from "medusa-test-utils"
+import { MedusaError } from "medusa-core-utils"
+import RentalUnitService from "../rental-unit"
+
+const eventBusService = {
+  emit: jest.fn(),
+  withTransaction: function () {
+    return this
+  },
+}
+
+describe("RentalUnitService", () => {
+  describe("assignUnits", () => {
+    const booking = {
+      id: "rbook_1",
+      variant_id: "variant_1",
+      start_at: new Date("2023-01-02T00:00:00.000Z"),
+      end_at: new Date("2023-01-04T00:00:00.000Z"),
+      quantity: 2,
+      units: [{ id: "runit_3" }],
+    }
+
+    let free
+    let unitCount
+    let rentalUnitRepository
+    let rentalUnitService
+
+    beforeEach(() => {
+      free = [{ id: "runit_1" }, { id: "runit_2" }, { id: "runit_3" }]
+      unitCount = 3
+
+      rentalUnitRepository = {
+        count: jest.fn(() => Promise.resolve(unitCount)),
+        findAvailable: jest.fn(() => Promise.resolve(free)),
+      }
+
+      rentalUnitService = new RentalUnitService({
+        manager: MockManager,
+        rentalUnitRepository,
+        eventBusService,
+      })
+    })
+
+    it("books variants without units by quantity only", async () => {
+      unitCount = 0
+
+      const units = await rentalUnitService.assignUnits(booking)
+
+      expect(units).toEqual([])
+      expect(rentalUnitRepository.findAvailable).not.toHaveBeenCalled()
+    })
+
+    it("keeps the units already assigned to the booking first", async () => {
+      const units = await rentalUnitService.assignUnits(booking)
+
+      expect(units).toEqual([{ id: "runit_3" }, { id: "runit_1" }])
+    })
+
+    it("looks for units free within the buffer of the booking", async () => {
+      await rentalUnitService.assignUnits(booking, { before: 60, after: 120 })
+
+      expect(rentalUnitRepository.findAvailable).toHaveBeenCalledWith(
+        "variant_1",
+        new Date("2023-01-01T21:00:00.000Z"),
+        new Date("2023-01-04T03:00:00.000Z"),
+        ["rbook_1"]
+      )
+    })
+
+    it("throws when there are not enough free units", async () => {
+      free = [{ id: "runit_1" }]
+
+      await expect(
+        rentalUnitService.assignUnits(booking)
+      ).rejects.toMatchObject({
+        type: MedusaError.Types.CONFLICT,
+        message:
+          "Variant with id: variant_1 has 1 unit(s) free for the requested period, but 2 were requested",
+      })
+    })
+  })
+
+  describe("update", () => {
+    let units
+    let rentalUnitRepository
+    let rentalVariantRepository
+    let rentalUnitService
+
+    beforeEach(() => {
+      units = [
+        { id: "runit_1", variant_id: "variant_1", status: "available" },
+        { id: "runit_2", variant_id: "variant_1", status: "rented" },
+        { id: "runit_3", variant_id: "variant_1", status: "maintenance" },
+      ]
+
+      rentalUnitRepository = {
+        ...MockRepository({
+          findOne: ({ where }) =>
+            Promise.resolve(units.find((unit) => unit.id === where.id)),
+          save: (unit) => Promise.resolve(unit),
+        }),
+        count: jest.fn(({ where }) =>
+          Promise.resolve(
+            units.filter((unit) => where.status.value.includes(unit.status))
+              .length
+          )
+        ),
+      }
+      rentalVariantRepository = MockRepository({})
+
+      rentalUnitService = new RentalUnitService({
+        manager: MockManager,
+        rentalUnitRepository,
+        rentalVariantRepository,
+        eventBusService,
+      })
+    })
+
+    it("takes units out of service out of the inventory", async () => {
+      await rentalUnitService.update("runit_1", { status: "out_of_service" })
+
+      expect(rentalVariantRepository.update).toHaveBeenCalledWith("variant_1", {
+        inventory_quantity: 1,
+      })
+    })
+
+    it("puts units back in service into the inventory", async () => {
+      await rentalUnitService.update("runit_3", { status: "available" })
+
+      expect(rentalVariantRepository.update).toHaveBeenCalledWith("variant_1", {
+        inventory_quantity: 3,
+      })
+    })
+  })
+})
@@ -0,0 +1,631 @@
+import { MockManager, MockRepository } from "medusa-test-utils"
+import { MedusaError } from "medusa-core-utils"
+import RentalVariantService from "../rental-variant"
+
+const eventBusService = {
+  emit: jest.fn(),
+  withTransaction: function () {
+    return this
+  },
+}
+
+describe("RentalVariantService", () => {
+  describe("update", () => {
+    let variant
+    let rentalVariantRepository
+    let rentalVariantService
+
+    beforeEach(() => {
+      variant = {
+        id: "variant_1",
+        rental_id: "rental_1",
+        min_duration: 1,
+        max_duration: 10,
+        rental: { id: "rental_1", min_duration: 3, max_duration: null },
+      }
+
+      rentalVariantRepository = MockRepository({
+        findOne: () => Promise.resolve({ ...variant }),
+        save: (data) => Promise.resolve(data),
+      })
+
+      rentalVariantService = new RentalVariantService({
+        manager: MockManager,
+        rentalVariantRepository,
+        eventBusService,
+      })
+
+      jest.clearAllMocks()
+    })
+
+    it("clears a duration override to fall back to the rental", async () => {
+      const result = await rentalVariantService.update("variant_1", {
+        min_duration: null,
+      })
+
+      expect(result.min_duration).toEqual(null)
+      expect(rentalVariantRepository.findOne).toHaveBeenCalledWith({
+        where: { id: "variant_1" },
+        relations: ["rental"],
+      })
+    })
+
+    it("validates the overrides against the rules of the rental", async () => {
+      await expect(
+        rentalVariantService.update("variant_1", {
+          min_duration: null,
+          max_duration: 2,
+        })
+      ).rejects.toThrow(
+        "The minimum duration (3) cannot exceed the maximum duration (2)"
+      )
+    })
+
+    it("loads the rental of a variant given without it", async () => {
+      const { rental, ...withoutRental } = variant
+
+      await expect(
+        rentalVariantService.update(withoutRental, {
+          min_duration: null,
+          max_duration: 2,
+        })
+      ).rejects.toThrow("cannot exceed the maximum duration")
+      expect(rentalVariantRepository.findOne).toHaveBeenCalledWith({
+        where: { id: "variant_1" },
+        select: ["id"],
+        relations: ["rental"],
+      })
+    })
+  })
+
+  describe("availability", () => {
+    const day = (d, h = 0, m = 0) => new Date(Date.UTC(2023, 0, d, h, m))
+
+    let variant
+    let bookings
+    let holds
+    let blackouts
+    let rentalVariantService
+
+    beforeEach(() => {
+      variant = {
+        id: "variant_1",
+        rental_id: "rental_1",
+        inventory_quantity: 2,
+        rental: { id: "rental_1", buffer_before: 0, buffer_after: 0 },
+      }
+      bookings = []
+      holds = []
+      blackouts = []
+
+      rentalVariantService = new RentalVariantService({
+        manager: MockManager,
+        rentalVariantRepository: MockRepository({
+          findOne: () => Promise.resolve(variant),
+        }),
+        rentalBookingRepository: {
+          findOverlapping: jest.fn(() => Promise.resolve(bookings)),
+        },
+        rentalBlackoutRepository: {
+          findApplicable: jest.fn(() => Promise.resolve(blackouts)),
+        },
+        rentalHoldRepository: {
+          findOverlapping: jest.fn(() => Promise.resolve(holds)),
+        },
+        eventBusService,
+      })
+    })
+
+    describe("getAvailableQuantity", () => {
+      it("holds the items of overdue bookings until they are checked in", async () => {
+        variant.rental.buffer_after = 60
+        bookings = [
+          {
+            id: "rbook_1",
+            status: "overdue",
+            start_at: day(1),
+            end_at: day(3),
+            quantity: 1,
+          },
+        ]
+
+        const available = await rentalVariantService.getAvailableQuantity(
+          "variant_1",
+          day(10),
+          day(12)
+        )
+
+        expect(available).toEqual(1)
+      })
+
+      it("subtracts the peak of overlapping bookings and holds", async () => {
+        bookings = [
+          { id: "rbook_1", start_at: day(1), end_at: day(3), quantity: 1 },
+          { id: "rbook_2", start_at: day(4), end_at: day(6), quantity: 1 },
+        ]
+        holds = [
+          { id: "rhold_1", start_at: day(2), end_at: day(5), quantity: 1 },
+        ]
+
+        const available = await rentalVariantService.getAvailableQuantity(
+          "variant_1",
+          day(1),
+          day(6)
+        )
+
+        expect(available).toEqual(0)
+      })
+
+      it("lets back-to-back bookings share an item", async () => {
+        variant.inventory_quantity = 1
+        bookings = [
+          { id: "rbook_1", start_at: day(1), end_at: day(3), quantity: 1 },
+        ]
+
+        const available = await rentalVariantService.getAvailableQuantity(
+          "variant_1",
+          day(3),
+          day(5)
+        )
+
+        expect(available).toEqual(1)
+      })
+
+      it("leaves out the excluded bookings and holds", async () => {
+        bookings = [
+          { id: "rbook_1", start_at: day(1), end_at: day(3), quantity: 1 },
+          { id: "rbook_2", start_at: day(1), end_at: day(3), quantity: 1 },
+        ]
+        holds = [
+          { id: "rhold_1", start_at: day(1), end_at: day(3), quantity: 1 },
+        ]
+
+        const available = await rentalVariantService.getAvailableQuantity(
+          "variant_1",
+          day(1),
+          day(3),
+          ["rbook_1"],
+          ["rhold_1"]
+        )
+
+        expect(available).toEqual(1)
+      })
+    })
+
+    describe("buffers", () => {
+      beforeEach(() => {
+        variant.inventory_quantity = 1
+        bookings = [
+          { id: "rbook_1", start_at: day(2), end_at: day(3), quantity: 1 },
+        ]
+      })
+
+      it("holds the items for the buffer after a booking", async () => {
+        variant.rental.buffer_after = 120
+
+        expect(
+          await rentalVariantService.getAvailableQuantity(
+            "variant_1",
+            day(3, 1),
+            day(4)
+          )
+        ).toEqual(0)
+        expect(
+          await rentalVariantService.getAvailableQuantity(
+            "variant_1",
+            day(3, 2),
+            day(4)
+          )
+        ).toEqual(1)
+      })
+
+      it("holds the items for the buffer before a booking", async () => {
+        variant.rental.buffer_before = 60
+
+        expect(
+          await rentalVariantService.getAvailableQuantity(
+            "variant_1",
+            day(1),
+            day(1, 23, 30)
+          )
+        ).toEqual(0)
+        expect(
+          await rentalVariantService.getAvailableQuantity(
+            "variant_1",
+            day(1),
+            day(1, 23)
+          )
+        ).toEqual(1)
+      })
+
+      it("falls back to the buffer of the rental type", async () => {
+        variant.rental = {
+          id: "rental_1",
+          buffer_before: null,
+          buffer_after: null,
+          type: { buffer_before: 0, buffer_after: 120 },
+        }
+
+        const { buffer, slots } = await rentalVariantService.getAvailability(
+          "variant_1",
+          day(3),
+          day(3, 3),
+          "hour"
+        )
+
+        expect(buffer).toEqual({ before: 0, after: 120 })
+        expect(slots.map((slot) => slot.available_quantity)).toEqual([0, 0, 1])
+      })
+
+      it("looks up the bookings within both buffers of the period", async () => {
+        variant.rental.buffer_before = 60
+        variant.rental.buffer_after = 120
+
+        await rentalVariantService.getAvailableQuantity(
+          "variant_1",
+          day(4),
+          day(5)
+        )
+
+        expect(
+          rentalVariantService.rentalBookingRepository_.findOverlapping
+        ).toHaveBeenCalledWith("variant_1", day(3, 21), day(5, 3))
+      })
+    })
+
+    describe("blackouts", () => {
+      beforeEach(() => {
+        variant.rental.collection_id = "rcol_1"
+        blackouts = [
+          {
+            id: "rbo_1",
+            starts_at: day(2, 12),
+            ends_at: day(3, 12),
+            reason: "Inventory count",
+          },
+        ]
+      })
+
+      it("leaves nothing to book for a period overlapping a blackout", async () => {
+        const available = await rentalVariantService.getAvailableQuantity(
+          "variant_1",
+          day(1),
+          day(3)
+        )
+
+        expect(available).toEqual(0)
+        expect(
+          rentalVariantService.rentalBlackoutRepository_.findApplicable
+        ).toHaveBeenCalledWith(
+          {
+            variant_id: "variant_1",
+            rental_id: "rental_1",
+            rental_collection_id: "rcol_1",
+          },
+          day(1),
+          day(3)
+        )
+      })
+
+      it("blacks out the slots overlapping a blackout", async () => {
+        const { slots } = await rentalVariantService.getAvailability(
+          "variant_1",
+          day(1),
+          day(5)
+        )
+
+        expect(
+          slots.map((slot) => [slot.available_quantity, slot.blackout_reason])
+        ).toEqual([
+          [2, null],
+          [0, "Inventory count"],
+          [0, "Inventory count"],
+          [2, null],
+        ])
+      })
+
+      it("refuses bookings overlapping a blackout", async () => {
+        await expect(
+          rentalVariantService.validateBlackouts("variant_1", day(3), day(4))
+        ).rejects.toMatchObject({
+          type: MedusaError.Types.NOT_ALLOWED,
+          message:
+            "Variant with id: variant_1 cannot be booked between 2023-01-02T12:00:00.000Z and 2023-01-03T12:00:00.000Z: Inventory count",
+        })
+      })
+
+      it("allows bookings when no blackout applies", async () => {
+        blackouts = []
+
+        await expect(
+          rentalVariantService.validateBlackouts("variant_1", day(3), day(4))
+        ).resolves.toBeUndefined()
+      })
+    })
+
+    describe("getAvailability", () => {
+      it("computes the available quantity of each slot", async () => {
+        bookings = [
+          { id: "rbook_1", start_at: day(2), end_at: day(3), quantity: 2 },
+        ]
+        holds = [
+          {
+            id: "rhold_1",
+            start_at: day(3, 6),
+            end_at: day(3, 12),
+            quantity: 1,
+          },
+        ]
+
+        const { slots } = await rentalVariantService.getAvailability(
+          "variant_1",
+          day(1),
+          day(4)
+        )
+
+        expect(slots.map((slot) => slot.available_quantity)).toEqual([2, 0, 1])
+        expect(slots[0]).toEqual(
+          expect.objectContaining({ from: day(1), to: day(2) })
+        )
+      })
+
+      it("clips the first and last slots to the period", async () => {
+        const { slots } = await rentalVariantService.getAvailability(
+          "variant_1",
+          day(1, 12),
+          day(2, 6)
+        )
+
+        expect(slots).toEqual([
+          expect.objectContaining({ from: day(1, 12), to: day(2) }),
+          expect.objectContaining({ from: day(2), to: day(2, 6) }),
+        ])
+      })
+
+      it("allows up to 744 hourly slots", async () => {
+        const { slots } = await rentalVariantService.getAvailability(
+          "variant_1",
+          day(1),
+          day(32),
+          "hour"
+        )
+
+        expect(slots).toHaveLength(744)
+      })
+
+      it("rejects periods of more than 744 slots", async () => {
+        await expect(
+          rentalVariantService.getAvailability(
+            "variant_1",
+            day(1),
+            day(32, 1),
+            "hour"
+          )
+        ).rejects.toThrow("cannot span more than 744 slots of one hour")
+      })
+
+      it("rejects periods that end before they start", async () => {
+        await expect(
+          rentalVariantService.getAvailability("variant_1", day(2), day(1))
+        ).rejects.toThrow("must be after its start")
+      })
+    })
+  })
+
+  describe("pricing", () => {
+    const withTransaction = function () {
+      return this
+    }
+
+    let prices
+    let listPrices
+    let rentalMoneyAmountRepository
+    let rentalVariantService
+
+    beforeEach(() => {
+      prices = [
+        { id: "rma_1", currency_code: "eur", amount: 1000 },
+        { id: "rma_2", currency_code: "eur", amount: 800, region_id: "reg_1" },
+        { id: "rma_3", currency_code: "eur", amount: 700, region_id: "reg_2" },
+        { id: "rma_4", currency_code: "usd", amount: 1200 },
+        {
+          id: "rma_5",
+          currency_code: "eur",
+          amount: 300,
+          duration_unit: "day",
+        },
+        {
+          id: "rma_6",
+          currency_code: "eur",
+          amount: 500,
+          price_list_id: "pl_1",
+        },
+      ]
+      listPrices = [{ ...prices[5], price_list: { id: "pl_1" } }]
+
+      rentalMoneyAmountRepository = {
+        findVariantRegionOrCurrencyPrices: jest.fn((variantId, currency) =>
+          Promise.resolve(
+            prices.filter(
+              (price) =>
+                price.currency_code === currency &&
+                !price.price_list_id &&
+                price.region_id !== "reg_2"
+            )
+          )
+        ),
+        findVariantPriceListPrices: jest.fn(() => Promise.resolve(listPrices)),
+      }
+
+      const regionService = {
+        retrieve: jest.fn((id) =>
+          Promise.resolve({ id, currency_code: "eur" })
+        ),
+        withTransaction,
+      }
+
+      rentalVariantService = new RentalVariantService({
+        manager: MockManager,
+        rentalMoneyAmountRepository,
+        regionService,
+        eventBusService,
+      })
+    })
+
+    describe("getRegionPrice", () => {
+      it("prefers the flat price of the region", async () => {
+        const price = await rentalVariantService.getRegionPrice("variant_1", {
+          regionId: "reg_1",
+        })
+
+        expect(price).toEqual(800)
+        expect(
+          rentalMoneyAmountRepository.findVariantRegionOrCurrencyPrices
+        ).toHaveBeenCalledWith("variant_1", "eur", "reg_1")
+      })
+
+      it("includes the price lists with discount prices", async () => {
+        const price = await rentalVariantService.getRegionPrice("variant_1", {
+          regionId: "reg_1",
+          customer_id: "cus_1",
+          include_discount_prices: true,
+        })
+
+        expect(price).toEqual(500)
+        expect(
+          rentalMoneyAmountRepository.findVariantPriceListPrices
+        ).toHaveBeenCalledWith("variant_1", "eur", "reg_1", "cus_1")
+      })
+
+      it("fails without a flat price", async () => {
+        prices = prices.filter((price) => price.duration_unit)
+
+        await expect(
+          rentalVariantService.getRegionPrice("variant_1", {
+            regionId: "reg_1",
+          })
+        ).rejects.toThrow(
+          "Variant with id: variant_1 has no price in region: reg_1"
+        )
+      })
+    })
+
+    describe("quote", () => {
+      const from = new Date("2023-01-01T00:00:00.000Z")
+      const hoursLater = (hours) =>
+        new Date(from.getTime() + hours * 60 * 60 * 1000)
+
+      beforeEach(() => {
+        prices = [
+          { currency_code: "eur", amount: 100, duration_unit: "hour" },
+          { currency_code: "eur", amount: 1000, duration_unit: "day" },
+          { currency_code: "eur", amount: 5000, duration_unit: "week" },
+        ]
+      })
+
+      it("covers the period with the cheapest combination of units", async () => {
+        const quote = await rentalVariantService.quote(
+          "variant_1",
+          from,
+          hoursLater(8 * 24 + 3),
+          { currency_code: "eur", quantity: 2 }
+        )
+
+        expect(quote.lines).toEqual(
+          expect.arrayContaining([
+            {
+              duration_unit: "week",
+              count: 1,
+              unit_price: 5000,
+              amount: 10000,
+            },
+            { duration_unit: "day", count: 1, unit_price: 1000, amount: 2000 },
+            { duration_unit: "hour", count: 3, unit_price: 100, amount: 600 },
+          ])
+        )
+        expect(quote.lines).toHaveLength(3)
+        expect(quote.total).toEqual(12600)
+      })
+
+      it("charges a longer unit when it is cheaper than the shorter ones", async () => {
+        const quote = await rentalVariantService.quote(
+          "variant_1",
+          from,
+          hoursLater(22),
+          { currency_code: "eur" }
+        )
+
+        expect(quote.lines).toEqual([
+          { duration_unit: "day", count: 1, unit_price: 1000, amount: 1000 },
+        ])
+      })
+
+      it("rejects periods longer than a year", async () => {
+        await expect(
+          rentalVariantService.quote(
+            "variant_1",
+            from,
+            hoursLater(RentalVariantService.MaxQuoteHours + 1),
+            { currency_code: "eur" }
+          )
+        ).rejects.toThrow(
+          `A rental period cannot be quoted for more than ${RentalVariantService.MaxQuoteHours} hours`
+        )
+        expect(
+          rentalMoneyAmountRepository.findVariantRegionOrCurrencyPrices
+        ).not.toHaveBeenCalled()
+      })
+
+      it("quotes a period of a year", async () => {
+        const quote = await rentalVariantService.quote(
+          "variant_1",
+          from,
+          hoursLater(RentalVariantService.MaxQuoteHours),
+          { currency_code: "eur" }
+        )
+
+        expect(quote.total).toEqual(52 * 5000 + 2 * 1000)
+      })
+    })
+
+    describe("setPrices", () => {
+      it("keeps the prices of the region and its currency", async () => {
+        const [variant] = await rentalVariantService.setPrices(
+          [{ id: "variant_1", prices }],
+          { region_id: "reg_1" }
+        )
+
+        expect(variant.prices.map((price) => price.id)).toEqual([
+          "rma_2",
+          "rma_1",
+          "rma_5",
+        ])
+        expect(variant.original_price).toEqual(800)
+        expect(variant.calculated_price).toEqual(800)
+      })
+
+      it("falls back to the prices of a currency", async () => {
+        const [variant] = await rentalVariantService.setPrices(
+          [{ id: "variant_1", prices }],
+          { currency_code: "USD", include_discount_prices: true }
+        )
+
+        expect(variant.prices.map((price) => price.id)).toEqual(["rma_4"])
+        expect(variant.original_price).toEqual(1200)
+        expect(variant.calculated_price).toEqual(500)
+        expect(
+          rentalMoneyAmountRepository.findVariantPriceListPrices
+        ).toHaveBeenCalledWith("variant_1", "usd", undefined, undefined)
+      })
+
+      it("leaves the variants as they are without a region or currency", async () => {
+        const variants = [{ id: "variant_1", prices }]
+
+        const result = await rentalVariantService.setPrices(variants, {})
+
+        expect(result).toBe(variants)
+        expect(result[0].prices).toHaveLength(6)
+      })
+    })
+  })
+})
@@ -0,0 +1,233 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { MockManager, MockRepository } from "medusa-test-utils"
+import loadConfig from "@medusajs/medusa/dist/loaders/config"
+import RentalWaitlistService from "../rental-waitlist"
+
+const withTransaction = function () {
+  return this
+}
+
+// Loads a config file the way Medusa does, which only keeps some of its keys
+const loadConfigFile = (config) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "medusa-config-"))
+  fs.writeFileSync(
+    path.join(dir, "medusa-config.js"),
+    `module.exports = ${JSON.stringify(config)}`
+  )
+  try {
+    return loadConfig(dir)
+  } finally {
+    fs.rmSync(dir, { recursive: true })
+  }
+}
+
+const eventBusService = {
+  emit: jest.fn(),
+  withTransaction,
+}
+
+describe("RentalWaitlistService", () => {
+  const start_at = new Date("2099-01-01T00:00:00.000Z")
+  const end_at = new Date("2099-01-03T00:00:00.000Z")
+  const expires_at = new Date("2098-12-31T01:00:00.000Z")
+
+  let entries
+  let found
+  let rentalWaitlistEntryRepository
+  let rentalHoldService
+  let rentalVariantService
+  let rentalWaitlistService
+
+  beforeEach(() => {
+    entries = [
+      {
+        id: "rwait_1",
+        variant_id: "variant_1",
+        customer_id: "cus_1",
+        start_at,
+        end_at,
+        quantity: 3,
+        status: "waiting",
+      },
+      {
+        id: "rwait_2",
+        variant_id: "variant_1",
+        customer_id: "cus_2",
+        start_at,
+        end_at,
+        quantity: 1,
+        status: "waiting",
+      },
+    ]
+
+    found = undefined
+
+    rentalWaitlistEntryRepository = MockRepository({
+      find: () => Promise.resolve(entries),
+      findOne: () => Promise.resolve(found),
+      create: (data) => ({ ...data }),
+      save: (data) => Promise.resolve({ id: "rwait_3", ...data }),
+    })
+
+    rentalHoldService = {
+      create: jest.fn((data) =>
+        Promise.resolve({ ...data, id: "rhold_1", expires_at })
+      ),
+      release: jest.fn(() => Promise.resolve()),
+      withTransaction,
+    }
+
+    rentalVariantService = {
+      validateDuration: jest.fn(() => Promise.resolve()),
+      getAvailableQuantity: jest.fn(() => Promise.resolve(0)),
+      withTransaction,
+    }
+
+    rentalWaitlistService = new RentalWaitlistService({
+      manager: MockManager,
+      rentalWaitlistEntryRepository,
+      rentalHoldService,
+      rentalVariantService,
+      eventBusService,
+    })
+
+    jest.clearAllMocks()
+  })
+
+  describe("join", () => {
+    it("puts the customer in line", async () => {
+      const entry = await rentalWaitlistService.join({
+        variant_id: "variant_1",
+        customer_id: "cus_3",
+        start_at,
+        end_at,
+      })
+
+      expect(entry).toEqual(
+        expect.objectContaining({
+          id: "rwait_3",
+          customer_id: "cus_3",
+          quantity: 1,
+          status: "waiting",
+        })
+      )
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalWaitlistService.Events.JOINED,
+        { id: "rwait_3", variant_id: "variant_1", customer_id: "cus_3" }
+      )
+    })
+
+    it("fails when the items are available", async () => {
+      rentalVariantService.getAvailableQuantity.mockImplementation(() =>
+        Promise.resolve(2)
+      )
+
+      await expect(
+        rentalWaitlistService.join({
+          variant_id: "variant_1",
+          customer_id: "cus_3",
+          start_at,
+          end_at,
+        })
+      ).rejects.toThrow("which can be booked")
+    })
+  })
+
+  describe("notifyWaiting", () => {
+    it("holds the freed items for the first entries they fit", async () => {
+      rentalVariantService.getAvailableQuantity.mockImplementation(() =>
+        Promise.resolve(1)
+      )
+
+      const notified = await rentalWaitlistService.notifyWaiting("variant_1")
+
+      expect(rentalHoldService.create).toHaveBeenCalledTimes(1)
+      expect(rentalHoldService.create).toHaveBeenCalledWith({
+        variant_id: "variant_1",
+        customer_id: "cus_2",
+        start_at,
+        end_at,
+        quantity: 1,
+        ttl_minutes: RentalWaitlistService.HoldTtlMinutes,
+      })
+      expect(notified).toEqual([
+        expect.objectContaining({
+          id: "rwait_2",
+          status: "notified",
+          hold_id: "rhold_1",
+        }),
+      ])
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalWaitlistService.Events.NOTIFIED,
+        {
+          id: "rwait_2",
+          variant_id: "variant_1",
+          customer_id: "cus_2",
+          hold_id: "rhold_1",
+          expires_at,
+        }
+      )
+    })
+
+    it("expires the entries whose period has started", async () => {
+      entries[0].start_at = new Date(Date.now() - 60 * 60 * 1000)
+      rentalVariantService.getAvailableQuantity.mockImplementation(() =>
+        Promise.resolve(3)
+      )
+
+      const notified = await rentalWaitlistService.notifyWaiting("variant_1")
+
+      expect(rentalWaitlistEntryRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "rwait_1", status: "expired" })
+      )
+      expect(eventBusService.emit).toHaveBeenCalledWith(
+        RentalWaitlistService.Events.EXPIRED,
+        { id: "rwait_1", variant_id: "variant_1", customer_id: "cus_1" }
+      )
+      expect(rentalVariantService.getAvailableQuantity).toHaveBeenCalledTimes(1)
+      expect(rentalHoldService.create).toHaveBeenCalledTimes(1)
+      expect(notified).toEqual([
+        expect.objectContaining({ id: "rwait_2", status: "notified" }),
+      ])
+    })
+
+    it("holds the freed items for the time to live of the project", async () => {
+      rentalVariantService.getAvailableQuantity.mockImplementation(() =>
+        Promise.resolve(1)
+      )
+
+      await new RentalWaitlistService({
+        manager: MockManager,
+        rentalWaitlistEntryRepository,
+        rentalHoldService,
+        rentalVariantService,
+        eventBusService,
+        configModule: loadConfigFile({
+          projectConfig: {
+            redis_url: "redis://localhost:6379",
+            jwt_secret: "test",
+            cookie_secret: "test",
+            rentals: { waitlist_hold_ttl_minutes: 120 },
+          },
+        }),
+      }).notifyWaiting("variant_1")
+
+      expect(rentalHoldService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ customer_id: "cus_2", ttl_minutes: 120 })
+      )
+    })
+  })
+
+  describe("leave", () => {
+    it("releases the hold the customer was given", async () => {
+      found = { ...entries[0], status: "notified", hold_id: "rhold_1" }
+
+      const entry = await rentalWaitlistService.leave("rwait_1")
+
+      expect(rentalHoldService.release).toHaveBeenCalledWith("rhold_1")
+      expect(entry.status).toEqual("left")
+    })
+  })
+})
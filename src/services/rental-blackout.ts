@@ -0,0 +1,257 @@
+import { MedusaError, isDefined } from "medusa-core-utils"
+import { EntityManager, ILike } from "typeorm"
+import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
+import { RentalBlackout } from "../models"
+import { RentalBlackoutRepository } from "../repositories/rental-blackout"
+import { FindConfig, Selector } from "@medusajs/medusa/dist/types/common"
+import {
+  CreateRentalBlackoutInput,
+  FilterableRentalBlackoutProps,
+  UpdateRentalBlackoutInput,
+} from "../types/rental-blackout"
+import { buildQuery, isString, setMetadata } from "@medusajs/medusa/dist/utils"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+
+type InjectedDependencies = {
+  manager: EntityManager
+  rentalBlackoutRepository: typeof RentalBlackoutRepository
+  eventBusService: EventBusService
+}
+
+/**
+ * Provides layer to manipulate rental blackouts, the periods during which
+ * items cannot be rented.
+ */
+class RentalBlackoutService extends TransactionBaseService {
+  protected manager_: EntityManager
+  protected transactionManager_: EntityManager | undefined
+
+  protected readonly rentalBlackoutRepository_: typeof RentalBlackoutRepository
+  protected readonly eventBus_: EventBusService
+
+  static readonly Events = {
+    CREATED: "rental_blackout.created",
+    UPDATED: "rental_blackout.updated",
+    DELETED: "rental_blackout.deleted",
+  }
+
+  constructor({
+    manager,
+    rentalBlackoutRepository,
+    eventBusService,
+  }: InjectedDependencies) {
+    // eslint-disable-next-line prefer-rest-params
+    super(arguments[0])
+
+    this.manager_ = manager
+    this.rentalBlackoutRepository_ = rentalBlackoutRepository
+    this.eventBus_ = eventBusService
+  }
+
+  /**
+   * Retrieves a rental blackout by id.
+   * @param blackoutId - the id of the blackout to retrieve
+   * @param config - the config to retrieve the blackout by
+   * @return the blackout
+   */
+  async retrieve(
+    blackoutId: string,
+    config: FindConfig<RentalBlackout> = {}
+  ): Promise<RentalBlackout> {
+    if (!isDefined(blackoutId)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `"blackoutId" must be defined`
+      )
+    }
+
+    const blackoutRepo = this.manager_.getCustomRepository(
+      this.rentalBlackoutRepository_
+    )
+
+    const query = buildQuery({ id: blackoutId }, config)
+    const blackout = await blackoutRepo.findOne(query)
+
+    if (!blackout) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Rental blackout with id: ${blackoutId} was not found`
+      )
+    }
+
+    return blackout
+  }
+
+  /**
+   * Lists rental blackouts
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async list(
+    selector: FilterableRentalBlackoutProps | Selector<RentalBlackout> = {},
+    config: FindConfig<RentalBlackout> = { skip: 0, take: 20 }
+  ): Promise<RentalBlackout[]> {
+    const [blackouts] = await this.listAndCount(selector, config)
+    return blackouts
+  }
+
+  /**
+   * Lists rental blackouts and adds count.
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async listAndCount(
+    selector: FilterableRentalBlackoutProps | Selector<RentalBlackout> = {},
+    config: FindConfig<RentalBlackout> = { skip: 0, take: 20 }
+  ): Promise<[RentalBlackout[], number]> {
+    const blackoutRepo = this.manager_.getCustomRepository(
+      this.rentalBlackoutRepository_
+    )
+
+    const selector_ = { ...selector } as FilterableRentalBlackoutProps
+
+    let q: string | undefined
+    if (isString(selector_.q)) {
+      q = selector_.q
+      delete selector_.q
+    }
+
+    const query = buildQuery(selector_ as Selector<RentalBlackout>, config)
+
+    if (q) {
+      query.where.reason = ILike(`%${q}%`)
+    }
+
+    return await blackoutRepo.findAndCount(query)
+  }
+
+  /**
+   * Creates a rental blackout.
+   * @param data - the blackout to create
+   * @return the created blackout
+   */
+  async create(data: CreateRentalBlackoutInput): Promise<RentalBlackout> {
+    return await this.atomicPhase_(async (manager) => {
+      const blackoutRepo = manager.getCustomRepository(
+        this.rentalBlackoutRepository_
+      )
+
+      const blackout = blackoutRepo.create(data)
+      this.validate_(blackout)
+
+      const result = await blackoutRepo.save(blackout)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalBlackoutService.Events.CREATED, {
+          id: result.id,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Updates a rental blackout.
+   * @param blackoutId - the id of the blackout to update
+   * @param update - an object with the update values
+   * @return the updated blackout
+   */
+  async update(
+    blackoutId: string,
+    update: UpdateRentalBlackoutInput
+  ): Promise<RentalBlackout> {
+    return await this.atomicPhase_(async (manager) => {
+      const blackoutRepo = manager.getCustomRepository(
+        this.rentalBlackoutRepository_
+      )
+
+      const blackout = await this.retrieve(blackoutId)
+
+      const { metadata, ...rest } = update
+
+      if (metadata) {
+        blackout.metadata = setMetadata(blackout, metadata)
+      }
+
+      for (const [key, value] of Object.entries(rest)) {
+        if (typeof value !== "undefined") {
+          blackout[key] = value
+        }
+      }
+
+      this.validate_(blackout)
+
+      const result = await blackoutRepo.save(blackout)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalBlackoutService.Events.UPDATED, {
+          id: result.id,
+          fields: Object.keys(update),
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Deletes a rental blackout.
+   * @param blackoutId - the id of the blackout to delete
+   * @return empty promise
+   */
+  async delete(blackoutId: string): Promise<void> {
+    return await this.atomicPhase_(async (manager) => {
+      const blackoutRepo = manager.getCustomRepository(
+        this.rentalBlackoutRepository_
+      )
+
+      const blackout = await blackoutRepo.findOne({
+        where: { id: blackoutId },
+      })
+
+      if (!blackout) {
+        return
+      }
+
+      await blackoutRepo.softRemove(blackout)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalBlackoutService.Events.DELETED, {
+          id: blackoutId,
+        })
+    })
+  }
+
+  /**
+   * Throws if the blackout ends before it starts, or is limited to more
+   * than one of a rental collection, a rental and a variant.
+   * @param blackout - the blackout to validate
+   */
+  protected validate_(blackout: RentalBlackout): void {
+    if (!(new Date(blackout.starts_at) < new Date(blackout.ends_at))) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `The end of a blackout must be after its start`
+      )
+    }
+
+    const scopes = [
+      blackout.rental_collection_id,
+      blackout.rental_id,
+      blackout.variant_id,
+    ].filter(Boolean)
+
+    if (scopes.length > 1) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `A blackout can be limited to either a rental collection, a rental or a variant`
+      )
+    }
+  }
+}
+
+export default RentalBlackoutService
@@ -0,0 +1,330 @@
+import { MedusaError } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
+import {
+  Payment,
+  PaymentSessionStatus,
+  RefundReason,
+} from "@medusajs/medusa/dist/models"
+import { RentalBooking, RentalBookingExtension } from "../models"
+import { RentalBookingExtensionRepository } from "../repositories/rental-booking-extension"
+import RentalBookingService from "./rental-booking"
+import RentalQuoteService from "./rental-quote"
+import RentalVariantService from "./rental-variant"
+import {
+  CreateRentalBookingExtensionInput,
+  RentalBookingExtensionQuote,
+  RentalBookingExtensionQuoteInput,
+} from "../types/rental-booking-extension"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+import PaymentProviderService from "@medusajs/medusa/dist/services/payment-provider"
+
+type InjectedDependencies = {
+  manager: EntityManager
+  rentalBookingExtensionRepository: typeof RentalBookingExtensionRepository
+  rentalBookingService: RentalBookingService
+  rentalQuoteService: RentalQuoteService
+  rentalVariantService: RentalVariantService
+  paymentProviderService: PaymentProviderService
+  eventBusService: EventBusService
+}
+
+/**
+ * Provides layer to quote and charge the extension of rental bookings.
+ */
+class RentalBookingExtensionService extends TransactionBaseService {
+  protected manager_: EntityManager
+  protected transactionManager_: EntityManager | undefined
+
+  protected readonly rentalBookingExtensionRepository_: typeof RentalBookingExtensionRepository
+  protected readonly rentalBookingService_: RentalBookingService
+  protected readonly rentalQuoteService_: RentalQuoteService
+  protected readonly rentalVariantService_: RentalVariantService
+  protected readonly paymentProviderService_: PaymentProviderService
+  protected readonly eventBus_: EventBusService
+
+  static readonly Events = {
+    CREATED: "rental_booking_extension.created",
+  }
+
+  /**
+   * The provider extensions are charged through if none is given.
+   */
+  static readonly DefaultProviderId = "manual"
+
+  constructor({
+    manager,
+    rentalBookingExtensionRepository,
+    rentalBookingService,
+    rentalQuoteService,
+    rentalVariantService,
+    paymentProviderService,
+    eventBusService,
+  }: InjectedDependencies) {
+    // eslint-disable-next-line prefer-rest-params
+    super(arguments[0])
+
+    this.manager_ = manager
+    this.rentalBookingExtensionRepository_ = rentalBookingExtensionRepository
+    this.rentalBookingService_ = rentalBookingService
+    this.rentalQuoteService_ = rentalQuoteService
+    this.rentalVariantService_ = rentalVariantService
+    this.paymentProviderService_ = paymentProviderService
+    this.eventBus_ = eventBusService
+  }
+
+  /**
+   * Quotes the extension of a booking through the same pricing as new
+   * bookings: the extended period is quoted as a whole and the current
+   * period's quote is subtracted. Unless overridden, the extra time must be
+   * available, buffers included, and the extended period must fit the
+   * variant's duration rules.
+   * @param bookingId - the id of the booking to extend
+   * @param data - the new end of the booking and the region to quote in
+   * @return the quote of the extension
+   */
+  async quote(
+    bookingId: string,
+    data: RentalBookingExtensionQuoteInput
+  ): Promise<RentalBookingExtensionQuote> {
+    const manager = this.transactionManager_ ?? this.manager_
+
+    const booking = await this.rentalBookingService_
+      .withTransaction(manager)
+      .retrieve(bookingId)
+
+    if (!RentalBookingService.ExtendableStatuses.includes(booking.status)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `A ${booking.status} booking cannot be extended`
+      )
+    }
+
+    const startAt = new Date(booking.start_at)
+    const previousEndAt = new Date(booking.end_at)
+    const endAt = new Date(data.end_at)
+
+    if (isNaN(endAt.getTime()) || endAt <= previousEndAt) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `The extended end of booking ${bookingId} must be after ${previousEndAt.toISOString()}`
+      )
+    }
+
+    if (!data.override) {
+      await this.assertAvailable_(manager, booking, previousEndAt, endAt)
+    }
+
+    const context = {
+      region_id: data.region_id,
+      customer_id: booking.customer_id ?? undefined,
+      quantity: booking.quantity,
+    }
+    const rentalQuoteService = this.rentalQuoteService_.withTransaction(manager)
+
+    // The current period is already booked, whatever the rules are now
+    const previous = await rentalQuoteService.quote(
+      booking.variant_id,
+      startAt,
+      previousEndAt,
+      { ...context, override: true }
+    )
+    const quote = await rentalQuoteService.quote(
+      booking.variant_id,
+      startAt,
+      endAt,
+      { ...context, override: data.override }
+    )
+
+    return {
+      booking_id: booking.id,
+      previous_end_at: previousEndAt,
+      end_at: endAt,
+      region_id: quote.region_id,
+      currency_code: quote.currency_code,
+      previous_total: previous.total,
+      total: quote.total,
+      amount: Math.max(quote.total - previous.total, 0),
+      quote,
+    }
+  }
+
+  /**
+   * Extends a booking and charges the quoted difference through a payment
+   * provider. The difference is charged before the booking is extended, and
+   * refunded if extending it fails. The booking is left unchanged if the
+   * charge is not authorized.
+   * @param bookingId - the id of the booking to extend
+   * @param data - the new end of the booking and how to charge for it
+   * @return the extension
+   */
+  async create(
+    bookingId: string,
+    data: CreateRentalBookingExtensionInput
+  ): Promise<RentalBookingExtension> {
+    const quote = await this.quote(bookingId, data)
+
+    let payment: Payment | undefined
+    if (quote.amount > 0) {
+      payment = await this.chargePayment_(
+        quote,
+        data.provider_id ?? RentalBookingExtensionService.DefaultProviderId
+      )
+    }
+
+    try {
+      return await this.atomicPhase_(async (manager) => {
+        const extensionRepo = manager.getCustomRepository(
+          this.rentalBookingExtensionRepository_
+        )
+
+        const { amount } = await this.withTransaction(manager).quote(
+          bookingId,
+          data
+        )
+
+        if (amount !== quote.amount) {
+          throw new MedusaError(
+            MedusaError.Types.CONFLICT,
+            `The price of extending rental booking ${bookingId} changed while it was charged`
+          )
+        }
+
+        const booking = await this.rentalBookingService_
+          .withTransaction(manager)
+          .extend(bookingId, quote.end_at, data.override)
+
+        const extension = extensionRepo.create({
+          booking_id: booking.id,
+          previous_end_at: quote.previous_end_at,
+          end_at: quote.end_at,
+          region_id: quote.region_id,
+          currency_code: quote.currency_code,
+          amount: quote.amount,
+          provider_id: payment?.provider_id ?? null,
+          payment_id: payment?.id ?? null,
+          data: payment?.data ?? {},
+          override: !!data.override,
+          created_by: data.created_by ?? null,
+          metadata: data.metadata ?? null,
+        })
+
+        const result = await extensionRepo.save(extension)
+
+        await this.eventBus_
+          .withTransaction(manager)
+          .emit(RentalBookingExtensionService.Events.CREATED, {
+            id: result.id,
+            booking_id: result.booking_id,
+            amount: result.amount,
+            override: result.override,
+          })
+
+        return result
+      })
+    } catch (error) {
+      if (payment) {
+        await this.paymentProviderService_.refundFromPayment(
+          payment,
+          payment.amount,
+          RefundReason.OTHER,
+          `Extension of rental booking ${bookingId} not recorded`
+        )
+      }
+
+      throw error
+    }
+  }
+
+  /**
+   * Charges the price of an extension through a payment provider. Bookings
+   * are not paid for with a cart, so the session is created on behalf of the
+   * booking for an empty cart, like the sessions of payment collections.
+   * @param quote - the quote of the extension
+   * @param providerId - the id of the payment provider
+   * @return the captured payment
+   */
+  protected async chargePayment_(
+    quote: RentalBookingExtensionQuote,
+    providerId: string
+  ): Promise<Payment> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const paymentProviderService = this.paymentProviderService_
+
+    const { customer } = await this.rentalBookingService_
+      .withTransaction(manager)
+      .retrieve(quote.booking_id, { relations: ["customer"] })
+
+    const session = await paymentProviderService.createSession({
+      provider_id: providerId,
+      cart: {
+        id: "",
+        email: customer?.email ?? "",
+        context: {},
+        shipping_address: null,
+        shipping_methods: [],
+      },
+      customer: customer ?? null,
+      currency_code: quote.currency_code,
+      amount: quote.amount,
+      resource_id: quote.booking_id,
+    })
+
+    const authorized = await paymentProviderService.authorizePayment(
+      session,
+      {}
+    )
+
+    if (authorized?.status !== PaymentSessionStatus.AUTHORIZED) {
+      await paymentProviderService.deleteSession(session)
+
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `The extension of rental booking ${quote.booking_id} could not be authorized`
+      )
+    }
+
+    const payment = await paymentProviderService.createPayment({
+      amount: quote.amount,
+      currency_code: quote.currency_code,
+      provider_id: providerId,
+      payment_session: authorized,
+      resource_id: quote.booking_id,
+    })
+
+    try {
+      return await paymentProviderService.capturePayment(payment)
+    } catch (error) {
+      await paymentProviderService.cancelPayment(payment)
+      throw error
+    }
+  }
+
+  /**
+   * Throws a conflict error if the booked quantity is not available for the
+   * extra time, taking the variant's blackouts and buffers into account.
+   * @param manager - the transaction manager to check availability with
+   * @param booking - the extended booking
+   * @param from - the current end of the booking
+   * @param to - the extended end of the booking
+   */
+  protected async assertAvailable_(
+    manager: EntityManager,
+    booking: RentalBooking,
+    from: Date,
+    to: Date
+  ): Promise<void> {
+    const available = await this.rentalVariantService_
+      .withTransaction(manager)
+      .getAvailableQuantity(booking.variant_id, from, to, [booking.id])
+
+    if (available < booking.quantity) {
+      throw new MedusaError(
+        MedusaError.Types.CONFLICT,
+        `Variant with id: ${booking.variant_id} has ${available} item(s) available between ${from.toISOString()} and ${to.toISOString()}, but booking ${booking.id} holds ${booking.quantity}`
+      )
+    }
+  }
+}
+
+export default RentalBookingExtensionService
@@ -0,0 +1,1197 @@
+import { MedusaError, isDefined } from "medusa-core-utils"
+import { EntityManager, LessThan } from "typeorm"
+import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
+import {
+  RentalBooking,
+  RentalBookingStatus,
+  RentalDamageClaimStatus,
+  RentalDepositStatus,
+  RentalInspection,
+  RentalInspectionType,
+  RentalLateFeeUnit,
+  RentalUnit,
+  RentalUnitCondition,
+  RentalUnitStatus,
+} from "../models"
+import {
+  blockingRentalBookingStatuses,
+  RentalBookingRepository,
+} from "../repositories/rental-booking"
+import { RentalVariantRepository } from "../repositories/rental-variant"
+import RentalCancellationPolicyService from "./rental-cancellation-policy"
+import RentalDepositService from "./rental-deposit"
+import RentalInspectionService from "./rental-inspection"
+import RentalUnitService from "./rental-unit"
+import RentalVariantService from "./rental-variant"
+import { FindConfig, Selector } from "@medusajs/medusa/dist/types/common"
+import {
+  CreateRentalBookingInput,
+  FilterableRentalBookingProps,
+  RentalBookingCheckInInput,
+  RentalBookingCheckOutInput,
+  UpdateRentalBookingInput,
+} from "../types/rental-booking"
+import { RentalLateFeeSchedule } from "../types/rental-variant"
+import { buildQuery, setMetadata } from "@medusajs/medusa/dist/utils"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+
+type InjectedDependencies = {
+  manager: EntityManager
+  rentalBookingRepository: typeof RentalBookingRepository
+  rentalVariantRepository: typeof RentalVariantRepository
+  rentalVariantService: RentalVariantService
+  rentalUnitService: RentalUnitService
+  rentalDepositService: RentalDepositService
+  rentalInspectionService: RentalInspectionService
+  rentalCancellationPolicyService: RentalCancellationPolicyService
+  eventBusService: EventBusService
+}
+
+/**
+ * Provides layer to manipulate rental bookings.
+ */
+class RentalBookingService extends TransactionBaseService {
+  protected manager_: EntityManager
+  protected transactionManager_: EntityManager | undefined
+
+  protected readonly rentalBookingRepository_: typeof RentalBookingRepository
+  protected readonly rentalVariantRepository_: typeof RentalVariantRepository
+  protected readonly rentalVariantService_: RentalVariantService
+  protected readonly rentalUnitService_: RentalUnitService
+  protected readonly rentalDepositService_: RentalDepositService
+  protected readonly rentalInspectionService_: RentalInspectionService
+  protected readonly rentalCancellationPolicyService_: RentalCancellationPolicyService
+  protected readonly eventBus_: EventBusService
+
+  static readonly Events = {
+    CREATED: "rental_booking.created",
+    UPDATED: "rental_booking.updated",
+    CONFIRMED: "rental_booking.confirmed",
+    CANCELED: "rental_booking.canceled",
+    CHECKED_OUT: "rental_booking.checked_out",
+    CHECKED_IN: "rental_booking.checked_in",
+    RETURNED_EARLY: "rental_booking.returned_early",
+    OVERDUE: "rental_booking.overdue",
+    EXTENDED: "rental_booking.extended",
+  }
+
+  /**
+   * The statuses a booking is allowed to move to from a given status.
+   */
+  static readonly Transitions: Record<
+    RentalBookingStatus,
+    RentalBookingStatus[]
+  > = {
+    [RentalBookingStatus.PENDING]: [
+      RentalBookingStatus.CONFIRMED,
+      RentalBookingStatus.CANCELED,
+    ],
+    [RentalBookingStatus.CONFIRMED]: [
+      RentalBookingStatus.ACTIVE,
+      RentalBookingStatus.CANCELED,
+    ],
+    [RentalBookingStatus.ACTIVE]: [
+      RentalBookingStatus.OVERDUE,
+      RentalBookingStatus.RETURNED,
+    ],
+    [RentalBookingStatus.OVERDUE]: [
+      RentalBookingStatus.ACTIVE,
+      RentalBookingStatus.RETURNED,
+    ],
+    [RentalBookingStatus.RETURNED]: [],
+    [RentalBookingStatus.CANCELED]: [],
+  }
+
+  /**
+   * The statuses of the bookings whose period can be extended.
+   */
+  static readonly ExtendableStatuses: RentalBookingStatus[] = [
+    RentalBookingStatus.PENDING,
+    RentalBookingStatus.CONFIRMED,
+    RentalBookingStatus.ACTIVE,
+    RentalBookingStatus.OVERDUE,
+  ]
+
+  /**
+   * The length of a day in milliseconds, to count the unused days of early
+   * returns.
+   */
+  static readonly DayLength = 24 * 60 * 60 * 1000
+
+  /**
+   * The number of minutes in each unit late fees are charged per.
+   */
+  static readonly LateFeeUnitMinutes: Record<RentalLateFeeUnit, number> = {
+    [RentalLateFeeUnit.HOUR]: 60,
+    [RentalLateFeeUnit.DAY]: 24 * 60,
+  }
+
+  /**
+   * Pending reservation work per variant, used to run availability checks
+   * one at a time within this process. It is best-effort only: it does not
+   * serialize other processes, and is released before an outer transaction
+   * commits. Overbooking is prevented by the database lock taken by
+   * `lockVariant_`; this lock only spares the bookings of this process from
+   * contending for it.
+   */
+  private static readonly variantLocks_ = new Map<string, Promise<void>>()
+
+  constructor({
+    manager,
+    rentalBookingRepository,
+    rentalVariantRepository,
+    rentalVariantService,
+    rentalUnitService,
+    rentalDepositService,
+    rentalInspectionService,
+    rentalCancellationPolicyService,
+    eventBusService,
+  }: InjectedDependencies) {
+    // eslint-disable-next-line prefer-rest-params
+    super(arguments[0])
+
+    this.manager_ = manager
+    this.rentalBookingRepository_ = rentalBookingRepository
+    this.rentalVariantRepository_ = rentalVariantRepository
+    this.rentalVariantService_ = rentalVariantService
+    this.rentalUnitService_ = rentalUnitService
+    this.rentalDepositService_ = rentalDepositService
+    this.rentalInspectionService_ = rentalInspectionService
+    this.rentalCancellationPolicyService_ = rentalCancellationPolicyService
+    this.eventBus_ = eventBusService
+  }
+
+  /**
+   * Retrieves a rental booking by id.
+   * @param bookingId - the id of the booking to retrieve
+   * @param config - the config to retrieve the booking by
+   * @return the booking
+   */
+  async retrieve(
+    bookingId: string,
+    config: FindConfig<RentalBooking> = {}
+  ): Promise<RentalBooking> {
+    if (!isDefined(bookingId)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `"bookingId" must be defined`
+      )
+    }
+
+    const bookingRepo = this.manager_.getCustomRepository(
+      this.rentalBookingRepository_
+    )
+
+    const query = buildQuery({ id: bookingId }, config)
+    const booking = await bookingRepo.findOne(query)
+
+    if (!booking) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Rental booking with id: ${bookingId} was not found`
+      )
+    }
+
+    return booking
+  }
+
+  /**
+   * Lists rental bookings
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async list(
+    selector: FilterableRentalBookingProps | Selector<RentalBooking> = {},
+    config: FindConfig<RentalBooking> = { skip: 0, take: 20 }
+  ): Promise<RentalBooking[]> {
+    const [bookings] = await this.listAndCount(selector, config)
+    return bookings
+  }
+
+  /**
+   * Lists rental bookings and adds count.
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async listAndCount(
+    selector: FilterableRentalBookingProps | Selector<RentalBooking> = {},
+    config: FindConfig<RentalBooking> = { skip: 0, take: 20 }
+  ): Promise<[RentalBooking[], number]> {
+    const bookingRepo = this.manager_.getCustomRepository(
+      this.rentalBookingRepository_
+    )
+
+    const query = buildQuery(selector as Selector<RentalBooking>, config)
+    return await bookingRepo.findAndCount(query)
+  }
+
+  /**
+   * Creates a booking for a rental variant and assigns it the variant's
+   * units. Throws a conflict error if the variant does not have enough items
+   * available for the booked period.
+   * @param data - the booking to create
+   * @return the created booking
+   */
+  async create(data: CreateRentalBookingInput): Promise<RentalBooking> {
+    return await this.withVariantLock_(data.variant_id, async () => {
+      return await this.atomicPhase_(async (manager) => {
+        const bookingRepo = manager.getCustomRepository(
+          this.rentalBookingRepository_
+        )
+
+        const { quantity = 1, ...rest } = data
+
+        this.validatePeriod_(rest.start_at, rest.end_at)
+        this.validateQuantity_(quantity)
+
+        const booking = bookingRepo.create({
+          ...rest,
+          quantity,
+          status: rest.status ?? RentalBookingStatus.PENDING,
+        })
+
+        await this.lockVariant_(manager, booking.variant_id)
+
+        await this.rentalVariantService_
+          .withTransaction(manager)
+          .validateDuration(booking.variant_id, rest.start_at, rest.end_at)
+
+        if (blockingRentalBookingStatuses.includes(booking.status)) {
+          await this.rentalVariantService_
+            .withTransaction(manager)
+            .validateBlackouts(booking.variant_id, rest.start_at, rest.end_at)
+
+          await this.assertAvailable_(manager, booking)
+          booking.units = await this.assignUnits_(manager, booking)
+        }
+
+        if (booking.status === RentalBookingStatus.CONFIRMED) {
+          booking.confirmed_at = new Date()
+        }
+
+        const result = await bookingRepo.save(booking)
+
+        await this.eventBus_
+          .withTransaction(manager)
+          .emit(RentalBookingService.Events.CREATED, {
+            id: result.id,
+            variant_id: result.variant_id,
+          })
+
+        return result
+      })
+    })
+  }
+
+  /**
+   * Updates a booking. Status changes should use dedicated methods,
+   * e.g. `confirm`, `cancel`, etc.
+   * @param bookingId - the id of the booking to update
+   * @param update - an object with the update values
+   * @return the updated booking
+   */
+  async update(
+    bookingId: string,
+    update: UpdateRentalBookingInput
+  ): Promise<RentalBooking> {
+    const { variant_id } = await this.retrieve(bookingId, {
+      select: ["id", "variant_id"],
+    })
+
+    return await this.withVariantLock_(variant_id, async () => {
+      return await this.atomicPhase_(async (manager) => {
+        const bookingRepo = manager.getCustomRepository(
+          this.rentalBookingRepository_
+        )
+
+        const booking = await this.retrieve(bookingId, {
+          relations: ["units"],
+        })
+
+        if (
+          [RentalBookingStatus.RETURNED, RentalBookingStatus.CANCELED].includes(
+            booking.status
+          )
+        ) {
+          throw new MedusaError(
+            MedusaError.Types.NOT_ALLOWED,
+            `A ${booking.status} booking cannot be updated`
+          )
+        }
+
+        const { metadata, ...rest } = update
+
+        if (metadata) {
+          booking.metadata = setMetadata(booking, metadata)
+        }
+
+        for (const [key, value] of Object.entries(rest)) {
+          if (isDefined(value)) {
+            booking[key] = value
+          }
+        }
+
+        this.validatePeriod_(booking.start_at, booking.end_at)
+        this.validateQuantity_(booking.quantity)
+
+        if (
+          isDefined(update.start_at) ||
+          isDefined(update.end_at) ||
+          isDefined(update.quantity)
+        ) {
+          await this.lockVariant_(manager, booking.variant_id)
+
+          if (isDefined(update.start_at) || isDefined(update.end_at)) {
+            await this.rentalVariantService_
+              .withTransaction(manager)
+              .validateDuration(
+                booking.variant_id,
+                new Date(booking.start_at),
+                new Date(booking.end_at)
+              )
+            await this.rentalVariantService_
+              .withTransaction(manager)
+              .validateBlackouts(
+                booking.variant_id,
+                new Date(booking.start_at),
+                new Date(booking.end_at)
+              )
+          }
+
+          await this.assertAvailable_(manager, booking)
+          booking.units = await this.assignUnits_(manager, booking)
+        }
+
+        const result = await bookingRepo.save(booking)
+
+        await this.eventBus_
+          .withTransaction(manager)
+          .emit(RentalBookingService.Events.UPDATED, {
+            id: result.id,
+            fields: Object.keys(update),
+          })
+
+        return result
+      })
+    })
+  }
+
+  /**
+   * Moves the end of a booking later. Unless overridden, the extra time must
+   * respect the variant's duration rules, blackouts and buffers, and the
+   * items already handed over must stay with the booking. An overdue booking
+   * extended past the current time becomes active again.
+   * @param bookingId - the id of the booking to extend
+   * @param endAt - the new end of the booking
+   * @param override - whether to skip the availability and duration checks
+   * @return the extended booking
+   */
+  async extend(
+    bookingId: string,
+    endAt: Date,
+    override = false
+  ): Promise<RentalBooking> {
+    const { variant_id } = await this.retrieve(bookingId, {
+      select: ["id", "variant_id"],
+    })
+
+    return await this.withVariantLock_(variant_id, async () => {
+      return await this.atomicPhase_(async (manager) => {
+        const bookingRepo = manager.getCustomRepository(
+          this.rentalBookingRepository_
+        )
+
+        const booking = await this.retrieve(bookingId, {
+          relations: ["units"],
+        })
+
+        if (!RentalBookingService.ExtendableStatuses.includes(booking.status)) {
+          throw new MedusaError(
+            MedusaError.Types.NOT_ALLOWED,
+            `A ${booking.status} booking cannot be extended`
+          )
+        }
+
+        const previousEndAt = new Date(booking.end_at)
+        this.validatePeriod_(previousEndAt, endAt)
+
+        booking.end_at = new Date(endAt)
+
+        if (!override) {
+          await this.lockVariant_(manager, booking.variant_id)
+
+          await this.rentalVariantService_
+            .withTransaction(manager)
+            .validateDuration(
+              booking.variant_id,
+              new Date(booking.start_at),
+              booking.end_at
+            )
+          await this.rentalVariantService_
+            .withTransaction(manager)
+            .validateBlackouts(
+              booking.variant_id,
+              previousEndAt,
+              booking.end_at
+            )
+
+          await this.assertAvailable_(manager, booking)
+          const units = await this.assignUnits_(manager, booking)
+
+          const handedOver = [
+            RentalBookingStatus.ACTIVE,
+            RentalBookingStatus.OVERDUE,
+          ].includes(booking.status)
+          const unitIds = new Set(units.map((unit) => unit.id))
+
+          if (
+            handedOver &&
+            (booking.units ?? []).some((unit) => !unitIds.has(unit.id))
+          ) {
+            throw new MedusaError(
+              MedusaError.Types.CONFLICT,
+              `The units of booking ${booking.id} are reserved by another booking before ${booking.end_at.toISOString()}`
+            )
+          }
+
+          booking.units = units
+        }
+
+        if (
+          booking.status === RentalBookingStatus.OVERDUE &&
+          booking.end_at > new Date()
+        ) {
+          this.assertTransition_(booking, RentalBookingStatus.ACTIVE)
+          booking.status = RentalBookingStatus.ACTIVE
+          booking.overdue_at = null
+        }
+
+        const result = await bookingRepo.save(booking)
+
+        await this.eventBus_
+          .withTransaction(manager)
+          .emit(RentalBookingService.Events.EXTENDED, {
+            id: result.id,
+            variant_id: result.variant_id,
+            previous_end_at: previousEndAt,
+            end_at: result.end_at,
+            override,
+          })
+
+        return result
+      })
+    })
+  }
+
+  /**
+   * Confirms a pending booking.
+   * @param bookingId - the id of the booking to confirm
+   * @return the confirmed booking
+   */
+  async confirm(bookingId: string): Promise<RentalBooking> {
+    return await this.atomicPhase_(async (manager) => {
+      const bookingRepo = manager.getCustomRepository(
+        this.rentalBookingRepository_
+      )
+
+      const booking = await this.retrieve(bookingId)
+      this.assertTransition_(booking, RentalBookingStatus.CONFIRMED)
+
+      booking.status = RentalBookingStatus.CONFIRMED
+      booking.confirmed_at = new Date()
+
+      const result = await bookingRepo.save(booking)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalBookingService.Events.CONFIRMED, {
+          id: result.id,
+          variant_id: result.variant_id,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Cancels a booking that has not yet been handed over. The refund is
+   * computed from the cancellation policy of the booked rental, applied to
+   * the amount paid for the booking, and recorded on the booking. Its
+   * deposit, if held, is released in full.
+   * @param bookingId - the id of the booking to cancel
+   * @return the canceled booking
+   */
+  async cancel(bookingId: string): Promise<RentalBooking> {
+    const result = await this.atomicPhase_(async (manager) => {
+      const bookingRepo = manager.getCustomRepository(
+        this.rentalBookingRepository_
+      )
+
+      const booking = await this.retrieve(bookingId, {
+        relations: ["deposit", "variant", "extensions"],
+      })
+      this.assertTransition_(booking, RentalBookingStatus.CANCELED)
+
+      const canceledAt = new Date()
+
+      const rentalCancellationPolicyService =
+        this.rentalCancellationPolicyService_.withTransaction(manager)
+      const policy = await rentalCancellationPolicyService.retrieveForRental(
+        booking.variant.rental_id
+      )
+      const refund = rentalCancellationPolicyService.computeRefund(
+        policy,
+        booking.start_at,
+        canceledAt,
+        this.getAmountPaid_(booking)
+      )
+
+      booking.status = RentalBookingStatus.CANCELED
+      booking.canceled_at = canceledAt
+      booking.cancellation_policy_id = refund.policy_id
+      booking.refund_percentage = refund.refund_percentage
+      booking.refund_amount = refund.refund_amount
+
+      const result = await bookingRepo.save(booking)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalBookingService.Events.CANCELED, {
+          id: result.id,
+          variant_id: result.variant_id,
+          refund_percentage: result.refund_percentage,
+          refund_amount: result.refund_amount,
+        })
+
+      return result
+    })
+
+    // The deposit is released once the cancellation is saved, as releasing
+    // it calls the payment provider
+    const deposit = result.deposit
+    if (
+      deposit?.status === RentalDepositStatus.AUTHORIZED ||
+      deposit?.status === RentalDepositStatus.CAPTURED
+    ) {
+      await this.rentalDepositService_
+        .withTransaction(this.transactionManager_)
+        .release(deposit.id)
+    }
+
+    return result
+  }
+
+  /**
+   * Hands a confirmed booking over to its customer: the inspections of its
+   * items are recorded, the booking becomes active and its units rented.
+   * @param bookingId - the id of the booking to check out
+   * @param data - the inspections of the booking's items
+   * @return the checked out booking
+   */
+  async checkOut(
+    bookingId: string,
+    data: RentalBookingCheckOutInput = {}
+  ): Promise<RentalBooking> {
+    return await this.atomicPhase_(async (manager) => {
+      const bookingRepo = manager.getCustomRepository(
+        this.rentalBookingRepository_
+      )
+
+      const booking = await this.retrieve(bookingId, {
+        relations: ["units"],
+      })
+      this.assertTransition_(booking, RentalBookingStatus.ACTIVE)
+
+      const inspectedAt = data.inspected_at ?? new Date()
+      await this.createInspections_(
+        manager,
+        booking,
+        RentalInspectionType.CHECK_OUT,
+        { ...data, inspected_at: inspectedAt }
+      )
+
+      for (const unit of booking.units ?? []) {
+        await this.rentalUnitService_
+          .withTransaction(manager)
+          .update(unit.id, { status: RentalUnitStatus.RENTED })
+      }
+
+      booking.status = RentalBookingStatus.ACTIVE
+      booking.checked_out_at = inspectedAt
+
+      const result = await bookingRepo.save(booking)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalBookingService.Events.CHECKED_OUT, {
+          id: result.id,
+          variant_id: result.variant_id,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Takes an active booking back from its customer: the inspections of its
+   * items are recorded, the booking is returned and its units are available
+   * again, or in maintenance if found damaged. Units out of service, e.g.
+   * for a damage claim, stay out of service. The late fees owed are settled
+   * at the time of the return. The given deductions are recorded on its
+   * deposit, if held, which is then released once the check-in is saved
+   * unless asked otherwise. The deposit stays held while the booking has
+   * damage claims to settle or items returned damaged, so that the claims
+   * can be charged from it.
+   * @param bookingId - the id of the booking to check in
+   * @param data - the inspections of the booking's items and the deposit
+   *   deductions
+   * @return the checked in booking
+   */
+  async checkIn(
+    bookingId: string,
+    data: RentalBookingCheckInInput = {}
+  ): Promise<RentalBooking> {
+    let releasedDepositId: string | undefined
+
+    const result = await this.atomicPhase_(async (manager) => {
+      const bookingRepo = manager.getCustomRepository(
+        this.rentalBookingRepository_
+      )
+
+      const booking = await this.retrieve(bookingId, {
+        relations: ["units", "deposit", "damage_claims", "extensions"],
+      })
+      this.assertTransition_(booking, RentalBookingStatus.RETURNED)
+
+      const {
+        release_deposit = true,
+        deposit_deductions = [],
+        ...inspection
+      } = data
+
+      const inspectedAt = inspection.inspected_at ?? new Date()
+      const inspections = await this.createInspections_(
+        manager,
+        booking,
+        RentalInspectionType.CHECK_IN,
+        { ...inspection, inspected_at: inspectedAt }
+      )
+
+      for (const unit of booking.units ?? []) {
+        const condition = inspections.find(
+          (i) => i.unit_id === unit.id && i.condition
+        )?.condition
+
+        await this.rentalUnitService_
+          .withTransaction(manager)
+          .update(unit.id, {
+            condition: condition ?? undefined,
+            status:
+              unit.status === RentalUnitStatus.OUT_OF_SERVICE
+                ? undefined
+                : condition === RentalUnitCondition.DAMAGED
+                ? RentalUnitStatus.MAINTENANCE
+                : RentalUnitStatus.AVAILABLE,
+          })
+      }
+
+      const holdForClaims =
+        inspections.some(
+          ({ condition }) => condition === RentalUnitCondition.DAMAGED
+        ) ||
+        (booking.damage_claims ?? []).some(
+          ({ status }) => status !== RentalDamageClaimStatus.SETTLED
+        )
+
+      const deposit = booking.deposit
+      const depositHeld =
+        deposit?.status === RentalDepositStatus.AUTHORIZED ||
+        deposit?.status === RentalDepositStatus.CAPTURED
+
+      if (deposit_deductions.length && !depositHeld) {
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `Booking with id: ${booking.id} has no deposit to deduct from`
+        )
+      }
+
+      if (depositHeld) {
+        const depositService =
+          this.rentalDepositService_.withTransaction(manager)
+
+        for (const deduction of deposit_deductions) {
+          await depositService.deduct(deposit.id, deduction)
+        }
+
+        if (release_deposit && !holdForClaims) {
+          releasedDepositId = deposit.id
+        }
+      }
+
+      const schedule = await this.rentalVariantService_
+        .withTransaction(manager)
+        .getLateFeeSchedule(booking.variant_id)
+
+      booking.status = RentalBookingStatus.RETURNED
+      booking.checked_in_at = inspectedAt
+      booking.late_fee_total = this.computeLateFee_(
+        booking,
+        schedule,
+        inspectedAt
+      )
+
+      const returnedEarly = inspectedAt < new Date(booking.end_at)
+      if (returnedEarly) {
+        booking.early_return_refund = await this.computeEarlyReturnRefund_(
+          manager,
+          booking,
+          inspectedAt
+        )
+      }
+
+      const result = await bookingRepo.save(booking)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalBookingService.Events.CHECKED_IN, {
+          id: result.id,
+          variant_id: result.variant_id,
+        })
+
+      if (returnedEarly) {
+        await this.eventBus_
+          .withTransaction(manager)
+          .emit(RentalBookingService.Events.RETURNED_EARLY, {
+            id: result.id,
+            variant_id: result.variant_id,
+            end_at: result.end_at,
+            checked_in_at: result.checked_in_at,
+            refund_amount: result.early_return_refund,
+          })
+      }
+
+      return result
+    })
+
+    // Releasing the deposit calls the payment provider, so it is only done
+    // once the check-in is saved
+    if (releasedDepositId) {
+      await this.rentalDepositService_
+        .withTransaction(this.transactionManager_)
+        .release(releasedDepositId)
+    }
+
+    return result
+  }
+
+  /**
+   * Computes the late fees owed for a booking at a point in time. Fees stop
+   * accruing once the booking's items are returned.
+   * @param bookingId - the id of the booking
+   * @param at - the point in time to compute the fees at
+   * @return the late fees owed, 0 if the items are not late
+   */
+  async getLateFee(bookingId: string, at: Date = new Date()): Promise<number> {
+    const manager = this.transactionManager_ ?? this.manager_
+
+    const booking = await this.retrieve(bookingId, {
+      select: [
+        "id",
+        "variant_id",
+        "status",
+        "end_at",
+        "quantity",
+        "checked_in_at",
+        "late_fee_total",
+      ],
+    })
+
+    if (booking.status === RentalBookingStatus.RETURNED) {
+      return booking.late_fee_total
+    }
+
+    if (
+      booking.status !== RentalBookingStatus.ACTIVE &&
+      booking.status !== RentalBookingStatus.OVERDUE
+    ) {
+      return 0
+    }
+
+    const schedule = await this.rentalVariantService_
+      .withTransaction(manager)
+      .getLateFeeSchedule(booking.variant_id)
+
+    return this.computeLateFee_(booking, schedule, at)
+  }
+
+  /**
+   * Marks the active bookings that are past their end as overdue, and
+   * refreshes the late fees owed for all overdue bookings. The fees are
+   * recorded, not charged. Overdue bookings hold their items until they are
+   * checked in.
+   * @param at - the point in time to check the bookings at
+   * @return the bookings that became overdue
+   */
+  async processOverdue(at: Date = new Date()): Promise<RentalBooking[]> {
+    return await this.atomicPhase_(async (manager) => {
+      const bookingRepo = manager.getCustomRepository(
+        this.rentalBookingRepository_
+      )
+
+      const bookings = await bookingRepo.find({
+        where: [
+          { status: RentalBookingStatus.ACTIVE, end_at: LessThan(at) },
+          { status: RentalBookingStatus.OVERDUE },
+        ],
+      })
+
+      const schedules = new Map<string, RentalLateFeeSchedule | null>()
+      const overdue: RentalBooking[] = []
+
+      for (const booking of bookings) {
+        if (!schedules.has(booking.variant_id)) {
+          schedules.set(
+            booking.variant_id,
+            await this.rentalVariantService_
+              .withTransaction(manager)
+              .getLateFeeSchedule(booking.variant_id)
+          )
+        }
+
+        booking.late_fee_total = this.computeLateFee_(
+          booking,
+          schedules.get(booking.variant_id) ?? null,
+          at
+        )
+
+        if (booking.status === RentalBookingStatus.ACTIVE) {
+          booking.status = RentalBookingStatus.OVERDUE
+          booking.overdue_at = at
+          overdue.push(booking)
+        }
+      }
+
+      await bookingRepo.save(bookings)
+
+      for (const booking of overdue) {
+        await this.eventBus_
+          .withTransaction(manager)
+          .emit(RentalBookingService.Events.OVERDUE, {
+            id: booking.id,
+            variant_id: booking.variant_id,
+            late_fee_total: booking.late_fee_total,
+          })
+      }
+
+      return overdue
+    })
+  }
+
+  /**
+   * Throws a conflict error if the variant does not have enough items
+   * available to hold the booking for its whole period.
+   * @param manager - the transaction manager to check availability with
+   * @param booking - the booking to check
+   */
+  protected async assertAvailable_(
+    manager: EntityManager,
+    booking: RentalBooking
+  ): Promise<void> {
+    const available = await this.rentalVariantService_
+      .withTransaction(manager)
+      .getAvailableQuantity(
+        booking.variant_id,
+        new Date(booking.start_at),
+        new Date(booking.end_at),
+        booking.id ? [booking.id] : []
+      )
+
+    if (available < booking.quantity) {
+      throw new MedusaError(
+        MedusaError.Types.CONFLICT,
+        `Variant with id: ${booking.variant_id} has ${available} item(s) available between ${new Date(
+          booking.start_at
+        ).toISOString()} and ${new Date(
+          booking.end_at
+        ).toISOString()}, but ${booking.quantity} were requested`
+      )
+    }
+  }
+
+  /**
+   * Picks the units to assign to a booking, keeping the variant's buffer free
+   * between the booking and the other bookings of its units.
+   * @param manager - the transaction manager to pick the units with
+   * @param booking - the booking to pick units for
+   * @return the units to assign to the booking
+   */
+  protected async assignUnits_(
+    manager: EntityManager,
+    booking: RentalBooking
+  ): Promise<RentalUnit[]> {
+    const buffer = await this.rentalVariantService_
+      .withTransaction(manager)
+      .getBuffer(booking.variant_id)
+
+    return await this.rentalUnitService_
+      .withTransaction(manager)
+      .assignUnits(booking, buffer)
+  }
+
+  /**
+   * Locks the variant row until the end of the transaction, so concurrent
+   * bookings of the same variant are checked one after the other. Drivers
+   * without row-level locking, e.g. sqlite, write to the variant row
+   * instead, which takes the database's write lock until the transaction
+   * ends and so also holds off other processes.
+   * @param manager - the transaction manager to lock the variant with
+   * @param variantId - the id of the variant to lock
+   */
+  protected async lockVariant_(
+    manager: EntityManager,
+    variantId: string
+  ): Promise<void> {
+    const variantRepo = manager.getCustomRepository(
+      this.rentalVariantRepository_
+    )
+
+    const supportsRowLocking = manager.connection?.options.type === "postgres"
+
+    const variant = await variantRepo.findOne({
+      where: { id: variantId },
+      select: ["id"],
+      ...(supportsRowLocking ? { lock: { mode: "pessimistic_write" } } : {}),
+    })
+
+    if (!variant) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Variant with id: ${variantId} was not found`
+      )
+    }
+
+    if (!supportsRowLocking) {
+      await variantRepo.update(variantId, {
+        variant_rank: () => "variant_rank",
+      })
+    }
+  }
+
+  /**
+   * Runs the work once all previous work for the same variant has settled in
+   * this process. This is best-effort; bookings are only guaranteed to be
+   * serialized by `lockVariant_`.
+   * @param variantId - the id of the variant the work reserves items of
+   * @param work - the work to run
+   * @return the result of the work
+   */
+  protected async withVariantLock_<T>(
+    variantId: string,
+    work: () => Promise<T>
+  ): Promise<T> {
+    const locks = RentalBookingService.variantLocks_
+    const previous = locks.get(variantId) ?? Promise.resolve()
+
+    let release: () => void = () => undefined
+    const current = previous.then(
+      () => new Promise<void>((resolve) => (release = resolve))
+    )
+    locks.set(variantId, current)
+
+    await previous
+
+    try {
+      return await work()
+    } finally {
+      release()
+      if (locks.get(variantId) === current) {
+        locks.delete(variantId)
+      }
+    }
+  }
+
+  /**
+   * Records the inspections made when a booking is handed over or returned.
+   * Inspections about a single unit must be about one of the booking's
+   * units.
+   * @param manager - the transaction manager to record the inspections with
+   * @param booking - the inspected booking, with its units
+   * @param type - whether the booking is handed over or returned
+   * @param data - the inspections to record
+   * @return the recorded inspections
+   */
+  protected async createInspections_(
+    manager: EntityManager,
+    booking: RentalBooking,
+    type: RentalInspectionType,
+    data: RentalBookingCheckOutInput
+  ): Promise<RentalInspection[]> {
+    const unitIds = new Set((booking.units ?? []).map((unit) => unit.id))
+    const inspections: RentalInspection[] = []
+
+    for (const inspection of data.inspections ?? []) {
+      if (inspection.unit_id && !unitIds.has(inspection.unit_id)) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Unit with id: ${inspection.unit_id} is not assigned to booking ${booking.id}`
+        )
+      }
+
+      inspections.push(
+        await this.rentalInspectionService_.withTransaction(manager).create({
+          ...inspection,
+          type,
+          booking_id: booking.id,
+          inspected_at: data.inspected_at,
+          inspected_by: data.inspected_by,
+        })
+      )
+    }
+
+    return inspections
+  }
+
+  /**
+   * Computes the late fees of a booking returned at a point in time. Once
+   * the grace period has passed, each started unit past the end of the
+   * booking is charged for each item booked.
+   * @param booking - the booking, with its end and quantity
+   * @param schedule - the late fee schedule of the booked variant
+   * @param returnedAt - when the items are returned
+   * @return the late fees owed
+   */
+  protected computeLateFee_(
+    booking: RentalBooking,
+    schedule: RentalLateFeeSchedule | null,
+    returnedAt: Date
+  ): number {
+    if (!schedule) {
+      return 0
+    }
+
+    const lateMinutes =
+      (new Date(returnedAt).getTime() - new Date(booking.end_at).getTime()) /
+      (60 * 1000)
+
+    if (lateMinutes <= 0 || lateMinutes <= schedule.grace_period) {
+      return 0
+    }
+
+    const units = Math.ceil(
+      lateMinutes / RentalBookingService.LateFeeUnitMinutes[schedule.unit]
+    )
+
+    return units * schedule.amount * booking.quantity
+  }
+
+  /**
+   * Computes the refund of the unused days of a booking returned early, if
+   * the booked rental prorates early returns. The amount paid for the
+   * booking is refunded in proportion to the whole days left between the
+   * return and the end of the booking. Bookings not placed with an order
+   * were not paid for, so nothing is refunded.
+   * @param manager - the transaction manager to retrieve the rental with
+   * @param booking - the booking returned early, with its extensions
+   * @param returnedAt - when the items are returned
+   * @return the amount to refund
+   */
+  protected async computeEarlyReturnRefund_(
+    manager: EntityManager,
+    booking: RentalBooking,
+    returnedAt: Date
+  ): Promise<number> {
+    const variant = await this.rentalVariantService_
+      .withTransaction(manager)
+      .retrieve(booking.variant_id, { relations: ["rental"] })
+
+    const amountPaid = this.getAmountPaid_(booking)
+    if (!variant.rental?.prorate_early_returns || amountPaid === null) {
+      return 0
+    }
+
+    const startAt = new Date(booking.start_at)
+    const endAt = new Date(booking.end_at)
+
+    const dayLength = RentalBookingService.DayLength
+    const bookedDays = Math.ceil(
+      (endAt.getTime() - startAt.getTime()) / dayLength
+    )
+    const unusedDays = Math.min(
+      Math.floor(
+        (endAt.getTime() - new Date(returnedAt).getTime()) / dayLength
+      ),
+      bookedDays
+    )
+
+    return Math.round((amountPaid * unusedDays) / bookedDays)
+  }
+
+  /**
+   * Computes the amount paid for a booking: the price paid for its items
+   * with its order, and the extensions charged to the customer since.
+   * @param booking - the booking, with its extensions
+   * @return the amount paid, null if the booking was not placed with an
+   *   order
+   */
+  protected getAmountPaid_(booking: RentalBooking): number | null {
+    const amountPaid = booking.amount_paid ?? null
+    if (amountPaid === null) {
+      return null
+    }
+
+    return (booking.extensions ?? [])
+      .filter((extension) => extension.payment_id)
+      .reduce((total, extension) => total + extension.amount, amountPaid)
+  }
+
+  /**
+   * Throws if the booking cannot move to the given status.
+   * @param booking - the booking to check
+   * @param status - the status the booking should move to
+   */
+  protected assertTransition_(
+    booking: RentalBooking,
+    status: RentalBookingStatus
+  ): void {
+    const allowed = RentalBookingService.Transitions[booking.status] ?? []
+
+    if (!allowed.includes(status)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Cannot change the status of a ${booking.status} booking to ${status}`
+      )
+    }
+  }
+
+  protected validatePeriod_(startAt: Date, endAt: Date): void {
+    const start = new Date(startAt)
+    const end = new Date(endAt)
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `A booking must have a valid start and end date`
+      )
+    }
+
+    if (start >= end) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `The end of a booking must be after its start`
+      )
+    }
+  }
+
+  protected validateQuantity_(quantity: number): void {
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `A booking must reserve at least one item`
+      )
+    }
+  }
+}
+
+export default RentalBookingService
@@ -0,0 +1,368 @@
+import { MedusaError, isDefined } from "medusa-core-utils"
+import { EntityManager, ILike } from "typeorm"
+import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
+import { RentalCancellationPolicy } from "../models"
+import { RentalCancellationPolicyRepository } from "../repositories/rental-cancellation-policy"
+import { RentalRepository } from "../repositories/rental"
+import { FindConfig, Selector } from "@medusajs/medusa/dist/types/common"
+import {
+  CreateRentalCancellationPolicyInput,
+  FilterableRentalCancellationPolicyProps,
+  RentalCancellationRefund,
+  UpdateRentalCancellationPolicyInput,
+} from "../types/rental-cancellation-policy"
+import { buildQuery, isString, setMetadata } from "@medusajs/medusa/dist/utils"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+
+type InjectedDependencies = {
+  manager: EntityManager
+  rentalCancellationPolicyRepository: typeof RentalCancellationPolicyRepository
+  rentalRepository: typeof RentalRepository
+  eventBusService: EventBusService
+}
+
+/**
+ * Provides layer to manipulate rental cancellation policies, which set how
+ * much of the price of a canceled booking is refunded.
+ */
+class RentalCancellationPolicyService extends TransactionBaseService {
+  protected manager_: EntityManager
+  protected transactionManager_: EntityManager | undefined
+
+  protected readonly rentalCancellationPolicyRepository_: typeof RentalCancellationPolicyRepository
+  protected readonly rentalRepository_: typeof RentalRepository
+  protected readonly eventBus_: EventBusService
+
+  static readonly Events = {
+    CREATED: "rental_cancellation_policy.created",
+    UPDATED: "rental_cancellation_policy.updated",
+    DELETED: "rental_cancellation_policy.deleted",
+  }
+
+  constructor({
+    manager,
+    rentalCancellationPolicyRepository,
+    rentalRepository,
+    eventBusService,
+  }: InjectedDependencies) {
+    // eslint-disable-next-line prefer-rest-params
+    super(arguments[0])
+
+    this.manager_ = manager
+    this.rentalCancellationPolicyRepository_ =
+      rentalCancellationPolicyRepository
+    this.rentalRepository_ = rentalRepository
+    this.eventBus_ = eventBusService
+  }
+
+  /**
+   * Retrieves a rental cancellation policy by id.
+   * @param policyId - the id of the policy to retrieve
+   * @param config - the config to retrieve the policy by
+   * @return the policy
+   */
+  async retrieve(
+    policyId: string,
+    config: FindConfig<RentalCancellationPolicy> = {}
+  ): Promise<RentalCancellationPolicy> {
+    if (!isDefined(policyId)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `"policyId" must be defined`
+      )
+    }
+
+    const manager = this.transactionManager_ ?? this.manager_
+    const policyRepo = manager.getCustomRepository(
+      this.rentalCancellationPolicyRepository_
+    )
+
+    const query = buildQuery({ id: policyId }, config)
+    const policy = await policyRepo.findOne(query)
+
+    if (!policy) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Rental cancellation policy with id: ${policyId} was not found`
+      )
+    }
+
+    return policy
+  }
+
+  /**
+   * Lists rental cancellation policies
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async list(
+    selector:
+      | FilterableRentalCancellationPolicyProps
+      | Selector<RentalCancellationPolicy> = {},
+    config: FindConfig<RentalCancellationPolicy> = { skip: 0, take: 20 }
+  ): Promise<RentalCancellationPolicy[]> {
+    const [policies] = await this.listAndCount(selector, config)
+    return policies
+  }
+
+  /**
+   * Lists rental cancellation policies and adds count.
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async listAndCount(
+    selector:
+      | FilterableRentalCancellationPolicyProps
+      | Selector<RentalCancellationPolicy> = {},
+    config: FindConfig<RentalCancellationPolicy> = { skip: 0, take: 20 }
+  ): Promise<[RentalCancellationPolicy[], number]> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const policyRepo = manager.getCustomRepository(
+      this.rentalCancellationPolicyRepository_
+    )
+
+    const selector_ = { ...selector } as FilterableRentalCancellationPolicyProps
+
+    let q: string | undefined
+    if (isString(selector_.q)) {
+      q = selector_.q
+      delete selector_.q
+    }
+
+    const query = buildQuery(
+      selector_ as Selector<RentalCancellationPolicy>,
+      config
+    )
+
+    if (q) {
+      query.where.name = ILike(`%${q}%`)
+    }
+
+    return await policyRepo.findAndCount(query)
+  }
+
+  /**
+   * Creates a rental cancellation policy.
+   * @param data - the policy to create
+   * @return the created policy
+   */
+  async create(
+    data: CreateRentalCancellationPolicyInput
+  ): Promise<RentalCancellationPolicy> {
+    return await this.atomicPhase_(async (manager) => {
+      const policyRepo = manager.getCustomRepository(
+        this.rentalCancellationPolicyRepository_
+      )
+
+      const policy = policyRepo.create(data)
+      this.validate_(policy)
+
+      const result = await policyRepo.save(policy)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalCancellationPolicyService.Events.CREATED, {
+          id: result.id,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Updates a rental cancellation policy. Bookings canceled before keep the
+   * refund computed when they were canceled.
+   * @param policyId - the id of the policy to update
+   * @param update - an object with the update values
+   * @return the updated policy
+   */
+  async update(
+    policyId: string,
+    update: UpdateRentalCancellationPolicyInput
+  ): Promise<RentalCancellationPolicy> {
+    return await this.atomicPhase_(async (manager) => {
+      const policyRepo = manager.getCustomRepository(
+        this.rentalCancellationPolicyRepository_
+      )
+
+      const policy = await this.retrieve(policyId)
+
+      const { metadata, ...rest } = update
+
+      if (metadata) {
+        policy.metadata = setMetadata(policy, metadata)
+      }
+
+      for (const [key, value] of Object.entries(rest)) {
+        if (typeof value !== "undefined") {
+          policy[key] = value
+        }
+      }
+
+      this.validate_(policy)
+
+      const result = await policyRepo.save(policy)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalCancellationPolicyService.Events.UPDATED, {
+          id: result.id,
+          fields: Object.keys(update),
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Deletes a rental cancellation policy.
+   * @param policyId - the id of the policy to delete
+   * @return empty promise
+   */
+  async delete(policyId: string): Promise<void> {
+    return await this.atomicPhase_(async (manager) => {
+      const policyRepo = manager.getCustomRepository(
+        this.rentalCancellationPolicyRepository_
+      )
+
+      const policy = await policyRepo.findOne({
+        where: { id: policyId },
+      })
+
+      if (!policy) {
+        return
+      }
+
+      await policyRepo.softRemove(policy)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalCancellationPolicyService.Events.DELETED, {
+          id: policyId,
+        })
+    })
+  }
+
+  /**
+   * Retrieves the cancellation policy that applies to the bookings of a
+   * rental: its own policy, else the policy of its type, else the policy of
+   * its collection.
+   * @param rentalId - the id of the rental
+   * @return the policy, or null if none applies
+   */
+  async retrieveForRental(
+    rentalId: string
+  ): Promise<RentalCancellationPolicy | null> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const rentalRepo = manager.getCustomRepository(this.rentalRepository_)
+
+    const rental = await rentalRepo.findOne({
+      where: { id: rentalId },
+      relations: [
+        "cancellation_policy",
+        "type",
+        "type.cancellation_policy",
+        "collection",
+        "collection.cancellation_policy",
+      ],
+    })
+
+    if (!rental) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Rental with id: ${rentalId} was not found`
+      )
+    }
+
+    return (
+      rental.cancellation_policy ??
+      rental.type?.cancellation_policy ??
+      rental.collection?.cancellation_policy ??
+      null
+    )
+  }
+
+  /**
+   * Computes the refund of a booking canceled under a policy. The rule with
+   * the most hours that are still before the start of the booking applies.
+   * Without a policy, the price is refunded in full.
+   * @param policy - the policy of the booked rental
+   * @param startAt - the start of the booking
+   * @param canceledAt - when the booking is canceled
+   * @param amountPaid - the amount paid for the booking, if known
+   * @return the refund
+   */
+  computeRefund(
+    policy: RentalCancellationPolicy | null,
+    startAt: Date,
+    canceledAt: Date,
+    amountPaid?: number | null
+  ): RentalCancellationRefund {
+    let percentage = 100
+
+    if (policy) {
+      const hoursBefore =
+        (new Date(startAt).getTime() - new Date(canceledAt).getTime()) /
+        (60 * 60 * 1000)
+
+      const rule = [...(policy.rules ?? [])]
+        .sort((a, b) => b.min_hours_before - a.min_hours_before)
+        .find((rule) => hoursBefore >= rule.min_hours_before)
+
+      percentage = rule?.refund_percentage ?? 0
+    }
+
+    return {
+      policy_id: policy?.id ?? null,
+      refund_percentage: percentage,
+      refund_amount: isDefined(amountPaid)
+        ? Math.round(((amountPaid as number) * percentage) / 100)
+        : null,
+    }
+  }
+
+  /**
+   * Throws if a rule of the policy has a negative number of hours, a
+   * percentage outside 0 to 100, or the same hours as another rule.
+   * @param policy - the policy to validate
+   */
+  protected validate_(policy: RentalCancellationPolicy): void {
+    const rules = policy.rules ?? []
+
+    for (const rule of rules) {
+      if (
+        !Number.isInteger(rule.min_hours_before) ||
+        rule.min_hours_before < 0
+      ) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `The hours before a booking starts must be a positive whole number`
+        )
+      }
+
+      if (
+        !Number.isInteger(rule.refund_percentage) ||
+        rule.refund_percentage < 0 ||
+        rule.refund_percentage > 100
+      ) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Refund percentages must be between 0 and 100`
+        )
+      }
+    }
+
+    const hours = new Set(rules.map((rule) => rule.min_hours_before))
+
+    if (hours.size !== rules.length) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `A cancellation policy can have only one rule per number of hours`
+      )
+    }
+  }
+}
+
+export default RentalCancellationPolicyService
@@ -0,0 +1,461 @@
+import { MedusaError } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
+import { Cart, LineItem, OrderStatus } from "@medusajs/medusa/dist/models"
+import { RentalBooking, RentalBookingStatus, RentalHold } from "../models"
+import RentalBookingService from "./rental-booking"
+import RentalHoldService from "./rental-hold"
+import RentalQuoteService from "./rental-quote"
+import RentalVariantService from "./rental-variant"
+import { AddRentalCartItemInput } from "../types/rental-cart"
+import CartService from "@medusajs/medusa/dist/services/cart"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+import LineItemService from "@medusajs/medusa/dist/services/line-item"
+import OrderService from "@medusajs/medusa/dist/services/order"
+
+type InjectedDependencies = {
+  manager: EntityManager
+  cartService: CartService
+  lineItemService: LineItemService
+  orderService: OrderService
+  rentalBookingService: RentalBookingService
+  rentalHoldService: RentalHoldService
+  rentalQuoteService: RentalQuoteService
+  rentalVariantService: RentalVariantService
+  eventBusService: EventBusService
+}
+
+/**
+ * Provides layer to add rentals to carts. Each rental line item keeps its
+ * items aside with a hold until it expires, and is booked when the order is
+ * placed. Carts can only be completed while their holds last.
+ */
+class RentalCartService extends TransactionBaseService {
+  protected manager_: EntityManager
+  protected transactionManager_: EntityManager | undefined
+
+  protected readonly cartService_: CartService
+  protected readonly lineItemService_: LineItemService
+  protected readonly orderService_: OrderService
+  protected readonly rentalBookingService_: RentalBookingService
+  protected readonly rentalHoldService_: RentalHoldService
+  protected readonly rentalQuoteService_: RentalQuoteService
+  protected readonly rentalVariantService_: RentalVariantService
+  protected readonly eventBus_: EventBusService
+
+  static readonly Events = {
+    ORDER_BOOKING_FAILED: "rental_cart.order_booking_failed",
+  }
+
+  constructor({
+    manager,
+    cartService,
+    lineItemService,
+    orderService,
+    rentalBookingService,
+    rentalHoldService,
+    rentalQuoteService,
+    rentalVariantService,
+    eventBusService,
+  }: InjectedDependencies) {
+    // eslint-disable-next-line prefer-rest-params
+    super(arguments[0])
+
+    this.manager_ = manager
+    this.cartService_ = cartService
+    this.lineItemService_ = lineItemService
+    this.orderService_ = orderService
+    this.rentalBookingService_ = rentalBookingService
+    this.rentalHoldService_ = rentalHoldService
+    this.rentalQuoteService_ = rentalQuoteService
+    this.rentalVariantService_ = rentalVariantService
+    this.eventBus_ = eventBusService
+  }
+
+  /**
+   * Adds a rental variant booked for a period to a cart. The items are held
+   * for the given number of minutes, unless a hold the customer was given,
+   * e.g. from a waitlist, is added to the cart instead. The line item is
+   * priced by the rental quote of the period in the region of the cart,
+   * before taxes, which the cart computes itself.
+   * @param cartId - the id of the cart to add to
+   * @param data - the rental variant, period and quantity to add
+   * @param ttlMinutes - the number of minutes to hold the items for
+   * @return the hold of the items
+   */
+  async addItem(
+    cartId: string,
+    data: AddRentalCartItemInput,
+    ttlMinutes?: number
+  ): Promise<RentalHold> {
+    return await this.atomicPhase_(async (manager) => {
+      const cart = await this.retrieveOpenCart_(manager, cartId)
+
+      const quantity = data.quantity ?? 1
+
+      const variant = await this.rentalVariantService_
+        .withTransaction(manager)
+        .retrieve(data.variant_id, { relations: ["rental"] })
+
+      const quote = await this.rentalQuoteService_
+        .withTransaction(manager)
+        .quote(variant.id, data.start_at, data.end_at, {
+          region_id: cart.region_id,
+          customer_id: cart.customer_id,
+          quantity,
+        })
+
+      const hold = data.hold_id
+        ? await this.claimHold_(manager, cart, {
+            ...data,
+            hold_id: data.hold_id,
+            quantity,
+          })
+        : await this.rentalHoldService_.withTransaction(manager).create({
+            variant_id: variant.id,
+            cart_id: cart.id,
+            start_at: data.start_at,
+            end_at: data.end_at,
+            quantity,
+            ttl_minutes: ttlMinutes,
+          })
+
+      const lineItem: Partial<LineItem> = {
+        title: variant.rental.title,
+        description: variant.title,
+        thumbnail: variant.rental.thumbnail,
+        unit_price: Math.round(
+          (quote.subtotal - quote.discount_total) / quantity
+        ),
+        quantity,
+        allow_discounts: false,
+        should_merge: false,
+        is_giftcard: false,
+        metadata: {
+          ...data.metadata,
+          rental_variant_id: variant.id,
+          rental_hold_id: hold.id,
+          start_at: data.start_at,
+          end_at: data.end_at,
+        },
+      }
+
+      await this.cartService_
+        .withTransaction(manager)
+        .addLineItem(cart.id, lineItem as LineItem, {
+          validateSalesChannels: false,
+        })
+
+      return hold
+    })
+  }
+
+  /**
+   * Removes a rental line item from a cart and releases the hold of its
+   * items.
+   * @param cartId - the id of the cart to remove from
+   * @param lineItemId - the id of the line item to remove
+   * @return empty promise
+   */
+  async removeItem(cartId: string, lineItemId: string): Promise<void> {
+    return await this.atomicPhase_(async (manager) => {
+      const lineItem = await this.lineItemService_
+        .withTransaction(manager)
+        .retrieve(lineItemId, { select: ["id", "cart_id", "metadata"] })
+
+      if (lineItem.cart_id !== cartId) {
+        throw new MedusaError(
+          MedusaError.Types.NOT_FOUND,
+          `Line item with id: ${lineItemId} was not found in cart ${cartId}`
+        )
+      }
+
+      const holdId = lineItem.metadata?.rental_hold_id as string | undefined
+
+      if (holdId) {
+        await this.rentalHoldService_.withTransaction(manager).release(holdId)
+      }
+
+      await this.cartService_
+        .withTransaction(manager)
+        .removeLineItem(cartId, lineItemId)
+    })
+  }
+
+  /**
+   * Holds the items of each rental line item of a cart for the given number
+   * of minutes from now, e.g. when its customer starts checking out. Holds
+   * that are still there are renewed, and items whose hold was released are
+   * held again if they are still available.
+   * @param cartId - the id of the cart to hold the items of
+   * @param ttlMinutes - the number of minutes to hold the items for
+   * @return the holds of the items
+   */
+  async holdItems(cartId: string, ttlMinutes?: number): Promise<RentalHold[]> {
+    return await this.atomicPhase_(async (manager) => {
+      const cart = await this.retrieveOpenCart_(manager, cartId, ["items"])
+
+      const rentalHoldService = this.rentalHoldService_.withTransaction(manager)
+      const lineItemService = this.lineItemService_.withTransaction(manager)
+
+      const holds: RentalHold[] = []
+
+      for (const item of cart.items) {
+        const variantId = item.metadata?.rental_variant_id as
+          | string
+          | undefined
+
+        if (!variantId) {
+          continue
+        }
+
+        const holdId = item.metadata.rental_hold_id as string | undefined
+        const [existing] = holdId
+          ? await rentalHoldService.list({ id: holdId })
+          : []
+
+        if (existing) {
+          holds.push(await rentalHoldService.renew(existing.id, ttlMinutes))
+          continue
+        }
+
+        const hold = await rentalHoldService.create({
+          variant_id: variantId,
+          cart_id: cart.id,
+          start_at: new Date(item.metadata.start_at as string),
+          end_at: new Date(item.metadata.end_at as string),
+          quantity: item.quantity,
+          ttl_minutes: ttlMinutes,
+        })
+
+        await lineItemService.update(item.id, {
+          metadata: { ...item.metadata, rental_hold_id: hold.id },
+        })
+
+        holds.push(hold)
+      }
+
+      return holds
+    })
+  }
+
+  /**
+   * Throws if a rental line item of a cart is no longer held for the cart,
+   * e.g. because its hold expired and was released, so that the cart is
+   * not completed with items that may have been booked by someone else.
+   * @param cartId - the id of the cart to check the holds of
+   * @return empty promise
+   */
+  async validateHolds(cartId: string): Promise<void> {
+    const manager = this.transactionManager_ ?? this.manager_
+
+    const cart = await this.retrieveOpenCart_(manager, cartId, ["items"])
+
+    const rentalHoldService = this.rentalHoldService_.withTransaction(manager)
+
+    for (const item of cart.items) {
+      const variantId = item.metadata?.rental_variant_id as
+        | string
+        | undefined
+
+      if (!variantId) {
+        continue
+      }
+
+      const holdId = item.metadata.rental_hold_id as string | undefined
+      const [hold] = holdId ? await rentalHoldService.list({ id: holdId }) : []
+
+      if (
+        !hold ||
+        hold.cart_id !== cart.id ||
+        hold.variant_id !== variantId ||
+        hold.quantity < item.quantity ||
+        new Date(hold.expires_at) <= new Date()
+      ) {
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `The items of line item ${item.id} are no longer held, hold them again before completing cart ${cart.id}`
+        )
+      }
+    }
+  }
+
+  /**
+   * Books the rental items of an order. The hold of each item is released
+   * and replaced by a confirmed booking linked to the order, the line item
+   * and its customer, with the amount paid for the line item. Orders whose
+   * items are already booked, or that are canceled, are left as they are.
+   * @param orderId - the id of the placed order
+   * @return the created bookings
+   */
+  async createOrderBookings(orderId: string): Promise<RentalBooking[]> {
+    return await this.atomicPhase_(async (manager) => {
+      const order = await this.orderService_
+        .withTransaction(manager)
+        .retrieveWithTotals(orderId, { relations: ["items"] })
+
+      const rentalBookingService =
+        this.rentalBookingService_.withTransaction(manager)
+      const rentalHoldService = this.rentalHoldService_.withTransaction(manager)
+
+      const existing = await rentalBookingService.list(
+        { order_id: order.id },
+        { select: ["id"], take: 1 }
+      )
+
+      if (existing.length || order.status === OrderStatus.CANCELED) {
+        return []
+      }
+
+      const bookings: RentalBooking[] = []
+
+      for (const item of order.items) {
+        const variantId = item.metadata?.rental_variant_id as
+          | string
+          | undefined
+
+        if (!variantId) {
+          continue
+        }
+
+        const holdId = item.metadata.rental_hold_id as string | undefined
+        if (holdId) {
+          await rentalHoldService.release(holdId)
+        }
+
+        bookings.push(
+          await rentalBookingService.create({
+            variant_id: variantId,
+            customer_id: order.customer_id,
+            cart_id: order.cart_id,
+            order_id: order.id,
+            line_item_id: item.id,
+            start_at: new Date(item.metadata.start_at as string),
+            end_at: new Date(item.metadata.end_at as string),
+            quantity: item.quantity,
+            amount_paid: item.total ?? undefined,
+            status: RentalBookingStatus.CONFIRMED,
+          })
+        )
+      }
+
+      return bookings
+    })
+  }
+
+  /**
+   * Cancels an order whose rental items could not be booked, e.g. because
+   * their holds were released before the order was placed and the items
+   * booked by someone else, so that its payment is voided. An event is
+   * emitted either way, so the customer can be told and the order refunded
+   * by hand if it could not be canceled.
+   * @param orderId - the id of the order that could not be booked
+   * @param reason - why the items could not be booked
+   * @return empty promise
+   */
+  async cancelUnbookedOrder(orderId: string, reason: string): Promise<void> {
+    let canceled = true
+
+    try {
+      await this.orderService_
+        .withTransaction(this.transactionManager_)
+        .cancel(orderId)
+    } catch {
+      canceled = false
+    }
+
+    await this.atomicPhase_(async (manager) => {
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalCartService.Events.ORDER_BOOKING_FAILED, {
+          id: orderId,
+          reason,
+          canceled,
+        })
+    })
+  }
+
+  /**
+   * Adds the hold a customer was given to their cart, once checked to be
+   * theirs, unexpired and for the items added.
+   * @param manager - the transaction manager to claim the hold with
+   * @param cart - the cart to add the hold to
+   * @param data - the item added with the hold
+   * @return the claimed hold
+   */
+  protected async claimHold_(
+    manager: EntityManager,
+    cart: Cart,
+    data: AddRentalCartItemInput & { hold_id: string; quantity: number }
+  ): Promise<RentalHold> {
+    const rentalHoldService = this.rentalHoldService_.withTransaction(manager)
+
+    const hold = await rentalHoldService.retrieve(data.hold_id)
+
+    if (hold.customer_id && hold.customer_id !== cart.customer_id) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Rental hold with id: ${hold.id} was not found`
+      )
+    }
+
+    if (hold.cart_id && hold.cart_id !== cart.id) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Rental hold with id: ${hold.id} is already in another cart`
+      )
+    }
+
+    if (new Date(hold.expires_at) <= new Date()) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Rental hold with id: ${hold.id} has expired`
+      )
+    }
+
+    if (
+      hold.variant_id !== data.variant_id ||
+      new Date(hold.start_at).getTime() !== new Date(data.start_at).getTime() ||
+      new Date(hold.end_at).getTime() !== new Date(data.end_at).getTime() ||
+      hold.quantity !== data.quantity
+    ) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Rental hold with id: ${hold.id} is for other items or another period`
+      )
+    }
+
+    return await rentalHoldService.update(hold.id, { cart_id: cart.id })
+  }
+
+  /**
+   * Retrieves a cart that has not been completed yet.
+   * @param manager - the transaction manager to retrieve the cart with
+   * @param cartId - the id of the cart
+   * @param relations - the relations of the cart to retrieve
+   * @return the cart
+   */
+  protected async retrieveOpenCart_(
+    manager: EntityManager,
+    cartId: string,
+    relations: string[] = []
+  ): Promise<Cart> {
+    const cart = await this.cartService_
+      .withTransaction(manager)
+      .retrieve(cartId, {
+        select: ["id", "region_id", "customer_id", "completed_at"],
+        relations,
+      })
+
+    if (cart.completed_at) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Cart with id: ${cartId} is already completed`
+      )
+    }
+
+    return cart
+  }
+}
+
+export default RentalCartService
@@ -1,7 +1,7 @@
 import { MedusaError, isDefined} from "medusa-core-utils"
-import { Brackets, EntityManager, ILike } from "typeorm"
+import { Brackets, EntityManager, ILike, Raw } from "typeorm"
 import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
-import { RentalCollection } from "../models"
+import { RentalCollection, RentalStatus } from "../models"
 import { RentalRepository } from "../repositories/rental"
 import { RentalCollectionRepository } from "../repositories/rental-collection"
 import { FindConfig, Selector } from "@medusajs/medusa/dist/types/common"
@@ -210,6 +210,28 @@ class RentalCollectionService extends TransactionBaseService {
     })
   }
 
+  /**
+   * Checks whether a rental collection has a published rental in any of the
+   * given sales channels.
+   * @param collectionId - the id of the collection to check
+   * @param salesChannelIds - the ids of the sales channels
+   * @return whether the collection is in the sales channels
+   */
+  async isCollectionInSalesChannels(
+    collectionId: string,
+    salesChannelIds: string[]
+  ): Promise<boolean> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const rentalCollectionRepo = manager.getCustomRepository(
+      this.rentalCollectionRepository_
+    )
+
+    return await rentalCollectionRepo.isCollectionInSalesChannels(
+      collectionId,
+      salesChannelIds
+    )
+  }
+
   /**
    * Lists rental collections
    * @param selector - the query object for find
@@ -219,7 +241,9 @@ class RentalCollectionService extends TransactionBaseService {
   async list(
     selector: Selector<RentalCollection> & {
       q?: string
+      id?: string | string[]
       discount_condition_id?: string
+      sales_channel_id?: string[]
     } = {},
     config = { skip: 0, take: 20 }
   ): Promise<RentalCollection[]> {
@@ -236,7 +260,9 @@ class RentalCollectionService extends TransactionBaseService {
   async listAndCount(
     selector: Selector<RentalCollection> & {
       q?: string
+      id?: string | string[]
       discount_condition_id?: string
+      sales_channel_id?: string[]
     } = {},
     config: FindConfig<RentalCollection> = { skip: 0, take: 20 }
   ): Promise<[RentalCollection[], number]> {
@@ -250,8 +276,32 @@ class RentalCollectionService extends TransactionBaseService {
       delete selector.q
     }
 
+    let salesChannelIds: string[] | undefined
+    if (selector.sales_channel_id) {
+      salesChannelIds = selector.sales_channel_id
+      delete selector.sales_channel_id
+    }
+
     const query = buildQuery(selector, config)
 
+    // Only the collections with a published rental in the sales channels,
+    // among the ones asked for if any
+    if (salesChannelIds?.length) {
+      const ids = selector.id
+        ? ([] as string[]).concat(selector.id)
+        : undefined
+
+      query.where.id = Raw(
+        (alias) =>
+          (ids ? `${alias} IN (:...ids) AND ` : "") +
+          `${alias} IN (SELECT r.collection_id FROM rental r ` +
+          `INNER JOIN rental_sales_channel rsc ON rsc.rental_id = r.id ` +
+          `WHERE r.status = :status AND r.deleted_at IS NULL ` +
+          `AND rsc.sales_channel_id IN (:...salesChannelIds))`,
+        { status: RentalStatus.PUBLISHED, salesChannelIds, ids }
+      )
+    }
+
     if (q) {
       const where = query.where
 
@@ -0,0 +1,629 @@
+import { MedusaError, isDefined } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
+import {
+  PaymentCollection,
+  PaymentCollectionType,
+} from "@medusajs/medusa/dist/models"
+import {
+  RentalBooking,
+  RentalBookingStatus,
+  RentalDamageClaim,
+  RentalDamageClaimItem,
+  RentalDamageClaimStatus,
+  RentalDepositStatus,
+  RentalUnitCondition,
+  RentalUnitStatus,
+} from "../models"
+import { RentalDamageClaimRepository } from "../repositories/rental-damage-claim"
+import { RentalDamageClaimItemRepository } from "../repositories/rental-damage-claim-item"
+import { ImageRepository } from "@medusajs/medusa/dist/repositories/image"
+import RentalBookingService from "./rental-booking"
+import RentalDepositService from "./rental-deposit"
+import RentalInspectionService from "./rental-inspection"
+import RentalUnitService from "./rental-unit"
+import { FindConfig, Selector } from "@medusajs/medusa/dist/types/common"
+import {
+  CreateRentalDamageClaimInput,
+  FilterableRentalDamageClaimProps,
+  RentalDamageClaimItemInput,
+  SettleRentalDamageClaimInput,
+  UpdateRentalDamageClaimInput,
+} from "../types/rental-damage-claim"
+import { buildQuery, setMetadata } from "@medusajs/medusa/dist/utils"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+import PaymentCollectionService from "@medusajs/medusa/dist/services/payment-collection"
+
+type InjectedDependencies = {
+  manager: EntityManager
+  rentalDamageClaimRepository: typeof RentalDamageClaimRepository
+  rentalDamageClaimItemRepository: typeof RentalDamageClaimItemRepository
+  imageRepository: typeof ImageRepository
+  rentalBookingService: RentalBookingService
+  rentalDepositService: RentalDepositService
+  rentalInspectionService: RentalInspectionService
+  rentalUnitService: RentalUnitService
+  paymentCollectionService: PaymentCollectionService
+  eventBusService: EventBusService
+}
+
+/**
+ * Provides layer to manipulate rental damage claims, which charge customers
+ * for damage found when the items of their bookings are returned.
+ */
+class RentalDamageClaimService extends TransactionBaseService {
+  protected manager_: EntityManager
+  protected transactionManager_: EntityManager | undefined
+
+  protected readonly rentalDamageClaimRepository_: typeof RentalDamageClaimRepository
+  protected readonly rentalDamageClaimItemRepository_: typeof RentalDamageClaimItemRepository
+  protected readonly imageRepository_: typeof ImageRepository
+  protected readonly rentalBookingService_: RentalBookingService
+  protected readonly rentalDepositService_: RentalDepositService
+  protected readonly rentalInspectionService_: RentalInspectionService
+  protected readonly rentalUnitService_: RentalUnitService
+  protected readonly paymentCollectionService_: PaymentCollectionService
+  protected readonly eventBus_: EventBusService
+
+  static readonly Events = {
+    CREATED: "rental_damage_claim.created",
+    UPDATED: "rental_damage_claim.updated",
+    DISPUTED: "rental_damage_claim.disputed",
+    SETTLED: "rental_damage_claim.settled",
+    REPAIRED: "rental_damage_claim.repaired",
+  }
+
+  /**
+   * The statuses a claim is allowed to move to from a given status.
+   */
+  static readonly Transitions: Record<
+    RentalDamageClaimStatus,
+    RentalDamageClaimStatus[]
+  > = {
+    [RentalDamageClaimStatus.OPEN]: [
+      RentalDamageClaimStatus.DISPUTED,
+      RentalDamageClaimStatus.SETTLED,
+    ],
+    [RentalDamageClaimStatus.DISPUTED]: [RentalDamageClaimStatus.SETTLED],
+    [RentalDamageClaimStatus.SETTLED]: [],
+  }
+
+  /**
+   * Bookings in these statuses have had their items handed over, so their
+   * items can be found damaged.
+   */
+  static readonly ClaimableBookingStatuses = [
+    RentalBookingStatus.ACTIVE,
+    RentalBookingStatus.OVERDUE,
+    RentalBookingStatus.RETURNED,
+  ]
+
+  constructor({
+    manager,
+    rentalDamageClaimRepository,
+    rentalDamageClaimItemRepository,
+    imageRepository,
+    rentalBookingService,
+    rentalDepositService,
+    rentalInspectionService,
+    rentalUnitService,
+    paymentCollectionService,
+    eventBusService,
+  }: InjectedDependencies) {
+    // eslint-disable-next-line prefer-rest-params
+    super(arguments[0])
+
+    this.manager_ = manager
+    this.rentalDamageClaimRepository_ = rentalDamageClaimRepository
+    this.rentalDamageClaimItemRepository_ = rentalDamageClaimItemRepository
+    this.imageRepository_ = imageRepository
+    this.rentalBookingService_ = rentalBookingService
+    this.rentalDepositService_ = rentalDepositService
+    this.rentalInspectionService_ = rentalInspectionService
+    this.rentalUnitService_ = rentalUnitService
+    this.paymentCollectionService_ = paymentCollectionService
+    this.eventBus_ = eventBusService
+  }
+
+  /**
+   * Retrieves a rental damage claim by id.
+   * @param claimId - the id of the claim to retrieve
+   * @param config - the config to retrieve the claim by
+   * @return the claim
+   */
+  async retrieve(
+    claimId: string,
+    config: FindConfig<RentalDamageClaim> = {}
+  ): Promise<RentalDamageClaim> {
+    if (!isDefined(claimId)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `"claimId" must be defined`
+      )
+    }
+
+    const manager = this.transactionManager_ ?? this.manager_
+    const claimRepo = manager.getCustomRepository(
+      this.rentalDamageClaimRepository_
+    )
+
+    const query = buildQuery({ id: claimId }, config)
+    const claim = await claimRepo.findOne(query)
+
+    if (!claim) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Rental damage claim with id: ${claimId} was not found`
+      )
+    }
+
+    return claim
+  }
+
+  /**
+   * Lists rental damage claims
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async list(
+    selector:
+      | FilterableRentalDamageClaimProps
+      | Selector<RentalDamageClaim> = {},
+    config: FindConfig<RentalDamageClaim> = { skip: 0, take: 20 }
+  ): Promise<RentalDamageClaim[]> {
+    const [claims] = await this.listAndCount(selector, config)
+    return claims
+  }
+
+  /**
+   * Lists rental damage claims and adds count.
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async listAndCount(
+    selector:
+      | FilterableRentalDamageClaimProps
+      | Selector<RentalDamageClaim> = {},
+    config: FindConfig<RentalDamageClaim> = { skip: 0, take: 20 }
+  ): Promise<[RentalDamageClaim[], number]> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const claimRepo = manager.getCustomRepository(
+      this.rentalDamageClaimRepository_
+    )
+
+    const query = buildQuery(selector as Selector<RentalDamageClaim>, config)
+    return await claimRepo.findAndCount(query)
+  }
+
+  /**
+   * Opens a damage claim for a booking whose items were handed over. The
+   * damaged unit, given or found by the inspection of the claim, is out of
+   * service until it is repaired.
+   * @param data - the claim to open
+   * @return the opened claim
+   */
+  async create(data: CreateRentalDamageClaimInput): Promise<RentalDamageClaim> {
+    return await this.atomicPhase_(async (manager) => {
+      const claimRepo = manager.getCustomRepository(
+        this.rentalDamageClaimRepository_
+      )
+      const imageRepo = manager.getCustomRepository(this.imageRepository_)
+
+      const { items = [], images, ...rest } = data
+
+      const booking = await this.rentalBookingService_
+        .withTransaction(manager)
+        .retrieve(rest.booking_id, { relations: ["units"] })
+
+      if (
+        !RentalDamageClaimService.ClaimableBookingStatuses.includes(
+          booking.status
+        )
+      ) {
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `Cannot open a damage claim for a ${booking.status} booking`
+        )
+      }
+
+      if (rest.inspection_id) {
+        const inspection = await this.rentalInspectionService_
+          .withTransaction(manager)
+          .retrieve(rest.inspection_id)
+
+        if (inspection.booking_id !== booking.id) {
+          throw new MedusaError(
+            MedusaError.Types.INVALID_DATA,
+            `Inspection with id: ${inspection.id} is not an inspection of booking ${booking.id}`
+          )
+        }
+
+        rest.unit_id = rest.unit_id ?? inspection.unit_id ?? undefined
+      }
+
+      if (
+        rest.unit_id &&
+        !(booking.units ?? []).some((unit) => unit.id === rest.unit_id)
+      ) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Unit with id: ${rest.unit_id} is not assigned to booking ${booking.id}`
+        )
+      }
+
+      const claim = claimRepo.create({
+        ...rest,
+        status: RentalDamageClaimStatus.OPEN,
+      })
+      claim.items = this.createItems_(manager, items)
+      claim.total = this.computeTotal_(claim.items)
+
+      if (images?.length) {
+        claim.images = await imageRepo.upsertImages(images)
+      }
+
+      const result = await claimRepo.save(claim)
+
+      if (result.unit_id) {
+        await this.rentalUnitService_
+          .withTransaction(manager)
+          .update(result.unit_id, {
+            status: RentalUnitStatus.OUT_OF_SERVICE,
+            condition: RentalUnitCondition.DAMAGED,
+          })
+      }
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalDamageClaimService.Events.CREATED, {
+          id: result.id,
+          booking_id: result.booking_id,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Updates a damage claim that is not settled. The given items and images
+   * replace the existing ones.
+   * @param claimId - the id of the claim to update
+   * @param update - an object with the update values
+   * @return the updated claim
+   */
+  async update(
+    claimId: string,
+    update: UpdateRentalDamageClaimInput
+  ): Promise<RentalDamageClaim> {
+    return await this.atomicPhase_(async (manager) => {
+      const claimRepo = manager.getCustomRepository(
+        this.rentalDamageClaimRepository_
+      )
+      const itemRepo = manager.getCustomRepository(
+        this.rentalDamageClaimItemRepository_
+      )
+      const imageRepo = manager.getCustomRepository(this.imageRepository_)
+
+      const claim = await this.retrieve(claimId)
+
+      if (claim.status === RentalDamageClaimStatus.SETTLED) {
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `A settled damage claim cannot be updated`
+        )
+      }
+
+      const { items, images, metadata, ...rest } = update
+
+      if (metadata) {
+        claim.metadata = setMetadata(claim, metadata)
+      }
+
+      if (isDefined(rest.description)) {
+        claim.description = rest.description
+      }
+
+      if (items) {
+        await itemRepo.delete({ claim_id: claim.id })
+        claim.items = this.createItems_(manager, items)
+        claim.total = this.computeTotal_(claim.items)
+      }
+
+      if (images) {
+        claim.images = await imageRepo.upsertImages(images)
+      }
+
+      const result = await claimRepo.save(claim)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalDamageClaimService.Events.UPDATED, {
+          id: result.id,
+          fields: Object.keys(update),
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Records that the customer disputes an open claim.
+   * @param claimId - the id of the claim to dispute
+   * @param reason - why the customer disputes the claim
+   * @return the disputed claim
+   */
+  async dispute(claimId: string, reason?: string): Promise<RentalDamageClaim> {
+    return await this.atomicPhase_(async (manager) => {
+      const claimRepo = manager.getCustomRepository(
+        this.rentalDamageClaimRepository_
+      )
+
+      const claim = await this.retrieve(claimId)
+      this.assertTransition_(claim, RentalDamageClaimStatus.DISPUTED)
+
+      claim.status = RentalDamageClaimStatus.DISPUTED
+      claim.dispute_reason = reason ?? null
+      claim.disputed_at = new Date()
+
+      const result = await claimRepo.save(claim)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalDamageClaimService.Events.DISPUTED, {
+          id: result.id,
+          booking_id: result.booking_id,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Settles a claim. Its total is deducted from the deposit of the booking
+   * as far as the deposit goes, unless asked otherwise, and the rest is
+   * billed to the customer through a payment collection. The deposit of a
+   * returned booking, kept for its claims, is released once they are all
+   * settled.
+   * @param claimId - the id of the claim to settle
+   * @param data - how to charge the claim
+   * @return the settled claim
+   */
+  async settle(
+    claimId: string,
+    data: SettleRentalDamageClaimInput = {}
+  ): Promise<RentalDamageClaim> {
+    let releasedDepositId: string | undefined
+
+    const result = await this.atomicPhase_(async (manager) => {
+      const claimRepo = manager.getCustomRepository(
+        this.rentalDamageClaimRepository_
+      )
+
+      const claim = await this.retrieve(claimId)
+      this.assertTransition_(claim, RentalDamageClaimStatus.SETTLED)
+
+      const { charge_deposit = true } = data
+
+      const booking = await this.rentalBookingService_
+        .withTransaction(manager)
+        .retrieve(claim.booking_id, {
+          relations: ["deposit", "order", "damage_claims"],
+        })
+
+      const deposit = booking.deposit
+      const held =
+        deposit?.status === RentalDepositStatus.AUTHORIZED ||
+        deposit?.status === RentalDepositStatus.CAPTURED
+
+      let deducted = 0
+      if (charge_deposit && claim.total && held) {
+        deducted = Math.min(
+          claim.total,
+          deposit.amount - deposit.amount_deducted
+        )
+      }
+
+      if (deducted > 0) {
+        await this.rentalDepositService_
+          .withTransaction(manager)
+          .deduct(deposit.id, {
+            amount: deducted,
+            reason: `Damage claim ${claim.id}`,
+            created_by: claim.created_by,
+          })
+      }
+
+      claim.status = RentalDamageClaimStatus.SETTLED
+      claim.amount_deducted = deducted
+      claim.amount_billed = claim.total - deducted
+      claim.settled_at = new Date()
+
+      if (claim.amount_billed > 0) {
+        const bill = await this.createBill_(
+          manager,
+          claim,
+          booking,
+          data.settled_by ?? claim.created_by
+        )
+        claim.payment_collection_id = bill.id
+      }
+
+      const result = await claimRepo.save(claim)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalDamageClaimService.Events.SETTLED, {
+          id: result.id,
+          booking_id: result.booking_id,
+          amount_deducted: result.amount_deducted,
+          amount_billed: result.amount_billed,
+          payment_collection_id: result.payment_collection_id,
+        })
+
+      const settling = (booking.damage_claims ?? []).some(
+        ({ id, status }) =>
+          id !== claim.id && status !== RentalDamageClaimStatus.SETTLED
+      )
+      if (
+        held &&
+        booking.status === RentalBookingStatus.RETURNED &&
+        !settling
+      ) {
+        releasedDepositId = deposit.id
+      }
+
+      return result
+    })
+
+    // Releasing the deposit calls the payment provider, so it is only done
+    // once the settlement is saved
+    if (releasedDepositId) {
+      await this.rentalDepositService_
+        .withTransaction(this.transactionManager_)
+        .release(releasedDepositId)
+    }
+
+    return result
+  }
+
+  /**
+   * Puts the damaged unit of a claim back in service once it is repaired.
+   * @param claimId - the id of the claim
+   * @param condition - the condition of the repaired unit
+   * @return the claim
+   */
+  async markRepaired(
+    claimId: string,
+    condition: RentalUnitCondition = RentalUnitCondition.GOOD
+  ): Promise<RentalDamageClaim> {
+    return await this.atomicPhase_(async (manager) => {
+      const claimRepo = manager.getCustomRepository(
+        this.rentalDamageClaimRepository_
+      )
+
+      const claim = await this.retrieve(claimId)
+
+      if (!claim.unit_id) {
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `Damage claim with id: ${claim.id} is not about a unit`
+        )
+      }
+
+      if (claim.repaired_at) {
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `The unit of damage claim with id: ${claim.id} is already repaired`
+        )
+      }
+
+      await this.rentalUnitService_
+        .withTransaction(manager)
+        .update(claim.unit_id, {
+          status: RentalUnitStatus.AVAILABLE,
+          condition,
+        })
+
+      claim.repaired_at = new Date()
+
+      const result = await claimRepo.save(claim)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalDamageClaimService.Events.REPAIRED, {
+          id: result.id,
+          unit_id: result.unit_id,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Creates the items of a claim, to be saved with it.
+   * @param manager - the transaction manager to create the items with
+   * @param items - the items to create
+   * @return the items
+   */
+  protected createItems_(
+    manager: EntityManager,
+    items: RentalDamageClaimItemInput[]
+  ): RentalDamageClaimItem[] {
+    const itemRepo = manager.getCustomRepository(
+      this.rentalDamageClaimItemRepository_
+    )
+
+    return items.map((item) =>
+      itemRepo.create({ ...item, quantity: item.quantity ?? 1 })
+    )
+  }
+
+  protected computeTotal_(items: RentalDamageClaimItem[]): number {
+    return items.reduce((acc, item) => acc + item.quantity * item.unit_cost, 0)
+  }
+
+  /**
+   * Bills the part of a claim not taken from the deposit to the customer,
+   * as a payment collection they pay through the store. It is in the region
+   * and currency of the deposit of the booking, or else of its order.
+   * @param manager - the transaction manager to create the bill with
+   * @param claim - the settled claim
+   * @param booking - the booking of the claim, with its deposit and order
+   * @param createdBy - the user settling the claim
+   * @return the payment collection
+   */
+  protected async createBill_(
+    manager: EntityManager,
+    claim: RentalDamageClaim,
+    booking: RentalBooking,
+    createdBy: string | null | undefined
+  ): Promise<PaymentCollection> {
+    const billedIn = booking.deposit ?? booking.order
+
+    if (!billedIn) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Damage claim with id: ${claim.id} cannot be billed, as booking ${booking.id} has no deposit or order to bill it in`
+      )
+    }
+
+    // Payment collections only have the order edit type so far
+    return await this.paymentCollectionService_
+      .withTransaction(manager)
+      .create({
+        region_id: billedIn.region_id,
+        currency_code: billedIn.currency_code,
+        type: PaymentCollectionType.ORDER_EDIT,
+        amount: claim.amount_billed,
+        created_by: createdBy ?? "",
+        description: `Damage claim ${claim.id}`,
+        metadata: {
+          rental_damage_claim_id: claim.id,
+          rental_booking_id: booking.id,
+        },
+      })
+  }
+
+  /**
+   * Throws if the claim cannot move to the given status.
+   * @param claim - the claim to check
+   * @param status - the status the claim should move to
+   */
+  protected assertTransition_(
+    claim: RentalDamageClaim,
+    status: RentalDamageClaimStatus
+  ): void {
+    const allowed = RentalDamageClaimService.Transitions[claim.status] ?? []
+
+    if (!allowed.includes(status)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Cannot change the status of a ${claim.status} damage claim to ${status}`
+      )
+    }
+  }
+}
+
+export default RentalDamageClaimService
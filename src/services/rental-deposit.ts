@@ -0,0 +1,630 @@
+import { MedusaError, isDefined } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
+import {
+  Payment,
+  PaymentSessionStatus,
+  RefundReason,
+} from "@medusajs/medusa/dist/models"
+import {
+  RentalBooking,
+  RentalBookingDeposit,
+  RentalBookingStatus,
+  RentalDepositAmount,
+  RentalDepositDeduction,
+  RentalDepositStatus,
+} from "../models"
+import { RentalBookingDepositRepository } from "../repositories/rental-booking-deposit"
+import { RentalBookingRepository } from "../repositories/rental-booking"
+import { RentalDepositAmountRepository } from "../repositories/rental-deposit-amount"
+import { RentalDepositDeductionRepository } from "../repositories/rental-deposit-deduction"
+import { RentalVariantRepository } from "../repositories/rental-variant"
+import { FindConfig } from "@medusajs/medusa/dist/types/common"
+import {
+  CreateRentalDepositDeductionInput,
+  RentalDepositAmountInput,
+  RentalDepositOwner,
+  TakeRentalDepositInput,
+} from "../types/rental-deposit"
+import { buildQuery } from "@medusajs/medusa/dist/utils"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+import PaymentProviderService from "@medusajs/medusa/dist/services/payment-provider"
+import RegionService from "@medusajs/medusa/dist/services/region"
+
+type InjectedDependencies = {
+  manager: EntityManager
+  rentalBookingDepositRepository: typeof RentalBookingDepositRepository
+  rentalBookingRepository: typeof RentalBookingRepository
+  rentalDepositAmountRepository: typeof RentalDepositAmountRepository
+  rentalDepositDeductionRepository: typeof RentalDepositDeductionRepository
+  rentalVariantRepository: typeof RentalVariantRepository
+  paymentProviderService: PaymentProviderService
+  regionService: RegionService
+  eventBusService: EventBusService
+}
+
+/**
+ * Provides layer to hold, deduct from and release the refundable deposits of
+ * rental bookings through payment providers.
+ */
+class RentalDepositService extends TransactionBaseService {
+  protected manager_: EntityManager
+  protected transactionManager_: EntityManager | undefined
+
+  protected readonly rentalBookingDepositRepository_: typeof RentalBookingDepositRepository
+  protected readonly rentalBookingRepository_: typeof RentalBookingRepository
+  protected readonly rentalDepositAmountRepository_: typeof RentalDepositAmountRepository
+  protected readonly rentalDepositDeductionRepository_: typeof RentalDepositDeductionRepository
+  protected readonly rentalVariantRepository_: typeof RentalVariantRepository
+  protected readonly paymentProviderService_: PaymentProviderService
+  protected readonly regionService_: RegionService
+  protected readonly eventBus_: EventBusService
+
+  static readonly Events = {
+    AUTHORIZED: "rental_deposit.authorized",
+    CAPTURED: "rental_deposit.captured",
+    DEDUCTED: "rental_deposit.deducted",
+    RELEASED: "rental_deposit.released",
+  }
+
+  /**
+   * The provider deposits are taken with if none is given.
+   */
+  static readonly DefaultProviderId = "manual"
+
+  constructor({
+    manager,
+    rentalBookingDepositRepository,
+    rentalBookingRepository,
+    rentalDepositAmountRepository,
+    rentalDepositDeductionRepository,
+    rentalVariantRepository,
+    paymentProviderService,
+    regionService,
+    eventBusService,
+  }: InjectedDependencies) {
+    // eslint-disable-next-line prefer-rest-params
+    super(arguments[0])
+
+    this.manager_ = manager
+    this.rentalBookingDepositRepository_ = rentalBookingDepositRepository
+    this.rentalBookingRepository_ = rentalBookingRepository
+    this.rentalDepositAmountRepository_ = rentalDepositAmountRepository
+    this.rentalDepositDeductionRepository_ = rentalDepositDeductionRepository
+    this.rentalVariantRepository_ = rentalVariantRepository
+    this.paymentProviderService_ = paymentProviderService
+    this.regionService_ = regionService
+    this.eventBus_ = eventBusService
+  }
+
+  /**
+   * Retrieves a deposit by id.
+   * @param depositId - the id of the deposit to retrieve
+   * @param config - the config to retrieve the deposit by
+   * @return the deposit
+   */
+  async retrieve(
+    depositId: string,
+    config: FindConfig<RentalBookingDeposit> = {}
+  ): Promise<RentalBookingDeposit> {
+    if (!isDefined(depositId)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `"depositId" must be defined`
+      )
+    }
+
+    return await this.retrieveBy_({ id: depositId }, config)
+  }
+
+  /**
+   * Retrieves the deposit of a booking.
+   * @param bookingId - the id of the booking
+   * @param config - the config to retrieve the deposit by
+   * @return the deposit
+   */
+  async retrieveByBooking(
+    bookingId: string,
+    config: FindConfig<RentalBookingDeposit> = {}
+  ): Promise<RentalBookingDeposit> {
+    return await this.retrieveBy_({ booking_id: bookingId }, config)
+  }
+
+  /**
+   * Computes the deposit of one item of a variant in a region. The deposit
+   * amount of the variant in the region takes precedence over the deposit
+   * amount of the variant, then over the amount of its rental in the region
+   * and finally over the deposit amount of its rental.
+   * @param variantId - the id of the variant
+   * @param regionId - the id of the region
+   * @return the deposit, 0 if none is required
+   */
+  async getAmount(variantId: string, regionId: string): Promise<number> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const variantRepo = manager.getCustomRepository(
+      this.rentalVariantRepository_
+    )
+    const amountRepo = manager.getCustomRepository(
+      this.rentalDepositAmountRepository_
+    )
+
+    const variant = await variantRepo.findOne({
+      where: { id: variantId },
+      relations: ["rental"],
+    })
+
+    if (!variant) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Variant with id: ${variantId} was not found`
+      )
+    }
+
+    const regionAmounts = await amountRepo.find({
+      where: [
+        { variant_id: variant.id, region_id: regionId },
+        { rental_id: variant.rental_id, region_id: regionId },
+      ],
+    })
+
+    return (
+      regionAmounts.find(({ variant_id }) => variant_id === variant.id)
+        ?.amount ??
+      variant.deposit_amount ??
+      regionAmounts.find(({ rental_id }) => rental_id === variant.rental_id)
+        ?.amount ??
+      variant.rental?.deposit_amount ??
+      0
+    )
+  }
+
+  /**
+   * Replaces the deposit amounts of a rental or a variant in specific
+   * regions.
+   * @param owner - the rental or variant the amounts are for
+   * @param amounts - the new amounts, one per region
+   * @return the new amounts
+   */
+  async setRegionAmounts(
+    owner: RentalDepositOwner,
+    amounts: RentalDepositAmountInput[]
+  ): Promise<RentalDepositAmount[]> {
+    return await this.atomicPhase_(async (manager) => {
+      const amountRepo = manager.getCustomRepository(
+        this.rentalDepositAmountRepository_
+      )
+
+      const regionIds = amounts.map(({ region_id }) => region_id)
+      if (new Set(regionIds).size !== regionIds.length) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `A deposit amount can only be set once per region`
+        )
+      }
+
+      return await amountRepo.replaceAmounts(owner, amounts)
+    })
+  }
+
+  /**
+   * Takes the deposit of a booking through a payment provider: the deposit
+   * of its variant in the region, for each item booked, is authorized and,
+   * if requested, captured right away. The provider is called before the
+   * deposit is saved, and the payment is voided if saving it fails.
+   * @param bookingId - the id of the booking to take the deposit for
+   * @param data - the region, the payment provider and whether to capture
+   * @return the deposit
+   */
+  async take(
+    bookingId: string,
+    data: TakeRentalDepositInput
+  ): Promise<RentalBookingDeposit> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const bookingRepo = manager.getCustomRepository(
+      this.rentalBookingRepository_
+    )
+    const depositRepo = manager.getCustomRepository(
+      this.rentalBookingDepositRepository_
+    )
+
+    const booking = await bookingRepo.findOne({
+      where: { id: bookingId },
+      relations: ["customer"],
+    })
+
+    if (!booking) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Rental booking with id: ${bookingId} was not found`
+      )
+    }
+
+    if (
+      booking.status === RentalBookingStatus.RETURNED ||
+      booking.status === RentalBookingStatus.CANCELED
+    ) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Cannot take a deposit for a ${booking.status} booking`
+      )
+    }
+
+    const existing = await depositRepo.findOne({
+      where: { booking_id: booking.id },
+    })
+
+    if (existing) {
+      throw new MedusaError(
+        MedusaError.Types.DUPLICATE_ERROR,
+        `Rental booking with id: ${bookingId} already has a deposit`
+      )
+    }
+
+    const region = await this.regionService_
+      .withTransaction(manager)
+      .retrieve(data.region_id)
+
+    const amount =
+      (await this.getAmount(booking.variant_id, region.id)) * booking.quantity
+
+    if (!amount) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Rental booking with id: ${bookingId} does not require a deposit`
+      )
+    }
+
+    const providerId =
+      data.provider_id ?? RentalDepositService.DefaultProviderId
+
+    let payment = await this.authorizePayment_(
+      booking,
+      providerId,
+      amount,
+      region.currency_code
+    )
+
+    try {
+      if (data.capture) {
+        payment = await this.paymentProviderService_.capturePayment(payment)
+      }
+
+      return await this.atomicPhase_(async (manager) => {
+        const depositRepo = manager.getCustomRepository(
+          this.rentalBookingDepositRepository_
+        )
+
+        const result = await depositRepo.save(
+          depositRepo.create({
+            booking_id: booking.id,
+            region_id: region.id,
+            currency_code: region.currency_code,
+            amount,
+            provider_id: providerId,
+            payment_id: payment.id,
+            status: payment.captured_at
+              ? RentalDepositStatus.CAPTURED
+              : RentalDepositStatus.AUTHORIZED,
+            data: payment.data,
+            captured_at: payment.captured_at
+              ? new Date(payment.captured_at)
+              : null,
+          })
+        )
+
+        await this.eventBus_
+          .withTransaction(manager)
+          .emit(
+            result.captured_at
+              ? RentalDepositService.Events.CAPTURED
+              : RentalDepositService.Events.AUTHORIZED,
+            {
+              id: result.id,
+              booking_id: result.booking_id,
+            }
+          )
+
+        return result
+      })
+    } catch (error) {
+      await this.voidPayment_(payment)
+      throw error
+    }
+  }
+
+  /**
+   * Records a deduction from a deposit that is still held. The deduction is
+   * kept when the deposit is released.
+   * @param depositId - the id of the deposit to deduct from
+   * @param data - the amount and the reason of the deduction
+   * @return the deduction
+   */
+  async deduct(
+    depositId: string,
+    data: CreateRentalDepositDeductionInput
+  ): Promise<RentalDepositDeduction> {
+    return await this.atomicPhase_(async (manager) => {
+      const depositRepo = manager.getCustomRepository(
+        this.rentalBookingDepositRepository_
+      )
+      const deductionRepo = manager.getCustomRepository(
+        this.rentalDepositDeductionRepository_
+      )
+
+      const deposit = await this.withTransaction(manager).retrieve(depositId)
+      this.assertHeld_(deposit)
+
+      if (!(data.amount > 0)) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `The amount of a deduction must be positive`
+        )
+      }
+
+      if (deposit.amount_deducted + data.amount > deposit.amount) {
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `Cannot deduct more than the ${
+            deposit.amount - deposit.amount_deducted
+          } left of the deposit`
+        )
+      }
+
+      const deduction = await deductionRepo.save(
+        deductionRepo.create({ ...data, deposit_id: deposit.id })
+      )
+
+      deposit.amount_deducted += data.amount
+      await depositRepo.save(deposit)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalDepositService.Events.DEDUCTED, {
+          id: deposit.id,
+          booking_id: deposit.booking_id,
+          deduction_id: deduction.id,
+        })
+
+      return deduction
+    })
+  }
+
+  /**
+   * Releases a deposit, after recording the given deductions. What is left
+   * after the deductions is refunded if the deposit was captured, or stops
+   * being held otherwise. The release is saved before the provider is
+   * called, and undone if the provider fails.
+   * @param depositId - the id of the deposit to release
+   * @param deductions - deductions to record before releasing
+   * @return the released deposit
+   */
+  async release(
+    depositId: string,
+    deductions: CreateRentalDepositDeductionInput[] = []
+  ): Promise<RentalBookingDeposit> {
+    const [deposit, heldStatus] = await this.atomicPhase_(
+      async (manager): Promise<[RentalBookingDeposit, RentalDepositStatus]> => {
+        const depositRepo = manager.getCustomRepository(
+          this.rentalBookingDepositRepository_
+        )
+
+        for (const deduction of deductions) {
+          await this.withTransaction(manager).deduct(depositId, deduction)
+        }
+
+        const deposit = await this.withTransaction(manager).retrieve(depositId)
+        this.assertHeld_(deposit)
+
+        const heldStatus = deposit.status
+        deposit.released_at = new Date()
+        deposit.status = !deposit.amount_deducted
+          ? RentalDepositStatus.RELEASED
+          : deposit.amount_deducted < deposit.amount
+          ? RentalDepositStatus.PARTIALLY_RELEASED
+          : RentalDepositStatus.FORFEITED
+
+        return [await depositRepo.save(deposit), heldStatus]
+      }
+    )
+
+    const released = deposit.amount - deposit.amount_deducted
+    const paymentProviderService = this.paymentProviderService_
+
+    let payment = await paymentProviderService.retrievePayment(
+      deposit.payment_id
+    )
+
+    try {
+      if (!payment.captured_at && deposit.amount_deducted) {
+        payment = await paymentProviderService.capturePayment(payment)
+      }
+
+      if (!payment.captured_at) {
+        payment = await paymentProviderService.cancelPayment(payment)
+      } else if (released) {
+        await paymentProviderService.refundFromPayment(
+          payment,
+          released,
+          RefundReason.OTHER,
+          `Release of rental deposit ${deposit.id}`
+        )
+      }
+    } catch (error) {
+      await this.atomicPhase_(async (manager) => {
+        const depositRepo = manager.getCustomRepository(
+          this.rentalBookingDepositRepository_
+        )
+
+        deposit.released_at = null
+        deposit.status = payment.captured_at
+          ? RentalDepositStatus.CAPTURED
+          : heldStatus
+        deposit.captured_at = this.capturedAt_(deposit, payment)
+        deposit.data = payment.data
+        await depositRepo.save(deposit)
+      })
+
+      throw error
+    }
+
+    return await this.atomicPhase_(async (manager) => {
+      const depositRepo = manager.getCustomRepository(
+        this.rentalBookingDepositRepository_
+      )
+
+      deposit.captured_at = this.capturedAt_(deposit, payment)
+      deposit.data = payment.data
+      const result = await depositRepo.save(deposit)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalDepositService.Events.RELEASED, {
+          id: result.id,
+          booking_id: result.booking_id,
+          amount_released: released,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Retrieves a deposit by id or by booking.
+   * @param selector - the id of the deposit or of its booking
+   * @param config - the config to retrieve the deposit by
+   * @return the deposit
+   */
+  protected async retrieveBy_(
+    selector: { id: string } | { booking_id: string },
+    config: FindConfig<RentalBookingDeposit>
+  ): Promise<RentalBookingDeposit> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const depositRepo = manager.getCustomRepository(
+      this.rentalBookingDepositRepository_
+    )
+
+    const query = buildQuery(selector, config)
+    const deposit = await depositRepo.findOne(query)
+
+    if (!deposit) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        "booking_id" in selector
+          ? `Rental booking with id: ${selector.booking_id} has no deposit`
+          : `Rental deposit with id: ${selector.id} was not found`
+      )
+    }
+
+    return deposit
+  }
+
+  /**
+   * Authorizes a payment of a booking through a payment provider. Bookings
+   * are not paid for with a cart, so the session is created on behalf of the
+   * booking for an empty cart, like the sessions of payment collections.
+   * @param booking - the booking to authorize the payment for, with its
+   *   customer
+   * @param providerId - the id of the payment provider
+   * @param amount - the amount to authorize
+   * @param currencyCode - the currency of the amount
+   * @return the authorized payment
+   */
+  protected async authorizePayment_(
+    booking: RentalBooking,
+    providerId: string,
+    amount: number,
+    currencyCode: string
+  ): Promise<Payment> {
+    const paymentProviderService = this.paymentProviderService_
+
+    const session = await paymentProviderService.createSession({
+      provider_id: providerId,
+      cart: {
+        id: "",
+        email: booking.customer?.email ?? "",
+        context: {},
+        shipping_address: null,
+        shipping_methods: [],
+      },
+      customer: booking.customer ?? null,
+      currency_code: currencyCode,
+      amount,
+      resource_id: booking.id,
+    })
+
+    const authorized = await paymentProviderService.authorizePayment(
+      session,
+      {}
+    )
+
+    if (authorized?.status !== PaymentSessionStatus.AUTHORIZED) {
+      await paymentProviderService.deleteSession(session)
+
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `The deposit of rental booking ${booking.id} could not be authorized`
+      )
+    }
+
+    return await paymentProviderService.createPayment({
+      amount,
+      currency_code: currencyCode,
+      provider_id: providerId,
+      payment_session: authorized,
+      resource_id: booking.id,
+    })
+  }
+
+  /**
+   * Gives back a payment that could not be recorded: it is refunded if
+   * captured, or canceled otherwise.
+   * @param payment - the payment to void
+   */
+  protected async voidPayment_(payment: Payment): Promise<void> {
+    if (payment.captured_at) {
+      await this.paymentProviderService_.refundFromPayment(
+        payment,
+        payment.amount - payment.amount_refunded,
+        RefundReason.OTHER,
+        `Rental deposit not recorded`
+      )
+    } else {
+      await this.paymentProviderService_.cancelPayment(payment)
+    }
+  }
+
+  /**
+   * Resolves when a deposit was captured, the capture of its payment
+   * included.
+   * @param deposit - the deposit
+   * @param payment - the payment of the deposit
+   * @return the date of the capture, null if not captured
+   */
+  protected capturedAt_(
+    deposit: RentalBookingDeposit,
+    payment: Payment
+  ): Date | null {
+    return (
+      deposit.captured_at ??
+      (payment.captured_at ? new Date(payment.captured_at) : null)
+    )
+  }
+
+  /**
+   * Throws if the deposit has already been released.
+   * @param deposit - the deposit to check
+   */
+  protected assertHeld_(deposit: RentalBookingDeposit): void {
+    if (
+      deposit.status !== RentalDepositStatus.AUTHORIZED &&
+      deposit.status !== RentalDepositStatus.CAPTURED
+    ) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Rental deposit with id: ${deposit.id} has already been released`
+      )
+    }
+  }
+}
+
+export default RentalDepositService
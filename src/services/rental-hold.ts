@@ -0,0 +1,424 @@
+import { MedusaError, isDefined } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
+import { RentalHold } from "../models"
+import { RentalHoldRepository } from "../repositories/rental-hold"
+import { RentalVariantRepository } from "../repositories/rental-variant"
+import RentalVariantService from "./rental-variant"
+import { FindConfig, Selector } from "@medusajs/medusa/dist/types/common"
+import {
+  CreateRentalHoldInput,
+  UpdateRentalHoldInput,
+} from "../types/rental-hold"
+import { RentalConfigModule } from "../types/rental-config"
+import { buildQuery, setMetadata } from "@medusajs/medusa/dist/utils"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+
+type InjectedDependencies = {
+  manager: EntityManager
+  rentalHoldRepository: typeof RentalHoldRepository
+  rentalVariantRepository: typeof RentalVariantRepository
+  rentalVariantService: RentalVariantService
+  eventBusService: EventBusService
+  configModule?: RentalConfigModule
+}
+
+/**
+ * Provides layer to manipulate rental holds, which keep items aside for a
+ * short while, e.g. while a customer checks out.
+ */
+class RentalHoldService extends TransactionBaseService {
+  protected manager_: EntityManager
+  protected transactionManager_: EntityManager | undefined
+
+  protected readonly rentalHoldRepository_: typeof RentalHoldRepository
+  protected readonly rentalVariantRepository_: typeof RentalVariantRepository
+  protected readonly rentalVariantService_: RentalVariantService
+  protected readonly eventBus_: EventBusService
+  protected readonly ttlMinutes_: number
+
+  static readonly Events = {
+    CREATED: "rental_hold.created",
+    UPDATED: "rental_hold.updated",
+    RENEWED: "rental_hold.renewed",
+    RELEASED: "rental_hold.released",
+    EXPIRED: "rental_hold.expired",
+  }
+
+  /**
+   * The number of minutes a hold lasts if none is given and the project
+   * does not set `projectConfig.rentals.hold_ttl_minutes`.
+   */
+  static readonly DefaultTtlMinutes = 15
+
+  constructor({
+    manager,
+    rentalHoldRepository,
+    rentalVariantRepository,
+    rentalVariantService,
+    eventBusService,
+    configModule,
+  }: InjectedDependencies) {
+    // eslint-disable-next-line prefer-rest-params
+    super(arguments[0])
+
+    this.manager_ = manager
+    this.rentalHoldRepository_ = rentalHoldRepository
+    this.rentalVariantRepository_ = rentalVariantRepository
+    this.rentalVariantService_ = rentalVariantService
+    this.eventBus_ = eventBusService
+    this.ttlMinutes_ =
+      configModule?.projectConfig?.rentals?.hold_ttl_minutes ??
+      RentalHoldService.DefaultTtlMinutes
+  }
+
+  /**
+   * Retrieves a rental hold by id.
+   * @param holdId - the id of the hold to retrieve
+   * @param config - the config to retrieve the hold by
+   * @return the hold
+   */
+  async retrieve(
+    holdId: string,
+    config: FindConfig<RentalHold> = {}
+  ): Promise<RentalHold> {
+    if (!isDefined(holdId)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `"holdId" must be defined`
+      )
+    }
+
+    const manager = this.transactionManager_ ?? this.manager_
+    const holdRepo = manager.getCustomRepository(this.rentalHoldRepository_)
+
+    const query = buildQuery({ id: holdId }, config)
+    const hold = await holdRepo.findOne(query)
+
+    if (!hold) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Rental hold with id: ${holdId} was not found`
+      )
+    }
+
+    return hold
+  }
+
+  /**
+   * Lists rental holds
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async list(
+    selector: Selector<RentalHold> = {},
+    config: FindConfig<RentalHold> = { skip: 0, take: 20 }
+  ): Promise<RentalHold[]> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const holdRepo = manager.getCustomRepository(this.rentalHoldRepository_)
+
+    const query = buildQuery(selector, config)
+    return await holdRepo.find(query)
+  }
+
+  /**
+   * Holds items of a variant for a period. Throws a conflict error if the
+   * variant does not have enough items available for the period.
+   * @param data - the hold to create
+   * @return the created hold
+   */
+  async create(data: CreateRentalHoldInput): Promise<RentalHold> {
+    return await this.atomicPhase_(async (manager) => {
+      const holdRepo = manager.getCustomRepository(this.rentalHoldRepository_)
+      const rentalVariantService =
+        this.rentalVariantService_.withTransaction(manager)
+
+      const { quantity = 1, ttl_minutes, ...rest } = data
+
+      this.validatePeriod_(rest.start_at, rest.end_at)
+
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `A hold must keep at least one item`
+        )
+      }
+
+      await this.lockVariant_(manager, rest.variant_id)
+
+      await rentalVariantService.validateDuration(
+        rest.variant_id,
+        rest.start_at,
+        rest.end_at
+      )
+      await rentalVariantService.validateBlackouts(
+        rest.variant_id,
+        rest.start_at,
+        rest.end_at
+      )
+
+      const hold = holdRepo.create({
+        ...rest,
+        quantity,
+        expires_at: this.getExpiry_(ttl_minutes),
+      })
+
+      await this.assertAvailable_(manager, hold)
+
+      const result = await holdRepo.save(hold)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalHoldService.Events.CREATED, {
+          id: result.id,
+          variant_id: result.variant_id,
+          cart_id: result.cart_id,
+          customer_id: result.customer_id,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Updates a hold, e.g. to add the held items to a cart.
+   * @param holdId - the id of the hold to update
+   * @param update - an object with the update values
+   * @return the updated hold
+   */
+  async update(
+    holdId: string,
+    update: UpdateRentalHoldInput
+  ): Promise<RentalHold> {
+    return await this.atomicPhase_(async (manager) => {
+      const holdRepo = manager.getCustomRepository(this.rentalHoldRepository_)
+
+      const hold = await this.retrieve(holdId)
+
+      const { metadata, ...rest } = update
+
+      if (metadata) {
+        hold.metadata = setMetadata(hold, metadata)
+      }
+
+      for (const [key, value] of Object.entries(rest)) {
+        if (typeof value !== "undefined") {
+          hold[key] = value
+        }
+      }
+
+      const result = await holdRepo.save(hold)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalHoldService.Events.UPDATED, {
+          id: result.id,
+          fields: Object.keys(update),
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Extends a hold by its time to live from now. A hold that has expired
+   * but not yet been released is renewed only if its items are still
+   * available.
+   * @param holdId - the id of the hold to renew
+   * @param ttlMinutes - the number of minutes the hold lasts from now
+   * @return the renewed hold
+   */
+  async renew(holdId: string, ttlMinutes?: number): Promise<RentalHold> {
+    return await this.atomicPhase_(async (manager) => {
+      const holdRepo = manager.getCustomRepository(this.rentalHoldRepository_)
+
+      const hold = await this.retrieve(holdId)
+
+      if (new Date(hold.expires_at) <= new Date()) {
+        await this.lockVariant_(manager, hold.variant_id)
+        await this.assertAvailable_(manager, hold)
+      }
+
+      hold.expires_at = this.getExpiry_(ttlMinutes)
+
+      const result = await holdRepo.save(hold)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalHoldService.Events.RENEWED, {
+          id: result.id,
+          variant_id: result.variant_id,
+          cart_id: result.cart_id,
+          expires_at: result.expires_at,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Releases a hold, making its items available again.
+   * @param holdId - the id of the hold to release
+   * @return empty promise
+   */
+  async release(holdId: string): Promise<void> {
+    return await this.atomicPhase_(async (manager) => {
+      const holdRepo = manager.getCustomRepository(this.rentalHoldRepository_)
+
+      const hold = await holdRepo.findOne({ where: { id: holdId } })
+
+      if (!hold) {
+        return
+      }
+
+      await holdRepo.delete(hold.id)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalHoldService.Events.RELEASED, {
+          id: holdId,
+          variant_id: hold.variant_id,
+          cart_id: hold.cart_id,
+        })
+    })
+  }
+
+  /**
+   * Releases the holds that have expired, and emits an event for each so the
+   * storefront can tell its customers.
+   * @param at - the moment to release the holds expired at
+   * @return the released holds
+   */
+  async releaseExpired(at: Date = new Date()): Promise<RentalHold[]> {
+    return await this.atomicPhase_(async (manager) => {
+      const holdRepo = manager.getCustomRepository(this.rentalHoldRepository_)
+
+      const holds = await holdRepo.findExpired(at)
+
+      if (!holds.length) {
+        return holds
+      }
+
+      await holdRepo.delete(holds.map((hold) => hold.id))
+
+      for (const hold of holds) {
+        await this.eventBus_
+          .withTransaction(manager)
+          .emit(RentalHoldService.Events.EXPIRED, {
+            id: hold.id,
+            variant_id: hold.variant_id,
+            cart_id: hold.cart_id,
+            expires_at: hold.expires_at,
+          })
+      }
+
+      return holds
+    })
+  }
+
+  /**
+   * Throws a conflict error if the variant does not have enough items
+   * available to keep the hold for its whole period.
+   * @param manager - the transaction manager to check availability with
+   * @param hold - the hold to check
+   */
+  protected async assertAvailable_(
+    manager: EntityManager,
+    hold: RentalHold
+  ): Promise<void> {
+    const available = await this.rentalVariantService_
+      .withTransaction(manager)
+      .getAvailableQuantity(
+        hold.variant_id,
+        new Date(hold.start_at),
+        new Date(hold.end_at),
+        [],
+        hold.id ? [hold.id] : []
+      )
+
+    if (available < hold.quantity) {
+      throw new MedusaError(
+        MedusaError.Types.CONFLICT,
+        `Variant with id: ${hold.variant_id} has ${available} item(s) available between ${new Date(
+          hold.start_at
+        ).toISOString()} and ${new Date(
+          hold.end_at
+        ).toISOString()}, but ${hold.quantity} were requested`
+      )
+    }
+  }
+
+  /**
+   * Locks the variant row until the end of the transaction, so holds and
+   * bookings of the same variant are checked one after the other. Drivers
+   * without row-level locking, e.g. sqlite, write to the variant row
+   * instead, which takes the database's write lock until the transaction
+   * ends and so also holds off other processes.
+   * @param manager - the transaction manager to lock the variant with
+   * @param variantId - the id of the variant to lock
+   */
+  protected async lockVariant_(
+    manager: EntityManager,
+    variantId: string
+  ): Promise<void> {
+    const variantRepo = manager.getCustomRepository(
+      this.rentalVariantRepository_
+    )
+
+    const supportsRowLocking = manager.connection?.options.type === "postgres"
+
+    const variant = await variantRepo.findOne({
+      where: { id: variantId },
+      select: ["id"],
+      ...(supportsRowLocking ? { lock: { mode: "pessimistic_write" } } : {}),
+    })
+
+    if (!variant) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Variant with id: ${variantId} was not found`
+      )
+    }
+
+    if (!supportsRowLocking) {
+      await variantRepo.update(variantId, {
+        variant_rank: () => "variant_rank",
+      })
+    }
+  }
+
+  protected getExpiry_(ttlMinutes?: number): Date {
+    const ttl = ttlMinutes ?? this.ttlMinutes_
+
+    if (!Number.isInteger(ttl) || ttl < 1) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `A hold must last at least one minute`
+      )
+    }
+
+    return new Date(Date.now() + ttl * 60 * 1000)
+  }
+
+  protected validatePeriod_(startAt: Date, endAt: Date): void {
+    const start = new Date(startAt)
+    const end = new Date(endAt)
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `A hold must have a valid start and end date`
+      )
+    }
+
+    if (start >= end) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `The end of a hold must be after its start`
+      )
+    }
+  }
+}
+
+export default RentalHoldService
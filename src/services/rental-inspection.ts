@@ -0,0 +1,182 @@
+import { MedusaError, isDefined } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
+import { RentalInspection } from "../models"
+import { RentalInspectionRepository } from "../repositories/rental-inspection"
+import { ImageRepository } from "@medusajs/medusa/dist/repositories/image"
+import { FindConfig, Selector } from "@medusajs/medusa/dist/types/common"
+import {
+  CreateRentalInspectionInput,
+  FilterableRentalInspectionProps,
+} from "../types/rental-inspection"
+import { buildQuery } from "@medusajs/medusa/dist/utils"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+
+type InjectedDependencies = {
+  manager: EntityManager
+  rentalInspectionRepository: typeof RentalInspectionRepository
+  imageRepository: typeof ImageRepository
+  eventBusService: EventBusService
+}
+
+/**
+ * Provides layer to manipulate rental inspections, the records of the state
+ * of a booking's items when they are handed over and returned.
+ */
+class RentalInspectionService extends TransactionBaseService {
+  protected manager_: EntityManager
+  protected transactionManager_: EntityManager | undefined
+
+  protected readonly rentalInspectionRepository_: typeof RentalInspectionRepository
+  protected readonly imageRepository_: typeof ImageRepository
+  protected readonly eventBus_: EventBusService
+
+  static readonly Events = {
+    CREATED: "rental_inspection.created",
+  }
+
+  constructor({
+    manager,
+    rentalInspectionRepository,
+    imageRepository,
+    eventBusService,
+  }: InjectedDependencies) {
+    // eslint-disable-next-line prefer-rest-params
+    super(arguments[0])
+
+    this.manager_ = manager
+    this.rentalInspectionRepository_ = rentalInspectionRepository
+    this.imageRepository_ = imageRepository
+    this.eventBus_ = eventBusService
+  }
+
+  /**
+   * Retrieves a rental inspection by id.
+   * @param inspectionId - the id of the inspection to retrieve
+   * @param config - the config to retrieve the inspection by
+   * @return the inspection
+   */
+  async retrieve(
+    inspectionId: string,
+    config: FindConfig<RentalInspection> = {}
+  ): Promise<RentalInspection> {
+    if (!isDefined(inspectionId)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `"inspectionId" must be defined`
+      )
+    }
+
+    const manager = this.transactionManager_ ?? this.manager_
+    const inspectionRepo = manager.getCustomRepository(
+      this.rentalInspectionRepository_
+    )
+
+    const query = buildQuery({ id: inspectionId }, config)
+    const inspection = await inspectionRepo.findOne(query)
+
+    if (!inspection) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Rental inspection with id: ${inspectionId} was not found`
+      )
+    }
+
+    return inspection
+  }
+
+  /**
+   * Lists rental inspections
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async list(
+    selector:
+      | FilterableRentalInspectionProps
+      | Selector<RentalInspection> = {},
+    config: FindConfig<RentalInspection> = { skip: 0, take: 20 }
+  ): Promise<RentalInspection[]> {
+    const [inspections] = await this.listAndCount(selector, config)
+    return inspections
+  }
+
+  /**
+   * Lists rental inspections and adds count.
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async listAndCount(
+    selector:
+      | FilterableRentalInspectionProps
+      | Selector<RentalInspection> = {},
+    config: FindConfig<RentalInspection> = { skip: 0, take: 20 }
+  ): Promise<[RentalInspection[], number]> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const inspectionRepo = manager.getCustomRepository(
+      this.rentalInspectionRepository_
+    )
+
+    const query = buildQuery(selector as Selector<RentalInspection>, config)
+    return await inspectionRepo.findAndCount(query)
+  }
+
+  /**
+   * Records an inspection. The photos are given by url.
+   * @param data - the inspection to record
+   * @return the recorded inspection
+   */
+  async create(data: CreateRentalInspectionInput): Promise<RentalInspection> {
+    return await this.atomicPhase_(async (manager) => {
+      const inspectionRepo = manager.getCustomRepository(
+        this.rentalInspectionRepository_
+      )
+      const imageRepo = manager.getCustomRepository(this.imageRepository_)
+
+      const { images, ...rest } = data
+
+      this.validateMeterReadings_(rest.meter_readings)
+
+      const inspection = inspectionRepo.create({
+        ...rest,
+        inspected_at: rest.inspected_at ?? new Date(),
+      })
+
+      if (images?.length) {
+        inspection.images = await imageRepo.upsertImages(images)
+      }
+
+      const result = await inspectionRepo.save(inspection)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalInspectionService.Events.CREATED, {
+          id: result.id,
+          booking_id: result.booking_id,
+          type: result.type,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Throws if a meter reading is not a number.
+   * @param readings - the readings to validate, by meter name
+   */
+  protected validateMeterReadings_(
+    readings?: Record<string, number> | null
+  ): void {
+    for (const [meter, value] of Object.entries(readings ?? {})) {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `The reading of meter "${meter}" must be a number`
+        )
+      }
+    }
+  }
+}
+
+export default RentalInspectionService
@@ -0,0 +1,412 @@
+import { MedusaError, isDefined } from "medusa-core-utils"
+import { EntityManager, ILike } from "typeorm"
+import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
+import { RentalPriceRule, RentalPriceRuleAdjustmentType } from "../models"
+import { RentalPriceRuleRepository } from "../repositories/rental-price-rule"
+import { FindConfig, Selector } from "@medusajs/medusa/dist/types/common"
+import {
+  CreateRentalPriceRuleInput,
+  FilterableRentalPriceRuleProps,
+  RentalPriceRuleAdjustment,
+  RentalPriceRuleContext,
+  UpdateRentalPriceRuleInput,
+} from "../types/rental-price-rule"
+import { buildQuery, isString, setMetadata } from "@medusajs/medusa/dist/utils"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+import RentalVariantService from "./rental-variant"
+
+type InjectedDependencies = {
+  manager: EntityManager
+  rentalPriceRuleRepository: typeof RentalPriceRuleRepository
+  rentalVariantService: RentalVariantService
+  eventBusService: EventBusService
+}
+
+/**
+ * Provides layer to manipulate rental price rules, which adjust the price of
+ * rentals on certain dates or weekdays.
+ */
+class RentalPriceRuleService extends TransactionBaseService {
+  protected manager_: EntityManager
+  protected transactionManager_: EntityManager | undefined
+
+  protected readonly rentalPriceRuleRepository_: typeof RentalPriceRuleRepository
+  protected readonly rentalVariantService_: RentalVariantService
+  protected readonly eventBus_: EventBusService
+
+  static readonly Events = {
+    CREATED: "rental_price_rule.created",
+    UPDATED: "rental_price_rule.updated",
+    DELETED: "rental_price_rule.deleted",
+  }
+
+  static readonly DayLength = 24 * 60 * 60 * 1000
+
+  constructor({
+    manager,
+    rentalPriceRuleRepository,
+    rentalVariantService,
+    eventBusService,
+  }: InjectedDependencies) {
+    // eslint-disable-next-line prefer-rest-params
+    super(arguments[0])
+
+    this.manager_ = manager
+    this.rentalPriceRuleRepository_ = rentalPriceRuleRepository
+    this.rentalVariantService_ = rentalVariantService
+    this.eventBus_ = eventBusService
+  }
+
+  /**
+   * Retrieves a rental price rule by id.
+   * @param ruleId - the id of the rule to retrieve
+   * @param config - the config to retrieve the rule by
+   * @return the rule
+   */
+  async retrieve(
+    ruleId: string,
+    config: FindConfig<RentalPriceRule> = {}
+  ): Promise<RentalPriceRule> {
+    if (!isDefined(ruleId)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `"ruleId" must be defined`
+      )
+    }
+
+    const ruleRepo = this.manager_.getCustomRepository(
+      this.rentalPriceRuleRepository_
+    )
+
+    const query = buildQuery({ id: ruleId }, config)
+    const rule = await ruleRepo.findOne(query)
+
+    if (!rule) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Rental price rule with id: ${ruleId} was not found`
+      )
+    }
+
+    return rule
+  }
+
+  /**
+   * Lists rental price rules
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async list(
+    selector: FilterableRentalPriceRuleProps | Selector<RentalPriceRule> = {},
+    config: FindConfig<RentalPriceRule> = { skip: 0, take: 20 }
+  ): Promise<RentalPriceRule[]> {
+    const [rules] = await this.listAndCount(selector, config)
+    return rules
+  }
+
+  /**
+   * Lists rental price rules and adds count.
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async listAndCount(
+    selector: FilterableRentalPriceRuleProps | Selector<RentalPriceRule> = {},
+    config: FindConfig<RentalPriceRule> = { skip: 0, take: 20 }
+  ): Promise<[RentalPriceRule[], number]> {
+    const ruleRepo = this.manager_.getCustomRepository(
+      this.rentalPriceRuleRepository_
+    )
+
+    const selector_ = { ...selector } as FilterableRentalPriceRuleProps
+
+    let q: string | undefined
+    if (isString(selector_.q)) {
+      q = selector_.q
+      delete selector_.q
+    }
+
+    const query = buildQuery(selector_ as Selector<RentalPriceRule>, config)
+
+    if (q) {
+      query.where.name = ILike(`%${q}%`)
+    }
+
+    return await ruleRepo.findAndCount(query)
+  }
+
+  /**
+   * Creates a rental price rule.
+   * @param data - the rule to create
+   * @return the created rule
+   */
+  async create(data: CreateRentalPriceRuleInput): Promise<RentalPriceRule> {
+    return await this.atomicPhase_(async (manager) => {
+      const ruleRepo = manager.getCustomRepository(
+        this.rentalPriceRuleRepository_
+      )
+
+      const rule = ruleRepo.create(data)
+      this.validate_(rule)
+
+      const result = await ruleRepo.save(rule)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalPriceRuleService.Events.CREATED, {
+          id: result.id,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Updates a rental price rule.
+   * @param ruleId - the id of the rule to update
+   * @param update - an object with the update values
+   * @return the updated rule
+   */
+  async update(
+    ruleId: string,
+    update: UpdateRentalPriceRuleInput
+  ): Promise<RentalPriceRule> {
+    return await this.atomicPhase_(async (manager) => {
+      const ruleRepo = manager.getCustomRepository(
+        this.rentalPriceRuleRepository_
+      )
+
+      const rule = await this.retrieve(ruleId)
+
+      const { metadata, ...rest } = update
+
+      if (metadata) {
+        rule.metadata = setMetadata(rule, metadata)
+      }
+
+      for (const [key, value] of Object.entries(rest)) {
+        if (typeof value !== "undefined") {
+          rule[key] = value
+        }
+      }
+
+      this.validate_(rule)
+
+      const result = await ruleRepo.save(rule)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalPriceRuleService.Events.UPDATED, {
+          id: result.id,
+          fields: Object.keys(update),
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Deletes a rental price rule.
+   * @param ruleId - the id of the rule to delete
+   * @return empty promise
+   */
+  async delete(ruleId: string): Promise<void> {
+    return await this.atomicPhase_(async (manager) => {
+      const ruleRepo = manager.getCustomRepository(
+        this.rentalPriceRuleRepository_
+      )
+
+      const rule = await ruleRepo.findOne({
+        where: { id: ruleId },
+      })
+
+      if (!rule) {
+        return
+      }
+
+      await ruleRepo.softRemove(rule)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalPriceRuleService.Events.DELETED, {
+          id: ruleId,
+        })
+    })
+  }
+
+  /**
+   * Computes the adjustments that price rules make to the price of renting a
+   * variant for a period. The price is spread evenly over the period, which
+   * is split into days in UTC. Each day is adjusted by the matching rule
+   * with the highest priority, if any, and days are matched by their start.
+   * Periods longer than the longest period that can be quoted are rejected.
+   * @param variantId - the id of the variant that is rented
+   * @param from - the start of the rental period
+   * @param to - the end of the rental period
+   * @param subtotal - the price of the rental without adjustments
+   * @param context - the currency and quantity of the rental
+   * @return one adjustment per rule that applies to at least one day
+   */
+  async getAdjustments(
+    variantId: string,
+    from: Date,
+    to: Date,
+    subtotal: number,
+    context: RentalPriceRuleContext
+  ): Promise<RentalPriceRuleAdjustment[]> {
+    const length = to.getTime() - from.getTime()
+    if (length > RentalVariantService.MaxQuoteHours * 60 * 60 * 1000) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Price rules cannot be applied to periods of more than ${RentalVariantService.MaxQuoteHours} hours`
+      )
+    }
+
+    const manager = this.transactionManager_ ?? this.manager_
+    const ruleRepo = manager.getCustomRepository(
+      this.rentalPriceRuleRepository_
+    )
+
+    const variant = await this.rentalVariantService_
+      .withTransaction(manager)
+      .retrieve(variantId, { relations: ["rental"] })
+
+    const rules = (
+      await ruleRepo.findApplicable(
+        {
+          variant_id: variant.id,
+          rental_id: variant.rental_id,
+          rental_type_id: variant.rental?.type_id,
+          rental_collection_id: variant.rental?.collection_id,
+        },
+        from,
+        to
+      )
+    ).filter(
+      (rule) =>
+        !rule.currency_code ||
+        rule.currency_code.toLowerCase() ===
+          context.currency_code.toLowerCase()
+    )
+
+    if (!rules.length) {
+      return []
+    }
+
+    const amounts = new Map<string, number>()
+
+    let dayStart = from
+    while (length > 0 && dayStart < to) {
+      const nextDay = new Date(dayStart)
+      nextDay.setUTCHours(24, 0, 0, 0)
+      const dayEnd = nextDay < to ? nextDay : to
+
+      const rule = rules.find((rule) => this.matches_(rule, dayStart))
+      if (rule) {
+        const dayLength = dayEnd.getTime() - dayStart.getTime()
+        const share = (subtotal * dayLength) / length
+        const days = dayLength / RentalPriceRuleService.DayLength
+
+        let amount: number
+        switch (rule.adjustment_type) {
+          case RentalPriceRuleAdjustmentType.PERCENTAGE:
+            amount = (share * rule.value) / 100
+            break
+          case RentalPriceRuleAdjustmentType.FIXED:
+            amount = rule.value * days * context.quantity
+            break
+          case RentalPriceRuleAdjustmentType.OVERRIDE:
+            amount = rule.value * days * context.quantity - share
+            break
+        }
+
+        amounts.set(rule.id, (amounts.get(rule.id) ?? 0) + amount)
+      }
+
+      dayStart = dayEnd
+    }
+
+    return rules
+      .filter((rule) => amounts.has(rule.id))
+      .map((rule) => ({
+        rule_id: rule.id,
+        name: rule.name,
+        adjustment_type: rule.adjustment_type,
+        value: rule.value,
+        amount: Math.round(amounts.get(rule.id) as number),
+      }))
+  }
+
+  /**
+   * Whether a rule applies to the day starting at the given date.
+   * @param rule - the rule to check
+   * @param dayStart - the start of the day
+   * @return whether the rule applies
+   */
+  protected matches_(rule: RentalPriceRule, dayStart: Date): boolean {
+    if (rule.starts_at && new Date(rule.starts_at) > dayStart) {
+      return false
+    }
+
+    if (rule.ends_at && new Date(rule.ends_at) <= dayStart) {
+      return false
+    }
+
+    return (
+      !rule.weekdays?.length || rule.weekdays.includes(dayStart.getUTCDay())
+    )
+  }
+
+  /**
+   * Throws if the rule ends before it starts, has a fixed or override amount
+   * without a currency, or is limited to more than one of a rental
+   * collection, a rental type, a rental and a variant.
+   * @param rule - the rule to validate
+   */
+  protected validate_(rule: RentalPriceRule): void {
+    if (
+      rule.starts_at &&
+      rule.ends_at &&
+      !(new Date(rule.starts_at) < new Date(rule.ends_at))
+    ) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `The end of a price rule must be after its start`
+      )
+    }
+
+    if (
+      rule.adjustment_type !== RentalPriceRuleAdjustmentType.PERCENTAGE &&
+      !rule.currency_code
+    ) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `A currency is required for ${rule.adjustment_type} price rules`
+      )
+    }
+
+    if (rule.weekdays?.some((day) => !(day >= 0 && day <= 6))) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Weekdays must be between 0 (Sunday) and 6 (Saturday)`
+      )
+    }
+
+    const scopes = [
+      rule.rental_collection_id,
+      rule.rental_type_id,
+      rule.rental_id,
+      rule.variant_id,
+    ].filter(Boolean)
+
+    if (scopes.length > 1) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `A price rule can be limited to either a rental collection, a rental type, a rental or a variant`
+      )
+    }
+  }
+}
+
+export default RentalPriceRuleService
@@ -0,0 +1,298 @@
+import { isDefined } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
+import RegionService from "@medusajs/medusa/dist/services/region"
+import RentalDepositService from "./rental-deposit"
+import RentalPriceRuleService from "./rental-price-rule"
+import RentalTaxRateService from "./rental-tax-rate"
+import RentalVariantService from "./rental-variant"
+import { RentalMoneyAmountRepository } from "../repositories/rental-money-amount"
+import { RentalVariantQuoteLine } from "../types/rental-variant"
+import {
+  RentalQuote,
+  RentalQuoteContext,
+  RentalQuoteLine,
+  RentalQuoteLineType,
+} from "../types/rental-quote"
+
+type InjectedDependencies = {
+  manager: EntityManager
+  rentalVariantService: RentalVariantService
+  rentalPriceRuleService: RentalPriceRuleService
+  rentalDepositService: RentalDepositService
+  rentalTaxRateService: RentalTaxRateService
+  regionService: RegionService
+  rentalMoneyAmountRepository: typeof RentalMoneyAmountRepository
+}
+
+/**
+ * Computes what renting a variant for a period costs, line by line.
+ */
+class RentalQuoteService extends TransactionBaseService {
+  protected manager_: EntityManager
+  protected transactionManager_: EntityManager | undefined
+
+  protected readonly rentalVariantService_: RentalVariantService
+  protected readonly rentalPriceRuleService_: RentalPriceRuleService
+  protected readonly rentalDepositService_: RentalDepositService
+  protected readonly rentalTaxRateService_: RentalTaxRateService
+  protected readonly regionService_: RegionService
+  protected readonly rentalMoneyAmountRepository_: typeof RentalMoneyAmountRepository
+
+  constructor({
+    manager,
+    rentalVariantService,
+    rentalPriceRuleService,
+    rentalDepositService,
+    rentalTaxRateService,
+    regionService,
+    rentalMoneyAmountRepository,
+  }: InjectedDependencies) {
+    super(arguments[0])
+
+    this.manager_ = manager
+    this.rentalVariantService_ = rentalVariantService
+    this.rentalPriceRuleService_ = rentalPriceRuleService
+    this.rentalDepositService_ = rentalDepositService
+    this.rentalTaxRateService_ = rentalTaxRateService
+    this.regionService_ = regionService
+    this.rentalMoneyAmountRepository_ = rentalMoneyAmountRepository
+  }
+
+  /**
+   * Quotes the rental of a variant. The base lines are the variant's
+   * duration prices for the period, adjusted by the price rules that apply
+   * to the period. The prices of the price lists that apply to the customer
+   * are discounted from that subtotal in the same proportion as from the
+   * duration prices, each compared to the price of its own duration unit.
+   * Taxes are
+   * computed from the rental's tax rates in the region, or the region's
+   * default rate. The refundable deposit is listed, but is not part of the
+   * total. Unless overridden, the period must fit the variant's duration
+   * rules.
+   * @param variantId - the id of the variant to quote
+   * @param startAt - the start of the rental period
+   * @param endAt - the end of the rental period
+   * @param context - the region, customer and quantity to quote for
+   * @return the quote
+   */
+  async quote(
+    variantId: string,
+    startAt: Date,
+    endAt: Date,
+    context: RentalQuoteContext
+  ): Promise<RentalQuote> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const rentalVariantService =
+      this.rentalVariantService_.withTransaction(manager)
+
+    const variant = await rentalVariantService.retrieve(variantId, {
+      select: ["id", "rental_id"],
+    })
+
+    if (!context.override) {
+      await rentalVariantService.validateDuration(variant.id, startAt, endAt)
+    }
+    const region = await this.regionService_
+      .withTransaction(manager)
+      .retrieve(context.region_id)
+
+    const quantity = context.quantity ?? 1
+
+    const variantQuote = await rentalVariantService.quote(
+      variant.id,
+      startAt,
+      endAt,
+      { region_id: region.id, quantity }
+    )
+
+    const lines: RentalQuoteLine[] = variantQuote.lines.map((line) => ({
+      type: RentalQuoteLineType.BASE,
+      label: line.duration_unit ?? "rental",
+      duration_unit: line.duration_unit,
+      count: line.count,
+      unit_price: line.unit_price,
+      amount: line.amount,
+    }))
+
+    const adjustments = await this.rentalPriceRuleService_
+      .withTransaction(manager)
+      .getAdjustments(variant.id, startAt, endAt, variantQuote.total, {
+        currency_code: region.currency_code,
+        quantity,
+      })
+    for (const adjustment of adjustments) {
+      lines.push({
+        type: RentalQuoteLineType.ADJUSTMENT,
+        label: adjustment.name,
+        rule_id: adjustment.rule_id,
+        amount: adjustment.amount,
+      })
+    }
+
+    const subtotal =
+      variantQuote.total +
+      adjustments.reduce((acc, adjustment) => acc + adjustment.amount, 0)
+
+    const discount = await this.getDiscountLine_(
+      manager,
+      variant.id,
+      variantQuote.lines,
+      subtotal,
+      region.id,
+      region.currency_code,
+      quantity,
+      context.customer_id
+    )
+    if (discount) {
+      lines.push(discount)
+    }
+    const discountTotal = discount ? -discount.amount : 0
+
+    const taxLines = await this.getTaxLines_(
+      manager,
+      variant.rental_id,
+      region.id,
+      region.tax_rate,
+      subtotal - discountTotal
+    )
+    lines.push(...taxLines)
+    const taxTotal = taxLines.reduce((acc, line) => acc + line.amount, 0)
+
+    const depositTotal =
+      (await this.rentalDepositService_
+        .withTransaction(manager)
+        .getAmount(variant.id, region.id)) * quantity
+    if (depositTotal) {
+      lines.push({
+        type: RentalQuoteLineType.DEPOSIT,
+        label: "deposit",
+        amount: depositTotal,
+      })
+    }
+
+    return {
+      variant_id: variant.id,
+      start_at: startAt,
+      end_at: endAt,
+      region_id: region.id,
+      currency_code: region.currency_code,
+      quantity,
+      lines,
+      subtotal,
+      discount_total: discountTotal,
+      tax_total: taxTotal,
+      deposit_total: depositTotal,
+      total: subtotal - discountTotal + taxTotal,
+    }
+  }
+
+  /**
+   * Discounts the subtotal by the share the price lists that apply to the
+   * customer take off the duration prices. Each duration price is only
+   * compared to the price list prices of the same duration unit.
+   * @return the discount line, or null if no discount applies
+   */
+  protected async getDiscountLine_(
+    manager: EntityManager,
+    variantId: string,
+    baseLines: RentalVariantQuoteLine[],
+    subtotal: number,
+    regionId: string,
+    currencyCode: string,
+    quantity: number,
+    customerId?: string
+  ): Promise<RentalQuoteLine | null> {
+    const moneyAmountRepo = manager.getCustomRepository(
+      this.rentalMoneyAmountRepository_
+    )
+
+    const prices = (
+      await moneyAmountRepo.findVariantPriceListPrices(
+        variantId,
+        currencyCode,
+        regionId,
+        customerId
+      )
+    ).filter(
+      (price) =>
+        (!isDefined(price.min_quantity) ||
+          price.min_quantity === null ||
+          price.min_quantity <= quantity) &&
+        (!isDefined(price.max_quantity) ||
+          price.max_quantity === null ||
+          price.max_quantity >= quantity)
+    )
+
+    let baseTotal = 0
+    let discountTotal = 0
+    let label: string | undefined
+
+    for (const line of baseLines) {
+      baseTotal += line.amount
+
+      const [cheapest] = prices
+        .filter(
+          (price) =>
+            (price.duration_unit ?? null) === (line.duration_unit ?? null)
+        )
+        .sort((a, b) => a.amount - b.amount)
+
+      if (!cheapest || cheapest.amount >= line.unit_price) {
+        continue
+      }
+
+      discountTotal +=
+        (line.amount * (line.unit_price - cheapest.amount)) / line.unit_price
+      label = label ?? cheapest.price_list?.type
+    }
+
+    if (!discountTotal || !baseTotal) {
+      return null
+    }
+
+    const rate = discountTotal / baseTotal
+
+    return {
+      type: RentalQuoteLineType.DISCOUNT,
+      label: label ?? "discount",
+      rate: Math.round(rate * 10000) / 100,
+      amount: -Math.round(subtotal * rate),
+    }
+  }
+
+  /**
+   * Computes one tax line per tax rate of the rental in the region, or a
+   * single line at the region's default rate if the rental has none.
+   * @return the tax lines
+   */
+  protected async getTaxLines_(
+    manager: EntityManager,
+    rentalId: string,
+    regionId: string,
+    defaultRate: number | null,
+    taxableAmount: number
+  ): Promise<RentalQuoteLine[]> {
+    const rentalTaxRates = await this.rentalTaxRateService_
+      .withTransaction(manager)
+      .list({ rental_id: rentalId }, { relations: ["tax_rate"] })
+
+    const rates = rentalTaxRates
+      .map(({ tax_rate }) => tax_rate)
+      .filter((taxRate) => taxRate?.region_id === regionId)
+      .map((taxRate) => ({ label: taxRate!.name, rate: taxRate!.rate ?? 0 }))
+
+    if (!rates.length && defaultRate) {
+      rates.push({ label: "default", rate: defaultRate })
+    }
+
+    return rates.map(({ label, rate }) => ({
+      type: RentalQuoteLineType.TAX,
+      label,
+      rate,
+      amount: Math.round((taxableAmount * rate) / 100),
+    }))
+  }
+}
+
+export default RentalQuoteService
@@ -1,10 +1,14 @@
 import { MedusaError } from "medusa-core-utils"
-import { EntityManager, ILike } from "typeorm"
-import { RentalTag } from "../models"
+import { EntityManager, ILike, Raw } from "typeorm"
+import { RentalTag, RentalStatus } from "../models"
 import { RentalTagRepository } from "../repositories/rental-tag"
 import { FindConfig, Selector } from "@medusajs/medusa/dist/types/common"
 import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
-import { buildQuery, isString } from "@medusajs/medusa/dist/utils"
+import { buildQuery, isString, setMetadata } from "@medusajs/medusa/dist/utils"
+import {
+  CreateRentalTagInput,
+  UpdateRentalTagInput,
+} from "../types/rental-tag"
 
 type RentalTagConstructorProps = {
   manager: EntityManager
@@ -53,15 +57,112 @@ class RentalTagService extends TransactionBaseService {
    * @param tag - the rental tag to create
    * @return created rental tag
    */
-  async create(tag: Partial<RentalTag>): Promise<RentalTag> {
+  async create(tag: CreateRentalTagInput): Promise<RentalTag> {
     return await this.atomicPhase_(async (manager: EntityManager) => {
       const tagRepo = manager.getCustomRepository(this.tagRepo_)
 
+      await this.assertValueAvailable_(manager, tag.value)
+
       const rentalTag = tagRepo.create(tag)
       return await tagRepo.save(rentalTag)
     })
   }
 
+  /**
+   * Updates a rental tag
+   * @param tagId - the id of the rental tag to update
+   * @param update - the update object
+   * @return updated rental tag
+   */
+  async update(
+    tagId: string,
+    update: UpdateRentalTagInput
+  ): Promise<RentalTag> {
+    return await this.atomicPhase_(async (manager: EntityManager) => {
+      const tagRepo = manager.getCustomRepository(this.tagRepo_)
+
+      const tag = await this.retrieve(tagId)
+
+      const { metadata, ...rest } = update
+
+      if (rest.value && rest.value !== tag.value) {
+        await this.assertValueAvailable_(manager, rest.value)
+      }
+
+      if (metadata) {
+        tag.metadata = setMetadata(tag, metadata)
+      }
+
+      for (const [key, value] of Object.entries(rest)) {
+        tag[key] = value
+      }
+
+      return await tagRepo.save(tag)
+    })
+  }
+
+  /**
+   * Deletes a rental tag idempotently. The tag is taken off the rentals
+   * tagged with it.
+   * @param tagId - the id of the rental tag to delete
+   * @return empty promise
+   */
+  async delete(tagId: string): Promise<void> {
+    return await this.atomicPhase_(async (manager: EntityManager) => {
+      const tagRepo = manager.getCustomRepository(this.tagRepo_)
+
+      const tag = await tagRepo.findOne({ where: { id: tagId } })
+
+      if (!tag) {
+        return
+      }
+
+      await tagRepo.removeFromRentals(tag.id)
+      await tagRepo.softRemove(tag)
+    })
+  }
+
+  /**
+   * Folds a rental tag into another one. The rentals tagged with the merged
+   * tag are tagged with the tag it is merged into instead, and the merged tag
+   * is deleted.
+   * @param tagId - the id of the rental tag to merge
+   * @param targetTagId - the id of the rental tag to merge it into
+   * @return the rental tag merged into
+   */
+  async merge(tagId: string, targetTagId: string): Promise<RentalTag> {
+    return await this.atomicPhase_(async (manager: EntityManager) => {
+      const tagRepo = manager.getCustomRepository(this.tagRepo_)
+
+      if (tagId === targetTagId) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `A rental tag cannot be merged into itself`
+        )
+      }
+
+      const tag = await this.retrieve(tagId)
+      const target = await this.retrieve(targetTagId)
+
+      await tagRepo.mergeTags(tag.id, target.id)
+      await tagRepo.softRemove(tag)
+
+      return target
+    })
+  }
+
+  /**
+   * Counts the rentals tagged with each of the given rental tags.
+   * @param tagIds - the ids of the rental tags to count the rentals of
+   * @return the number of rentals by tag id
+   */
+  async countUsage(tagIds: string[]): Promise<Map<string, number>> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const tagRepo = manager.getCustomRepository(this.tagRepo_)
+
+    return await tagRepo.countUsage(tagIds)
+  }
+
   /**
    * Lists rental tags
    * @param selector - the query object for find
@@ -71,7 +172,9 @@ class RentalTagService extends TransactionBaseService {
   async list(
     selector: Selector<RentalTag> & {
       q?: string
+      id?: string | string[]
       discount_condition_id?: string
+      sales_channel_id?: string[]
     } = {},
     config: FindConfig<RentalTag> = { skip: 0, take: 20 }
   ): Promise<RentalTag[]> {
@@ -88,7 +191,9 @@ class RentalTagService extends TransactionBaseService {
   async listAndCount(
     selector: Selector<RentalTag> & {
       q?: string
+      id?: string | string[]
       discount_condition_id?: string
+      sales_channel_id?: string[]
     } = {},
     config: FindConfig<RentalTag> = { skip: 0, take: 20 }
   ): Promise<[RentalTag[], number]> {
@@ -100,12 +205,37 @@ class RentalTagService extends TransactionBaseService {
       delete selector.q
     }
 
+    let salesChannelIds: string[] | undefined
+    if (selector.sales_channel_id) {
+      salesChannelIds = selector.sales_channel_id
+      delete selector.sales_channel_id
+    }
+
     const query = buildQuery(selector, config)
 
     if (q) {
       query.where.value = ILike(`%${q}%`)
     }
 
+    // Only the tags of a published rental in the sales channels, among
+    // the ones asked for if any
+    if (salesChannelIds?.length) {
+      const ids = selector.id
+        ? ([] as string[]).concat(selector.id)
+        : undefined
+
+      query.where.id = Raw(
+        (alias) =>
+          (ids ? `${alias} IN (:...ids) AND ` : "") +
+          `${alias} IN (SELECT rt.rental_tag_id FROM rental_tags rt ` +
+          `INNER JOIN rental r ON r.id = rt.rental_id ` +
+          `INNER JOIN rental_sales_channel rsc ON rsc.rental_id = r.id ` +
+          `WHERE r.status = :status AND r.deleted_at IS NULL ` +
+          `AND rsc.sales_channel_id IN (:...salesChannelIds))`,
+        { status: RentalStatus.PUBLISHED, salesChannelIds, ids }
+      )
+    }
+
     if (query.where.discount_condition_id) {
       const discountConditionId = query.where.discount_condition_id as string
       delete query.where.discount_condition_id
@@ -117,6 +247,22 @@ class RentalTagService extends TransactionBaseService {
 
     return await tagRepo.findAndCount(query)
   }
+
+  protected async assertValueAvailable_(
+    manager: EntityManager,
+    value: string
+  ): Promise<void> {
+    const tagRepo = manager.getCustomRepository(this.tagRepo_)
+
+    const existing = await tagRepo.findOne({ where: { value } })
+
+    if (existing) {
+      throw new MedusaError(
+        MedusaError.Types.DUPLICATE_ERROR,
+        `Rental tag with value: ${value} already exists, merge into it instead`
+      )
+    }
+  }
 }
 
 export default RentalTagService
@@ -1,10 +1,14 @@
 import { MedusaError } from "medusa-core-utils"
-import { EntityManager, ILike } from "typeorm"
-import { RentalType } from "../models"
+import { EntityManager, ILike, Raw } from "typeorm"
+import { RentalType, RentalStatus } from "../models"
 import { RentalTypeRepository } from "../repositories/rental-type"
 import { FindConfig, Selector } from "@medusajs/medusa/dist/types/common"
 import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
-import { buildQuery, isString } from "@medusajs/medusa/dist/utils"
+import { buildQuery, isString, setMetadata } from "@medusajs/medusa/dist/utils"
+import {
+  CreateRentalTypeInput,
+  UpdateRentalTypeInput,
+} from "../types/rental-type"
 
 class RentalTypeService extends TransactionBaseService {
   protected manager_: EntityManager
@@ -46,6 +50,88 @@ class RentalTypeService extends TransactionBaseService {
     return type
   }
 
+  /**
+   * Creates a rental type
+   * @param type - the rental type to create
+   * @return created rental type
+   */
+  async create(type: CreateRentalTypeInput): Promise<RentalType> {
+    return await this.atomicPhase_(async (manager: EntityManager) => {
+      const typeRepo = manager.getCustomRepository(this.typeRepository_)
+
+      await this.assertValueAvailable_(manager, type.value)
+
+      const rentalType = typeRepo.create(type)
+      return await typeRepo.save(rentalType)
+    })
+  }
+
+  /**
+   * Updates a rental type
+   * @param typeId - the id of the rental type to update
+   * @param update - the update object
+   * @return updated rental type
+   */
+  async update(
+    typeId: string,
+    update: UpdateRentalTypeInput
+  ): Promise<RentalType> {
+    return await this.atomicPhase_(async (manager: EntityManager) => {
+      const typeRepo = manager.getCustomRepository(this.typeRepository_)
+
+      const type = await this.retrieve(typeId)
+
+      const { metadata, ...rest } = update
+
+      if (rest.value && rest.value !== type.value) {
+        await this.assertValueAvailable_(manager, rest.value)
+      }
+
+      if (metadata) {
+        type.metadata = setMetadata(type, metadata)
+      }
+
+      for (const [key, value] of Object.entries(rest)) {
+        type[key] = value
+      }
+
+      return await typeRepo.save(type)
+    })
+  }
+
+  /**
+   * Deletes a rental type idempotently. The rentals of the type are left
+   * without one.
+   * @param typeId - the id of the rental type to delete
+   * @return empty promise
+   */
+  async delete(typeId: string): Promise<void> {
+    return await this.atomicPhase_(async (manager: EntityManager) => {
+      const typeRepo = manager.getCustomRepository(this.typeRepository_)
+
+      const type = await typeRepo.findOne({ where: { id: typeId } })
+
+      if (!type) {
+        return
+      }
+
+      await typeRepo.removeFromRentals(type.id)
+      await typeRepo.softRemove(type)
+    })
+  }
+
+  /**
+   * Counts the rentals of each of the given rental types.
+   * @param typeIds - the ids of the rental types to count the rentals of
+   * @return the number of rentals by type id
+   */
+  async countUsage(typeIds: string[]): Promise<Map<string, number>> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const typeRepo = manager.getCustomRepository(this.typeRepository_)
+
+    return await typeRepo.countUsage(typeIds)
+  }
+
   /**
    * Lists rental types
    * @param selector - the query object for find
@@ -55,7 +141,9 @@ class RentalTypeService extends TransactionBaseService {
   async list(
     selector: Selector<RentalType> & {
       q?: string
+      id?: string | string[]
       discount_condition_id?: string
+      sales_channel_id?: string[]
     } = {},
     config: FindConfig<RentalType> = { skip: 0, take: 20 }
   ): Promise<RentalType[]> {
@@ -72,7 +160,9 @@ class RentalTypeService extends TransactionBaseService {
   async listAndCount(
     selector: Selector<RentalType> & {
       q?: string
+      id?: string | string[]
       discount_condition_id?: string
+      sales_channel_id?: string[]
     } = {},
     config: FindConfig<RentalType> = { skip: 0, take: 20 }
   ): Promise<[RentalType[], number]> {
@@ -84,12 +174,36 @@ class RentalTypeService extends TransactionBaseService {
       delete selector.q
     }
 
+    let salesChannelIds: string[] | undefined
+    if (selector.sales_channel_id) {
+      salesChannelIds = selector.sales_channel_id
+      delete selector.sales_channel_id
+    }
+
     const query = buildQuery(selector, config)
 
     if (q) {
       query.where.value = ILike(`%${q}%`)
     }
 
+    // Only the types of a published rental in the sales channels, among
+    // the ones asked for if any
+    if (salesChannelIds?.length) {
+      const ids = selector.id
+        ? ([] as string[]).concat(selector.id)
+        : undefined
+
+      query.where.id = Raw(
+        (alias) =>
+          (ids ? `${alias} IN (:...ids) AND ` : "") +
+          `${alias} IN (SELECT r.type_id FROM rental r ` +
+          `INNER JOIN rental_sales_channel rsc ON rsc.rental_id = r.id ` +
+          `WHERE r.status = :status AND r.deleted_at IS NULL ` +
+          `AND rsc.sales_channel_id IN (:...salesChannelIds))`,
+        { status: RentalStatus.PUBLISHED, salesChannelIds, ids }
+      )
+    }
+
     if (query.where.discount_condition_id) {
       const discountConditionId = query.where.discount_condition_id as string
       delete query.where.discount_condition_id
@@ -101,6 +215,22 @@ class RentalTypeService extends TransactionBaseService {
 
     return await typeRepo.findAndCount(query)
   }
+
+  protected async assertValueAvailable_(
+    manager: EntityManager,
+    value: string
+  ): Promise<void> {
+    const typeRepo = manager.getCustomRepository(this.typeRepository_)
+
+    const existing = await typeRepo.findOne({ where: { value } })
+
+    if (existing) {
+      throw new MedusaError(
+        MedusaError.Types.DUPLICATE_ERROR,
+        `Rental type with value: ${value} already exists`
+      )
+    }
+  }
 }
 
 export default RentalTypeService
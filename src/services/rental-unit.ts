@@ -0,0 +1,344 @@
+import { MedusaError, isDefined } from "medusa-core-utils"
+import { EntityManager, In } from "typeorm"
+import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
+import { RentalBooking, RentalUnit } from "../models"
+import {
+  activeRentalUnitStatuses,
+  RentalUnitRepository,
+} from "../repositories/rental-unit"
+import { RentalVariantRepository } from "../repositories/rental-variant"
+import { FindConfig, Selector } from "@medusajs/medusa/dist/types/common"
+import {
+  CreateRentalUnitInput,
+  FilterableRentalUnitProps,
+  UpdateRentalUnitInput,
+} from "../types/rental-unit"
+import { RentalBuffer } from "../types/rental-variant"
+import { buildQuery, setMetadata } from "@medusajs/medusa/dist/utils"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+
+type InjectedDependencies = {
+  manager: EntityManager
+  rentalUnitRepository: typeof RentalUnitRepository
+  rentalVariantRepository: typeof RentalVariantRepository
+  eventBusService: EventBusService
+}
+
+/**
+ * Provides layer to manipulate rental units, the physical items of a rental
+ * variant. A variant that has units derives its inventory from them.
+ */
+class RentalUnitService extends TransactionBaseService {
+  protected manager_: EntityManager
+  protected transactionManager_: EntityManager | undefined
+
+  protected readonly rentalUnitRepository_: typeof RentalUnitRepository
+  protected readonly rentalVariantRepository_: typeof RentalVariantRepository
+  protected readonly eventBus_: EventBusService
+
+  static readonly Events = {
+    CREATED: "rental_unit.created",
+    UPDATED: "rental_unit.updated",
+    DELETED: "rental_unit.deleted",
+  }
+
+  constructor({
+    manager,
+    rentalUnitRepository,
+    rentalVariantRepository,
+    eventBusService,
+  }: InjectedDependencies) {
+    // eslint-disable-next-line prefer-rest-params
+    super(arguments[0])
+
+    this.manager_ = manager
+    this.rentalUnitRepository_ = rentalUnitRepository
+    this.rentalVariantRepository_ = rentalVariantRepository
+    this.eventBus_ = eventBusService
+  }
+
+  /**
+   * Retrieves a rental unit by id.
+   * @param unitId - the id of the unit to retrieve
+   * @param config - the config to retrieve the unit by
+   * @return the unit
+   */
+  async retrieve(
+    unitId: string,
+    config: FindConfig<RentalUnit> = {}
+  ): Promise<RentalUnit> {
+    if (!isDefined(unitId)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `"unitId" must be defined`
+      )
+    }
+
+    const unitRepo = this.manager_.getCustomRepository(
+      this.rentalUnitRepository_
+    )
+
+    const query = buildQuery({ id: unitId }, config)
+    const unit = await unitRepo.findOne(query)
+
+    if (!unit) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Rental unit with id: ${unitId} was not found`
+      )
+    }
+
+    return unit
+  }
+
+  /**
+   * Lists rental units
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async list(
+    selector: FilterableRentalUnitProps | Selector<RentalUnit> = {},
+    config: FindConfig<RentalUnit> = { skip: 0, take: 20 }
+  ): Promise<RentalUnit[]> {
+    const [units] = await this.listAndCount(selector, config)
+    return units
+  }
+
+  /**
+   * Lists rental units and adds count.
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async listAndCount(
+    selector: FilterableRentalUnitProps | Selector<RentalUnit> = {},
+    config: FindConfig<RentalUnit> = { skip: 0, take: 20 }
+  ): Promise<[RentalUnit[], number]> {
+    const unitRepo = this.manager_.getCustomRepository(
+      this.rentalUnitRepository_
+    )
+
+    const query = buildQuery(selector as Selector<RentalUnit>, config)
+    return await unitRepo.findAndCount(query)
+  }
+
+  /**
+   * Creates a unit for a rental variant and updates the variant's inventory.
+   * @param data - the unit to create
+   * @return the created unit
+   */
+  async create(data: CreateRentalUnitInput): Promise<RentalUnit> {
+    return await this.atomicPhase_(async (manager) => {
+      const unitRepo = manager.getCustomRepository(this.rentalUnitRepository_)
+      const variantRepo = manager.getCustomRepository(
+        this.rentalVariantRepository_
+      )
+
+      const variant = await variantRepo.findOne({
+        where: { id: data.variant_id },
+        select: ["id"],
+      })
+
+      if (!variant) {
+        throw new MedusaError(
+          MedusaError.Types.NOT_FOUND,
+          `Variant with id: ${data.variant_id} was not found`
+        )
+      }
+
+      await this.assertSerialNumberIsFree_(manager, data.serial_number)
+
+      const unit = unitRepo.create(data)
+      const result = await unitRepo.save(unit)
+
+      await this.syncInventoryQuantity_(manager, result.variant_id)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalUnitService.Events.CREATED, {
+          id: result.id,
+          variant_id: result.variant_id,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Updates a unit and the inventory of its variant.
+   * @param unitId - the id of the unit to update
+   * @param update - an object with the update values
+   * @return the updated unit
+   */
+  async update(
+    unitId: string,
+    update: UpdateRentalUnitInput
+  ): Promise<RentalUnit> {
+    return await this.atomicPhase_(async (manager) => {
+      const unitRepo = manager.getCustomRepository(this.rentalUnitRepository_)
+
+      const unit = await this.retrieve(unitId)
+
+      const { metadata, ...rest } = update
+
+      if (
+        isDefined(rest.serial_number) &&
+        rest.serial_number !== unit.serial_number
+      ) {
+        await this.assertSerialNumberIsFree_(manager, rest.serial_number)
+      }
+
+      if (metadata) {
+        unit.metadata = setMetadata(unit, metadata)
+      }
+
+      for (const [key, value] of Object.entries(rest)) {
+        if (isDefined(value)) {
+          unit[key] = value
+        }
+      }
+
+      const result = await unitRepo.save(unit)
+
+      await this.syncInventoryQuantity_(manager, result.variant_id)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalUnitService.Events.UPDATED, {
+          id: result.id,
+          variant_id: result.variant_id,
+          fields: Object.keys(update),
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Deletes a unit and updates the inventory of its variant.
+   * @param unitId - the id of the unit to delete
+   * @return empty promise
+   */
+  async delete(unitId: string): Promise<void> {
+    return await this.atomicPhase_(async (manager) => {
+      const unitRepo = manager.getCustomRepository(this.rentalUnitRepository_)
+
+      const unit = await unitRepo.findOne({ where: { id: unitId } })
+
+      if (!unit) {
+        return
+      }
+
+      await unitRepo.softRemove(unit)
+
+      await this.syncInventoryQuantity_(manager, unit.variant_id)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalUnitService.Events.DELETED, {
+          id: unit.id,
+          variant_id: unit.variant_id,
+        })
+    })
+  }
+
+  /**
+   * Picks the units to assign to a booking. Units already assigned to the
+   * booking are kept while they are still free for its period. Variants
+   * without units are booked by quantity only, in which case no units are
+   * returned.
+   * @param booking - the booking to pick units for
+   * @param buffer - the buffer held around each booking of the variant
+   * @return the units to assign to the booking
+   */
+  async assignUnits(
+    booking: RentalBooking,
+    buffer: RentalBuffer = { before: 0, after: 0 }
+  ): Promise<RentalUnit[]> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const unitRepo = manager.getCustomRepository(this.rentalUnitRepository_)
+
+    const unitCount = await unitRepo.count({
+      where: { variant_id: booking.variant_id },
+    })
+
+    if (!unitCount) {
+      return []
+    }
+
+    // Another booking holds a unit too close to this one if their periods,
+    // each extended by the buffer, overlap.
+    const margin = (buffer.before + buffer.after) * 60 * 1000
+    const free = await unitRepo.findAvailable(
+      booking.variant_id,
+      new Date(new Date(booking.start_at).getTime() - margin),
+      new Date(new Date(booking.end_at).getTime() + margin),
+      booking.id ? [booking.id] : []
+    )
+
+    const currentIds = new Set((booking.units ?? []).map((unit) => unit.id))
+    const units = [
+      ...free.filter((unit) => currentIds.has(unit.id)),
+      ...free.filter((unit) => !currentIds.has(unit.id)),
+    ].slice(0, booking.quantity)
+
+    if (units.length < booking.quantity) {
+      throw new MedusaError(
+        MedusaError.Types.CONFLICT,
+        `Variant with id: ${booking.variant_id} has ${units.length} unit(s) free for the requested period, but ${booking.quantity} were requested`
+      )
+    }
+
+    return units
+  }
+
+  /**
+   * Sets the inventory of a variant to the number of its active units.
+   * @param manager - the transaction manager to update the variant with
+   * @param variantId - the id of the variant to update
+   */
+  protected async syncInventoryQuantity_(
+    manager: EntityManager,
+    variantId: string
+  ): Promise<void> {
+    const unitRepo = manager.getCustomRepository(this.rentalUnitRepository_)
+    const variantRepo = manager.getCustomRepository(
+      this.rentalVariantRepository_
+    )
+
+    const inventoryQuantity = await unitRepo.count({
+      where: { variant_id: variantId, status: In(activeRentalUnitStatuses) },
+    })
+
+    await variantRepo.update(variantId, {
+      inventory_quantity: inventoryQuantity,
+    })
+  }
+
+  /**
+   * Throws if another unit already uses the serial number.
+   * @param manager - the transaction manager to look up units with
+   * @param serialNumber - the serial number to check
+   */
+  protected async assertSerialNumberIsFree_(
+    manager: EntityManager,
+    serialNumber: string
+  ): Promise<void> {
+    const unitRepo = manager.getCustomRepository(this.rentalUnitRepository_)
+
+    const existing = await unitRepo.findOne({
+      where: { serial_number: serialNumber },
+      select: ["id"],
+    })
+
+    if (existing) {
+      throw new MedusaError(
+        MedusaError.Types.DUPLICATE_ERROR,
+        `A rental unit with serial number: ${serialNumber} already exists`
+      )
+    }
+  }
+}
+
+export default RentalUnitService
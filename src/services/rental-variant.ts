@@ -1,19 +1,36 @@
 import { MedusaError, isDefined } from "medusa-core-utils"
-import { Brackets, EntityManager, ILike, SelectQueryBuilder } from "typeorm"
 import {
-  IPriceSelectionStrategy,
+  Brackets,
+  EntityManager,
+  ILike,
+  IsNull,
+  SelectQueryBuilder,
+} from "typeorm"
+import {
   PriceSelectionContext,
   TransactionBaseService,
 } from "@medusajs/medusa/dist/interfaces"
 import {
   Rental,
+  RentalBlackout,
+  RentalBooking,
+  RentalBookingStatus,
+  RentalDurationUnit,
+  RentalMoneyAmount,
   RentalOptionValue,
+  RentalPriceDurationUnit,
   RentalVariant,
 } from "../models"
-import { MoneyAmount } from "@medusajs/medusa/dist/models"
 import { CartRepository } from "@medusajs/medusa/dist/repositories/cart"
-import { MoneyAmountRepository } from "@medusajs/medusa/dist/repositories/money-amount"
 import { RentalRepository } from "../repositories/rental"
+import {
+  RentalBlackoutRepository,
+  RentalBlackoutScope,
+} from "../repositories/rental-blackout"
+import { RentalBookingRepository } from "../repositories/rental-booking"
+import { RentalHoldRepository } from "../repositories/rental-hold"
+import RentalDepositService from "./rental-deposit"
+import { RentalMoneyAmountRepository } from "../repositories/rental-money-amount"
 import { RentalOptionValueRepository } from "../repositories/rental-option-value"
 import {
   FindWithRelationsOptions,
@@ -26,7 +43,19 @@ import {
   CreateRentalVariantInput,
   FilterableRentalVariantProps,
   GetRegionPriceContext,
+  RentalAvailabilityGranularity,
+  RentalBuffer,
+  RentalDurationRules,
+  RentalLateFeeSchedule,
+  RentalReservedPeriod,
+  RentalVariantAvailability,
+  RentalVariantAvailabilitySlot,
   RentalVariantPrice,
+  RentalVariantPricing,
+  RentalVariantPricingContext,
+  RentalVariantQuote,
+  RentalVariantQuoteContext,
+  RentalVariantQuoteLine,
   UpdateRentalVariantInput,
 } from "../types/rental-variant"
 import { buildQuery, setMetadata } from "@medusajs/medusa/dist/utils"
@@ -38,6 +67,36 @@ class RentalVariantService extends TransactionBaseService {
     DELETED: "rental-variant.deleted",
   }
 
+  static readonly MaxAvailabilitySlots = 744
+
+  /**
+   * The longest period, in hours, that can be quoted: a year.
+   */
+  static readonly MaxQuoteHours = 366 * 24
+
+  /**
+   * The length of each duration unit in milliseconds.
+   */
+  static readonly DurationUnitLengths: Record<RentalDurationUnit, number> = {
+    [RentalDurationUnit.HOUR]: 60 * 60 * 1000,
+    [RentalDurationUnit.DAY]: 24 * 60 * 60 * 1000,
+    [RentalDurationUnit.WEEK]: 7 * 24 * 60 * 60 * 1000,
+  }
+
+  /**
+   * The number of hours each price duration unit covers. A month is charged
+   * as 30 days.
+   */
+  static readonly PriceDurationUnitHours: Record<
+    RentalPriceDurationUnit,
+    number
+  > = {
+    [RentalPriceDurationUnit.HOUR]: 1,
+    [RentalPriceDurationUnit.DAY]: 24,
+    [RentalPriceDurationUnit.WEEK]: 7 * 24,
+    [RentalPriceDurationUnit.MONTH]: 30 * 24,
+  }
+
   protected manager_: EntityManager
   protected transactionManager_: EntityManager | undefined
 
@@ -45,10 +104,13 @@ class RentalVariantService extends TransactionBaseService {
   protected readonly rentalRepository_: typeof RentalRepository
   protected readonly eventBus_: EventBusService
   protected readonly regionService_: RegionService
-  protected readonly priceSelectionStrategy_: IPriceSelectionStrategy
-  protected readonly moneyAmountRepository_: typeof MoneyAmountRepository
+  protected readonly rentalMoneyAmountRepository_: typeof RentalMoneyAmountRepository
   protected readonly rentalOptionValueRepository_: typeof RentalOptionValueRepository
   protected readonly cartRepository_: typeof CartRepository
+  protected readonly rentalBookingRepository_: typeof RentalBookingRepository
+  protected readonly rentalBlackoutRepository_: typeof RentalBlackoutRepository
+  protected readonly rentalHoldRepository_: typeof RentalHoldRepository
+  protected readonly rentalDepositService_: RentalDepositService
 
   constructor({
     manager,
@@ -56,10 +118,13 @@ class RentalVariantService extends TransactionBaseService {
     rentalRepository,
     eventBusService,
     regionService,
-    moneyAmountRepository,
+    rentalMoneyAmountRepository,
     rentalOptionValueRepository,
     cartRepository,
-    priceSelectionStrategy,
+    rentalBookingRepository,
+    rentalBlackoutRepository,
+    rentalHoldRepository,
+    rentalDepositService,
   }) {
     super(arguments[0])
 
@@ -68,10 +133,13 @@ class RentalVariantService extends TransactionBaseService {
     this.rentalRepository_ = rentalRepository
     this.eventBus_ = eventBusService
     this.regionService_ = regionService
-    this.moneyAmountRepository_ = moneyAmountRepository
+    this.rentalMoneyAmountRepository_ = rentalMoneyAmountRepository
     this.rentalOptionValueRepository_ = rentalOptionValueRepository
     this.cartRepository_ = cartRepository
-    this.priceSelectionStrategy_ = priceSelectionStrategy
+    this.rentalBookingRepository_ = rentalBookingRepository
+    this.rentalBlackoutRepository_ = rentalBlackoutRepository
+    this.rentalHoldRepository_ = rentalHoldRepository
+    this.rentalDepositService_ = rentalDepositService
   }
 
   /**
@@ -154,7 +222,7 @@ class RentalVariantService extends TransactionBaseService {
         this.rentalVariantRepository_
       )
 
-      const { prices, ...rest } = variant
+      const { prices, deposit_amounts: depositAmounts, ...rest } = variant
 
       let rental = rentalOrRentalId
 
@@ -207,6 +275,10 @@ class RentalVariantService extends TransactionBaseService {
         rest.variant_rank = rental.variants.length
       }
 
+      this.validateDurationRules(
+        this.resolveDurationRules_({ ...rest, rental } as RentalVariant)
+      )
+
       const toCreate = {
         ...rest,
         rental_id: rental.id,
@@ -225,6 +297,7 @@ class RentalVariantService extends TransactionBaseService {
               amount: price.amount,
               region_id: price.region_id,
               currency_code: region.currency_code,
+              duration_unit: price.duration_unit,
             })
           } else {
             await this.setCurrencyPrice(result.id, price)
@@ -232,6 +305,12 @@ class RentalVariantService extends TransactionBaseService {
         }
       }
 
+      if (depositAmounts) {
+        await this.rentalDepositService_
+          .withTransaction(manager)
+          .setRegionAmounts({ variant_id: result.id }, depositAmounts)
+      }
+
       await this.eventBus_
         .withTransaction(manager)
         .emit(RentalVariantService.Events.CREATED, {
@@ -265,6 +344,7 @@ class RentalVariantService extends TransactionBaseService {
       if (typeof variant === `string`) {
         const variantRes = await variantRepo.findOne({
           where: { id: variantOrVariantId as string },
+          relations: ["rental"],
         })
         if (!isDefined(variantRes)) {
           throw new MedusaError(
@@ -281,12 +361,25 @@ class RentalVariantService extends TransactionBaseService {
         )
       }
 
-      const { prices, options, metadata, inventory_quantity, ...rest } = update
+      const {
+        prices,
+        options,
+        metadata,
+        inventory_quantity,
+        deposit_amounts: depositAmounts,
+        ...rest
+      } = update
 
       if (prices) {
         await this.updateVariantPrices(variant.id!, prices)
       }
 
+      if (depositAmounts) {
+        await this.rentalDepositService_
+          .withTransaction(manager)
+          .setRegionAmounts({ variant_id: variant.id! }, depositAmounts)
+      }
+
       if (options) {
         for (const option of options) {
           await this.updateOptionValue(
@@ -309,6 +402,21 @@ class RentalVariantService extends TransactionBaseService {
         variant[key] = value
       }
 
+      // Rules cleared with null fall back to the rules of the rental
+      const rental =
+        variant.rental ??
+        (
+          await variantRepo.findOne({
+            where: { id: variant.id },
+            select: ["id"],
+            relations: ["rental"],
+          })
+        )?.rental
+
+      this.validateDurationRules(
+        this.resolveDurationRules_({ ...variant, rental } as RentalVariant)
+      )
+
       const result = await variantRepo.save(variant)
 
       await this.eventBus_
@@ -336,7 +444,7 @@ class RentalVariantService extends TransactionBaseService {
   ): Promise<void> {
     return await this.atomicPhase_(async (manager: EntityManager) => {
       const moneyAmountRepo = manager.getCustomRepository(
-        this.moneyAmountRepository_
+        this.rentalMoneyAmountRepository_
       )
 
       // get prices to be deleted
@@ -353,6 +461,7 @@ class RentalVariantService extends TransactionBaseService {
             currency_code: region.currency_code,
             region_id: price.region_id,
             amount: price.amount,
+            duration_unit: price.duration_unit,
           })
         } else {
           await this.setCurrencyPrice(variantId, price)
@@ -364,9 +473,11 @@ class RentalVariantService extends TransactionBaseService {
   }
 
   /**
-   * Gets the price specific to a region. If no region specific money amount
-   * exists the function will try to use a currency price. If no default
-   * currency price exists the function will throw an error.
+   * Gets the price specific to a region that is charged once per booking.
+   * If no region specific money amount exists the function will try to use
+   * a currency price. If no default currency price exists the function will
+   * throw an error. With discount prices included, the cheapest price of
+   * the price lists that apply to the customer is returned if it is lower.
    * @param variantId - the id of the variant to get price from
    * @param context - context for getting region price
    * @return the price specific to the region
@@ -374,28 +485,500 @@ class RentalVariantService extends TransactionBaseService {
   async getRegionPrice(
     variantId: string,
     context: GetRegionPriceContext
-  ): Promise<number | null> {
-    return await this.atomicPhase_(async (manager: EntityManager) => {
+  ): Promise<number> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const moneyAmountRepo = manager.getCustomRepository(
+      this.rentalMoneyAmountRepository_
+    )
+
+    const region = await this.regionService_
+      .withTransaction(manager)
+      .retrieve(context.regionId, { select: ["id", "currency_code"] })
+
+    const quantity = context.quantity ?? 1
+    const isFlatPrice = (price: RentalMoneyAmount): boolean =>
+      !price.duration_unit && this.appliesToQuantity_(price, quantity)
+
+    const [price] = (
+      await moneyAmountRepo.findVariantRegionOrCurrencyPrices(
+        variantId,
+        region.currency_code,
+        region.id
+      )
+    )
+      .filter(isFlatPrice)
+      .sort((a, b) => Number(!!b.region_id) - Number(!!a.region_id))
+
+    if (!price) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Variant with id: ${variantId} has no price in region: ${region.id}`
+      )
+    }
+
+    if (!context.include_discount_prices) {
+      return price.amount
+    }
+
+    const listPrices = (
+      await moneyAmountRepo.findVariantPriceListPrices(
+        variantId,
+        region.currency_code,
+        region.id,
+        context.customer_id
+      )
+    ).filter(isFlatPrice)
+
+    return Math.min(price.amount, ...listPrices.map((p) => p.amount))
+  }
+
+  /**
+   * Narrows the prices of variants down to the ones that apply in a region
+   * or currency and sets the flat price charged once per booking as their
+   * original price. The calculated price is the cheapest flat price,
+   * including the price lists that apply to the customer if discount prices
+   * are included. Without a region or currency, the variants are returned
+   * as they are.
+   * @param variants - the variants, with their prices
+   * @param context - the region or currency to price the variants in
+   * @return the variants with their prices
+   */
+  async setPrices<T extends RentalVariant>(
+    variants: T[],
+    context: RentalVariantPricingContext
+  ): Promise<(T & Partial<RentalVariantPricing>)[]> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const moneyAmountRepo = manager.getCustomRepository(
+      this.rentalMoneyAmountRepository_
+    )
+
+    let currencyCode = context.currency_code?.toLowerCase()
+    if (context.region_id) {
       const region = await this.regionService_
         .withTransaction(manager)
-        .retrieve(context.regionId)
+        .retrieve(context.region_id, { select: ["id", "currency_code"] })
+      currencyCode = region.currency_code
+    }
 
-      const prices = await this.priceSelectionStrategy_
-        .withTransaction(manager)
-        .calculateVariantPrice(variantId, {
-          region_id: context.regionId,
-          currency_code: region.currency_code,
-          quantity: context.quantity,
-          customer_id: context.customer_id,
-          include_discount_prices: !!context.include_discount_prices,
+    if (!currencyCode) {
+      return variants
+    }
+
+    return await Promise.all(
+      variants.map(async (variant) => {
+        const prices = (variant.prices ?? [])
+          .filter(
+            (price) =>
+              !price.price_list_id &&
+              (price.region_id
+                ? price.region_id === context.region_id
+                : price.currency_code === currencyCode)
+          )
+          .sort((a, b) => Number(!!b.region_id) - Number(!!a.region_id))
+
+        const flatPrice = prices.find(
+          (price) => !price.duration_unit && this.appliesToQuantity_(price, 1)
+        )
+        const originalPrice = flatPrice?.amount ?? null
+
+        let calculatedPrice = originalPrice
+        if (isDefined(flatPrice) && context.include_discount_prices) {
+          const listPrices = (
+            await moneyAmountRepo.findVariantPriceListPrices(
+              variant.id,
+              currencyCode as string,
+              context.region_id,
+              context.customer_id
+            )
+          ).filter(
+            (price) => !price.duration_unit && this.appliesToQuantity_(price, 1)
+          )
+          calculatedPrice = Math.min(
+            flatPrice.amount,
+            ...listPrices.map((price) => price.amount)
+          )
+        }
+
+        return Object.assign(variant, {
+          prices,
+          original_price: originalPrice,
+          calculated_price: calculatedPrice,
         })
+      })
+    )
+  }
+
+  /**
+   * Computes the quantity of a variant that can be booked over a period of
+   * time, split into slots of the given granularity. The quantity of a slot
+   * is the variant's stock minus the highest number of items reserved or held
+   * at any moment within the slot, widened by the variant's buffer. Slots that
+   * overlap with a blackout have no available quantity.
+   * @param variantId - the id of the variant to get the availability for
+   * @param from - the start of the period
+   * @param to - the end of the period
+   * @param granularity - the length of each slot
+   * @return the availability of the variant per slot
+   */
+  async getAvailability(
+    variantId: string,
+    from: Date,
+    to: Date,
+    granularity: RentalAvailabilityGranularity = RentalAvailabilityGranularity.DAY
+  ): Promise<RentalVariantAvailability> {
+    const bookingRepo = this.manager_.getCustomRepository(
+      this.rentalBookingRepository_
+    )
+    const blackoutRepo = this.manager_.getCustomRepository(
+      this.rentalBlackoutRepository_
+    )
+    const holdRepo = this.manager_.getCustomRepository(
+      this.rentalHoldRepository_
+    )
+
+    if (!(from < to)) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `The end of the availability period must be after its start`
+      )
+    }
+
+    const slotLength = this.getSlotLength_(granularity)
+    const firstSlotStart = this.getSlotStart_(from, granularity)
+    const slotCount = Math.ceil(
+      (to.getTime() - firstSlotStart.getTime()) / slotLength
+    )
+
+    if (slotCount > RentalVariantService.MaxAvailabilitySlots) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `The availability period cannot span more than ${RentalVariantService.MaxAvailabilitySlots} slots of one ${granularity}`
+      )
+    }
+
+    const variant = await this.retrieve(variantId, {
+      select: [
+        "id",
+        "inventory_quantity",
+        "duration_unit",
+        "min_duration",
+        "max_duration",
+      ],
+      relations: ["rental", "rental.type"],
+    })
+    const buffer = this.resolveBuffer_(variant.rental)
+    const durationRules = this.resolveDurationRules_(variant)
+
+    const lookup = this.widenPeriod_(from, to, buffer, true)
+    const reserved = this.getOccupiedPeriods_(
+      [
+        ...this.getBookedPeriods_(
+          await bookingRepo.findOverlapping(variantId, ...lookup),
+          lookup[1]
+        ),
+        ...(await holdRepo.findOverlapping(variantId, ...lookup)),
+      ],
+      buffer
+    )
 
-      return prices.calculatedPrice
+    const blackouts = await blackoutRepo.findApplicable(
+      this.getBlackoutScope_(variant),
+      from,
+      to
+    )
+
+    const slots: RentalVariantAvailabilitySlot[] = []
+    for (let i = 0; i < slotCount; i++) {
+      const slotFrom = new Date(
+        Math.max(firstSlotStart.getTime() + i * slotLength, from.getTime())
+      )
+      const slotTo = new Date(
+        Math.min(firstSlotStart.getTime() + (i + 1) * slotLength, to.getTime())
+      )
+
+      const peak = this.getPeakQuantity_(
+        reserved,
+        ...this.widenPeriod_(slotFrom, slotTo, buffer)
+      )
+
+      const blackout = blackouts.find(
+        (b) => new Date(b.starts_at) < slotTo && new Date(b.ends_at) > slotFrom
+      )
+
+      slots.push({
+        from: slotFrom,
+        to: slotTo,
+        available_quantity: blackout
+          ? 0
+          : Math.max(variant.inventory_quantity - peak, 0),
+        blacked_out: !!blackout,
+        blackout_reason: blackout?.reason ?? null,
+      })
+    }
+
+    return {
+      variant_id: variant.id,
+      from,
+      to,
+      granularity,
+      inventory_quantity: variant.inventory_quantity,
+      buffer,
+      duration_rules: durationRules,
+      duration_error: this.getDurationError_(durationRules, from, to),
+      slots,
+    }
+  }
+
+  /**
+   * Computes the quantity of a variant that can be booked for the whole of a
+   * period, taking the variant's buffer around each booking and unexpired
+   * hold into account. Nothing can be booked for a period that overlaps with
+   * a blackout.
+   * @param variantId - the id of the variant
+   * @param from - the start of the period
+   * @param to - the end of the period
+   * @param excludeBookingIds - bookings to leave out of the computation, e.g.
+   *   a booking that is being changed
+   * @param excludeHoldIds - holds to leave out of the computation, e.g. a
+   *   hold that is being renewed
+   * @return the quantity that can be booked
+   */
+  async getAvailableQuantity(
+    variantId: string,
+    from: Date,
+    to: Date,
+    excludeBookingIds: string[] = [],
+    excludeHoldIds: string[] = []
+  ): Promise<number> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const variantRepo = manager.getCustomRepository(
+      this.rentalVariantRepository_
+    )
+    const bookingRepo = manager.getCustomRepository(
+      this.rentalBookingRepository_
+    )
+
+    const variant = await variantRepo.findOne({
+      where: { id: variantId },
+      select: ["id", "inventory_quantity"],
+      relations: ["rental", "rental.type"],
     })
+
+    if (!variant) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Variant with id: ${variantId} was not found`
+      )
+    }
+
+    const blackouts = await manager
+      .getCustomRepository(this.rentalBlackoutRepository_)
+      .findApplicable(this.getBlackoutScope_(variant), from, to)
+
+    if (blackouts.length) {
+      return 0
+    }
+
+    const buffer = this.resolveBuffer_(variant.rental)
+
+    const lookup = this.widenPeriod_(from, to, buffer, true)
+    const bookings = this.getBookedPeriods_(
+      (await bookingRepo.findOverlapping(variantId, ...lookup)).filter(
+        (booking) => !excludeBookingIds.includes(booking.id)
+      ),
+      lookup[1]
+    )
+    const holds = (
+      await manager
+        .getCustomRepository(this.rentalHoldRepository_)
+        .findOverlapping(variantId, ...lookup)
+    ).filter((hold) => !excludeHoldIds.includes(hold.id))
+
+    const reserved = this.getOccupiedPeriods_([...bookings, ...holds], buffer)
+
+    const peak = this.getPeakQuantity_(
+      reserved,
+      ...this.widenPeriod_(from, to, buffer)
+    )
+
+    return Math.max(variant.inventory_quantity - peak, 0)
   }
 
   /**
-   * Sets the default price of a specific region
+   * Retrieves the buffer that is held around each booking of a variant.
+   * @param variantId - the id of the variant
+   * @return the buffer of the variant's rental, or of the rental's type
+   */
+  async getBuffer(variantId: string): Promise<RentalBuffer> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const variantRepo = manager.getCustomRepository(
+      this.rentalVariantRepository_
+    )
+
+    const variant = await variantRepo.findOne({
+      where: { id: variantId },
+      select: ["id"],
+      relations: ["rental", "rental.type"],
+    })
+
+    if (!variant) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Variant with id: ${variantId} was not found`
+      )
+    }
+
+    return this.resolveBuffer_(variant.rental)
+  }
+
+  /**
+   * Retrieves the late fees charged for the items of a variant returned
+   * late. Each setting of the variant's rental takes precedence over the
+   * same setting of its type.
+   * @param variantId - the id of the variant
+   * @return the late fee schedule, or null if no late fees are charged
+   */
+  async getLateFeeSchedule(
+    variantId: string
+  ): Promise<RentalLateFeeSchedule | null> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const variantRepo = manager.getCustomRepository(
+      this.rentalVariantRepository_
+    )
+
+    const variant = await variantRepo.findOne({
+      where: { id: variantId },
+      select: ["id"],
+      relations: ["rental", "rental.type"],
+    })
+
+    if (!variant) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Variant with id: ${variantId} was not found`
+      )
+    }
+
+    return this.resolveLateFeeSchedule_(variant.rental)
+  }
+
+  /**
+   * Retrieves the durations a variant can be booked for. Each rule of the
+   * variant takes precedence over the same rule of its rental.
+   * @param variantId - the id of the variant
+   * @return the duration rules of the variant
+   */
+  async getDurationRules(variantId: string): Promise<RentalDurationRules> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const variantRepo = manager.getCustomRepository(
+      this.rentalVariantRepository_
+    )
+
+    const variant = await variantRepo.findOne({
+      where: { id: variantId },
+      select: ["id", "duration_unit", "min_duration", "max_duration"],
+      relations: ["rental"],
+    })
+
+    if (!variant) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Variant with id: ${variantId} was not found`
+      )
+    }
+
+    return this.resolveDurationRules_(variant)
+  }
+
+  /**
+   * Throws if a variant cannot be booked for the given period.
+   * @param variantId - the id of the variant
+   * @param from - the start of the booking
+   * @param to - the end of the booking
+   */
+  async validateDuration(
+    variantId: string,
+    from: Date,
+    to: Date
+  ): Promise<void> {
+    const rules = await this.getDurationRules(variantId)
+    const error = this.getDurationError_(rules, from, to)
+
+    if (error) {
+      throw new MedusaError(MedusaError.Types.INVALID_DATA, error)
+    }
+  }
+
+  /**
+   * Throws if a variant cannot be booked for the given period because of a
+   * blackout.
+   * @param variantId - the id of the variant
+   * @param from - the start of the booking
+   * @param to - the end of the booking
+   */
+  async validateBlackouts(
+    variantId: string,
+    from: Date,
+    to: Date
+  ): Promise<void> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const variantRepo = manager.getCustomRepository(
+      this.rentalVariantRepository_
+    )
+
+    const variant = await variantRepo.findOne({
+      where: { id: variantId },
+      select: ["id"],
+      relations: ["rental"],
+    })
+
+    if (!variant) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Variant with id: ${variantId} was not found`
+      )
+    }
+
+    const [blackout] = await manager
+      .getCustomRepository(this.rentalBlackoutRepository_)
+      .findApplicable(this.getBlackoutScope_(variant), from, to)
+
+    if (blackout) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Variant with id: ${variantId} cannot be booked between ${new Date(
+          blackout.starts_at
+        ).toISOString()} and ${new Date(blackout.ends_at).toISOString()}${
+          blackout.reason ? `: ${blackout.reason}` : ""
+        }`
+      )
+    }
+  }
+
+  /**
+   * Throws if the minimum duration of a set of rules exceeds its maximum.
+   * @param rules - the rules to validate
+   */
+  validateDurationRules(rules: Partial<RentalDurationRules>): void {
+    const { min_duration, max_duration } = rules
+
+    if (
+      isDefined(min_duration) &&
+      isDefined(max_duration) &&
+      min_duration !== null &&
+      max_duration !== null &&
+      min_duration > max_duration
+    ) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `The minimum duration (${min_duration}) cannot exceed the maximum duration (${max_duration})`
+      )
+    }
+  }
+
+  /**
+   * Sets the default price of a specific region. A variant has one price per
+   * region and duration unit.
    * @param variantId - the id of the variant to update
    * @param price - the price for the variant.
    * @return the result of the update operation
@@ -403,10 +986,10 @@ class RentalVariantService extends TransactionBaseService {
   async setRegionPrice(
     variantId: string,
     price: RentalVariantPrice
-  ): Promise<MoneyAmount> {
+  ): Promise<RentalMoneyAmount> {
     return await this.atomicPhase_(async (manager: EntityManager) => {
       const moneyAmountRepo = manager.getCustomRepository(
-        this.moneyAmountRepository_
+        this.rentalMoneyAmountRepository_
       )
 
       let moneyAmount = await moneyAmountRepo.findOne({
@@ -414,6 +997,7 @@ class RentalVariantService extends TransactionBaseService {
           variant_id: variantId,
           region_id: price.region_id,
           price_list_id: null,
+          duration_unit: price.duration_unit ?? IsNull(),
         },
       })
 
@@ -431,7 +1015,8 @@ class RentalVariantService extends TransactionBaseService {
   }
 
   /**
-   * Sets the default price for the given currency.
+   * Sets the default price for the given currency. A variant has one price
+   * per currency and duration unit.
    * @param variantId - the id of the variant to set prices for
    * @param price - the price for the variant
    * @return the result of the update operation
@@ -439,16 +1024,135 @@ class RentalVariantService extends TransactionBaseService {
   async setCurrencyPrice(
     variantId: string,
     price: RentalVariantPrice
-  ): Promise<MoneyAmount> {
+  ): Promise<RentalMoneyAmount> {
     return await this.atomicPhase_(async (manager: EntityManager) => {
       const moneyAmountRepo = manager.getCustomRepository(
-        this.moneyAmountRepository_
+        this.rentalMoneyAmountRepository_
       )
 
       return await moneyAmountRepo.upsertVariantCurrencyPrice(variantId, price)
     })
   }
 
+  /**
+   * Computes the price of renting a variant for a period. The period is
+   * rounded up to whole hours and covered by the cheapest combination of the
+   * variant's hourly, daily, weekly and monthly prices, e.g. a week price
+   * may be cheaper than six day prices. Prices of the region take precedence
+   * over prices of its currency. Variants without duration prices are
+   * charged their flat price once. Periods longer than a year are rejected.
+   * @param variantId - the id of the variant to quote
+   * @param from - the start of the rental period
+   * @param to - the end of the rental period
+   * @param context - the region or currency to quote in, and the quantity
+   * @return the quote
+   */
+  async quote(
+    variantId: string,
+    from: Date,
+    to: Date,
+    context: RentalVariantQuoteContext
+  ): Promise<RentalVariantQuote> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const moneyAmountRepo = manager.getCustomRepository(
+      this.rentalMoneyAmountRepository_
+    )
+
+    if (!(from < to)) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `The end of the rental period must be after its start`
+      )
+    }
+
+    const hours = Math.ceil((to.getTime() - from.getTime()) / (60 * 60 * 1000))
+    if (hours > RentalVariantService.MaxQuoteHours) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `A rental period cannot be quoted for more than ${RentalVariantService.MaxQuoteHours} hours`
+      )
+    }
+
+    let currencyCode = context.currency_code?.toLowerCase()
+    if (context.region_id) {
+      const region = await this.regionService_
+        .withTransaction(manager)
+        .retrieve(context.region_id, { select: ["id", "currency_code"] })
+      currencyCode = region.currency_code
+    }
+
+    if (!currencyCode) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `A region or a currency is required to quote a rental`
+      )
+    }
+
+    const quantity = context.quantity ?? 1
+
+    const prices = (
+      await moneyAmountRepo.findVariantRegionOrCurrencyPrices(
+        variantId,
+        currencyCode,
+        context.region_id
+      )
+    ).filter((price) => this.appliesToQuantity_(price, quantity))
+
+    // One amount per duration unit; region prices win over currency prices
+    const unitPrices = new Map<RentalPriceDurationUnit | null, number>()
+    for (const price of [...prices].sort(
+      (a, b) => Number(!!a.region_id) - Number(!!b.region_id)
+    )) {
+      unitPrices.set(price.duration_unit ?? null, price.amount)
+    }
+
+    const flatPrice = unitPrices.get(null)
+    unitPrices.delete(null)
+
+    let lines: RentalVariantQuoteLine[]
+    if (unitPrices.size) {
+      const counts = this.getCheapestCombination_(
+        hours,
+        unitPrices as Map<RentalPriceDurationUnit, number>
+      )
+
+      lines = [...counts.entries()].map(([unit, count]) => {
+        const unitPrice = unitPrices.get(unit) as number
+        return {
+          duration_unit: unit,
+          count,
+          unit_price: unitPrice,
+          amount: unitPrice * count * quantity,
+        }
+      })
+    } else if (isDefined(flatPrice)) {
+      lines = [
+        {
+          duration_unit: null,
+          count: 1,
+          unit_price: flatPrice,
+          amount: flatPrice * quantity,
+        },
+      ]
+    } else {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Variant with id: ${variantId} has no price in ${currencyCode}`
+      )
+    }
+
+    return {
+      variant_id: variantId,
+      from,
+      to,
+      currency_code: currencyCode,
+      region_id: context.region_id ?? null,
+      quantity,
+      lines,
+      total: lines.reduce((acc, line) => acc + line.amount, 0),
+    }
+  }
+
   /**
    * Updates variant's option value.
    * Option value must be of type string or number.
@@ -712,6 +1416,295 @@ class RentalVariantService extends TransactionBaseService {
     }
   }
 
+  /**
+   * Computes the highest quantity that is reserved at the same time within
+   * a period.
+   * @param periods - the reserved periods
+   * @param from - the start of the period
+   * @param to - the end of the period
+   * @return the highest reserved quantity
+   */
+  protected getPeakQuantity_(
+    periods: RentalReservedPeriod[],
+    from: Date,
+    to: Date
+  ): number {
+    const changes: [number, number][] = []
+    for (const period of periods) {
+      const start = Math.max(
+        new Date(period.start_at).getTime(),
+        from.getTime()
+      )
+      const end = Math.min(new Date(period.end_at).getTime(), to.getTime())
+
+      if (start < end) {
+        changes.push([start, period.quantity], [end, -period.quantity])
+      }
+    }
+
+    // Periods are half-open, so a period ending at the moment another one
+    // starts must be released first
+    changes.sort(([a, qa], [b, qb]) => a - b || qa - qb)
+
+    let current = 0
+    let peak = 0
+    for (const [, quantity] of changes) {
+      current += quantity
+      peak = Math.max(peak, current)
+    }
+
+    return peak
+  }
+
+  /**
+   * Checks whether a price applies to a quantity. Prices without a minimum
+   * or maximum quantity apply to any quantity.
+   * @param price - the price to check
+   * @param quantity - the quantity booked
+   * @return whether the price applies
+   */
+  protected appliesToQuantity_(
+    price: RentalMoneyAmount,
+    quantity: number
+  ): boolean {
+    return (
+      (!isDefined(price.min_quantity) ||
+        price.min_quantity === null ||
+        price.min_quantity <= quantity) &&
+      (!isDefined(price.max_quantity) ||
+        price.max_quantity === null ||
+        price.max_quantity >= quantity)
+    )
+  }
+
+  /**
+   * Resolves the buffer of a rental, falling back to the buffer of its type.
+   * @param rental - the rental, with its type
+   * @return the buffer in minutes
+   */
+  protected resolveBuffer_(rental?: Rental): RentalBuffer {
+    return {
+      before: rental?.buffer_before ?? rental?.type?.buffer_before ?? 0,
+      after: rental?.buffer_after ?? rental?.type?.buffer_after ?? 0,
+    }
+  }
+
+  /**
+   * Resolves the late fee schedule of a rental, falling back to the settings
+   * of its type.
+   * @param rental - the rental, with its type
+   * @return the late fee schedule, or null if no late fees are charged
+   */
+  protected resolveLateFeeSchedule_(
+    rental?: Rental
+  ): RentalLateFeeSchedule | null {
+    const unit = rental?.late_fee_unit ?? rental?.type?.late_fee_unit
+    const amount = rental?.late_fee_amount ?? rental?.type?.late_fee_amount
+
+    if (!unit || !amount) {
+      return null
+    }
+
+    return {
+      unit,
+      amount,
+      grace_period:
+        rental?.late_fee_grace_period ??
+        rental?.type?.late_fee_grace_period ??
+        0,
+    }
+  }
+
+  /**
+   * Resolves the periods of bookings. The items of an overdue booking are
+   * held until they are checked in, so its period lasts at least until the
+   * end of the period looked at.
+   * @param bookings - the bookings
+   * @param until - the end of the period looked at
+   * @return the booked periods
+   */
+  protected getBookedPeriods_(
+    bookings: RentalBooking[],
+    until: Date
+  ): RentalReservedPeriod[] {
+    return bookings.map((booking) =>
+      booking.status === RentalBookingStatus.OVERDUE &&
+      new Date(booking.end_at) < until
+        ? { ...booking, end_at: until }
+        : booking
+    )
+  }
+
+  /**
+   * Extends the period of each booking by the buffer around it.
+   * @param periods - the booked periods
+   * @param buffer - the buffer to add
+   * @return the periods during which the items are held
+   */
+  protected getOccupiedPeriods_(
+    periods: RentalReservedPeriod[],
+    buffer: RentalBuffer
+  ): RentalReservedPeriod[] {
+    return periods.map((period) => ({
+      start_at: new Date(
+        new Date(period.start_at).getTime() - buffer.before * 60 * 1000
+      ),
+      end_at: new Date(
+        new Date(period.end_at).getTime() + buffer.after * 60 * 1000
+      ),
+      quantity: period.quantity,
+    }))
+  }
+
+  /**
+   * Extends a period by a buffer. A new booking holds its items from
+   * `before` minutes ahead of its start to `after` minutes past its end, so
+   * its widened period is compared against the occupied periods of other
+   * bookings. To find the bookings whose occupied periods can overlap with
+   * it, the period is widened by both buffers on each side.
+   * @param from - the start of the period
+   * @param to - the end of the period
+   * @param buffer - the buffer to widen the period by
+   * @param forLookup - whether to widen the period for a booking lookup
+   * @return the widened period
+   */
+  protected widenPeriod_(
+    from: Date,
+    to: Date,
+    buffer: RentalBuffer,
+    forLookup = false
+  ): [Date, Date] {
+    const total = buffer.before + buffer.after
+    const before = (forLookup ? total : buffer.before) * 60 * 1000
+    const after = (forLookup ? total : buffer.after) * 60 * 1000
+
+    return [new Date(from.getTime() - before), new Date(to.getTime() + after)]
+  }
+
+  /**
+   * Finds the cheapest number of each duration unit that together cover at
+   * least the given number of hours, by dynamic programming over the hours.
+   * @param hours - the number of hours to cover
+   * @param unitPrices - the price of each available duration unit
+   * @return the number of each duration unit to charge
+   */
+  protected getCheapestCombination_(
+    hours: number,
+    unitPrices: Map<RentalPriceDurationUnit, number>
+  ): Map<RentalPriceDurationUnit, number> {
+    const costs: number[] = [0]
+    const choices: RentalPriceDurationUnit[] = []
+
+    for (let h = 1; h <= hours; h++) {
+      costs[h] = Infinity
+      for (const [unit, price] of unitPrices) {
+        const previous = Math.max(
+          h - RentalVariantService.PriceDurationUnitHours[unit],
+          0
+        )
+        if (costs[previous] + price < costs[h]) {
+          costs[h] = costs[previous] + price
+          choices[h] = unit
+        }
+      }
+    }
+
+    const counts = new Map<RentalPriceDurationUnit, number>()
+    for (let h = hours; h > 0;) {
+      const unit = choices[h]
+      counts.set(unit, (counts.get(unit) ?? 0) + 1)
+      h -= RentalVariantService.PriceDurationUnitHours[unit]
+    }
+
+    return counts
+  }
+
+  /**
+   * Describes the variant, rental and rental collection that blackouts can
+   * be limited to.
+   * @param variant - the variant, with its rental
+   * @return the blackout scope of the variant
+   */
+  protected getBlackoutScope_(variant: RentalVariant): RentalBlackoutScope {
+    return {
+      variant_id: variant.id,
+      rental_id: variant.rental?.id ?? variant.rental_id,
+      rental_collection_id: variant.rental?.collection_id,
+    }
+  }
+
+  /**
+   * Resolves the duration rules of a variant, falling back to the rules of
+   * its rental.
+   * @param variant - the variant, with its rental
+   * @return the duration rules
+   */
+  protected resolveDurationRules_(
+    variant: Partial<RentalVariant>
+  ): RentalDurationRules {
+    return {
+      duration_unit:
+        variant.duration_unit ?? variant.rental?.duration_unit ?? null,
+      min_duration:
+        variant.min_duration ?? variant.rental?.min_duration ?? null,
+      max_duration:
+        variant.max_duration ?? variant.rental?.max_duration ?? null,
+    }
+  }
+
+  /**
+   * Checks a booking period against a set of duration rules. A booking must
+   * last a whole number of duration units. Without a duration unit, the
+   * minimum and maximum are counted in days.
+   * @param rules - the rules to check the period against
+   * @param from - the start of the period
+   * @param to - the end of the period
+   * @return the reason the period breaks the rules, or null if it does not
+   */
+  protected getDurationError_(
+    rules: RentalDurationRules,
+    from: Date,
+    to: Date
+  ): string | null {
+    const unit = rules.duration_unit ?? RentalDurationUnit.DAY
+    const units =
+      (to.getTime() - from.getTime()) /
+      RentalVariantService.DurationUnitLengths[unit]
+
+    if (rules.duration_unit && !Number.isInteger(units)) {
+      return `Bookings must last a whole number of ${unit}s`
+    }
+
+    if (rules.min_duration !== null && units < rules.min_duration) {
+      return `Bookings must last at least ${rules.min_duration} ${unit}(s)`
+    }
+
+    if (rules.max_duration !== null && units > rules.max_duration) {
+      return `Bookings cannot last more than ${rules.max_duration} ${unit}(s)`
+    }
+
+    return null
+  }
+
+  protected getSlotLength_(granularity: RentalAvailabilityGranularity): number {
+    return granularity === RentalAvailabilityGranularity.HOUR
+      ? 60 * 60 * 1000
+      : 24 * 60 * 60 * 1000
+  }
+
+  protected getSlotStart_(
+    date: Date,
+    granularity: RentalAvailabilityGranularity
+  ): Date {
+    const start = new Date(date)
+    if (granularity === RentalAvailabilityGranularity.HOUR) {
+      start.setUTCMinutes(0, 0, 0)
+    } else {
+      start.setUTCHours(0, 0, 0, 0)
+    }
+    return start
+  }
+
   /**
    * Lists variants based on the provided parameters and includes the count of
    * variants that match the query.
@@ -0,0 +1,409 @@
+import { MedusaError, isDefined } from "medusa-core-utils"
+import { EntityManager } from "typeorm"
+import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
+import { RentalWaitlistEntry, RentalWaitlistEntryStatus } from "../models"
+import { RentalWaitlistEntryRepository } from "../repositories/rental-waitlist-entry"
+import RentalHoldService from "./rental-hold"
+import RentalVariantService from "./rental-variant"
+import { FindConfig, Selector } from "@medusajs/medusa/dist/types/common"
+import {
+  CreateRentalWaitlistEntryInput,
+  FilterableRentalWaitlistEntryProps,
+} from "../types/rental-waitlist-entry"
+import { RentalConfigModule } from "../types/rental-config"
+import { buildQuery } from "@medusajs/medusa/dist/utils"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+
+type InjectedDependencies = {
+  manager: EntityManager
+  rentalWaitlistEntryRepository: typeof RentalWaitlistEntryRepository
+  rentalHoldService: RentalHoldService
+  rentalVariantService: RentalVariantService
+  eventBusService: EventBusService
+  configModule?: RentalConfigModule
+}
+
+/**
+ * Provides layer to manipulate the waitlists of fully booked rental
+ * variants. When items free up, waiting customers are given a hold on them in
+ * the order they joined.
+ */
+class RentalWaitlistService extends TransactionBaseService {
+  protected manager_: EntityManager
+  protected transactionManager_: EntityManager | undefined
+
+  protected readonly rentalWaitlistEntryRepository_: typeof RentalWaitlistEntryRepository
+  protected readonly rentalHoldService_: RentalHoldService
+  protected readonly rentalVariantService_: RentalVariantService
+  protected readonly eventBus_: EventBusService
+  protected readonly holdTtlMinutes_: number
+
+  static readonly Events = {
+    JOINED: "rental_waitlist_entry.joined",
+    LEFT: "rental_waitlist_entry.left",
+    NOTIFIED: "rental_waitlist_entry.notified",
+    EXPIRED: "rental_waitlist_entry.expired",
+  }
+
+  /**
+   * The number of minutes a waiting customer is given to book the items that
+   * freed up, unless the project sets
+   * `projectConfig.rentals.waitlist_hold_ttl_minutes`.
+   */
+  static readonly HoldTtlMinutes = 60
+
+  constructor({
+    manager,
+    rentalWaitlistEntryRepository,
+    rentalHoldService,
+    rentalVariantService,
+    eventBusService,
+    configModule,
+  }: InjectedDependencies) {
+    // eslint-disable-next-line prefer-rest-params
+    super(arguments[0])
+
+    this.manager_ = manager
+    this.rentalWaitlistEntryRepository_ = rentalWaitlistEntryRepository
+    this.rentalHoldService_ = rentalHoldService
+    this.rentalVariantService_ = rentalVariantService
+    this.eventBus_ = eventBusService
+    this.holdTtlMinutes_ =
+      configModule?.projectConfig?.rentals?.waitlist_hold_ttl_minutes ??
+      RentalWaitlistService.HoldTtlMinutes
+  }
+
+  /**
+   * Retrieves a rental waitlist entry by id.
+   * @param entryId - the id of the entry to retrieve
+   * @param config - the config to retrieve the entry by
+   * @return the entry
+   */
+  async retrieve(
+    entryId: string,
+    config: FindConfig<RentalWaitlistEntry> = {}
+  ): Promise<RentalWaitlistEntry> {
+    if (!isDefined(entryId)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `"entryId" must be defined`
+      )
+    }
+
+    const manager = this.transactionManager_ ?? this.manager_
+    const entryRepo = manager.getCustomRepository(
+      this.rentalWaitlistEntryRepository_
+    )
+
+    const query = buildQuery({ id: entryId }, config)
+    const entry = await entryRepo.findOne(query)
+
+    if (!entry) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_FOUND,
+        `Rental waitlist entry with id: ${entryId} was not found`
+      )
+    }
+
+    return entry
+  }
+
+  /**
+   * Lists rental waitlist entries
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async list(
+    selector:
+      | FilterableRentalWaitlistEntryProps
+      | Selector<RentalWaitlistEntry> = {},
+    config: FindConfig<RentalWaitlistEntry> = { skip: 0, take: 20 }
+  ): Promise<RentalWaitlistEntry[]> {
+    const [entries] = await this.listAndCount(selector, config)
+    return entries
+  }
+
+  /**
+   * Lists rental waitlist entries and adds count.
+   * @param selector - the query object for find
+   * @param config - the config to be used for find
+   * @return the result of the find operation
+   */
+  async listAndCount(
+    selector:
+      | FilterableRentalWaitlistEntryProps
+      | Selector<RentalWaitlistEntry> = {},
+    config: FindConfig<RentalWaitlistEntry> = { skip: 0, take: 20 }
+  ): Promise<[RentalWaitlistEntry[], number]> {
+    const manager = this.transactionManager_ ?? this.manager_
+    const entryRepo = manager.getCustomRepository(
+      this.rentalWaitlistEntryRepository_
+    )
+
+    const query = buildQuery(
+      selector as Selector<RentalWaitlistEntry>,
+      config
+    )
+
+    return await entryRepo.findAndCount(query)
+  }
+
+  /**
+   * Puts a customer in line for a period a variant does not have enough
+   * items available for.
+   * @param data - the entry to create
+   * @return the created entry
+   */
+  async join(
+    data: CreateRentalWaitlistEntryInput
+  ): Promise<RentalWaitlistEntry> {
+    return await this.atomicPhase_(async (manager) => {
+      const entryRepo = manager.getCustomRepository(
+        this.rentalWaitlistEntryRepository_
+      )
+
+      const { quantity = 1, ...rest } = data
+
+      if (!(new Date(rest.start_at) < new Date(rest.end_at))) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `The end of the period waited for must be after its start`
+        )
+      }
+
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `A waitlist entry must wait for at least one item`
+        )
+      }
+
+      const rentalVariantService =
+        this.rentalVariantService_.withTransaction(manager)
+
+      await rentalVariantService.validateDuration(
+        rest.variant_id,
+        rest.start_at,
+        rest.end_at
+      )
+
+      const available = await rentalVariantService.getAvailableQuantity(
+        rest.variant_id,
+        rest.start_at,
+        rest.end_at
+      )
+
+      if (available >= quantity) {
+        throw new MedusaError(
+          MedusaError.Types.NOT_ALLOWED,
+          `Variant with id: ${rest.variant_id} has ${available} item(s) available for the period, which can be booked`
+        )
+      }
+
+      const waiting = await entryRepo.findOne({
+        where: {
+          variant_id: rest.variant_id,
+          customer_id: rest.customer_id,
+          start_at: rest.start_at,
+          end_at: rest.end_at,
+          status: RentalWaitlistEntryStatus.WAITING,
+        },
+      })
+
+      if (waiting) {
+        throw new MedusaError(
+          MedusaError.Types.DUPLICATE_ERROR,
+          `Customer with id: ${rest.customer_id} is already waiting for the period`
+        )
+      }
+
+      const entry = entryRepo.create({
+        ...rest,
+        quantity,
+        status: RentalWaitlistEntryStatus.WAITING,
+      })
+
+      const result = await entryRepo.save(entry)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalWaitlistService.Events.JOINED, {
+          id: result.id,
+          variant_id: result.variant_id,
+          customer_id: result.customer_id,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Takes a customer out of a waitlist. The hold they were given, if any, is
+   * released.
+   * @param entryId - the id of the entry to leave
+   * @return the left entry
+   */
+  async leave(entryId: string): Promise<RentalWaitlistEntry> {
+    return await this.atomicPhase_(async (manager) => {
+      const entryRepo = manager.getCustomRepository(
+        this.rentalWaitlistEntryRepository_
+      )
+
+      const entry = await this.retrieve(entryId)
+
+      if (entry.status === RentalWaitlistEntryStatus.LEFT) {
+        return entry
+      }
+
+      if (entry.hold_id) {
+        await this.rentalHoldService_
+          .withTransaction(manager)
+          .release(entry.hold_id)
+      }
+
+      entry.status = RentalWaitlistEntryStatus.LEFT
+      entry.left_at = new Date()
+
+      const result = await entryRepo.save(entry)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalWaitlistService.Events.LEFT, {
+          id: result.id,
+          variant_id: result.variant_id,
+          customer_id: result.customer_id,
+        })
+
+      return result
+    })
+  }
+
+  /**
+   * Gives the customers waiting for a variant a hold on the items that freed
+   * up, in the order they joined. Entries the variant still does not have
+   * enough items for keep waiting, without holding up the entries after
+   * them. Entries whose period has already started expire instead.
+   * @param variantId - the id of the variant whose items freed up
+   * @return the entries whose customers were given a hold
+   */
+  async notifyWaiting(variantId: string): Promise<RentalWaitlistEntry[]> {
+    return await this.atomicPhase_(async (manager) => {
+      const entryRepo = manager.getCustomRepository(
+        this.rentalWaitlistEntryRepository_
+      )
+      const rentalHoldService = this.rentalHoldService_.withTransaction(manager)
+      const rentalVariantService =
+        this.rentalVariantService_.withTransaction(manager)
+
+      const entries = await entryRepo.find({
+        where: {
+          variant_id: variantId,
+          status: RentalWaitlistEntryStatus.WAITING,
+        },
+        order: { created_at: "ASC" },
+      })
+
+      const now = new Date()
+      const notified: RentalWaitlistEntry[] = []
+
+      for (const entry of entries) {
+        if (new Date(entry.start_at) <= now) {
+          entry.status = RentalWaitlistEntryStatus.EXPIRED
+
+          const result = await entryRepo.save(entry)
+
+          await this.eventBus_
+            .withTransaction(manager)
+            .emit(RentalWaitlistService.Events.EXPIRED, {
+              id: result.id,
+              variant_id: result.variant_id,
+              customer_id: result.customer_id,
+            })
+
+          continue
+        }
+
+        const available = await rentalVariantService.getAvailableQuantity(
+          entry.variant_id,
+          new Date(entry.start_at),
+          new Date(entry.end_at)
+        )
+
+        if (available < entry.quantity) {
+          continue
+        }
+
+        const hold = await rentalHoldService.create({
+          variant_id: entry.variant_id,
+          customer_id: entry.customer_id,
+          start_at: entry.start_at,
+          end_at: entry.end_at,
+          quantity: entry.quantity,
+          ttl_minutes: this.holdTtlMinutes_,
+        })
+
+        entry.status = RentalWaitlistEntryStatus.NOTIFIED
+        entry.hold_id = hold.id
+        entry.notified_at = new Date()
+
+        const result = await entryRepo.save(entry)
+
+        await this.eventBus_
+          .withTransaction(manager)
+          .emit(RentalWaitlistService.Events.NOTIFIED, {
+            id: result.id,
+            variant_id: result.variant_id,
+            customer_id: result.customer_id,
+            hold_id: hold.id,
+            expires_at: hold.expires_at,
+          })
+
+        notified.push(result)
+      }
+
+      return notified
+    })
+  }
+
+  /**
+   * Marks the entry whose customer was given a hold as expired once the hold
+   * runs out without being booked.
+   * @param holdId - the id of the expired hold
+   * @return the expired entry, if the hold was given from a waitlist
+   */
+  async expireHold(holdId: string): Promise<RentalWaitlistEntry | undefined> {
+    return await this.atomicPhase_(async (manager) => {
+      const entryRepo = manager.getCustomRepository(
+        this.rentalWaitlistEntryRepository_
+      )
+
+      const entry = await entryRepo.findOne({
+        where: {
+          hold_id: holdId,
+          status: RentalWaitlistEntryStatus.NOTIFIED,
+        },
+      })
+
+      if (!entry) {
+        return
+      }
+
+      entry.status = RentalWaitlistEntryStatus.EXPIRED
+
+      const result = await entryRepo.save(entry)
+
+      await this.eventBus_
+        .withTransaction(manager)
+        .emit(RentalWaitlistService.Events.EXPIRED, {
+          id: result.id,
+          variant_id: result.variant_id,
+          customer_id: result.customer_id,
+        })
+
+      return result
+    })
+  }
+}
+
+export default RentalWaitlistService
@@ -3,6 +3,7 @@ import { FlagRouter } from "@medusajs/medusa/dist/utils/flag-router"
 import { MedusaError, isDefined } from "medusa-core-utils"
 import { EntityManager } from "typeorm"
 import { SearchService } from "@medusajs/medusa"
+import RentalDepositService from "./rental-deposit"
 import RentalVariantService from "./rental-variant"
 import { TransactionBaseService } from "@medusajs/medusa/dist/interfaces"
 import SalesChannelFeatureFlag from "@medusajs/medusa/dist/loaders/feature-flags/sales-channels"
@@ -44,6 +45,7 @@ type InjectedDependencies = {
   rentalTagRepository: typeof RentalTagRepository
   imageRepository: typeof ImageRepository
   rentalVariantService: RentalVariantService
+  rentalDepositService: RentalDepositService
   searchService: SearchService
   eventBusService: EventBusService
   featureFlagRouter: FlagRouter
@@ -60,6 +62,7 @@ class RentalService extends TransactionBaseService {
   protected readonly rentalTagRepository_: typeof RentalTagRepository
   protected readonly imageRepository_: typeof ImageRepository
   protected readonly rentalVariantService_: RentalVariantService
+  protected readonly rentalDepositService_: RentalDepositService
   protected readonly searchService_: SearchService
   protected readonly eventBus_: EventBusService
   protected readonly featureFlagRouter_: FlagRouter
@@ -78,6 +81,7 @@ class RentalService extends TransactionBaseService {
     rentalVariantRepository,
     eventBusService,
     rentalVariantService,
+    rentalDepositService,
     rentalTypeRepository,
     rentalTagRepository,
     imageRepository,
@@ -93,6 +97,7 @@ class RentalService extends TransactionBaseService {
     this.rentalVariantRepository_ = rentalVariantRepository
     this.eventBus_ = eventBusService
     this.rentalVariantService_ = rentalVariantService
+    this.rentalDepositService_ = rentalDepositService
     this.rentalTypeRepository_ = rentalTypeRepository
     this.rentalTagRepository_ = rentalTagRepository
     this.imageRepository_ = imageRepository
@@ -394,6 +399,7 @@ class RentalService extends TransactionBaseService {
         type,
         images,
         sales_channels: salesChannels,
+        deposit_amounts: depositAmounts,
         ...rest
       } = rentalObject
 
@@ -408,6 +414,8 @@ class RentalService extends TransactionBaseService {
 
       let rental = rentalRepo.create(rest)
 
+      this.rentalVariantService_.validateDurationRules(rental)
+
       if (images?.length) {
         rental.images = await imageRepo.upsertImages(images)
       }
@@ -436,6 +444,12 @@ class RentalService extends TransactionBaseService {
 
       rental = await rentalRepo.save(rental)
 
+      if (depositAmounts) {
+        await this.rentalDepositService_
+          .withTransaction(manager)
+          .setRegionAmounts({ rental_id: rental.id }, depositAmounts)
+      }
+
       rental.options = await Promise.all(
         (options ?? []).map(async (option) => {
           const res = optionRepo.create({
@@ -514,6 +528,7 @@ class RentalService extends TransactionBaseService {
         tags,
         type,
         sales_channels: salesChannels,
+        deposit_amounts: depositAmounts,
         ...rest
       } = update
 
@@ -537,6 +552,12 @@ class RentalService extends TransactionBaseService {
         rental.tags = await rentalTagRepo.upsertTags(tags)
       }
 
+      if (depositAmounts) {
+        await this.rentalDepositService_
+          .withTransaction(manager)
+          .setRegionAmounts({ rental_id: rental.id }, depositAmounts)
+      }
+
       if (
         this.featureFlagRouter_.isFeatureEnabled(SalesChannelFeatureFlag.key)
       ) {
@@ -608,6 +629,8 @@ class RentalService extends TransactionBaseService {
         }
       }
 
+      this.rentalVariantService_.validateDurationRules(rental)
+
       const result = await rentalRepo.save(rental)
 
       await this.eventBus_
@@ -0,0 +1,41 @@
+import { CartCompletionResponse } from "@medusajs/medusa/dist/interfaces"
+import { IdempotencyKey } from "@medusajs/medusa/dist/models"
+import CartCompletionStrategy from "@medusajs/medusa/dist/strategies/cart-completion"
+import { RequestContext } from "@medusajs/medusa/dist/types/request"
+import RentalCartService from "../services/rental-cart"
+
+type InjectedDependencies = ConstructorParameters<
+  typeof CartCompletionStrategy
+>[0] & {
+  rentalCartService: RentalCartService
+}
+
+/**
+ * Completes carts like the core strategy, once the rental items of the cart
+ * are checked to still be held for it. Items whose hold was released may
+ * have been booked by someone else since, and could not be booked when the
+ * order is placed.
+ */
+class RentalCartCompletionStrategy extends CartCompletionStrategy {
+  protected readonly rentalCartService_: RentalCartService
+
+  constructor(container: InjectedDependencies) {
+    super(container)
+
+    this.rentalCartService_ = container.rentalCartService
+  }
+
+  async complete(
+    id: string,
+    ikey: IdempotencyKey,
+    context: RequestContext
+  ): Promise<CartCompletionResponse> {
+    if (ikey.recovery_point !== "finished") {
+      await this.rentalCartService_.validateHolds(id)
+    }
+
+    return await super.complete(id, ikey, context)
+  }
+}
+
+export default RentalCartCompletionStrategy
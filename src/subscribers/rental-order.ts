@@ -0,0 +1,35 @@
+import OrderService from "@medusajs/medusa/dist/services/order"
+import RentalCartService from "../services/rental-cart"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+
+type InjectedDependencies = {
+  rentalCartService: RentalCartService
+  eventBusService: EventBusService
+}
+
+/**
+ * Books the rental items of placed orders. Orders whose items cannot be
+ * booked are canceled.
+ */
+class RentalOrderSubscriber {
+  protected readonly rentalCartService_: RentalCartService
+
+  constructor({ rentalCartService, eventBusService }: InjectedDependencies) {
+    this.rentalCartService_ = rentalCartService
+
+    eventBusService.subscribe(OrderService.Events.PLACED, this.handleOrder)
+  }
+
+  handleOrder = async (data: { id: string }): Promise<void> => {
+    try {
+      await this.rentalCartService_.createOrderBookings(data.id)
+    } catch (error) {
+      await this.rentalCartService_.cancelUnbookedOrder(
+        data.id,
+        error.message
+      )
+    }
+  }
+}
+
+export default RentalOrderSubscriber
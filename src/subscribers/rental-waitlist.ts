@@ -0,0 +1,83 @@
+import RentalBookingService from "../services/rental-booking"
+import RentalHoldService from "../services/rental-hold"
+import RentalUnitService from "../services/rental-unit"
+import RentalVariantService from "../services/rental-variant"
+import RentalWaitlistService from "../services/rental-waitlist"
+import EventBusService from "@medusajs/medusa/dist/services/event-bus"
+
+type InjectedDependencies = {
+  rentalWaitlistService: RentalWaitlistService
+  eventBusService: EventBusService
+}
+
+/**
+ * Gives waiting customers a hold on the items of a variant whenever some of
+ * them free up: a booking is canceled or returned, a hold is released or
+ * expires, or the variant's stock or units change.
+ */
+class RentalWaitlistSubscriber {
+  protected readonly rentalWaitlistService_: RentalWaitlistService
+
+  constructor({
+    rentalWaitlistService,
+    eventBusService,
+  }: InjectedDependencies) {
+    this.rentalWaitlistService_ = rentalWaitlistService
+
+    eventBusService.subscribe(
+      RentalBookingService.Events.CANCELED,
+      this.handleFreedUp
+    )
+    eventBusService.subscribe(
+      RentalBookingService.Events.CHECKED_IN,
+      this.handleFreedUp
+    )
+    eventBusService.subscribe(
+      RentalHoldService.Events.RELEASED,
+      this.handleFreedUp
+    )
+    eventBusService.subscribe(
+      RentalHoldService.Events.EXPIRED,
+      this.handleHoldExpired
+    )
+    eventBusService.subscribe(
+      RentalVariantService.Events.UPDATED,
+      this.handleVariantUpdated
+    )
+    eventBusService.subscribe(
+      RentalUnitService.Events.CREATED,
+      this.handleFreedUp
+    )
+    eventBusService.subscribe(
+      RentalUnitService.Events.UPDATED,
+      this.handleFreedUp
+    )
+    eventBusService.subscribe(
+      RentalUnitService.Events.DELETED,
+      this.handleFreedUp
+    )
+  }
+
+  handleFreedUp = async (data: { variant_id: string }): Promise<void> => {
+    await this.rentalWaitlistService_.notifyWaiting(data.variant_id)
+  }
+
+  handleHoldExpired = async (data: {
+    id: string
+    variant_id: string
+  }): Promise<void> => {
+    await this.rentalWaitlistService_.expireHold(data.id)
+    await this.rentalWaitlistService_.notifyWaiting(data.variant_id)
+  }
+
+  handleVariantUpdated = async (data: {
+    id: string
+    fields: string[]
+  }): Promise<void> => {
+    if (data.fields.includes("inventory_quantity")) {
+      await this.rentalWaitlistService_.notifyWaiting(data.id)
+    }
+  }
+}
+
+export default RentalWaitlistSubscriber
@@ -0,0 +1,65 @@
+import { IsOptional, IsString, ValidateNested } from "class-validator"
+import { Type } from "class-transformer"
+import { IsType } from "@medusajs/medusa/dist/utils/validators/is-type"
+import { DateComparisonOperator } from "@medusajs/medusa/dist/types/common"
+
+/**
+ * API Level DTOs + Validation rules
+ */
+export class FilterableRentalBlackoutProps {
+  @IsOptional()
+  @IsType([String, [String]])
+  id?: string | string[]
+
+  @IsString()
+  @IsOptional()
+  q?: string
+
+  @IsOptional()
+  @IsType([String, [String]])
+  rental_collection_id?: string | string[]
+
+  @IsOptional()
+  @IsType([String, [String]])
+  rental_id?: string | string[]
+
+  @IsOptional()
+  @IsType([String, [String]])
+  variant_id?: string | string[]
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  starts_at?: DateComparisonOperator
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  ends_at?: DateComparisonOperator
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  created_at?: DateComparisonOperator
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  updated_at?: DateComparisonOperator
+}
+
+/**
+ * Service Level DTOs
+ */
+
+export type CreateRentalBlackoutInput = {
+  starts_at: Date
+  ends_at: Date
+  reason?: string
+  rental_collection_id?: string | null
+  rental_id?: string | null
+  variant_id?: string | null
+  metadata?: Record<string, unknown>
+}
+
+export type UpdateRentalBlackoutInput = Partial<CreateRentalBlackoutInput>
@@ -0,0 +1,34 @@
+import { RentalQuote } from "./rental-quote"
+
+/**
+ * Service Level DTOs
+ */
+
+export type RentalBookingExtensionQuoteInput = {
+  end_at: Date
+  region_id: string
+  override?: boolean
+}
+
+export type CreateRentalBookingExtensionInput =
+  RentalBookingExtensionQuoteInput & {
+    provider_id?: string
+    created_by?: string | null
+    metadata?: Record<string, unknown>
+  }
+
+/**
+ * The price of extending a booking: the difference between the quotes of
+ * the extended and the current period.
+ */
+export type RentalBookingExtensionQuote = {
+  booking_id: string
+  previous_end_at: Date
+  end_at: Date
+  region_id: string
+  currency_code: string
+  previous_total: number
+  total: number
+  amount: number
+  quote: RentalQuote
+}
@@ -0,0 +1,93 @@
+import { IsEnum, IsOptional, IsString, ValidateNested } from "class-validator"
+import { Type } from "class-transformer"
+import { IsType } from "@medusajs/medusa/dist/utils/validators/is-type"
+import { DateComparisonOperator } from "@medusajs/medusa/dist/types/common"
+import { RentalBookingStatus } from "../models"
+import { CreateRentalDepositDeductionInput } from "./rental-deposit"
+import { RentalInspectionDetailsInput } from "./rental-inspection"
+
+/**
+ * API Level DTOs + Validation rules
+ */
+export class FilterableRentalBookingProps {
+  @IsOptional()
+  @IsType([String, [String]])
+  id?: string | string[]
+
+  @IsOptional()
+  @IsType([String, [String]])
+  variant_id?: string | string[]
+
+  @IsString()
+  @IsOptional()
+  customer_id?: string
+
+  @IsString()
+  @IsOptional()
+  cart_id?: string
+
+  @IsString()
+  @IsOptional()
+  order_id?: string
+
+  @IsOptional()
+  @IsEnum(RentalBookingStatus, { each: true })
+  status?: RentalBookingStatus[]
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  start_at?: DateComparisonOperator
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  end_at?: DateComparisonOperator
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  created_at?: DateComparisonOperator
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  updated_at?: DateComparisonOperator
+}
+
+/**
+ * Service Level DTOs
+ */
+
+export type CreateRentalBookingInput = {
+  variant_id: string
+  customer_id?: string
+  cart_id?: string
+  order_id?: string
+  line_item_id?: string
+  start_at: Date
+  end_at: Date
+  quantity?: number
+  amount_paid?: number
+  status?: RentalBookingStatus
+  metadata?: Record<string, unknown>
+}
+
+export type UpdateRentalBookingInput = {
+  customer_id?: string
+  start_at?: Date
+  end_at?: Date
+  quantity?: number
+  metadata?: Record<string, unknown>
+}
+
+export type RentalBookingCheckOutInput = {
+  inspected_at?: Date
+  inspected_by?: string | null
+  inspections?: RentalInspectionDetailsInput[]
+}
+
+export type RentalBookingCheckInInput = RentalBookingCheckOutInput & {
+  release_deposit?: boolean
+  deposit_deductions?: CreateRentalDepositDeductionInput[]
+}
@@ -0,0 +1,70 @@
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from "class-validator"
+import { Type } from "class-transformer"
+import { IsType } from "@medusajs/medusa/dist/utils/validators/is-type"
+import { DateComparisonOperator } from "@medusajs/medusa/dist/types/common"
+import { RentalCancellationRule } from "../models"
+
+/**
+ * API Level DTOs + Validation rules
+ */
+export class FilterableRentalCancellationPolicyProps {
+  @IsOptional()
+  @IsType([String, [String]])
+  id?: string | string[]
+
+  @IsString()
+  @IsOptional()
+  q?: string
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  created_at?: DateComparisonOperator
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  updated_at?: DateComparisonOperator
+}
+
+export class RentalCancellationRuleReq {
+  @IsInt()
+  @Min(0)
+  min_hours_before: number
+
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  refund_percentage: number
+}
+
+/**
+ * Service Level DTOs
+ */
+
+export type CreateRentalCancellationPolicyInput = {
+  name: string
+  description?: string | null
+  rules: RentalCancellationRule[]
+  metadata?: Record<string, unknown>
+}
+
+export type UpdateRentalCancellationPolicyInput =
+  Partial<CreateRentalCancellationPolicyInput>
+
+/**
+ * The refund of a booking canceled under a cancellation policy. The amount
+ * is only known if the amount paid for the booking is.
+ */
+export type RentalCancellationRefund = {
+  policy_id: string | null
+  refund_percentage: number
+  refund_amount: number | null
+}
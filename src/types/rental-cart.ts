@@ -0,0 +1,12 @@
+/**
+ * Service Level DTOs
+ */
+
+export type AddRentalCartItemInput = {
+  variant_id: string
+  start_at: Date
+  end_at: Date
+  quantity?: number
+  hold_id?: string
+  metadata?: Record<string, unknown>
+}
@@ -1,11 +1,57 @@
+import { IsOptional, IsString, ValidateNested } from "class-validator"
+import { Type } from "class-transformer"
+import { IsType } from "@medusajs/medusa/dist/utils/validators/is-type"
+import { DateComparisonOperator } from "@medusajs/medusa/dist/types/common"
+
+/**
+ * API Level DTOs + Validation rules
+ */
+export class FilterableRentalCollectionProps {
+  @IsOptional()
+  @IsType([String, [String]])
+  id?: string | string[]
+
+  @IsString()
+  @IsOptional()
+  q?: string
+
+  @IsOptional()
+  @IsType([String, [String]])
+  title?: string | string[]
+
+  @IsOptional()
+  @IsType([String, [String]])
+  handle?: string | string[]
+
+  @IsString()
+  @IsOptional()
+  discount_condition_id?: string
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  created_at?: DateComparisonOperator
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  updated_at?: DateComparisonOperator
+}
+
+/**
+ * Service Level DTOs
+ */
+
 export type CreateRentalCollection = {
   title: string
   handle?: string
+  cancellation_policy_id?: string | null
   metadata?: Record<string, unknown>
 }
 
 export type UpdateRentalCollection = {
   title?: string
   handle?: string
+  cancellation_policy_id?: string | null
   metadata?: Record<string, unknown>
 }
@@ -0,0 +1,24 @@
+import { ConfigModule } from "@medusajs/medusa/dist/types/global"
+
+/**
+ * The rental options of the project, set under `projectConfig.rentals` in
+ * `medusa-config.js`. Medusa's config loader only keeps the project config,
+ * modules, feature flags and plugins of the config file.
+ */
+export type RentalConfig = {
+  /**
+   * The number of minutes the items added to a cart are held for.
+   */
+  hold_ttl_minutes?: number
+  /**
+   * The number of minutes a waiting customer is given to book the items
+   * that freed up.
+   */
+  waitlist_hold_ttl_minutes?: number
+}
+
+export type RentalConfigModule = ConfigModule & {
+  projectConfig: ConfigModule["projectConfig"] & {
+    rentals?: RentalConfig
+  }
+}
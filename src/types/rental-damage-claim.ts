@@ -0,0 +1,100 @@
+import {
+  IsEnum,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from "class-validator"
+import { Type } from "class-transformer"
+import { IsType } from "@medusajs/medusa/dist/utils/validators/is-type"
+import { DateComparisonOperator } from "@medusajs/medusa/dist/types/common"
+import { RentalDamageClaimStatus } from "../models"
+
+/**
+ * API Level DTOs + Validation rules
+ */
+export class FilterableRentalDamageClaimProps {
+  @IsOptional()
+  @IsType([String, [String]])
+  id?: string | string[]
+
+  @IsOptional()
+  @IsType([String, [String]])
+  booking_id?: string | string[]
+
+  @IsOptional()
+  @IsType([String, [String]])
+  unit_id?: string | string[]
+
+  @IsOptional()
+  @IsEnum(RentalDamageClaimStatus, { each: true })
+  status?: RentalDamageClaimStatus[]
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  created_at?: DateComparisonOperator
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  updated_at?: DateComparisonOperator
+}
+
+export class RentalDamageClaimItemReq {
+  @IsString()
+  description: string
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  quantity?: number
+
+  @IsInt()
+  @Min(0)
+  unit_cost: number
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Service Level DTOs
+ */
+
+export type RentalDamageClaimItemInput = {
+  description: string
+  quantity?: number
+  unit_cost: number
+  metadata?: Record<string, unknown>
+}
+
+export type CreateRentalDamageClaimInput = {
+  booking_id: string
+  inspection_id?: string
+  unit_id?: string
+  description?: string
+  items?: RentalDamageClaimItemInput[]
+  images?: string[]
+  created_by?: string | null
+  metadata?: Record<string, unknown>
+}
+
+export type UpdateRentalDamageClaimInput = {
+  description?: string
+  items?: RentalDamageClaimItemInput[]
+  images?: string[]
+  metadata?: Record<string, unknown>
+}
+
+export type SettleRentalDamageClaimInput = {
+  /**
+   * Whether to take the charges from the deposit of the booking, as far as
+   * it goes, before billing the rest to the customer.
+   */
+  charge_deposit?: boolean
+  settled_by?: string | null
+}
@@ -0,0 +1,37 @@
+import { IsInt, IsString, Min } from "class-validator"
+
+/**
+ * API Level DTOs + Validation rules
+ */
+export class RentalDepositAmountReq {
+  @IsString()
+  region_id: string
+
+  @IsInt()
+  @Min(0)
+  amount: number
+}
+
+/**
+ * Service Level DTOs
+ */
+
+export type RentalDepositOwner = { rental_id: string } | { variant_id: string }
+
+export type RentalDepositAmountInput = {
+  region_id: string
+  amount: number
+}
+
+export type TakeRentalDepositInput = {
+  region_id: string
+  provider_id?: string
+  capture?: boolean
+}
+
+export type CreateRentalDepositDeductionInput = {
+  amount: number
+  reason: string
+  created_by?: string | null
+  metadata?: Record<string, unknown>
+}
@@ -0,0 +1,19 @@
+/**
+ * Service Level DTOs
+ */
+
+export type CreateRentalHoldInput = {
+  variant_id: string
+  cart_id?: string
+  customer_id?: string
+  start_at: Date
+  end_at: Date
+  quantity?: number
+  ttl_minutes?: number
+  metadata?: Record<string, unknown>
+}
+
+export type UpdateRentalHoldInput = {
+  cart_id?: string
+  metadata?: Record<string, unknown>
+}
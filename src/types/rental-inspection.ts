@@ -0,0 +1,77 @@
+import {
+  IsArray,
+  IsEnum,
+  IsObject,
+  IsOptional,
+  IsString,
+} from "class-validator"
+import { IsType } from "@medusajs/medusa/dist/utils/validators/is-type"
+import { RentalInspectionType, RentalUnitCondition } from "../models"
+
+/**
+ * API Level DTOs + Validation rules
+ */
+export class FilterableRentalInspectionProps {
+  @IsOptional()
+  @IsType([String, [String]])
+  id?: string | string[]
+
+  @IsOptional()
+  @IsType([String, [String]])
+  booking_id?: string | string[]
+
+  @IsOptional()
+  @IsType([String, [String]])
+  unit_id?: string | string[]
+
+  @IsOptional()
+  @IsEnum(RentalInspectionType, { each: true })
+  type?: RentalInspectionType[]
+}
+
+export class RentalInspectionReq {
+  @IsString()
+  @IsOptional()
+  unit_id?: string
+
+  @IsEnum(RentalUnitCondition)
+  @IsOptional()
+  condition?: RentalUnitCondition
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  images?: string[]
+
+  @IsObject()
+  @IsOptional()
+  meter_readings?: Record<string, number>
+
+  @IsString()
+  @IsOptional()
+  notes?: string
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Service Level DTOs
+ */
+
+export type RentalInspectionDetailsInput = {
+  unit_id?: string
+  condition?: RentalUnitCondition
+  images?: string[]
+  meter_readings?: Record<string, number>
+  notes?: string
+  metadata?: Record<string, unknown>
+}
+
+export type CreateRentalInspectionInput = RentalInspectionDetailsInput & {
+  type: RentalInspectionType
+  booking_id: string
+  inspected_at?: Date
+  inspected_by?: string | null
+}
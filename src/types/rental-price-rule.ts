@@ -0,0 +1,86 @@
+import { IsEnum, IsOptional, IsString, ValidateNested } from "class-validator"
+import { Type } from "class-transformer"
+import { IsType } from "@medusajs/medusa/dist/utils/validators/is-type"
+import { DateComparisonOperator } from "@medusajs/medusa/dist/types/common"
+import { RentalPriceRuleAdjustmentType } from "../models"
+
+/**
+ * API Level DTOs + Validation rules
+ */
+export class FilterableRentalPriceRuleProps {
+  @IsOptional()
+  @IsType([String, [String]])
+  id?: string | string[]
+
+  @IsString()
+  @IsOptional()
+  q?: string
+
+  @IsOptional()
+  @IsEnum(RentalPriceRuleAdjustmentType, { each: true })
+  adjustment_type?: RentalPriceRuleAdjustmentType[]
+
+  @IsOptional()
+  @IsType([String, [String]])
+  rental_collection_id?: string | string[]
+
+  @IsOptional()
+  @IsType([String, [String]])
+  rental_type_id?: string | string[]
+
+  @IsOptional()
+  @IsType([String, [String]])
+  rental_id?: string | string[]
+
+  @IsOptional()
+  @IsType([String, [String]])
+  variant_id?: string | string[]
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  created_at?: DateComparisonOperator
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DateComparisonOperator)
+  updated_at?: DateComparisonOperator
+}
+
+/**
+ * Service Level DTOs
+ */
+
+export type CreateRentalPriceRuleInput = {
+  name: string
+  adjustment_type: RentalPriceRuleAdjustmentType
+  value: number
+  currency_code?: string | null
+  starts_at?: Date | null
+  ends_at?: Date | null
+  weekdays?: number[] | null
+  priority?: number
+  rental_collection_id?: string | null
+  rental_type_id?: string | null
+  rental_id?: string | null
+  variant_id?: string | null
+  metadata?: Record<string, unknown>
+}
+
+export type UpdateRentalPriceRuleInput = Partial<CreateRentalPriceRuleInput>
+
+export type RentalPriceRuleContext = {
+  currency_code: string
+  quantity: number
+}
+
+/**
+ * The amount a price rule adds to, or takes off, the price of a rental.
+ */
+export type RentalPriceRuleAdjustment = {
+  rule_id: string
+  name: string
+  adjustment_type: RentalPriceRuleAdjustmentType
+  value: number
+  amount: number
+}
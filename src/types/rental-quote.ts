@@ -0,0 +1,50 @@
+import { RentalPriceDurationUnit } from "../models"
+
+/**
+ * Service Level DTOs
+ */
+
+export enum RentalQuoteLineType {
+  BASE = "base",
+  ADJUSTMENT = "adjustment",
+  DISCOUNT = "discount",
+  TAX = "tax",
+  DEPOSIT = "deposit",
+}
+
+export type RentalQuoteContext = {
+  region_id: string
+  customer_id?: string
+  quantity?: number
+  override?: boolean
+}
+
+/**
+ * A line of a quote. Discounts have negative amounts. Amounts are for the
+ * whole quantity of the quote.
+ */
+export type RentalQuoteLine = {
+  type: RentalQuoteLineType
+  label: string
+  duration_unit?: RentalPriceDurationUnit | null
+  count?: number
+  unit_price?: number
+  rate?: number
+  rule_id?: string
+  amount: number
+}
+
+export type RentalQuote = {
+  variant_id: string
+  start_at: Date
+  end_at: Date
+  region_id: string
+  currency_code: string
+  quantity: number
+  lines: RentalQuoteLine[]
+  subtotal: number
+  discount_total: number
+  tax_total: number
+  deposit_total: number
+  total: number
+}
@@ -0,0 +1,10 @@
+/**
+ * Service Level DTOs
+ */
+
+export type CreateRentalTagInput = {
+  value: string
+  metadata?: Record<string, unknown>
+}
+
+export type UpdateRentalTagInput = Partial<CreateRentalTagInput>
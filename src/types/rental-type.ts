@@ -0,0 +1,18 @@
+import { RentalLateFeeUnit } from "../models"
+
+/**
+ * Service Level DTOs
+ */
+
+export type CreateRentalTypeInput = {
+  value: string
+  buffer_before?: number | null
+  buffer_after?: number | null
+  late_fee_unit?: RentalLateFeeUnit | null
+  late_fee_amount?: number | null
+  late_fee_grace_period?: number | null
+  cancellation_policy_id?: string | null
+  metadata?: Record<string, unknown>
+}
+
+export type UpdateRentalTypeInput = Partial<CreateRentalTypeInput>
@@ -0,0 +1,51 @@
+import { IsEnum, IsOptional, IsString } from "class-validator"
+import { IsType } from "@medusajs/medusa/dist/utils/validators/is-type"
+import { RentalUnitCondition, RentalUnitStatus } from "../models"
+
+/**
+ * API Level DTOs + Validation rules
+ */
+export class FilterableRentalUnitProps {
+  @IsOptional()
+  @IsType([String, [String]])
+  id?: string | string[]
+
+  @IsString()
+  @IsOptional()
+  serial_number?: string
+
+  @IsString()
+  @IsOptional()
+  location?: string
+
+  @IsOptional()
+  @IsEnum(RentalUnitStatus, { each: true })
+  status?: RentalUnitStatus[]
+
+  @IsOptional()
+  @IsEnum(RentalUnitCondition, { each: true })
+  condition?: RentalUnitCondition[]
+}
+
+/**
+ * Service Level DTOs
+ */
+
+export type CreateRentalUnitInput = {
+  variant_id: string
+  serial_number: string
+  condition?: RentalUnitCondition
+  status?: RentalUnitStatus
+  location?: string
+  acquired_at?: Date
+  metadata?: Record<string, unknown>
+}
+
+export type UpdateRentalUnitInput = {
+  serial_number?: string
+  condition?: RentalUnitCondition
+  status?: RentalUnitStatus
+  location?: string
+  acquired_at?: Date
+  metadata?: Record<string, unknown>
+}
@@ -1,5 +1,6 @@
 import {
   IsBoolean,
+  IsEnum,
   IsInt,
   IsOptional,
   IsString,
@@ -14,6 +15,12 @@ import {
   StringComparisonOperator,
 } from "@medusajs/medusa/dist/types/common"
 import { XorConstraint } from "@medusajs/medusa/dist/types/validators/xor"
+import {
+  RentalDurationUnit,
+  RentalLateFeeUnit,
+  RentalPriceDurationUnit,
+} from "../models"
+import { RentalDepositAmountInput } from "./rental-deposit"
 
 export type RentalVariantPrice = {
   id?: string
@@ -22,6 +29,7 @@ export type RentalVariantPrice = {
   amount: number
   min_quantity?: number
   max_quantity?: number
+  duration_unit?: RentalPriceDurationUnit | null
 }
 
 export type GetRegionPriceContext = {
@@ -31,6 +39,113 @@ export type GetRegionPriceContext = {
   include_discount_prices?: boolean
 }
 
+export type RentalVariantPricingContext = {
+  region_id?: string
+  currency_code?: string
+  customer_id?: string
+  include_discount_prices?: boolean
+}
+
+export type RentalVariantPricing = {
+  original_price: number | null
+  calculated_price: number | null
+}
+
+export enum RentalAvailabilityGranularity {
+  DAY = "day",
+  HOUR = "hour",
+}
+
+export type RentalVariantAvailabilitySlot = {
+  from: Date
+  to: Date
+  available_quantity: number
+  blacked_out: boolean
+  blackout_reason: string | null
+}
+
+export type RentalVariantAvailability = {
+  variant_id: string
+  from: Date
+  to: Date
+  granularity: RentalAvailabilityGranularity
+  inventory_quantity: number
+  buffer: RentalBuffer
+  duration_rules: RentalDurationRules
+  /**
+   * Why a booking of the whole period would break the duration rules, if it
+   * would.
+   */
+  duration_error: string | null
+  slots: RentalVariantAvailabilitySlot[]
+}
+
+/**
+ * The number of minutes before and after each booking during which the
+ * booked items are held, e.g. to prepare, clean or inspect them.
+ */
+export type RentalBuffer = {
+  before: number
+  after: number
+}
+
+/**
+ * The fee charged for each item of a booking returned late, per started
+ * `unit` past the end of the booking once the grace period, in minutes, has
+ * passed.
+ */
+export type RentalLateFeeSchedule = {
+  unit: RentalLateFeeUnit
+  amount: number
+  grace_period: number
+}
+
+/**
+ * The durations a variant can be booked for, counted in `duration_unit`.
+ */
+export type RentalDurationRules = {
+  duration_unit: RentalDurationUnit | null
+  min_duration: number | null
+  max_duration: number | null
+}
+
+export type RentalVariantQuoteContext = {
+  region_id?: string
+  currency_code?: string
+  quantity?: number
+}
+
+/**
+ * A number of duration units charged at the price of one unit. Prices
+ * without a duration unit are charged once.
+ */
+export type RentalVariantQuoteLine = {
+  duration_unit: RentalPriceDurationUnit | null
+  count: number
+  unit_price: number
+  amount: number
+}
+
+export type RentalVariantQuote = {
+  variant_id: string
+  from: Date
+  to: Date
+  currency_code: string
+  region_id: string | null
+  quantity: number
+  lines: RentalVariantQuoteLine[]
+  total: number
+}
+
+/**
+ * A period of time during which a quantity of a variant is reserved.
+ */
+export type RentalReservedPeriod = {
+  start_at: Date
+  end_at: Date
+  quantity: number
+}
+
 export type RentalVariantOption = {
   option_id: string
   value: string
@@ -55,6 +170,11 @@ export type CreateRentalVariantInput = {
   length?: number
   height?: number
   width?: number
+  duration_unit?: RentalDurationUnit | null
+  min_duration?: number | null
+  max_duration?: number | null
+  deposit_amount?: number | null
+  deposit_amounts?: RentalDepositAmountInput[]
   options: RentalVariantOption[]
   prices: RentalVariantPrice[]
   metadata?: Record<string, unknown>
@@ -79,6 +199,11 @@ export type UpdateRentalVariantInput = {
   length?: number
   height?: number
   width?: number
+  duration_unit?: RentalDurationUnit | null
+  min_duration?: number | null
+  max_duration?: number | null
+  deposit_amount?: number | null
+  deposit_amounts?: RentalDepositAmountInput[]
   options?: RentalVariantOption[]
   prices?: RentalVariantPrice[]
   metadata?: Record<string, unknown>
@@ -173,6 +298,10 @@ export class RentalVariantPricesUpdateReq {
   @IsOptional()
   @IsInt()
   max_quantity?: number
+
+  @IsOptional()
+  @IsEnum(RentalPriceDurationUnit)
+  duration_unit?: RentalPriceDurationUnit
 }
 
 export class RentalVariantPricesCreateReq {
@@ -192,4 +321,8 @@ export class RentalVariantPricesCreateReq {
   @IsOptional()
   @IsInt()
   max_quantity?: number
+
+  @IsOptional()
+  @IsEnum(RentalPriceDurationUnit)
+  duration_unit?: RentalPriceDurationUnit
 }
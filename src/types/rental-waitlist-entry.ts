@@ -0,0 +1,37 @@
+import { IsEnum, IsOptional, IsString } from "class-validator"
+import { IsType } from "@medusajs/medusa/dist/utils/validators/is-type"
+import { RentalWaitlistEntryStatus } from "../models"
+
+/**
+ * API Level DTOs + Validation rules
+ */
+export class FilterableRentalWaitlistEntryProps {
+  @IsOptional()
+  @IsType([String, [String]])
+  id?: string | string[]
+
+  @IsOptional()
+  @IsType([String, [String]])
+  variant_id?: string | string[]
+
+  @IsString()
+  @IsOptional()
+  customer_id?: string
+
+  @IsOptional()
+  @IsEnum(RentalWaitlistEntryStatus, { each: true })
+  status?: RentalWaitlistEntryStatus[]
+}
+
+/**
+ * Service Level DTOs
+ */
+
+export type CreateRentalWaitlistEntryInput = {
+  variant_id: string
+  customer_id: string
+  start_at: Date
+  end_at: Date
+  quantity?: number
+  metadata?: Record<string, unknown>
+}
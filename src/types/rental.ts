@@ -10,6 +10,8 @@ import {
 import SalesChannelFeatureFlag from "@medusajs/medusa/dist/loaders/feature-flags/sales-channels"
 import {
   Rental,
+  RentalDurationUnit,
+  RentalLateFeeUnit,
   RentalOptionValue,
   RentalStatus
 } from "../models"
@@ -24,6 +26,7 @@ import { IsType } from "@medusajs/medusa/dist/utils/validators/is-type"
 import { DateComparisonOperator, FindConfig, Selector } from "@medusajs/medusa/dist/types/common"
 import { PriceListLoadConfig } from "@medusajs/medusa/dist/types/price-list"
 import { FindOperator } from "typeorm"
+import { RentalDepositAmountInput } from "./rental-deposit"
 
 /**
  * API Level DTOs + Validation rules
@@ -135,6 +138,18 @@ export type CreateRentalInput = {
   origin_country?: string
   mid_code?: string
   material?: string
+  buffer_before?: number
+  buffer_after?: number
+  duration_unit?: RentalDurationUnit | null
+  min_duration?: number | null
+  max_duration?: number | null
+  late_fee_unit?: RentalLateFeeUnit | null
+  late_fee_amount?: number | null
+  late_fee_grace_period?: number | null
+  prorate_early_returns?: boolean
+  cancellation_policy_id?: string | null
+  deposit_amount?: number | null
+  deposit_amounts?: RentalDepositAmountInput[]
   metadata?: Record<string, unknown>
 }
 